@@ -9,6 +9,14 @@ import morgan from 'morgan';
 import authRoutes from './routes/authRoutes.js';
 import paymentRoutes from './routes/paymentRoutes.js';
 import fileRoutes from './routes/fileRoutes.js';
+import appointmentRoutes from './routes/appointmentRoutes.js';
+import subscriptionRoutes from './routes/subscriptionRoutes.js';
+import disputeRoutes from './routes/disputeRoutes.js';
+import chatRoutes from './routes/chatRoutes.js';
+import notificationRoutes from './routes/notificationRoutes.js';
+import jobRoutes from './routes/jobRoutes.js';
+import recordingRoutes from './routes/recordingRoutes.js';
+import consultationRoutes from './routes/consultationRoutes.js';
 
 // Import middleware
 import { fileErrorHandler } from './middleware/fileErrorHandler.js';
@@ -41,6 +49,14 @@ app.get('/api/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/documents', fileRoutes);
+app.use('/api/appointments', appointmentRoutes);
+app.use('/api/subscriptions', subscriptionRoutes);
+app.use('/api/disputes', disputeRoutes);
+app.use('/api/chat', chatRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/consultations', consultationRoutes);
+app.use('/api/recordings', recordingRoutes);
+app.use('/api/admin/jobs', jobRoutes);
 
 // Error handling middleware for files
 app.use(fileErrorHandler);
@@ -13,7 +13,8 @@ export const S3_CONFIG = {
     documents: process.env.AWS_DOCUMENTS_BUCKET || 'healthcare-documents',
     images: process.env.AWS_IMAGES_BUCKET || 'healthcare-images',
     prescriptions: process.env.AWS_PRESCRIPTIONS_BUCKET || 'healthcare-prescriptions',
-    reports: process.env.AWS_REPORTS_BUCKET || 'healthcare-reports'
+    reports: process.env.AWS_REPORTS_BUCKET || 'healthcare-reports',
+    recordings: process.env.AWS_RECORDINGS_BUCKET || 'healthcare-recordings'
   },
   baseUrl: `https://${process.env.AWS_DOCUMENTS_BUCKET}.s3.${process.env.AWS_REGION}.amazonaws.com`,
   maxFileSize: {
@@ -0,0 +1,20 @@
+export type BillingMode = 'per_minute' | 'per_block';
+
+export const BILLING_CONFIG = {
+  // per_minute charges every started minute, per_block every started block
+  mode: (process.env.CONSULTATION_BILLING_MODE === 'per_minute' ? 'per_minute' : 'per_block') as BillingMode,
+  blockMinutes: 15,
+
+  // A physician's consultationRate is the price of this many minutes
+  rateMinutes: 30,
+
+  // Not billed: connection setup, or running slightly into the next block
+  graceMinutes: 2,
+
+  // Held from the patient's wallet when the session starts; the charge never exceeds it
+  holdMinutes: 60,
+
+  // Holds on sessions still in progress this long after starting are released
+  abandonedAfterMs: 4 * 60 * 60 * 1000,
+  settleIntervalMs: 15 * 60 * 1000
+};
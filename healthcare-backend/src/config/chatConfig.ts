@@ -0,0 +1,18 @@
+import { S3_CONFIG } from './awsConfig.js';
+
+export const CHAT_CONFIG = {
+  // Messages per history page, and the most a client may ask for
+  historyPageSize: 50,
+  maxHistoryPageSize: 100,
+
+  attachments: {
+    maxFileSize: 25 * 1024 * 1024, // 25MB
+    maxPerMessage: 5,
+    allowedMimeTypes: [
+      ...S3_CONFIG.allowedFileTypes.images,
+      ...S3_CONFIG.allowedFileTypes.documents
+    ],
+    // Uploads are stored under chat/<conversationId>/ in these buckets
+    folder: 'chat'
+  }
+};
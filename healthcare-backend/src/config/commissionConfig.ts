@@ -0,0 +1,8 @@
+export const COMMISSION_CONFIG = {
+  // Applied when no commission rule matches a consultation
+  defaultPlatformFeePercent: 15,
+  defaultHospitalSharePercent: 0,
+
+  // Category used for hospital revenue rows in hospital_financial_data
+  hospitalRevenueCategory: 'consultations'
+};
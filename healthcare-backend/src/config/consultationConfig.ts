@@ -0,0 +1,24 @@
+export const CONSULTATION_CONFIG = {
+  // Every participant connects to every other one, which gets heavy beyond a
+  // handful of people; an SFU would lift this
+  topology: 'mesh' as const,
+  maxParticipants: 6,
+
+  // Roles that join by invitation, and who may invite them
+  guestRoles: ['caregiver', 'interpreter', 'consulting_physician'] as const,
+  invitableBy: {
+    patient: ['caregiver', 'interpreter'],
+    physician: ['caregiver', 'interpreter', 'consulting_physician']
+  } as Record<string, readonly string[]>,
+
+  invitationTtlHours: 24,
+  maxInvitationTtlHours: 72,
+  invitationUrl: `${process.env.CLIENT_ORIGIN || 'http://localhost:3000'}/consultation/invite`,
+
+  // Steps a call takes down on a weak connection, best first; the client
+  // decides when to move and the server records each move
+  mediaModes: ['full', 'reduced', 'audio_only', 'chat'] as const,
+  mediaModeReasons: ['degraded', 'recovered'] as const
+};
+
+export type GuestRole = typeof CONSULTATION_CONFIG.guestRoles[number];
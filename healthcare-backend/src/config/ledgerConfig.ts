@@ -0,0 +1,67 @@
+export const LEDGER_CONFIG = {
+  currency: 'NGN',
+
+  // Platform-owned accounts that are not backed by a user wallet
+  systemAccounts: {
+    platformFees: {
+      code: 'SYS_PLATFORM_FEES',
+      name: 'Platform fees',
+      accountType: 'platform_fees',
+      normalBalance: 'credit'
+    },
+    paystackClearing: {
+      code: 'SYS_PAYSTACK_CLEARING',
+      name: 'Paystack clearing',
+      accountType: 'paystack_clearing',
+      normalBalance: 'debit'
+    },
+    flutterwaveClearing: {
+      code: 'SYS_FLUTTERWAVE_CLEARING',
+      name: 'Flutterwave clearing',
+      accountType: 'flutterwave_clearing',
+      normalBalance: 'debit'
+    },
+    testClearing: {
+      code: 'SYS_TEST_CLEARING',
+      name: 'Test provider clearing',
+      accountType: 'test_clearing',
+      normalBalance: 'debit'
+    },
+    payoutHolds: {
+      code: 'SYS_PAYOUT_HOLDS',
+      name: 'Payouts awaiting transfer',
+      accountType: 'payout_holds',
+      normalBalance: 'credit'
+    },
+    subscriptionRevenue: {
+      code: 'SYS_SUBSCRIPTION_REVENUE',
+      name: 'Subscription revenue',
+      accountType: 'subscription_revenue',
+      normalBalance: 'credit'
+    },
+    disputeHolds: {
+      code: 'SYS_DISPUTE_HOLDS',
+      name: 'Funds frozen by open disputes',
+      accountType: 'dispute_holds',
+      normalBalance: 'credit'
+    },
+    consultationHolds: {
+      code: 'SYS_CONSULTATION_HOLDS',
+      name: 'Consultation fees held until the session ends',
+      accountType: 'consultation_holds',
+      normalBalance: 'credit'
+    }
+  },
+
+  // Wallets are liabilities owed to the user, so credits increase them
+  walletAccountTypes: {
+    PHYSICIAN: 'physician_earnings',
+    default: 'patient_wallet'
+  },
+  walletNormalBalance: 'credit',
+
+  // Revenue owed to a hospital for consultations by its physicians
+  hospitalAccountType: 'hospital_revenue'
+} as const;
+
+export type SystemAccountKey = keyof typeof LEDGER_CONFIG.systemAccounts;
@@ -0,0 +1,59 @@
+export const NOTIFICATION_CHANNELS = ['in_app', 'email', 'sms', 'push'] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+// Preference keys; the first four match the settings the apps already show
+export const NOTIFICATION_CATEGORIES = [
+  'appointments',
+  'prescriptions',
+  'emergency_alerts',
+  'health_reminders',
+  'chat',
+  'billing',
+  'general'
+] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+export const NOTIFICATION_CONFIG = {
+  // Channels used when the user has no preference for a category
+  defaultChannels: {
+    appointments: ['in_app', 'email', 'push'],
+    prescriptions: ['in_app', 'email', 'push'],
+    emergency_alerts: ['in_app', 'sms', 'push', 'email'],
+    health_reminders: ['in_app', 'push'],
+    chat: ['in_app', 'push'],
+    billing: ['in_app', 'email'],
+    general: ['in_app']
+  } satisfies Record<NotificationCategory, NotificationChannel[]>,
+
+  // Sent straight away, ignoring quiet hours and digests
+  urgentCategories: ['emergency_alerts'] as NotificationCategory[],
+
+  // Quiet hours are read in this timezone when the user has not set one
+  defaultTimezone: 'Africa/Lagos',
+
+  // Failed sends are retried with exponential backoff
+  maxAttempts: 3,
+  retryDelayMs: 60 * 1000,
+
+  // How often deferred and retried deliveries are picked up, and how many at once
+  dispatchIntervalMs: 60 * 1000,
+  dispatchBatchSize: 100,
+
+  // Categories a user puts on digest are collected and sent this often
+  digestIntervalMs: 3 * 60 * 60 * 1000,
+
+  sms: {
+    apiKey: process.env.TERMII_API_KEY,
+    senderId: process.env.TERMII_SENDER_ID || 'HealthCare',
+    baseUrl: 'https://api.ng.termii.com/api'
+  },
+
+  push: {
+    vapidPublicKey: process.env.VAPID_PUBLIC_KEY,
+    vapidPrivateKey: process.env.VAPID_PRIVATE_KEY,
+    subject: process.env.VAPID_SUBJECT || 'mailto:support@healthcare.ng',
+    ttlSeconds: 24 * 60 * 60
+  }
+};
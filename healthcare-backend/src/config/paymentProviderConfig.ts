@@ -0,0 +1,43 @@
+import type { SystemAccountKey } from './ledgerConfig.js';
+
+export const PAYMENT_PROVIDERS = ['paystack', 'flutterwave', 'bank_transfer', 'fake'] as const;
+
+export type PaymentProviderName = typeof PAYMENT_PROVIDERS[number];
+
+export const PAYMENT_PROVIDER_CONFIG = {
+  // Used when a payment does not ask for a specific provider
+  defaultProvider: (process.env.PAYMENT_PROVIDER || 'paystack') as PaymentProviderName,
+
+  // Physician payouts go through this provider
+  payoutProvider: (process.env.PAYOUT_PROVIDER || 'paystack') as PaymentProviderName,
+
+  // Comma separated list of providers that may take payments
+  enabled: (process.env.PAYMENT_PROVIDERS || 'paystack')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean) as PaymentProviderName[],
+
+  // Settled funds sit in the provider's clearing account until paid out.
+  // Bank-transfer virtual accounts are issued and settled by Flutterwave.
+  clearingAccounts: {
+    paystack: 'paystackClearing',
+    flutterwave: 'flutterwaveClearing',
+    bank_transfer: 'flutterwaveClearing',
+    fake: 'testClearing'
+  } satisfies Record<PaymentProviderName, SystemAccountKey>,
+
+  flutterwave: {
+    secretKey: process.env.FLUTTERWAVE_SECRET_KEY!,
+    baseUrl: process.env.FLUTTERWAVE_BASE_URL || 'https://api.flutterwave.com/v3',
+    webhookHash: process.env.FLUTTERWAVE_WEBHOOK_HASH!,
+    // One-time virtual accounts for bank transfers expire after this long
+    virtualAccountExpirySeconds: 3600
+  },
+
+  // In-memory provider for local development and tests; never enabled in
+  // production. Its webhooks are refused until a secret is set.
+  fake: {
+    webhookSecret: process.env.FAKE_PROVIDER_WEBHOOK_SECRET,
+    checkoutUrl: process.env.FAKE_PROVIDER_CHECKOUT_URL || 'http://localhost:3000/fake-checkout'
+  }
+};
@@ -1,7 +1,8 @@
 export const PAYSTACK_CONFIG = {
   secretKey: process.env.PAYSTACK_SECRET_KEY!,
   publicKey: process.env.PAYSTACK_PUBLIC_KEY!,
-  baseUrl: 'https://api.paystack.co',
+  // Point at a local stand-in (see src/testing/fakePaystackServer.ts) during development
+  baseUrl: process.env.PAYSTACK_BASE_URL || 'https://api.paystack.co',
   webhookSecret: process.env.PAYSTACK_WEBHOOK_SECRET!,
   currency: 'NGN',
   
@@ -15,7 +16,10 @@ export const PAYSTACK_CONFIG = {
     walletFundingMin: 10000, // 100 NGN
     walletFundingMax: 50000000, // 500,000 NGN
     consultationMin: 500000, // 5,000 NGN
-    consultationMax: 5000000 // 50,000 NGN
+    consultationMax: 5000000, // 50,000 NGN
+    withdrawalMin: 100000, // 1,000 NGN
+    withdrawalMax: 100000000, // 1,000,000 NGN
+    withdrawalAutoApproveMax: 5000000 // 50,000 NGN; larger payouts need an admin
   },
   
   // Webhook events to handle
@@ -23,8 +27,20 @@ export const PAYSTACK_CONFIG = {
     'charge.success',
     'transfer.success',
     'transfer.failed',
-    'refund.processed'
-  ]
+    'transfer.reversed',
+    'refund.processed',
+    'subscription.create',
+    'subscription.not_renew',
+    'subscription.disable',
+    'invoice.update',
+    'invoice.payment_failed'
+  ],
+
+  // Failed webhook events are retried up to this many times before dead-lettering
+  webhookMaxAttempts: 5,
+  // An event still `processing` after this long was left by a crashed or
+  // timed-out worker and can be claimed again
+  webhookProcessingTimeoutMs: 5 * 60 * 1000
 };
 
 // Initialize Paystack
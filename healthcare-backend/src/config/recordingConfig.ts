@@ -0,0 +1,34 @@
+import { S3_CONFIG } from './awsConfig.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const RECORDING_CONFIG = {
+  // 32 bytes, base64. Encrypts each recording's data key; recording is unavailable without it.
+  // Keys are looked up by id so an old key can stay readable after rotation.
+  masterKeys: {
+    [process.env.RECORDING_MASTER_KEY_ID || 'v1']: process.env.RECORDING_MASTER_KEY
+  } as Record<string, string | undefined>,
+  activeKeyId: process.env.RECORDING_MASTER_KEY_ID || 'v1',
+
+  // Chunks are stored under consultations/<sessionId>/<recordingId>/
+  bucket: S3_CONFIG.buckets.recordings,
+  folder: 'consultations',
+
+  // The other participant has this long to answer a recording request
+  consentTimeoutMs: 2 * 60 * 1000,
+
+  // The browser uploads a chunk every few seconds
+  maxChunkSize: 10 * 1024 * 1024, // 10MB
+  maxChunks: 2000,
+  // Chunks recorded before a stop are still accepted this long after it
+  stoppedUploadGraceMs: 60 * 1000,
+  allowedMimeTypes: ['video/webm', 'audio/webm', 'video/mp4', 'audio/mp4'],
+
+  // Completed recordings form part of the medical record
+  retentionMs: 10 * 365 * DAY,
+  // Recordings never completed (the browser closed mid-upload) are kept this long
+  incompleteRetentionMs: 30 * DAY,
+
+  // How often expired recordings and unanswered requests are cleared up
+  purgeIntervalMs: 6 * 60 * 60 * 1000
+};
@@ -0,0 +1,13 @@
+export const REFUND_CONFIG = {
+  // Used when no refund policy exists for an appointment type
+  defaultPolicy: {
+    fullRefundHoursBefore: 24,
+    partialRefundHoursBefore: 2,
+    partialRefundPercent: 50
+  },
+
+  // A virtual session shorter than this is treated as not having happened
+  minimumBillableMinutes: 1,
+
+  hospitalRefundCategory: 'consultation_refunds'
+};
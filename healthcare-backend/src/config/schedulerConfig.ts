@@ -0,0 +1,33 @@
+const HOUR = 60 * 60 * 1000;
+
+export const SCHEDULER_CONFIG = {
+  // How often each instance looks for due jobs, and how many it claims at once
+  pollIntervalMs: 15 * 1000,
+  batchSize: 20,
+
+  // A running job whose instance has not finished it in this long is handed to another
+  lockTimeoutMs: 10 * 60 * 1000,
+
+  // Failed jobs are retried with exponential backoff, then left as failed for an admin
+  maxAttempts: 5,
+  retryDelayMs: 60 * 1000,
+
+  // How often appointments are scanned for reminders, nudges and follow-ups to queue
+  planningIntervalMs: 15 * 60 * 1000,
+
+  // Patients are reminded this long before a confirmed appointment starts
+  appointmentReminders: [
+    { key: '24h', offsetMs: 24 * HOUR },
+    { key: '1h', offsetMs: 1 * HOUR }
+  ],
+
+  // Physicians are nudged about requests left pending this long, at most once per interval
+  approvalNudgeAfterMs: 2 * HOUR,
+  approvalNudgeIntervalMs: 12 * HOUR,
+
+  // The follow-up questionnaire goes out this long after a consultation ends
+  followUpDelayMs: 24 * HOUR,
+  // Completed consultations this recent are picked up by the scan if nothing queued them
+  followUpLookbackMs: 3 * 24 * HOUR,
+  followUpUrl: `${process.env.CLIENT_ORIGIN || 'http://localhost:3000'}/follow-up`
+};
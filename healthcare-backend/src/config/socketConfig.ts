@@ -0,0 +1,45 @@
+export const SOCKET_CONFIG = {
+  // 'redis' shares rooms and presence between instances; 'memory' keeps them in-process
+  adapter: (process.env.SOCKET_ADAPTER || (process.env.REDIS_URL ? 'redis' : 'memory')) as 'redis' | 'memory',
+  redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+  keyPrefix: 'heala:socket',
+
+  // Each instance refreshes a heartbeat so connections left behind by a
+  // crashed instance stop counting towards presence
+  instanceHeartbeatMs: 15000,
+  instanceTtlMs: 45000,
+
+  // Offline presence is forgotten after this long
+  offlineRetentionMs: 300000, // 5 minutes
+
+  // Most user ids a single presence:query may ask about
+  presenceQueryLimit: 100,
+
+  // Token buckets per user and event; events not listed use the default
+  rateLimits: {
+    default: { capacity: 20, refillPerSecond: 5 },
+    events: {
+      'chat:message': { capacity: 10, refillPerSecond: 1 },
+      'chat:history': { capacity: 10, refillPerSecond: 1 },
+      'chat:typing:start': { capacity: 10, refillPerSecond: 2 },
+      'chat:typing:stop': { capacity: 10, refillPerSecond: 2 },
+      'consultation:offer': { capacity: 10, refillPerSecond: 1 },
+      'consultation:answer': { capacity: 10, refillPerSecond: 1 },
+      // Candidates arrive in bursts while a call is negotiated
+      'consultation:ice-candidate': { capacity: 100, refillPerSecond: 20 },
+      // Each request prompts the other participant
+      'consultation:recording:request': { capacity: 3, refillPerSecond: 0.1 },
+      // Clients step modes down and up with hysteresis, so changes are rare
+      'consultation:media_mode': { capacity: 5, refillPerSecond: 0.2 },
+      // Each check-in re-sends the device check and intake answers
+      'waiting_room:check_in': { capacity: 5, refillPerSecond: 0.1 },
+      'notifications:subscribe': { capacity: 5, refillPerSecond: 0.2 },
+      'presence:query': { capacity: 10, refillPerSecond: 1 }
+    } as Record<string, { capacity: number; refillPerSecond: number }>,
+    sweepIntervalMs: 60000
+  },
+
+  // On shutdown clients get this long to move to another instance before
+  // the remaining sockets are disconnected
+  drainTimeoutMs: 10000
+};
@@ -0,0 +1,24 @@
+export interface PlanEntitlements {
+  monthlyBookings: number; // -1 for unlimited
+  monthlyVirtualConsultations: number; // -1 for unlimited
+  aiAssistant: boolean;
+}
+
+export const SUBSCRIPTION_CONFIG = {
+  // What a patient without a paid subscription can use
+  freeEntitlements: {
+    monthlyBookings: 3,
+    monthlyVirtualConsultations: 1,
+    aiAssistant: false
+  } as PlanEntitlements,
+  freePlanCode: 'basic',
+
+  // After a failed renewal the subscription keeps working for this long
+  gracePeriodDays: 7,
+
+  // Reminder schedule during the grace period, in days after the failed renewal
+  dunningReminderDays: [1, 3, 5],
+
+  // How often the dunning job runs
+  dunningCheckIntervalMs: 60 * 60 * 1000
+};
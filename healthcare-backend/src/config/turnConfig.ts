@@ -0,0 +1,18 @@
+const list = (value: string | undefined) =>
+  (value || '').split(',').map(url => url.trim()).filter(Boolean);
+
+export const TURN_CONFIG = {
+  // Shared with coturn's static-auth-secret (use-auth-secret); TURN is left out without it
+  secret: process.env.TURN_SECRET,
+  // e.g. "turn:turn.healthcare.ng:3478?transport=udp,turns:turn.healthcare.ng:5349?transport=tcp"
+  urls: list(process.env.TURN_URLS),
+  stunUrls: list(process.env.STUN_URLS).length > 0
+    ? list(process.env.STUN_URLS)
+    : ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'],
+
+  // Long enough for a consultation; clients fetch fresh credentials for an ICE restart
+  credentialTtlSeconds: 2 * 60 * 60,
+
+  // Sessions in these states can get credentials
+  activeSessionStatuses: ['scheduled', 'in_progress']
+};
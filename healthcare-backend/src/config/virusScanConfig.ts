@@ -0,0 +1,12 @@
+export const VIRUS_SCAN_CONFIG = {
+  // clamd listening on TCP (TCPSocket in clamd.conf); uploads that need a
+  // scan stay pending without it
+  host: process.env.CLAMAV_HOST,
+  port: parseInt(process.env.CLAMAV_PORT || '3310', 10),
+
+  // A scan that takes longer than this counts as failed, not clean
+  timeoutMs: 30 * 1000,
+
+  // Bytes per INSTREAM chunk; must stay under clamd's StreamMaxLength in total
+  chunkSize: 64 * 1024
+};
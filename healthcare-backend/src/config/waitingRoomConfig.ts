@@ -0,0 +1,41 @@
+export const WAITING_ROOM_CONFIG = {
+  // Patients can check in this long before the appointment starts
+  checkInOpensMinutes: 15,
+
+  // Roles that wait for the physician to admit the session before joining the
+  // room; consulting physicians join straight away
+  admissionRequiredFor: ['patient', 'caregiver', 'interpreter'] as readonly string[],
+
+  // With a patient waiting, the physician counts as late this long after the
+  // start; the patient is then notified and offered another time
+  physicianLateMinutes: 10,
+
+  // Wait estimates average the physician's recent consultations, or use the
+  // default until there are some
+  averageOverSessions: 20,
+  defaultConsultationMinutes: 20,
+
+  // Asked before the patient joins the queue
+  intakeQuestions: [
+    { id: 'reason', label: 'What would you like to discuss today?', type: 'text', required: true },
+    { id: 'symptoms_since', label: 'When did your symptoms start?', type: 'text', required: false },
+    { id: 'medications', label: 'Which medications are you currently taking?', type: 'text', required: false },
+    { id: 'allergies', label: 'Do you have any allergies?', type: 'text', required: false },
+    { id: 'pain_level', label: 'How would you rate any pain, from 0 to 10?', type: 'scale', required: false }
+  ] as const,
+  maxAnswerLength: 1000,
+
+  // Times a late physician's patient may move to: consulting hours on the
+  // next few working days, in slots, less those the physician has booked
+  reschedule: {
+    daysAhead: 7,
+    workingDays: [1, 2, 3, 4, 5], // 0 is Sunday
+    dayStartHour: 9,
+    dayEndHour: 17,
+    slotMinutes: 30
+  },
+
+  rescheduleUrl: `${process.env.CLIENT_ORIGIN || 'http://localhost:3000'}/appointments`
+};
+
+export type IntakeQuestion = typeof WAITING_ROOM_CONFIG.intakeQuestions[number];
@@ -0,0 +1,70 @@
+import { type Response } from 'express';
+import { RefundService } from '../services/refundService.js';
+import { type AuthenticatedRequest } from '../middleware/authMiddleware.js';
+
+const refundService = new RefundService();
+
+export class AppointmentController {
+  async getRefundQuote(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { appointmentId } = req.params;
+
+      if (!appointmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Appointment ID is required'
+        });
+      }
+
+      const quote = await refundService.getRefundQuote(appointmentId, req.user!.id);
+
+      res.json({
+        success: true,
+        data: quote
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to calculate refund';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async cancelAppointment(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { appointmentId } = req.params;
+      const { reason } = req.body;
+
+      if (!appointmentId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Appointment ID is required'
+        });
+      }
+
+      const result = await refundService.cancelAppointment(appointmentId, req.user!.id, reason);
+
+      let message = 'Appointment cancelled';
+      if (result.refund?.status === 'completed') {
+        message = `Appointment cancelled and ₦${result.refund.amount.toFixed(2)} refunded to your wallet`;
+      } else if (result.refund?.status === 'failed') {
+        message = 'Appointment cancelled; the refund will be completed by support';
+      }
+
+      res.json({
+        success: true,
+        message,
+        data: result
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to cancel appointment';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { type Response } from 'express';
+import { ChatService } from '../services/chatService.js';
+import { type AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { validateAttachmentUpload, validateMessageHistoryQuery } from '../utils/validation.js';
+
+const chatService = new ChatService();
+
+export class ChatController {
+  async getMessages(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateMessageHistoryQuery(req.query);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const conversationId = req.params.conversationId!;
+      const conversation = await chatService.findConversationForUser(conversationId, req.user!.id);
+
+      if (!conversation) {
+        return res.status(404).json({
+          success: false,
+          message: 'Conversation not found'
+        });
+      }
+
+      const { before, after, limit } = req.query;
+      const page = await chatService.getHistory(conversationId, {
+        before: before as string | undefined,
+        after: after as string | undefined,
+        limit: limit ? Number(limit) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: page
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to retrieve messages';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async uploadAttachment(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateAttachmentUpload(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const conversationId = req.params.conversationId!;
+      const conversation = await chatService.findConversationForUser(conversationId, req.user!.id);
+
+      if (!conversation) {
+        return res.status(404).json({
+          success: false,
+          message: 'Conversation not found'
+        });
+      }
+
+      const { fileName, mimeType, fileSize } = req.body;
+      const upload = await chatService.createAttachmentUpload(conversationId, req.user!.id, {
+        fileName,
+        mimeType,
+        fileSize
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Upload the file to uploadUrl, then complete the attachment',
+        data: upload
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to create attachment upload';
+      res.status(500).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async completeAttachment(req: AuthenticatedRequest, res: Response) {
+    try {
+      const attachment = await chatService.completeAttachmentUpload(req.params.attachmentId!, req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'Attachment ready to send',
+        data: attachment
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to complete attachment upload';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async getAttachment(req: AuthenticatedRequest, res: Response) {
+    try {
+      const attachment = await chatService.getAttachmentDownload(req.params.attachmentId!, req.user!.id);
+
+      if (!attachment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Attachment not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: attachment
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to retrieve attachment';
+      res.status(500).json({
+        success: false,
+        message
+      });
+    }
+  }
+}
@@ -0,0 +1,329 @@
+import { type Response } from 'express';
+import { IceService } from '../services/iceService.js';
+import { consultationRoomService } from '../services/consultationRoomService.js';
+import { waitingRoomService } from '../services/waitingRoomService.js';
+import { type AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { validateConsultationInvitation, validateInvitationAccept, validateRescheduleRequest } from '../utils/validation.js';
+
+const iceService = new IceService();
+
+export class ConsultationController {
+  // STUN and short-lived TURN credentials for the session's room
+  async getIceServers(req: AuthenticatedRequest, res: Response) {
+    try {
+      const configuration = await iceService.getIceConfiguration(req.params.sessionId!, req.user!.id);
+
+      if (!configuration) {
+        return res.status(404).json({
+          success: false,
+          message: 'Consultation room not found'
+        });
+      }
+
+      // Credentials are per user and short-lived
+      res.setHeader('Cache-Control', 'no-store');
+      res.json({
+        success: true,
+        data: configuration
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to get ICE servers';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async getParticipants(req: AuthenticatedRequest, res: Response) {
+    try {
+      const access = await consultationRoomService.getAccess(req.params.sessionId!, req.user!.id);
+
+      if (!access) {
+        return res.status(404).json({
+          success: false,
+          message: 'Consultation session not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: await consultationRoomService.listParticipants(req.params.sessionId!)
+      });
+
+    } catch (error: unknown) {
+      console.error('Get participants error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get participants'
+      });
+    }
+  }
+
+  // How each participant's call stepped down and back up on weak connections
+  async getMediaModeChanges(req: AuthenticatedRequest, res: Response) {
+    try {
+      const access = await consultationRoomService.getAccess(req.params.sessionId!, req.user!.id);
+
+      if (!access) {
+        return res.status(404).json({
+          success: false,
+          message: 'Consultation session not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: await consultationRoomService.listMediaModeChanges(req.params.sessionId!)
+      });
+
+    } catch (error: unknown) {
+      console.error('Get media mode changes error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get media mode changes'
+      });
+    }
+  }
+
+  // Check-in window, intake questions and the caller's place in the queue
+  async getWaitingRoom(req: AuthenticatedRequest, res: Response) {
+    try {
+      const info = await waitingRoomService.getInfo(req.params.sessionId!, req.user!.id);
+
+      if (!info) {
+        return res.status(404).json({
+          success: false,
+          message: 'Consultation session not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: info
+      });
+
+    } catch (error: unknown) {
+      console.error('Get waiting room error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get waiting room'
+      });
+    }
+  }
+
+  // Times a waiting patient can move to while the physician is running late
+  async getRescheduleSlots(req: AuthenticatedRequest, res: Response) {
+    try {
+      const slots = await waitingRoomService.getRescheduleSlots(req.params.sessionId!, req.user!.id);
+
+      if (!slots) {
+        return res.status(404).json({
+          success: false,
+          message: 'Waiting room entry not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: slots
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to get available times';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  // Offered to a waiting patient once the physician is running late
+  async rescheduleFromWaitingRoom(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateRescheduleRequest(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const status = await waitingRoomService.reschedule(req.params.sessionId!, req.user!.id, {
+        appointmentDate: req.body.appointmentDate,
+        appointmentTime: req.body.appointmentTime
+      });
+
+      if (!status) {
+        return res.status(404).json({
+          success: false,
+          message: 'Waiting room entry not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Appointment moved; your physician will confirm the new time',
+        data: status
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to reschedule appointment';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async removeParticipant(req: AuthenticatedRequest, res: Response) {
+    try {
+      const participant = await consultationRoomService.removeParticipant(
+        req.params.sessionId!,
+        req.params.userId!,
+        req.user!.id
+      );
+
+      if (!participant) {
+        return res.status(404).json({
+          success: false,
+          message: 'Participant not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Participant removed',
+        data: participant
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to remove participant';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async createInvitation(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateConsultationInvitation(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const result = await consultationRoomService.createInvitation(req.params.sessionId!, req.user!.id, {
+        role: req.body.role,
+        email: req.body.email,
+        expiresInHours: req.body.expiresInHours
+      });
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          message: 'Consultation room not found'
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Invitation created',
+        data: result
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to create invitation';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async listInvitations(req: AuthenticatedRequest, res: Response) {
+    try {
+      const invitations = await consultationRoomService.listInvitations(req.params.sessionId!, req.user!.id);
+
+      if (!invitations) {
+        return res.status(404).json({
+          success: false,
+          message: 'Consultation room not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: invitations
+      });
+
+    } catch (error: unknown) {
+      console.error('List invitations error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get invitations'
+      });
+    }
+  }
+
+  async revokeInvitation(req: AuthenticatedRequest, res: Response) {
+    try {
+      const invitation = await consultationRoomService.revokeInvitation(req.params.invitationId!, req.user!.id);
+
+      if (!invitation) {
+        return res.status(404).json({
+          success: false,
+          message: 'Invitation not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Invitation revoked',
+        data: invitation
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to revoke invitation';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async acceptInvitation(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateInvitationAccept(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const { id, email, role } = req.user!;
+      const result = await consultationRoomService.acceptInvitation(req.body.token, { id, email, role });
+
+      res.json({
+        success: true,
+        message: 'Invitation accepted',
+        data: result
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to accept invitation';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { type Response } from 'express';
+import { DisputeService } from '../services/disputeService.js';
+import { type AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { validateDispute, validateDisputeEvidence, validateDisputeResolution } from '../utils/validation.js';
+
+const disputeService = new DisputeService();
+
+export class DisputeController {
+  async openDispute(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateDispute(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const { transactionId, disputeType, description, amount } = req.body;
+      const dispute = await disputeService.openDispute(req.user!.id, {
+        transactionId,
+        disputeType,
+        description,
+        amount
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Dispute opened',
+        data: dispute
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to open dispute';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async listDisputes(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { status, page, limit } = req.query;
+
+      // Admins see every dispute; everyone else only those they are a party to
+      const result = await disputeService.listDisputes({
+        partyId: req.user!.role === 'ADMIN' ? undefined : req.user!.id,
+        status: status as string | undefined,
+        page: page ? Number(page) : undefined,
+        limit: limit ? Number(limit) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve disputes'
+      });
+    }
+  }
+
+  async getDispute(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { disputeId } = req.params;
+
+      if (!disputeId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Dispute ID is required'
+        });
+      }
+
+      const dispute = await disputeService.getDispute(disputeId, req.user!);
+
+      res.json({
+        success: true,
+        data: dispute
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to retrieve dispute';
+      res.status(404).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async addEvidence(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { disputeId } = req.params;
+
+      if (!disputeId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Dispute ID is required'
+        });
+      }
+
+      const validation = validateDisputeEvidence(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const evidence = await disputeService.addEvidence(disputeId, req.user!, {
+        note: req.body.note,
+        documentId: req.body.documentId
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Evidence added',
+        data: evidence
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to add evidence';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async freezeFunds(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { disputeId } = req.params;
+
+      if (!disputeId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Dispute ID is required'
+        });
+      }
+
+      const dispute = await disputeService.freezeFunds(disputeId, req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'Disputed funds frozen',
+        data: dispute
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to freeze funds';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async resolveDispute(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { disputeId } = req.params;
+
+      if (!disputeId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Dispute ID is required'
+        });
+      }
+
+      const validation = validateDisputeResolution(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const { resolutionType, amount, notes } = req.body;
+      const dispute = await disputeService.resolveDispute(disputeId, req.user!.id, {
+        resolutionType,
+        amount,
+        notes
+      });
+
+      res.json({
+        success: true,
+        message: 'Dispute resolved',
+        data: dispute
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to resolve dispute';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async rejectDispute(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { disputeId } = req.params;
+      const { notes } = req.body;
+
+      if (!disputeId || !notes) {
+        return res.status(400).json({
+          success: false,
+          message: 'Dispute ID and notes are required'
+        });
+      }
+
+      const dispute = await disputeService.rejectDispute(disputeId, req.user!.id, notes);
+
+      res.json({
+        success: true,
+        message: 'Dispute rejected',
+        data: dispute
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to reject dispute';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { type Response } from 'express';
+import { JobScheduler, JOB_STATUSES, type JobStatus } from '../services/jobScheduler.js';
+import { type AuthenticatedRequest } from '../middleware/authMiddleware.js';
+
+const jobScheduler = new JobScheduler();
+
+export class JobController {
+  // Queued and failed jobs with a count per status
+  async listJobs(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { status, type } = req.query;
+
+      if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+        return res.status(400).json({
+          success: false,
+          message: `Status must be one of: ${JOB_STATUSES.join(', ')}`
+        });
+      }
+
+      const limit = Number(req.query.limit);
+      const result = await jobScheduler.listJobs({
+        ...(status ? { status: status as JobStatus } : {}),
+        ...(typeof type === 'string' && type ? { type } : {}),
+        ...(Number.isInteger(limit) && limit > 0 ? { limit: Math.min(limit, 200) } : {})
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve jobs'
+      });
+    }
+  }
+
+  async retryJob(req: AuthenticatedRequest, res: Response) {
+    try {
+      const job = await jobScheduler.retryJob(req.params.jobId!);
+
+      if (!job) {
+        return res.status(409).json({
+          success: false,
+          message: 'Only failed or cancelled jobs can be retried'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Job queued to run again',
+        data: job
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retry job'
+      });
+    }
+  }
+
+  async cancelJob(req: AuthenticatedRequest, res: Response) {
+    try {
+      const job = await jobScheduler.cancelJob(req.params.jobId!);
+
+      if (!job) {
+        return res.status(409).json({
+          success: false,
+          message: 'Only pending jobs can be cancelled'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Job cancelled',
+        data: job
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to cancel job'
+      });
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { type Response } from 'express';
+import { NotificationService } from '../services/notificationService.js';
+import { NOTIFICATION_CONFIG } from '../config/notificationConfig.js';
+import { type AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { validateNotificationPreferences, validatePushSubscription } from '../utils/validation.js';
+
+const notificationService = new NotificationService();
+
+export class NotificationController {
+  async listNotifications(req: AuthenticatedRequest, res: Response) {
+    try {
+      const limit = Number(req.query.limit);
+      const result = await notificationService.listNotifications(req.user!.id, {
+        unreadOnly: req.query.unread === 'true',
+        ...(Number.isInteger(limit) && limit > 0 ? { limit: Math.min(limit, 100) } : {})
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve notifications'
+      });
+    }
+  }
+
+  async markAsRead(req: AuthenticatedRequest, res: Response) {
+    try {
+      const updated = await notificationService.markAsRead(req.user!.id, req.params.notificationId!);
+
+      if (!updated) {
+        return res.status(404).json({
+          success: false,
+          message: 'Notification not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Notification marked as read'
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to mark notification as read'
+      });
+    }
+  }
+
+  async markAllAsRead(req: AuthenticatedRequest, res: Response) {
+    try {
+      const count = await notificationService.markAllAsRead(req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'All notifications marked as read',
+        data: { count }
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to mark notifications as read'
+      });
+    }
+  }
+
+  async deleteNotification(req: AuthenticatedRequest, res: Response) {
+    try {
+      const deleted = await notificationService.deleteNotification(req.user!.id, req.params.notificationId!);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          message: 'Notification not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Notification deleted'
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete notification'
+      });
+    }
+  }
+
+  async getDeliveries(req: AuthenticatedRequest, res: Response) {
+    try {
+      const deliveries = await notificationService.getDeliveryLog(
+        req.params.notificationId!,
+        req.user!.id,
+        req.user!.role === 'ADMIN'
+      );
+
+      if (!deliveries) {
+        return res.status(404).json({
+          success: false,
+          message: 'Notification not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { deliveries }
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve delivery log'
+      });
+    }
+  }
+
+  async getPreferences(req: AuthenticatedRequest, res: Response) {
+    try {
+      const preferences = await notificationService.getPreferences(req.user!.id);
+
+      res.json({
+        success: true,
+        data: preferences
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve notification preferences'
+      });
+    }
+  }
+
+  async updatePreferences(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateNotificationPreferences(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const preferences = await notificationService.updatePreferences(req.user!.id, req.body);
+
+      res.json({
+        success: true,
+        message: 'Notification preferences updated',
+        data: preferences
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update notification preferences'
+      });
+    }
+  }
+
+  // The VAPID public key browsers need to subscribe
+  async getPushConfig(req: AuthenticatedRequest, res: Response) {
+    res.json({
+      success: true,
+      data: { publicKey: NOTIFICATION_CONFIG.push.vapidPublicKey ?? null }
+    });
+  }
+
+  async registerPushToken(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validatePushSubscription(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const subscription = await notificationService.registerPushSubscription(
+        req.user!.id,
+        req.body,
+        req.get('user-agent')
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Push subscription registered',
+        data: { id: subscription.id }
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to register push subscription'
+      });
+    }
+  }
+
+  async removePushToken(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { endpoint } = req.body;
+
+      if (!endpoint || typeof endpoint !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'Endpoint is required'
+        });
+      }
+
+      await notificationService.removePushSubscription(req.user!.id, endpoint);
+
+      res.json({
+        success: true,
+        message: 'Push subscription removed'
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to remove push subscription'
+      });
+    }
+  }
+}
@@ -1,18 +1,53 @@
 import type { Request, Response } from 'express';
 import { PaymentService } from '../services/paymentService.js';
+import { LedgerService } from '../services/ledgerService.js';
+import { WebhookEventService } from '../services/webhookEventService.js';
+import { WithdrawalService } from '../services/withdrawalService.js';
+import { CommissionService } from '../services/commissionService.js';
+import { RefundService } from '../services/refundService.js';
+import { StatementService } from '../services/statementService.js';
 import type { AuthenticatedRequest } from '../middleware/authMiddleware.js';
-import { validatePaymentData } from '../utils/validation.js';
+import {
+  validatePaymentData,
+  validateWithdrawalRequest,
+  validateCommissionRule,
+  validateStatementQuery,
+  validateEarningsQuery
+} from '../utils/validation.js';
+import { statementToCsv, statementToPdf, earningsToCsv, earningsToPdf } from '../utils/statementExport.js';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
 const paymentService = new PaymentService();
+const ledgerService = new LedgerService();
+const webhookEventService = new WebhookEventService();
+const withdrawalService = new WithdrawalService(paymentService);
+const commissionService = new CommissionService();
+const refundService = new RefundService();
+const statementService = new StatementService();
+
+type ExportFormat = 'json' | 'csv' | 'pdf';
+
+// Send a statement as JSON or as a CSV/PDF download
+function sendExport(res: Response, format: ExportFormat, filename: string, data: unknown, render: {
+  csv: () => string;
+  pdf: () => Buffer;
+}) {
+  if (format === 'json') {
+    return res.json({ success: true, data });
+  }
+
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+  res.send(format === 'csv' ? render.csv() : render.pdf());
+}
 
 export class PaymentController {
   async initializePayment(req: AuthenticatedRequest, res: Response) {
     try {
-      const { amount, paymentType = 'wallet_funding', metadata } = req.body;
+      const { amount, paymentType = 'wallet_funding', metadata, provider } = req.body;
 
-      const validation = validatePaymentData({ amount, paymentType });
+      const validation = validatePaymentData({ amount, paymentType, provider });
       if (!validation.isValid) {
         return res.status(400).json({
           success: false,
@@ -40,7 +75,8 @@ export class PaymentController {
           userId: user.id,
           amount: amount * 100, // Convert to kobo
           email: user.email,
-          metadata
+          metadata,
+          provider
         });
       } else {
         result = await paymentService.initializePayment({
@@ -50,7 +86,8 @@ export class PaymentController {
             userId: user.id,
             paymentType,
             ...metadata
-          }
+          },
+          provider
         });
       }
 
@@ -150,75 +187,84 @@ export class PaymentController {
     }
   }
 
-  async processConsultationPayment(req: AuthenticatedRequest, res: Response) {
+  async getStatement(req: AuthenticatedRequest, res: Response) {
     try {
-      const { sessionId, amount } = req.body;
-
-      if (!sessionId || !amount) {
+      const validation = validateStatementQuery(req.query);
+      if (!validation.isValid) {
         return res.status(400).json({
           success: false,
-          message: 'Session ID and amount are required'
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
         });
       }
 
-      // Get consultation session
-      const session = await prisma.consultationSession.findUnique({
-        where: { id: sessionId },
-        include: { appointment: true }
+      const { month, from, to, format = 'json' } = req.query as Record<string, string | undefined>;
+
+      // A month is shorthand for its first to last day; ranges include the whole end day
+      const start = month ? new Date(`${month}-01T00:00:00.000Z`) : new Date(from!);
+      const end = month
+        ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0))
+        : new Date(to!);
+      end.setUTCHours(23, 59, 59, 999);
+
+      const statement = await statementService.getStatement(req.user!.id, start, end);
+      const filename = `statement-${start.toISOString().slice(0, 10)}-${end.toISOString().slice(0, 10)}`;
+
+      sendExport(res, format as ExportFormat, filename, statement, {
+        csv: () => statementToCsv(statement),
+        pdf: () => statementToPdf(statement)
       });
 
-      if (!session) {
-        return res.status(404).json({
-          success: false,
-          message: 'Consultation session not found'
-        });
-      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to generate statement';
+      res.status(500).json({
+        success: false,
+        message
+      });
+    }
+  }
 
-      // Verify user is the patient
-      if (session.patientId !== req.user!.id) {
-        return res.status(403).json({
+  async getEarningsSummary(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateEarningsQuery(req.query);
+      if (!validation.isValid) {
+        return res.status(400).json({
           success: false,
-          message: 'Access denied'
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
         });
       }
 
-      const success = await paymentService.processConsultationPayment({
-        sessionId,
-        patientId: session.patientId,
-        physicianId: session.physicianId,
-        amount: amount * 100 // Convert to kobo
-      });
+      const year = Number(req.query.year);
+      const format = (req.query.format as ExportFormat | undefined) ?? 'json';
 
-      res.json({
-        success: true,
-        message: 'Payment processed successfully',
-        data: { paymentProcessed: success }
+      const summary = await statementService.getEarningsSummary(req.user!.id, year);
+
+      sendExport(res, format, `earnings-${year}`, summary, {
+        csv: () => earningsToCsv(summary),
+        pdf: () => earningsToPdf(summary)
       });
 
-    } catch (error: any) {
-      res.status(400).json({
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to generate earnings summary';
+      res.status(500).json({
         success: false,
-        message: error.message || 'Payment processing failed'
+        message
       });
     }
   }
 
+  // Paystack posts to /webhook; other providers post to /webhook/:provider
   async webhook(req: Request, res: Response) {
     try {
-      const signature = req.headers['x-paystack-signature'] as string;
-      
-      if (!signature) {
-        return res.status(400).json({
-          success: false,
-          message: 'Missing signature'
-        });
-      }
+      const provider = req.params.provider ?? 'paystack';
 
-      await paymentService.processWebhook(req.body, signature);
+      const result = await paymentService.processWebhook(req.body, req.headers, provider);
 
       res.status(200).json({
         success: true,
-        message: 'Webhook processed successfully'
+        message: 'Webhook processed successfully',
+        data: result
       });
 
     } catch (error: any) {
@@ -334,14 +380,16 @@ export class PaymentController {
         prisma.walletTransaction.aggregate({
           where: {
             walletId: wallet.id,
-            transactionType: 'credit'
+            transactionType: 'credit',
+            status: 'completed'
           },
           _sum: { amount: true }
         }),
         prisma.walletTransaction.aggregate({
           where: {
             walletId: wallet.id,
-            transactionType: 'debit'
+            transactionType: 'debit',
+            status: 'completed'
           },
           _sum: { amount: true }
         }),
@@ -368,4 +416,359 @@ export class PaymentController {
       });
     }
   }
+
+  async getReconciliationReport(req: AuthenticatedRequest, res: Response) {
+    try {
+      const report = await ledgerService.getReconciliationReport();
+
+      res.json({
+        success: true,
+        data: report
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to generate reconciliation report'
+      });
+    }
+  }
+
+  async listWebhookEvents(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { status, page, limit } = req.query;
+
+      const result = await webhookEventService.listEvents({
+        status: status as string | undefined,
+        page: page ? Number(page) : undefined,
+        limit: limit ? Number(limit) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve webhook events'
+      });
+    }
+  }
+
+  async replayWebhookEvent(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { eventId } = req.params;
+
+      if (!eventId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Event ID is required'
+        });
+      }
+
+      const result = await paymentService.replayWebhookEvent(eventId);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          actionType: 'WEBHOOK_REPLAY',
+          actionCategory: 'payment',
+          resourceType: 'payment_webhook_event',
+          resourceId: eventId,
+          newValues: result,
+          impactLevel: 'high',
+          complianceRelevant: true
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Webhook event replayed',
+        data: result
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Webhook replay failed';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async requestWithdrawal(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { amount, bankCode, accountNumber } = req.body;
+
+      const validation = validateWithdrawalRequest({ amount, bankCode, accountNumber });
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const withdrawal = await withdrawalService.requestWithdrawal({
+        userId: req.user!.id,
+        amount: Number(amount),
+        bankCode,
+        accountNumber
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Withdrawal request submitted',
+        data: withdrawal
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Withdrawal request failed';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async listWithdrawals(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { status, page, limit } = req.query;
+
+      // Admins see every request; everyone else only their own
+      const result = await withdrawalService.listWithdrawals({
+        userId: req.user!.role === 'ADMIN' ? undefined : req.user!.id,
+        status: status as string | undefined,
+        page: page ? Number(page) : undefined,
+        limit: limit ? Number(limit) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve withdrawal requests'
+      });
+    }
+  }
+
+  async approveWithdrawal(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { withdrawalId } = req.params;
+
+      if (!withdrawalId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Withdrawal ID is required'
+        });
+      }
+
+      const withdrawal = await withdrawalService.approveWithdrawal(withdrawalId, req.user!.id);
+
+      res.json({
+        success: true,
+        message: withdrawal.status === 'failed' ? 'Transfer could not be initiated' : 'Withdrawal approved',
+        data: withdrawal
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Withdrawal approval failed';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async rejectWithdrawal(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { withdrawalId } = req.params;
+      const { reason } = req.body;
+
+      if (!withdrawalId || !reason) {
+        return res.status(400).json({
+          success: false,
+          message: 'Withdrawal ID and reason are required'
+        });
+      }
+
+      const withdrawal = await withdrawalService.rejectWithdrawal(withdrawalId, req.user!.id, reason);
+
+      res.json({
+        success: true,
+        message: 'Withdrawal rejected',
+        data: withdrawal
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Withdrawal rejection failed';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async listRefunds(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { status, patientId, page, limit } = req.query;
+
+      // Admins can look at any patient's refunds; patients only their own
+      const result = await refundService.listRefunds({
+        patientId: req.user!.role === 'ADMIN' ? patientId as string | undefined : req.user!.id,
+        status: status as string | undefined,
+        page: page ? Number(page) : undefined,
+        limit: limit ? Number(limit) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve refunds'
+      });
+    }
+  }
+
+  async refundConsultation(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { sessionId } = req.params;
+      const { percent = 100, reason } = req.body;
+
+      if (!sessionId || !reason) {
+        return res.status(400).json({
+          success: false,
+          message: 'Session ID and reason are required'
+        });
+      }
+
+      if (typeof percent !== 'number' || percent <= 0 || percent > 100) {
+        return res.status(400).json({
+          success: false,
+          message: 'Percent must be a number between 0 and 100'
+        });
+      }
+
+      const refund = await refundService.refundConsultation(sessionId, {
+        trigger: 'manual',
+        percent,
+        reason,
+        processedBy: req.user!.id
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          actionType: 'CONSULTATION_REFUND',
+          actionCategory: 'payment',
+          resourceType: 'consultation_session',
+          resourceId: sessionId,
+          newValues: { refundId: refund.id, percent, reason, status: refund.status },
+          impactLevel: 'medium',
+          financialImpact: refund.amount
+        }
+      });
+
+      res.status(refund.status === 'completed' ? 200 : 409).json({
+        success: refund.status === 'completed',
+        message: refund.status === 'completed' ? 'Refund processed' : `Refund failed: ${refund.failureReason}`,
+        data: refund
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Refund failed';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async listCommissionRules(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { hospitalId, includeInactive } = req.query;
+
+      const rules = await commissionService.listRules({
+        hospitalId: hospitalId as string | undefined,
+        includeInactive: includeInactive === 'true'
+      });
+
+      res.json({
+        success: true,
+        data: { rules }
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve commission rules'
+      });
+    }
+  }
+
+  async createCommissionRule(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateCommissionRule(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const rule = await commissionService.createRule(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Commission rule created',
+        data: rule
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to create commission rule';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async updateCommissionRule(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { ruleId } = req.params;
+
+      if (!ruleId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Rule ID is required'
+        });
+      }
+
+      const rule = await commissionService.updateRule(ruleId, req.body);
+
+      res.json({
+        success: true,
+        message: 'Commission rule updated',
+        data: rule
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to update commission rule';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
 }
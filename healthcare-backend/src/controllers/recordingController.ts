@@ -0,0 +1,205 @@
+import { type Request, type Response } from 'express';
+import multer, { type FileFilterCallback } from 'multer';
+import { RecordingService } from '../services/recordingService.js';
+import { RECORDING_CONFIG } from '../config/recordingConfig.js';
+import { type AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { validateLegalHold, validateRecordingChunk, validateRecordingComplete } from '../utils/validation.js';
+
+const recordingService = new RecordingService();
+
+// MediaRecorder types carry codec parameters, e.g. "video/webm;codecs=vp8,opus"
+const baseMimeType = (mimeType: string) => mimeType.split(';')[0]!.trim().toLowerCase();
+
+// One chunk per request, held in memory only until it is encrypted
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: RECORDING_CONFIG.maxChunkSize,
+    files: 1
+  },
+  fileFilter: (req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
+    if (RECORDING_CONFIG.allowedMimeTypes.includes(baseMimeType(file.mimetype))) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type'));
+    }
+  }
+});
+
+export class RecordingController {
+  uploadMiddleware = upload.single('chunk');
+
+  async listSessionRecordings(req: AuthenticatedRequest, res: Response) {
+    try {
+      const recordings = await recordingService.listForSession(
+        req.params.sessionId!,
+        req.user!.id,
+        req.user!.role === 'ADMIN'
+      );
+
+      if (!recordings) {
+        return res.status(404).json({
+          success: false,
+          message: 'Consultation session not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { recordings }
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve recordings'
+      });
+    }
+  }
+
+  async uploadChunk(req: AuthenticatedRequest, res: Response) {
+    try {
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: 'No chunk provided'
+        });
+      }
+
+      const validation = validateRecordingChunk(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const result = await recordingService.uploadChunk(
+        req.params.recordingId!,
+        req.user!.id,
+        Number(req.body.sequence),
+        req.file.buffer,
+        baseMimeType(req.file.mimetype)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error: unknown) {
+      console.error('Recording chunk upload error:', error);
+      const message = error instanceof Error ? error.message : 'Failed to upload recording chunk';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async completeRecording(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateRecordingComplete(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const recording = await recordingService.completeRecording(
+        req.params.recordingId!,
+        req.user!.id,
+        req.body.chunkCount
+      );
+
+      res.json({
+        success: true,
+        message: 'Recording saved',
+        data: recording
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to complete recording';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  // Streams the decrypted recording
+  async downloadRecording(req: AuthenticatedRequest, res: Response) {
+    try {
+      const download = await recordingService.openDownload(
+        req.params.recordingId!,
+        req.user!.id,
+        req.user!.role === 'ADMIN',
+        { ipAddress: req.ip, userAgent: req.get('user-agent') }
+      );
+
+      if (!download) {
+        return res.status(404).json({
+          success: false,
+          message: 'Recording not found'
+        });
+      }
+
+      const { recording, stream } = download;
+      const extension = recording.mimeType?.endsWith('mp4') ? 'mp4' : 'webm';
+
+      res.setHeader('Content-Type', recording.mimeType ?? 'application/octet-stream');
+      res.setHeader('Content-Length', String(recording.totalBytes));
+      res.setHeader('Content-Disposition', `attachment; filename="consultation-${recording.sessionId}-${recording.id}.${extension}"`);
+      res.setHeader('Cache-Control', 'no-store');
+
+      stream.on('error', (error) => {
+        console.error('Recording download error:', error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to download recording'
+      });
+    }
+  }
+
+  async setLegalHold(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateLegalHold(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const recording = await recordingService.setLegalHold(req.params.recordingId!, req.body.legalHold, req.user!.id);
+
+      if (!recording) {
+        return res.status(404).json({
+          success: false,
+          message: 'Recording not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: recording.legalHold ? 'Legal hold placed' : 'Legal hold released',
+        data: recording
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update legal hold'
+      });
+    }
+  }
+}
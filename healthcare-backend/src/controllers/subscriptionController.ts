@@ -0,0 +1,215 @@
+import { type Response } from 'express';
+import { PaymentService } from '../services/paymentService.js';
+import { SubscriptionService } from '../services/subscriptionService.js';
+import { EntitlementService, type EntitlementFeature } from '../services/entitlementService.js';
+import { type AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { validateSubscriptionPlan } from '../utils/validation.js';
+
+const subscriptionService = new SubscriptionService(new PaymentService());
+const entitlementService = new EntitlementService();
+
+const FEATURES: EntitlementFeature[] = ['booking', 'virtual_consultation', 'ai_assistant'];
+
+export class SubscriptionController {
+  async listPlans(req: AuthenticatedRequest, res: Response) {
+    try {
+      const includeInactive = req.user?.role === 'ADMIN' && req.query.includeInactive === 'true';
+      const plans = await subscriptionService.listPlans({ includeInactive });
+
+      res.json({
+        success: true,
+        data: { plans }
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve subscription plans'
+      });
+    }
+  }
+
+  async createPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const validation = validateSubscriptionPlan(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const plan = await subscriptionService.createPlan(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Subscription plan created',
+        data: plan
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to create subscription plan';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async updatePlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { planId } = req.params;
+
+      if (!planId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Plan ID is required'
+        });
+      }
+
+      const validation = validateSubscriptionPlan(req.body, true);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation failed',
+          error: { code: 'VALIDATION_ERROR', details: validation.errors }
+        });
+      }
+
+      const plan = await subscriptionService.updatePlan(planId, req.body);
+
+      res.json({
+        success: true,
+        message: 'Subscription plan updated',
+        data: plan
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to update subscription plan';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async getMySubscription(req: AuthenticatedRequest, res: Response) {
+    try {
+      const [subscription, entitlements] = await Promise.all([
+        subscriptionService.getCurrentSubscription(req.user!.id),
+        entitlementService.getEntitlements(req.user!.id)
+      ]);
+
+      res.json({
+        success: true,
+        data: { subscription, ...entitlements }
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve subscription'
+      });
+    }
+  }
+
+  async subscribe(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { planId, callbackUrl } = req.body;
+
+      if (!planId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Plan ID is required'
+        });
+      }
+
+      const result = await subscriptionService.subscribe(req.user!.id, planId, callbackUrl);
+
+      res.json({
+        success: true,
+        message: 'Complete the payment to activate your subscription',
+        data: result
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to start subscription';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async cancelSubscription(req: AuthenticatedRequest, res: Response) {
+    try {
+      const subscription = await subscriptionService.cancelSubscription(req.user!.id);
+
+      res.json({
+        success: true,
+        message: subscription.status === 'non_renewing'
+          ? 'Your subscription will not renew and stays active until the end of the billing period'
+          : 'Subscription cancelled',
+        data: subscription
+      });
+
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to cancel subscription';
+      res.status(400).json({
+        success: false,
+        message
+      });
+    }
+  }
+
+  async checkEntitlement(req: AuthenticatedRequest, res: Response) {
+    try {
+      const feature = req.params.feature as EntitlementFeature;
+
+      if (!FEATURES.includes(feature)) {
+        return res.status(400).json({
+          success: false,
+          message: `Feature must be one of: ${FEATURES.join(', ')}`
+        });
+      }
+
+      const result = await entitlementService.check(req.user!.id, feature);
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to check entitlement'
+      });
+    }
+  }
+
+  async listSubscriptions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { userId, status, page, limit } = req.query;
+
+      const result = await subscriptionService.listSubscriptions({
+        userId: userId as string | undefined,
+        status: status as string | undefined,
+        page: page ? Number(page) : undefined,
+        limit: limit ? Number(limit) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve subscriptions'
+      });
+    }
+  }
+}
@@ -1,7 +1,103 @@
-import { httpServer } from './app.js';
+import { httpServer, socketServer } from './app.js';
+import { PaymentService } from './services/paymentService.js';
+import { SubscriptionService } from './services/subscriptionService.js';
+import { SUBSCRIPTION_CONFIG } from './config/subscriptionConfig.js';
+import { NotificationService } from './services/notificationService.js';
+import { NOTIFICATION_CONFIG } from './config/notificationConfig.js';
+import { JobScheduler } from './services/jobScheduler.js';
+import { ReminderService, REMINDER_JOBS } from './services/reminderService.js';
+import { SCHEDULER_CONFIG } from './config/schedulerConfig.js';
+import { RecordingService } from './services/recordingService.js';
+import { RECORDING_CONFIG } from './config/recordingConfig.js';
+import { ConsultationBillingService } from './services/consultationBillingService.js';
+import { BILLING_CONFIG } from './config/billingConfig.js';
+import { waitingRoomService, WAITING_ROOM_JOBS } from './services/waitingRoomService.js';
 
 const PORT = process.env.PORT || 3000;
 
-httpServer.listen(PORT, () => {
-  console.log(`Server is running on port ${PORT}`);
+// Rooms and presence must be shared before the first client connects
+socketServer.ready.then(() => {
+  httpServer.listen(PORT, () => {
+    console.log(`Server is running on port ${PORT}`);
+  });
+}).catch((error) => {
+  console.error('Failed to start socket adapter:', error);
+  process.exit(1);
 });
+
+// Background work runs as database-backed jobs so it survives restarts
+// and only one instance picks up each run
+const scheduler = new JobScheduler();
+const subscriptionService = new SubscriptionService(new PaymentService());
+const notificationService = new NotificationService();
+const reminderService = new ReminderService();
+const recordingService = new RecordingService();
+const billingService = new ConsultationBillingService();
+
+// Send dunning reminders and expire lapsed subscriptions
+scheduler.register('subscriptions.dunning', {
+  intervalMs: SUBSCRIPTION_CONFIG.dunningCheckIntervalMs,
+  handler: async () => { await subscriptionService.processDunning(); }
+});
+
+// Send notifications held for quiet hours or retry, and collected digests
+scheduler.register('notifications.dispatch', {
+  intervalMs: NOTIFICATION_CONFIG.dispatchIntervalMs,
+  handler: async () => { await notificationService.processDueDeliveries(); }
+});
+scheduler.register('notifications.digest', {
+  intervalMs: NOTIFICATION_CONFIG.digestIntervalMs,
+  handler: async () => { await notificationService.processDigests(); }
+});
+
+// Queue appointment reminders, approval nudges and follow-ups, then send them
+scheduler.register(REMINDER_JOBS.plan, {
+  intervalMs: SCHEDULER_CONFIG.planningIntervalMs,
+  handler: () => reminderService.planAll()
+});
+scheduler.register(REMINDER_JOBS.appointmentReminder, {
+  handler: payload => reminderService.sendAppointmentReminder(payload)
+});
+scheduler.register(REMINDER_JOBS.approvalNudge, {
+  handler: payload => reminderService.sendApprovalNudge(payload)
+});
+scheduler.register(REMINDER_JOBS.followUp, {
+  handler: payload => reminderService.sendFollowUp(payload)
+});
+
+// Delete consultation recordings past their retention date
+scheduler.register('recordings.purge', {
+  intervalMs: RECORDING_CONFIG.purgeIntervalMs,
+  handler: async () => { await recordingService.purgeExpired(); }
+});
+
+// Settle consultation fees left held by failed settlements or abandoned sessions
+scheduler.register('consultations.settle_holds', {
+  intervalMs: BILLING_CONFIG.settleIntervalMs,
+  handler: async () => { await billingService.settleOutstandingHolds(); }
+});
+
+// Tell waiting patients when their physician is late and offer another time
+scheduler.register(WAITING_ROOM_JOBS.physicianLate, {
+  handler: payload => waitingRoomService.notifyPhysicianLate(payload)
+});
+
+scheduler.start();
+
+// Stop taking requests, let socket clients move to another instance, then exit
+async function shutdown(signal: string) {
+  console.log(`${signal} received, draining connections`);
+  httpServer.close();
+  await scheduler.stop();
+
+  try {
+    await socketServer.drain();
+  } catch (error) {
+    console.error('Error draining socket connections:', error);
+  }
+
+  process.exit(0);
+}
+
+process.once('SIGTERM', () => shutdown('SIGTERM'));
+process.once('SIGINT', () => shutdown('SIGINT'));
@@ -17,3 +17,10 @@ export const rateLimitPayments = rateLimit({
     max: 20, // Limit each IP to 20 requests per windowMs
     message: 'Too many payment requests from this IP, please try again after an hour'
 });
+
+// Recordings upload a chunk every few seconds for the length of the consultation
+export const rateLimitRecordingChunks = rateLimit({
+    windowMs: 60 * 1000, // 1 minute
+    max: 60, // Limit each IP to 60 chunks per windowMs
+    message: 'Too many recording uploads from this IP, please slow down'
+});
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { AppointmentController } from '../controllers/appointmentController.js';
+import { authenticate } from '../middleware/authMiddleware.js';
+
+const router = Router();
+const appointmentController = new AppointmentController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Cancellation and refunds
+router.get('/:appointmentId/refund-quote', appointmentController.getRefundQuote);
+router.post('/:appointmentId/cancel', appointmentController.cancelAppointment);
+
+export default router;
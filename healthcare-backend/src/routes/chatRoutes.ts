@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { ChatController } from '../controllers/chatController.js';
+import { authenticate } from '../middleware/authMiddleware.js';
+import { rateLimitFiles } from '../middleware/rateLimitMiddleware.js';
+
+const router = Router();
+const chatController = new ChatController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Paged message history; ?before= for older pages, ?after= to catch up
+router.get('/conversations/:conversationId/messages', chatController.getMessages);
+
+// Attachments: presigned upload, then complete to scan before sending
+router.post('/conversations/:conversationId/attachments',
+  rateLimitFiles,
+  chatController.uploadAttachment
+);
+router.post('/attachments/:attachmentId/complete', chatController.completeAttachment);
+router.get('/attachments/:attachmentId', chatController.getAttachment);
+
+export default router;
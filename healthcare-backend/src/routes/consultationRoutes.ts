@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { ConsultationController } from '../controllers/consultationController.js';
+import { authenticate } from '../middleware/authMiddleware.js';
+
+const router = Router();
+const consultationController = new ConsultationController();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/sessions/:sessionId/ice-servers', consultationController.getIceServers);
+router.get('/sessions/:sessionId/media-modes', consultationController.getMediaModeChanges);
+
+// Waiting room; check-in and admission happen over the socket
+router.get('/sessions/:sessionId/waiting-room', consultationController.getWaitingRoom);
+router.get('/sessions/:sessionId/waiting-room/reschedule-slots', consultationController.getRescheduleSlots);
+router.post('/sessions/:sessionId/waiting-room/reschedule', consultationController.rescheduleFromWaitingRoom);
+
+// Participants and invitations for multi-party rooms
+router.get('/sessions/:sessionId/participants', consultationController.getParticipants);
+router.delete('/sessions/:sessionId/participants/:userId', consultationController.removeParticipant);
+router.post('/sessions/:sessionId/invitations', consultationController.createInvitation);
+router.get('/sessions/:sessionId/invitations', consultationController.listInvitations);
+router.post('/invitations/accept', consultationController.acceptInvitation);
+router.delete('/invitations/:invitationId', consultationController.revokeInvitation);
+
+export default router;
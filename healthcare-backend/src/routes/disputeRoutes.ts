@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { DisputeController } from '../controllers/disputeController.js';
+import { authenticate, authorize } from '../middleware/authMiddleware.js';
+
+const router = Router();
+const disputeController = new DisputeController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Parties to a dispute
+router.post('/', disputeController.openDispute);
+router.get('/', disputeController.listDisputes);
+router.get('/:disputeId', disputeController.getDispute);
+router.post('/:disputeId/evidence', disputeController.addEvidence);
+
+// Admin review
+router.post('/:disputeId/freeze', authorize('ADMIN'), disputeController.freezeFunds);
+router.post('/:disputeId/resolve', authorize('ADMIN'), disputeController.resolveDispute);
+router.post('/:disputeId/reject', authorize('ADMIN'), disputeController.rejectDispute);
+
+export default router;
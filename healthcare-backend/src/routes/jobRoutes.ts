@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { JobController } from '../controllers/jobController.js';
+import { authenticate, authorize } from '../middleware/authMiddleware.js';
+
+const router = Router();
+const jobController = new JobController();
+
+// Scheduler oversight is admin only
+router.use(authenticate, authorize('ADMIN'));
+
+router.get('/', jobController.listJobs);
+router.post('/:jobId/retry', jobController.retryJob);
+router.post('/:jobId/cancel', jobController.cancelJob);
+
+export default router;
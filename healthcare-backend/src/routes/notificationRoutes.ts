@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { NotificationController } from '../controllers/notificationController.js';
+import { authenticate } from '../middleware/authMiddleware.js';
+
+const router = Router();
+const notificationController = new NotificationController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Inbox
+router.get('/', notificationController.listNotifications);
+router.put('/read-all', notificationController.markAllAsRead);
+
+// Channel and category preferences, quiet hours
+router.get('/preferences', notificationController.getPreferences);
+router.put('/preferences', notificationController.updatePreferences);
+
+// Web push subscriptions for this browser
+router.get('/push-token', notificationController.getPushConfig);
+router.post('/push-token', notificationController.registerPushToken);
+router.delete('/push-token', notificationController.removePushToken);
+
+router.put('/:notificationId/read', notificationController.markAsRead);
+router.delete('/:notificationId', notificationController.deleteNotification);
+router.get('/:notificationId/deliveries', notificationController.getDeliveries);
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { PaymentController } from '../controllers/paymentController.js';
-import { authenticate } from '../middleware/authMiddleware.js';
+import { authenticate, authorize } from '../middleware/authMiddleware.js';
 import { rateLimitPayments } from '../middleware/rateLimitMiddleware.js';
 
 const router = Router();
@@ -8,6 +8,7 @@ const paymentController = new PaymentController();
 
 // Public routes
 router.post('/webhook', paymentController.webhook);
+router.post('/webhook/:provider', paymentController.webhook);
 router.get('/banks', paymentController.getBanks);
 router.post('/validate-account', paymentController.validateAccount);
 
@@ -22,11 +23,26 @@ router.get('/verify', paymentController.verifyPayment);
 router.get('/wallet', paymentController.getWallet);
 router.get('/transactions', paymentController.getTransactionHistory);
 router.get('/statistics', paymentController.getPaymentStatistics);
-
-// Consultation payments
-router.post('/consultation', paymentController.processConsultationPayment);
+router.get('/statements', paymentController.getStatement);
+router.get('/statements/earnings', authorize('PHYSICIAN'), paymentController.getEarningsSummary);
 
 // Refund operations
 router.post('/refund', paymentController.requestRefund);
+router.get('/refunds', paymentController.listRefunds);
+router.post('/refunds/sessions/:sessionId', authorize('ADMIN'), paymentController.refundConsultation);
+
+// Withdrawals
+router.post('/withdrawals', authorize('PHYSICIAN'), rateLimitPayments, paymentController.requestWithdrawal);
+router.get('/withdrawals', paymentController.listWithdrawals);
+router.post('/withdrawals/:withdrawalId/approve', authorize('ADMIN'), paymentController.approveWithdrawal);
+router.post('/withdrawals/:withdrawalId/reject', authorize('ADMIN'), paymentController.rejectWithdrawal);
+
+// Admin ledger operations
+router.get('/reconciliation', authorize('ADMIN'), paymentController.getReconciliationReport);
+router.get('/webhooks/events', authorize('ADMIN'), paymentController.listWebhookEvents);
+router.post('/webhooks/events/:eventId/replay', authorize('ADMIN'), paymentController.replayWebhookEvent);
+router.get('/commission-rules', authorize('ADMIN'), paymentController.listCommissionRules);
+router.post('/commission-rules', authorize('ADMIN'), paymentController.createCommissionRule);
+router.put('/commission-rules/:ruleId', authorize('ADMIN'), paymentController.updateCommissionRule);
 
 export default router;
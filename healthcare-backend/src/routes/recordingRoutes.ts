@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { RecordingController } from '../controllers/recordingController.js';
+import { authenticate, authorize } from '../middleware/authMiddleware.js';
+import { rateLimitRecordingChunks } from '../middleware/rateLimitMiddleware.js';
+
+const router = Router();
+const recordingController = new RecordingController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Recordings of a consultation the user took part in
+router.get('/sessions/:sessionId', recordingController.listSessionRecordings);
+
+// Upload from the recording browser: chunks while recording, then complete
+router.post('/:recordingId/chunks',
+  rateLimitRecordingChunks,
+  recordingController.uploadMiddleware,
+  recordingController.uploadChunk
+);
+router.post('/:recordingId/complete', recordingController.completeRecording);
+
+router.get('/:recordingId/download', recordingController.downloadRecording);
+
+// Keep a recording past its retention date, e.g. during a dispute
+router.put('/:recordingId/legal-hold', authorize('ADMIN'), recordingController.setLegalHold);
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { SubscriptionController } from '../controllers/subscriptionController.js';
+import { authenticate, authorize } from '../middleware/authMiddleware.js';
+import { rateLimitPayments } from '../middleware/rateLimitMiddleware.js';
+
+const router = Router();
+const subscriptionController = new SubscriptionController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Plan catalogue
+router.get('/plans', subscriptionController.listPlans);
+router.post('/plans', authorize('ADMIN'), subscriptionController.createPlan);
+router.put('/plans/:planId', authorize('ADMIN'), subscriptionController.updatePlan);
+
+// Current user's subscription
+router.get('/me', subscriptionController.getMySubscription);
+router.post('/', rateLimitPayments, subscriptionController.subscribe);
+router.post('/cancel', subscriptionController.cancelSubscription);
+router.get('/entitlements/:feature', subscriptionController.checkEntitlement);
+
+// Admin
+router.get('/', authorize('ADMIN'), subscriptionController.listSubscriptions);
+
+export default router;
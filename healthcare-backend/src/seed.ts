@@ -71,7 +71,44 @@ async function main() {
     }
   });
 
-  console.log({ admin, hospital, physician, patient });
+  // Subscription plans; Paystack plan codes come from the dashboard
+  const plans = await Promise.all([
+    prisma.subscriptionPlan.create({
+      data: {
+        code: 'basic',
+        name: 'Basic',
+        amount: 2000,
+        paystackPlanCode: process.env.PAYSTACK_PLAN_BASIC ?? null,
+        features: ['Basic health consultations', 'Appointment booking', 'Emergency contacts', 'Basic transport booking'],
+        entitlements: { monthlyBookings: 3, monthlyVirtualConsultations: 3, aiAssistant: true },
+        sortOrder: 1,
+      }
+    }),
+    prisma.subscriptionPlan.create({
+      data: {
+        code: 'premium',
+        name: 'Premium',
+        amount: 5000,
+        paystackPlanCode: process.env.PAYSTACK_PLAN_PREMIUM ?? null,
+        features: ['All Basic features', 'Priority consultations', 'Advanced health monitoring', 'Premium transport options', 'Specialist referrals', '24/7 support'],
+        entitlements: { monthlyBookings: 10, monthlyVirtualConsultations: 10, aiAssistant: true },
+        sortOrder: 2,
+      }
+    }),
+    prisma.subscriptionPlan.create({
+      data: {
+        code: 'enterprise',
+        name: 'Enterprise',
+        amount: 10000,
+        paystackPlanCode: process.env.PAYSTACK_PLAN_ENTERPRISE ?? null,
+        features: ['All Premium features', 'Family health management', 'Corporate health plans', 'Custom health reports', 'Dedicated account manager', 'API access'],
+        entitlements: { monthlyBookings: -1, monthlyVirtualConsultations: -1, aiAssistant: true },
+        sortOrder: 3,
+      }
+    })
+  ]);
+
+  console.log({ admin, hospital, physician, patient, plans });
 }
 
 main()
@@ -0,0 +1,302 @@
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { CHAT_CONFIG } from '../config/chatConfig.js';
+import { FileService } from './fileService.js';
+
+const prisma = new PrismaClient();
+const fileService = new FileService();
+
+// What clients see of an attachment; storage keys stay on the server
+export const ATTACHMENT_SELECT = {
+  id: true,
+  fileName: true,
+  mimeType: true,
+  fileSize: true,
+  scanStatus: true
+} satisfies Prisma.MessageAttachmentSelect;
+
+export type AttachmentSummary = Prisma.MessageAttachmentGetPayload<{ select: typeof ATTACHMENT_SELECT }>;
+
+export const MESSAGE_INCLUDE = {
+  // Only the public profile; the user row carries credentials
+  sender: {
+    select: {
+      id: true,
+      profile: {
+        select: { id: true, userId: true, firstName: true, lastName: true, role: true, specialization: true }
+      }
+    }
+  },
+  receipts: {
+    select: { userId: true, status: true, deliveredAt: true, readAt: true }
+  },
+  attachments: {
+    select: ATTACHMENT_SELECT
+  }
+} satisfies Prisma.MessageInclude;
+
+export type HistoryMessage = Prisma.MessageGetPayload<{ include: typeof MESSAGE_INCLUDE }>;
+
+export interface HistoryQuery {
+  before?: string | undefined; // Cursor; returns older messages
+  after?: string | undefined; // Cursor; returns newer messages
+  limit?: number | undefined;
+}
+
+export interface HistoryPage {
+  // Always oldest first
+  messages: HistoryMessage[];
+  // More messages exist beyond this page in the direction asked for
+  hasMore: boolean;
+  // Cursors of the first and last message, for the next older/newer page
+  previousCursor: string | null;
+  nextCursor: string | null;
+}
+
+export interface AttachmentUploadRequest {
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+}
+
+export interface AttachmentUpload {
+  attachmentId: string;
+  uploadUrl: string;
+  fields: Record<string, string>;
+}
+
+export interface AttachmentDownload extends AttachmentSummary {
+  url: string;
+  thumbnailUrl: string | null;
+}
+
+// Cursors point at a message by (createdAt, id) so pages stay stable while
+// new messages arrive
+export function encodeMessageCursor(message: { id: string; createdAt: Date }): string {
+  return Buffer.from(`${message.createdAt.toISOString()}|${message.id}`).toString('base64url');
+}
+
+export function decodeMessageCursor(cursor: string): { id: string; createdAt: Date } {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  const date = new Date(createdAt ?? '');
+
+  if (!id || Number.isNaN(date.getTime())) {
+    throw new Error('Invalid cursor');
+  }
+
+  return { id, createdAt: date };
+}
+
+export class ChatService {
+  // Participants are the conversation's patient and physician
+  async findConversationForUser(conversationId: string, userId: string) {
+    return prisma.conversation.findFirst({
+      where: {
+        id: conversationId,
+        OR: [
+          { patientId: userId },
+          { physicianId: userId }
+        ]
+      }
+    });
+  }
+
+  // Without a cursor returns the latest page. `after` is how a reconnecting
+  // client catches up on exactly the messages it missed.
+  async getHistory(conversationId: string, query: HistoryQuery = {}): Promise<HistoryPage> {
+    if (query.before && query.after) {
+      throw new Error('Use either before or after, not both');
+    }
+
+    const limit = Math.min(query.limit ?? CHAT_CONFIG.historyPageSize, CHAT_CONFIG.maxHistoryPageSize);
+    const forward = Boolean(query.after);
+    const cursor = query.after ?? query.before;
+
+    let where: Prisma.MessageWhereInput = { conversationId };
+    if (cursor) {
+      const { id, createdAt } = decodeMessageCursor(cursor);
+      const op = forward ? 'gt' : 'lt';
+      where = {
+        conversationId,
+        OR: [
+          { createdAt: { [op]: createdAt } },
+          { createdAt, id: { [op]: id } }
+        ]
+      };
+    }
+
+    const order = forward ? 'asc' : 'desc';
+    const rows = await prisma.message.findMany({
+      where,
+      orderBy: [{ createdAt: order }, { id: order }],
+      take: limit + 1,
+      include: MESSAGE_INCLUDE
+    });
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const messages = forward ? page : page.reverse();
+    const first = messages[0];
+    const last = messages[messages.length - 1];
+
+    return {
+      messages,
+      hasMore,
+      previousCursor: first ? encodeMessageCursor(first) : null,
+      nextCursor: last ? encodeMessageCursor(last) : (query.after ?? null)
+    };
+  }
+
+  // Attachments go straight from the client to S3; the record stays
+  // `pending` until the upload is confirmed and scanned
+  async createAttachmentUpload(
+    conversationId: string,
+    userId: string,
+    file: AttachmentUploadRequest
+  ): Promise<AttachmentUpload> {
+    const upload = await fileService.generatePresignedUploadUrl(file.fileName, file.mimeType, userId, {
+      fileType: this.isImage(file.mimeType) ? 'image' : 'document',
+      folder: `${CHAT_CONFIG.attachments.folder}/${conversationId}`,
+      // The URL only accepts exactly the declared size, which is within the limit
+      contentLength: file.fileSize
+    });
+
+    const attachment = await prisma.messageAttachment.create({
+      data: {
+        conversationId,
+        uploaderId: userId,
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        fileSize: file.fileSize,
+        bucket: upload.bucket,
+        fileKey: upload.fileKey
+      }
+    });
+
+    return {
+      attachmentId: attachment.id,
+      uploadUrl: upload.uploadUrl,
+      fields: upload.fields
+    };
+  }
+
+  // Checks the uploaded object against what was declared, scans it and
+  // makes a thumbnail for images. Only clean attachments can be sent.
+  async completeAttachmentUpload(attachmentId: string, userId: string): Promise<AttachmentSummary> {
+    const attachment = await prisma.messageAttachment.findFirst({
+      where: { id: attachmentId, uploaderId: userId }
+    });
+
+    if (!attachment) {
+      throw new Error('Attachment not found');
+    }
+
+    if (attachment.scanStatus !== 'pending') {
+      return this.summarize(attachment);
+    }
+
+    const object = await fileService.getFileMetadata(attachment.bucket, attachment.fileKey);
+    if (object.size !== attachment.fileSize || object.contentType !== attachment.mimeType) {
+      throw new Error('Uploaded file does not match the declared size or type');
+    }
+
+    // Without a verdict the attachment stays pending and unsendable; the
+    // client can complete it again once the scanner is back
+    let clean: boolean;
+    try {
+      clean = await fileService.scanFileForViruses(attachment.bucket, attachment.fileKey);
+    } catch (error) {
+      console.error('Error scanning attachment:', error);
+      throw new Error('Attachment could not be scanned yet, please try again shortly');
+    }
+
+    let thumbnailKey: string | null = null;
+    if (clean && this.isImage(attachment.mimeType)) {
+      try {
+        thumbnailKey = await fileService.generateThumbnailForObject(attachment.bucket, attachment.fileKey);
+      } catch (error) {
+        // The image is still sendable, just without a preview
+        console.error('Error generating attachment thumbnail:', error);
+      }
+    }
+
+    const updated = await prisma.messageAttachment.update({
+      where: { id: attachment.id },
+      data: {
+        scanStatus: clean ? 'clean' : 'infected',
+        scannedAt: new Date(),
+        thumbnailKey
+      }
+    });
+
+    if (!clean) {
+      throw new Error('Attachment failed the virus scan');
+    }
+
+    return this.summarize(updated);
+  }
+
+  // Short-lived download links, for participants of the conversation only.
+  // Until it is sent an attachment is visible to its uploader alone.
+  async getAttachmentDownload(attachmentId: string, userId: string): Promise<AttachmentDownload | null> {
+    const attachment = await prisma.messageAttachment.findUnique({
+      where: { id: attachmentId }
+    });
+
+    if (!attachment || attachment.scanStatus !== 'clean') {
+      return null;
+    }
+
+    if (!attachment.messageId && attachment.uploaderId !== userId) {
+      return null;
+    }
+
+    const conversation = await this.findConversationForUser(attachment.conversationId, userId);
+    if (!conversation) {
+      return null;
+    }
+
+    return {
+      ...this.summarize(attachment),
+      url: await fileService.getSignedDownloadUrl(attachment.bucket, attachment.fileKey),
+      thumbnailUrl: attachment.thumbnailKey
+        ? await fileService.getSignedDownloadUrl(attachment.bucket, attachment.thumbnailKey)
+        : null
+    };
+  }
+
+  // Attachments a sender may put on a new message: their own, scanned
+  // clean, in this conversation and not already sent
+  async getSendableAttachments(conversationId: string, userId: string, attachmentIds: string[]) {
+    if (attachmentIds.length > CHAT_CONFIG.attachments.maxPerMessage) {
+      throw new Error(`A message can carry at most ${CHAT_CONFIG.attachments.maxPerMessage} attachments`);
+    }
+
+    const attachments = await prisma.messageAttachment.findMany({
+      where: {
+        id: { in: attachmentIds },
+        conversationId,
+        uploaderId: userId,
+        messageId: null
+      }
+    });
+
+    if (attachments.length !== new Set(attachmentIds).size) {
+      throw new Error('Attachment not found');
+    }
+
+    if (attachments.some(attachment => attachment.scanStatus !== 'clean')) {
+      throw new Error('Attachments must finish uploading and scanning before they are sent');
+    }
+
+    return attachments;
+  }
+
+  private summarize(attachment: AttachmentSummary): AttachmentSummary {
+    const { id, fileName, mimeType, fileSize, scanStatus } = attachment;
+    return { id, fileName, mimeType, fileSize, scanStatus };
+  }
+
+  private isImage(mimeType: string): boolean {
+    return mimeType.startsWith('image/');
+  }
+}
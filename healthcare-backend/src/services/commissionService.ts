@@ -0,0 +1,134 @@
+import { Prisma, PrismaClient, type CommissionRule } from '@prisma/client';
+import { COMMISSION_CONFIG } from '../config/commissionConfig.js';
+
+const prisma = new PrismaClient();
+
+export interface CommissionContext {
+  hospitalId?: string | null;
+  specialization?: string | null;
+  consultationType?: string | null;
+}
+
+export interface RevenueSplit {
+  grossAmount: Prisma.Decimal;
+  platformFee: Prisma.Decimal;
+  hospitalShare: Prisma.Decimal;
+  physicianAmount: Prisma.Decimal;
+  platformFeePercent: Prisma.Decimal;
+  hospitalSharePercent: Prisma.Decimal;
+  ruleId: string | null;
+}
+
+export interface CommissionRuleInput {
+  name: string;
+  hospitalId?: string | null;
+  specialization?: string | null;
+  consultationType?: string | null;
+  platformFeePercent: number;
+  hospitalSharePercent?: number;
+  priority?: number;
+  isActive?: boolean;
+}
+
+export class CommissionService {
+  async resolveRule(context: CommissionContext): Promise<CommissionRule | null> {
+    // Candidate rules either match each field exactly or leave it open
+    const rules = await prisma.commissionRule.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ hospitalId: null }, { hospitalId: context.hospitalId ?? null }] },
+          { OR: [{ specialization: null }, { specialization: context.specialization ?? null }] },
+          { OR: [{ consultationType: null }, { consultationType: context.consultationType ?? null }] }
+        ]
+      }
+    });
+
+    const specificity = (rule: CommissionRule) =>
+      [rule.hospitalId, rule.specialization, rule.consultationType].filter(Boolean).length;
+
+    rules.sort((a, b) =>
+      specificity(b) - specificity(a) ||
+      b.priority - a.priority ||
+      b.createdAt.getTime() - a.createdAt.getTime()
+    );
+
+    return rules[0] ?? null;
+  }
+
+  async calculateSplit(amount: Prisma.Decimal | number, context: CommissionContext): Promise<RevenueSplit> {
+    const grossAmount = new Prisma.Decimal(amount);
+    const rule = await this.resolveRule(context);
+
+    const platformFeePercent = new Prisma.Decimal(
+      rule?.platformFeePercent ?? COMMISSION_CONFIG.defaultPlatformFeePercent
+    );
+    // Hospitals only take a share when the physician is attached to one
+    const hospitalSharePercent = context.hospitalId
+      ? new Prisma.Decimal(rule?.hospitalSharePercent ?? COMMISSION_CONFIG.defaultHospitalSharePercent)
+      : new Prisma.Decimal(0);
+
+    const platformFee = grossAmount.times(platformFeePercent).dividedBy(100).toDecimalPlaces(2);
+    const hospitalShare = grossAmount.times(hospitalSharePercent).dividedBy(100).toDecimalPlaces(2);
+
+    // The physician takes the remainder so the split always sums to the gross amount
+    const physicianAmount = grossAmount.minus(platformFee).minus(hospitalShare);
+
+    if (physicianAmount.isNegative()) {
+      throw new Error('Commission rule takes more than the consultation amount');
+    }
+
+    return {
+      grossAmount,
+      platformFee,
+      hospitalShare,
+      physicianAmount,
+      platformFeePercent,
+      hospitalSharePercent,
+      ruleId: rule?.id ?? null
+    };
+  }
+
+  async listRules(options: { hospitalId?: string | undefined; includeInactive?: boolean } = {}) {
+    return prisma.commissionRule.findMany({
+      where: {
+        ...(options.hospitalId ? { hospitalId: options.hospitalId } : {}),
+        ...(options.includeInactive ? {} : { isActive: true })
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }]
+    });
+  }
+
+  async createRule(input: CommissionRuleInput): Promise<CommissionRule> {
+    return prisma.commissionRule.create({
+      data: {
+        name: input.name,
+        hospitalId: input.hospitalId ?? null,
+        specialization: input.specialization ?? null,
+        consultationType: input.consultationType ?? null,
+        platformFeePercent: input.platformFeePercent,
+        hospitalSharePercent: input.hospitalSharePercent ?? 0,
+        priority: input.priority ?? 0,
+        isActive: input.isActive ?? true
+      }
+    });
+  }
+
+  async updateRule(ruleId: string, input: Partial<CommissionRuleInput>): Promise<CommissionRule> {
+    const data: Prisma.CommissionRuleUncheckedUpdateInput = {};
+
+    if (input.name !== undefined) data.name = input.name;
+    if (input.hospitalId !== undefined) data.hospitalId = input.hospitalId;
+    if (input.specialization !== undefined) data.specialization = input.specialization;
+    if (input.consultationType !== undefined) data.consultationType = input.consultationType;
+    if (input.platformFeePercent !== undefined) data.platformFeePercent = input.platformFeePercent;
+    if (input.hospitalSharePercent !== undefined) data.hospitalSharePercent = input.hospitalSharePercent;
+    if (input.priority !== undefined) data.priority = input.priority;
+    if (input.isActive !== undefined) data.isActive = input.isActive;
+
+    return prisma.commissionRule.update({
+      where: { id: ruleId },
+      data
+    });
+  }
+}
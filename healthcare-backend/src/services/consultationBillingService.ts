@@ -0,0 +1,280 @@
+import { Prisma, PrismaClient, type ConsultationSession } from '@prisma/client';
+import { BILLING_CONFIG, type BillingMode } from '../config/billingConfig.js';
+import { REFUND_CONFIG } from '../config/refundConfig.js';
+import { LedgerService } from './ledgerService.js';
+import { PaymentService } from './paymentService.js';
+
+const prisma = new PrismaClient();
+const ledgerService = new LedgerService();
+const paymentService = new PaymentService();
+
+// start_failed and rescheduled put the session back to pending so the next
+// start holds again
+export type ReleaseReason = 'start_failed' | 'rescheduled' | 'not_held' | 'abandoned';
+
+export interface BillingQuote {
+  billedMinutes: number;
+  amount: Prisma.Decimal;
+}
+
+export interface BillingSummary {
+  sessionId: string;
+  paymentStatus: string;
+  billingMode: string | null;
+  consultationRate: string | null;
+  amountHeld: string;
+  amountCharged: string | null;
+  billedMinutes: number | null;
+}
+
+const ZERO = new Prisma.Decimal(0);
+
+// Metered billing for virtual consultations, driven by the socket session
+// lifecycle: the fee for BILLING_CONFIG.holdMinutes is held from the patient's
+// wallet at start, then the time actually used is charged at end and the rest
+// of the hold returned. Sessions that did not take place are not charged.
+export class ConsultationBillingService {
+  // Price of a session of `minutes` at `rate` per BILLING_CONFIG.rateMinutes
+  calculateCharge(rate: Prisma.Decimal | number, minutes: number, mode: BillingMode = BILLING_CONFIG.mode): BillingQuote {
+    const billable = Math.max(0, minutes - BILLING_CONFIG.graceMinutes);
+    const unit = mode === 'per_block' ? BILLING_CONFIG.blockMinutes : 1;
+    const billedMinutes = Math.ceil(billable / unit) * unit;
+
+    return {
+      billedMinutes,
+      amount: new Prisma.Decimal(rate).times(billedMinutes).dividedBy(BILLING_CONFIG.rateMinutes).toDecimalPlaces(2)
+    };
+  }
+
+  // Called when the session starts; returns null when nothing needs holding
+  // because the session is free, already paid or already held
+  async authorize(sessionId: string): Promise<BillingSummary | null> {
+    const session = await prisma.consultationSession.findUnique({ where: { id: sessionId } });
+
+    if (!session) {
+      throw new Error('Consultation session not found');
+    }
+
+    if (session.paymentStatus !== 'pending') {
+      return null;
+    }
+
+    const rate = await this.getRate(session);
+    if (rate.lessThanOrEqualTo(0)) {
+      return null;
+    }
+
+    const wallet = await prisma.wallet.findUnique({ where: { userId: session.patientId } });
+    if (!wallet) {
+      throw new Error('The patient has no wallet to pay for this consultation');
+    }
+
+    const amountHeld = rate.times(BILLING_CONFIG.holdMinutes).dividedBy(BILLING_CONFIG.rateMinutes).toDecimalPlaces(2);
+    if (wallet.balance.lessThan(amountHeld)) {
+      throw new Error(`The patient's wallet needs at least ₦${amountHeld.toFixed(2)} to start this consultation`);
+    }
+
+    const holdReference = `CONSULT_${sessionId}_HOLD_${Date.now()}`;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.consultationSession.updateMany({
+        where: { id: sessionId, paymentStatus: 'pending' },
+        data: {
+          paymentStatus: 'authorized',
+          billingMode: BILLING_CONFIG.mode,
+          consultationRate: rate,
+          holdReference,
+          amountHeld
+        }
+      });
+
+      // Another start got there first
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      await ledgerService.postJournalEntry({
+        reference: holdReference,
+        entryType: 'consultation_hold',
+        description: 'Consultation fee held',
+        metadata: { sessionId, holdMinutes: BILLING_CONFIG.holdMinutes },
+        lines: [
+          { account: { walletId: wallet.id }, side: 'debit', amount: amountHeld },
+          { account: { systemAccount: 'consultationHolds' }, side: 'credit', amount: amountHeld }
+        ]
+      }, tx);
+
+      return tx.consultationSession.findUniqueOrThrow({ where: { id: sessionId } });
+    });
+
+    return updated ? this.toSummary(updated) : null;
+  }
+
+  // Called when the session ends: charges the time used, up to the amount
+  // held, and returns the rest. Sessions the physician missed or that never
+  // really started are released in full.
+  async settle(sessionId: string): Promise<BillingSummary | null> {
+    const session = await prisma.consultationSession.findUnique({
+      where: { id: sessionId },
+      include: { room: true }
+    });
+
+    if (!session || session.paymentStatus !== 'authorized' || !session.holdReference) {
+      return null;
+    }
+
+    const minutes = session.startedAt && session.endedAt
+      ? (session.endedAt.getTime() - session.startedAt.getTime()) / (60 * 1000)
+      : 0;
+
+    if (!session.room?.physicianJoinedAt || minutes < REFUND_CONFIG.minimumBillableMinutes) {
+      return this.release(sessionId, 'not_held');
+    }
+
+    const mode = (session.billingMode ?? BILLING_CONFIG.mode) as BillingMode;
+    const quote = this.calculateCharge(session.consultationRate ?? ZERO, minutes, mode);
+    const amountCharged = Prisma.Decimal.min(quote.amount, session.amountHeld);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.consultationSession.updateMany({
+        where: { id: sessionId, paymentStatus: 'authorized' },
+        data: {
+          paymentStatus: amountCharged.greaterThan(0) ? 'paid' : 'released',
+          amountCharged,
+          billedMinutes: quote.billedMinutes
+        }
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      // The whole hold goes back first so the charge is posted exactly like an
+      // up-front payment, which is what refunds reverse
+      await this.postRelease(tx, session, 'settled');
+
+      if (amountCharged.greaterThan(0)) {
+        await paymentService.processConsultationPayment({
+          sessionId,
+          patientId: session.patientId,
+          physicianId: session.physicianId,
+          amount: amountCharged.times(100).toNumber()
+        }, tx);
+      }
+
+      return tx.consultationSession.findUniqueOrThrow({ where: { id: sessionId } });
+    });
+
+    return updated ? this.toSummary(updated) : null;
+  }
+
+  // Returns the whole hold to the patient's wallet without charging
+  async release(sessionId: string, reason: ReleaseReason): Promise<BillingSummary | null> {
+    const session = await prisma.consultationSession.findUnique({ where: { id: sessionId } });
+
+    if (!session || session.paymentStatus !== 'authorized' || !session.holdReference) {
+      return null;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.consultationSession.updateMany({
+        where: { id: sessionId, paymentStatus: 'authorized' },
+        data: reason === 'start_failed' || reason === 'rescheduled'
+          ? { paymentStatus: 'pending', holdReference: null, amountHeld: 0 }
+          : { paymentStatus: 'released', amountCharged: 0, billedMinutes: 0 }
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      await this.postRelease(tx, session, reason);
+
+      return tx.consultationSession.findUniqueOrThrow({ where: { id: sessionId } });
+    });
+
+    return updated ? this.toSummary(updated) : null;
+  }
+
+  // Scheduled: retries settlements that failed when the session ended and
+  // releases holds on sessions nobody ended
+  async settleOutstandingHolds(now = new Date()): Promise<{ settled: number; released: number }> {
+    const sessions = await prisma.consultationSession.findMany({
+      where: {
+        paymentStatus: 'authorized',
+        OR: [
+          { endedAt: { not: null } },
+          { startedAt: { lt: new Date(now.getTime() - BILLING_CONFIG.abandonedAfterMs) } }
+        ]
+      },
+      select: { id: true, endedAt: true }
+    });
+
+    let settled = 0;
+    let released = 0;
+
+    for (const session of sessions) {
+      try {
+        if (session.endedAt) {
+          if (await this.settle(session.id)) settled++;
+        } else if (await this.release(session.id, 'abandoned')) {
+          released++;
+        }
+      } catch (error) {
+        console.error(`Error settling consultation ${session.id}:`, error);
+      }
+    }
+
+    return { settled, released };
+  }
+
+  async getSummary(sessionId: string): Promise<BillingSummary | null> {
+    const session = await prisma.consultationSession.findUnique({ where: { id: sessionId } });
+    return session ? this.toSummary(session) : null;
+  }
+
+  private async postRelease(
+    tx: Prisma.TransactionClient,
+    session: ConsultationSession,
+    reason: ReleaseReason | 'settled'
+  ): Promise<void> {
+    const wallet = await tx.wallet.findUniqueOrThrow({ where: { userId: session.patientId } });
+
+    await ledgerService.postJournalEntry({
+      reference: `${session.holdReference}_RELEASE`,
+      entryType: 'consultation_hold_release',
+      description: 'Held consultation fee released',
+      metadata: { sessionId: session.id, reason },
+      lines: [
+        { account: { systemAccount: 'consultationHolds' }, side: 'debit', amount: session.amountHeld },
+        { account: { walletId: wallet.id }, side: 'credit', amount: session.amountHeld }
+      ]
+    }, tx);
+  }
+
+  // The rate agreed at booking, otherwise the physician's current rate
+  private async getRate(session: ConsultationSession): Promise<Prisma.Decimal> {
+    if (session.consultationRate?.greaterThan(0)) {
+      return session.consultationRate;
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.physicianId },
+      select: { consultationRate: true }
+    });
+
+    return profile?.consultationRate ?? ZERO;
+  }
+
+  private toSummary(session: ConsultationSession): BillingSummary {
+    return {
+      sessionId: session.id,
+      paymentStatus: session.paymentStatus,
+      billingMode: session.billingMode,
+      consultationRate: session.consultationRate?.toFixed(2) ?? null,
+      amountHeld: session.amountHeld.toFixed(2),
+      amountCharged: session.amountCharged?.toFixed(2) ?? null,
+      billedMinutes: session.billedMinutes
+    };
+  }
+}
@@ -0,0 +1,425 @@
+import crypto from 'crypto';
+import type { Server as SocketIOServer } from 'socket.io';
+import {
+  Prisma,
+  PrismaClient,
+  type ConsultationInvitation,
+  type ConsultationMediaModeChange,
+  type ConsultationParticipant,
+  type ConsultationSession,
+  type ConsultationRoom
+} from '@prisma/client';
+import { CONSULTATION_CONFIG, type GuestRole } from '../config/consultationConfig.js';
+import type {
+  ConsultationParticipant as ParticipantSummary,
+  MediaMode,
+  MediaModePayload,
+  ParticipantRole
+} from '../socket/events.js';
+
+const prisma = new PrismaClient();
+
+export interface RoomAccess {
+  session: ConsultationSession & { room: ConsultationRoom | null };
+  role: ParticipantRole;
+  participant: ConsultationParticipant | null; // Set for guests
+}
+
+export interface InvitationInput {
+  role: GuestRole;
+  email?: string | undefined;
+  expiresInHours?: number | undefined;
+}
+
+export type InvitationSummary = Omit<ConsultationInvitation, 'tokenHash'>;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const isGuestRole = (role: ParticipantRole): boolean =>
+  (CONSULTATION_CONFIG.guestRoles as readonly string[]).includes(role);
+
+// Who may be in a consultation room: the session's patient and physician,
+// plus guests (caregivers, interpreters, consulting physicians) who accepted
+// an invitation. Changes made over REST are pushed to the room once a socket
+// server is attached.
+export class ConsultationRoomService {
+  private io: SocketIOServer | null = null;
+
+  attach(io: SocketIOServer) {
+    this.io = io;
+  }
+
+  async getAccess(sessionId: string, userId: string): Promise<RoomAccess | null> {
+    const session = await prisma.consultationSession.findUnique({
+      where: { id: sessionId },
+      include: { room: true }
+    });
+
+    if (!session) {
+      return null;
+    }
+    if (session.patientId === userId) {
+      return { session, role: 'patient', participant: null };
+    }
+    if (session.physicianId === userId) {
+      return { session, role: 'physician', participant: null };
+    }
+    if (!session.room) {
+      return null;
+    }
+
+    const participant = await prisma.consultationParticipant.findUnique({
+      where: { roomId_userId: { roomId: session.room.id, userId } }
+    });
+
+    if (!participant || participant.removedAt) {
+      return null;
+    }
+
+    return { session, role: participant.role as ParticipantRole, participant };
+  }
+
+  async listParticipants(sessionId: string): Promise<ParticipantSummary[]> {
+    const session = await prisma.consultationSession.findUnique({
+      where: { id: sessionId },
+      include: { room: { include: { participants: { where: { removedAt: null } } } } }
+    });
+
+    if (!session) {
+      return [];
+    }
+
+    const guests = session.room?.participants ?? [];
+    const profiles = await prisma.profile.findMany({
+      where: { userId: { in: [session.patientId, session.physicianId, ...guests.map(guest => guest.userId)] } },
+      select: { userId: true, firstName: true, lastName: true }
+    });
+    const nameOf = (userId: string) => {
+      const profile = profiles.find(p => p.userId === userId);
+      const name = [profile?.firstName, profile?.lastName].filter(Boolean).join(' ');
+      return name || null;
+    };
+
+    return [
+      {
+        userId: session.patientId,
+        role: 'patient' as const,
+        name: nameOf(session.patientId),
+        joined: session.room?.patientJoined ?? false,
+        invitedBy: null
+      },
+      {
+        userId: session.physicianId,
+        role: 'physician' as const,
+        name: nameOf(session.physicianId),
+        joined: session.room?.physicianJoined ?? false,
+        invitedBy: null
+      },
+      ...guests.map(guest => ({
+        userId: guest.userId,
+        role: guest.role as ParticipantRole,
+        name: nameOf(guest.userId),
+        joined: !!guest.joinedAt && (!guest.leftAt || guest.leftAt < guest.joinedAt),
+        invitedBy: guest.invitedBy
+      }))
+    ];
+  }
+
+  // Tracks guests' presence; the patient and physician use the room's flags
+  async markPresence(access: RoomAccess, joined: boolean): Promise<void> {
+    if (!access.participant) return;
+
+    await prisma.consultationParticipant.update({
+      where: { id: access.participant.id },
+      data: joined ? { joinedAt: new Date() } : { leftAt: new Date() }
+    });
+  }
+
+  // Returns the one-time token with the invitation; it cannot be recovered later
+  async createInvitation(
+    sessionId: string,
+    userId: string,
+    input: InvitationInput
+  ): Promise<{ invitation: InvitationSummary; token: string; url: string } | null> {
+    const access = await this.getAccess(sessionId, userId);
+
+    if (!access?.session.room) {
+      return null;
+    }
+    if (!(CONSULTATION_CONFIG.invitableBy[access.role] ?? []).includes(input.role)) {
+      throw new Error(`You cannot invite a ${input.role.replace('_', ' ')} to this consultation`);
+    }
+    if (['completed', 'cancelled'].includes(access.session.status)) {
+      throw new Error('This consultation is no longer active');
+    }
+
+    const roomId = access.session.room.id;
+    const [guests, pending] = await Promise.all([
+      prisma.consultationParticipant.count({ where: { roomId, removedAt: null } }),
+      prisma.consultationInvitation.count({
+        where: { roomId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } }
+      })
+    ]);
+
+    // The patient and physician take two places
+    if (2 + guests + pending >= CONSULTATION_CONFIG.maxParticipants) {
+      throw new Error(`A consultation can have at most ${CONSULTATION_CONFIG.maxParticipants} participants`);
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const hours = input.expiresInHours ?? CONSULTATION_CONFIG.invitationTtlHours;
+
+    const invitation = await prisma.consultationInvitation.create({
+      data: {
+        roomId,
+        tokenHash: hashToken(token),
+        role: input.role,
+        email: input.email?.toLowerCase() ?? null,
+        createdBy: userId,
+        expiresAt: new Date(Date.now() + hours * 60 * 60 * 1000)
+      }
+    });
+
+    await this.audit(userId, 'CONSULTATION_INVITATION_CREATED', invitation.id, {
+      sessionId,
+      role: invitation.role,
+      email: invitation.email,
+      expiresAt: invitation.expiresAt.toISOString()
+    });
+
+    return {
+      invitation: this.toInvitationSummary(invitation),
+      token,
+      url: `${CONSULTATION_CONFIG.invitationUrl}/${token}`
+    };
+  }
+
+  async listInvitations(sessionId: string, userId: string): Promise<InvitationSummary[] | null> {
+    const access = await this.getAccess(sessionId, userId);
+
+    if (!access?.session.room || isGuestRole(access.role)) {
+      return null;
+    }
+
+    const invitations = await prisma.consultationInvitation.findMany({
+      where: { roomId: access.session.room.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return invitations.map(invitation => this.toInvitationSummary(invitation));
+  }
+
+  // The inviter or the physician can revoke an invitation not yet accepted
+  async revokeInvitation(invitationId: string, userId: string): Promise<InvitationSummary | null> {
+    const invitation = await prisma.consultationInvitation.findUnique({
+      where: { id: invitationId },
+      include: { room: { include: { session: true } } }
+    });
+
+    if (!invitation || (invitation.createdBy !== userId && invitation.room.session.physicianId !== userId)) {
+      return null;
+    }
+    if (invitation.acceptedAt) {
+      throw new Error('This invitation has already been accepted; remove the participant instead');
+    }
+
+    const revoked = await prisma.consultationInvitation.update({
+      where: { id: invitationId },
+      data: { revokedAt: invitation.revokedAt ?? new Date() }
+    });
+
+    await this.audit(userId, 'CONSULTATION_INVITATION_REVOKED', invitationId, {
+      sessionId: invitation.room.sessionId
+    });
+
+    return this.toInvitationSummary(revoked);
+  }
+
+  async acceptInvitation(token: string, user: { id: string; email: string; role: string }) {
+    const invitation = await prisma.consultationInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { room: { include: { session: true } } }
+    });
+
+    if (!invitation || invitation.revokedAt || invitation.expiresAt <= new Date()) {
+      throw new Error('This invitation is invalid or has expired');
+    }
+
+    const { session } = invitation.room;
+
+    if (invitation.acceptedBy) {
+      throw new Error('This invitation has already been used');
+    }
+    if (invitation.email && invitation.email !== user.email.toLowerCase()) {
+      throw new Error('This invitation was sent to a different email address');
+    }
+    if (invitation.role === 'consulting_physician' && user.role !== 'PHYSICIAN') {
+      throw new Error('Only physicians can join as a consulting physician');
+    }
+    if (session.patientId === user.id || session.physicianId === user.id) {
+      throw new Error('You are already part of this consultation');
+    }
+    if (['completed', 'cancelled'].includes(session.status)) {
+      throw new Error('This consultation is no longer active');
+    }
+
+    const participant = await prisma.$transaction(async (tx) => {
+      // Single use: only the first acceptance claims the invitation
+      const claimed = await tx.consultationInvitation.updateMany({
+        where: { id: invitation.id, acceptedBy: null },
+        data: { acceptedBy: user.id, acceptedAt: new Date() }
+      });
+
+      if (claimed.count === 0) {
+        throw new Error('This invitation has already been used');
+      }
+
+      // A new invitation brings back a guest who was removed
+      return tx.consultationParticipant.upsert({
+        where: { roomId_userId: { roomId: invitation.roomId, userId: user.id } },
+        create: {
+          roomId: invitation.roomId,
+          userId: user.id,
+          role: invitation.role,
+          invitationId: invitation.id,
+          invitedBy: invitation.createdBy
+        },
+        update: {
+          role: invitation.role,
+          invitationId: invitation.id,
+          invitedBy: invitation.createdBy,
+          removedAt: null,
+          removedBy: null
+        }
+      });
+    });
+
+    await this.audit(user.id, 'CONSULTATION_INVITATION_ACCEPTED', invitation.id, {
+      sessionId: session.id,
+      role: participant.role
+    });
+    await this.broadcastParticipants(session.id);
+
+    return { sessionId: session.id, participant };
+  }
+
+  // The patient and physician can remove any guest; guests can remove themselves
+  async removeParticipant(sessionId: string, participantUserId: string, userId: string): Promise<ConsultationParticipant | null> {
+    const access = await this.getAccess(sessionId, userId);
+
+    if (!access?.session.room || (isGuestRole(access.role) && participantUserId !== userId)) {
+      return null;
+    }
+
+    const participant = await prisma.consultationParticipant.findUnique({
+      where: { roomId_userId: { roomId: access.session.room.id, userId: participantUserId } }
+    });
+
+    if (!participant || participant.removedAt) {
+      return null;
+    }
+
+    const removed = await prisma.consultationParticipant.update({
+      where: { id: participant.id },
+      data: { removedAt: new Date(), removedBy: userId, leftAt: new Date() }
+    });
+
+    await this.audit(userId, 'CONSULTATION_PARTICIPANT_REMOVED', participant.id, {
+      sessionId,
+      participantUserId,
+      role: participant.role
+    });
+
+    // Their open sockets leave the room straight away
+    const roomName = `consultation:${sessionId}`;
+    this.io?.to(`user:${participantUserId}`).emit('consultation:removed', { sessionId });
+    this.io?.in(`user:${participantUserId}`).socketsLeave(roomName);
+    this.io?.to(roomName).emit('consultation:user_left', { sessionId, userId: participantUserId });
+    await this.broadcastParticipants(sessionId);
+
+    return removed;
+  }
+
+  // Returns null when the participant is already in that mode
+  async recordMediaMode(userId: string, change: MediaModePayload): Promise<ConsultationMediaModeChange | null> {
+    const { sessionId, mode, reason, stats } = change;
+    const previous = await prisma.consultationMediaModeChange.findFirst({
+      where: { sessionId, userId },
+      orderBy: { createdAt: 'desc' }
+    });
+    const previousMode = previous?.mode ?? 'full';
+
+    if (previousMode === mode) {
+      return null;
+    }
+
+    return prisma.consultationMediaModeChange.create({
+      data: {
+        sessionId,
+        userId,
+        mode,
+        previousMode,
+        reason,
+        latencyMs: stats ? Math.round(stats.latency) : null,
+        packetLoss: stats?.packetLoss ?? null,
+        bitrateKbps: stats ? Math.round(stats.bitrate) : null
+      }
+    });
+  }
+
+  // Each participant's latest mode, leaving out those on full
+  async getMediaModes(sessionId: string): Promise<Record<string, MediaMode>> {
+    const changes = await prisma.consultationMediaModeChange.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'asc' },
+      select: { userId: true, mode: true }
+    });
+
+    const modes = new Map<string, MediaMode>();
+    changes.forEach(change => modes.set(change.userId, change.mode as MediaMode));
+
+    return Object.fromEntries([...modes].filter(([, mode]) => mode !== 'full'));
+  }
+
+  async listMediaModeChanges(sessionId: string): Promise<ConsultationMediaModeChange[]> {
+    return prisma.consultationMediaModeChange.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async broadcastParticipants(sessionId: string): Promise<void> {
+    if (!this.io) return;
+
+    this.io.to(`consultation:${sessionId}`).emit('consultation:participants', {
+      sessionId,
+      participants: await this.listParticipants(sessionId)
+    });
+  }
+
+  private toInvitationSummary(invitation: ConsultationInvitation): InvitationSummary {
+    const { tokenHash: _tokenHash, ...summary } = invitation;
+    return summary;
+  }
+
+  private async audit(userId: string, actionType: string, resourceId: string, details: Record<string, unknown>) {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          actionType,
+          actionCategory: 'consultation_room',
+          resourceType: 'consultation_room',
+          resourceId,
+          newValues: details as Prisma.InputJsonValue,
+          impactLevel: 'medium',
+          complianceRelevant: true
+        }
+      });
+    } catch (error) {
+      console.error('Error logging consultation room activity:', error);
+    }
+  }
+}
+
+export const consultationRoomService = new ConsultationRoomService();
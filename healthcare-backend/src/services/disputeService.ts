@@ -0,0 +1,478 @@
+import { Prisma, PrismaClient, type FinancialDispute, type DisputeEvidence, type JournalEntry } from '@prisma/client';
+import { LedgerService } from './ledgerService.js';
+import { NotificationService } from './notificationService.js';
+
+const prisma = new PrismaClient();
+const ledgerService = new LedgerService();
+const notificationService = new NotificationService();
+
+export type DisputeType = 'payment_failed' | 'double_charge' | 'unauthorized_charge' | 'refund_request';
+export type DisputeResolutionType = 'refund' | 'adjustment';
+
+export const OPEN_DISPUTE_STATUSES = ['pending', 'investigating'];
+
+export interface OpenDisputeData {
+  transactionId: string;
+  disputeType: DisputeType;
+  description: string;
+  amount?: number | undefined; // Defaults to the full transaction amount
+}
+
+export interface EvidenceData {
+  note?: string | undefined;
+  documentId?: string | undefined;
+}
+
+export interface ResolutionData {
+  resolutionType: DisputeResolutionType;
+  amount: number;
+  notes: string;
+}
+
+interface Actor {
+  id: string;
+  role: string;
+}
+
+// Dispute lifecycle: a patient opens a dispute against one of their wallet
+// transactions, an admin may freeze the counterparty's share while both
+// parties submit evidence, and the resolution posts a real ledger entry.
+// Every step is written to the audit log in the same transaction.
+export class DisputeService {
+  async openDispute(userId: string, data: OpenDisputeData): Promise<FinancialDispute> {
+    const transaction = await prisma.walletTransaction.findUnique({
+      where: { id: data.transactionId },
+      include: { wallet: true, journalEntry: { include: { entries: true } } }
+    });
+
+    if (!transaction || transaction.wallet?.userId !== userId) {
+      throw new Error('Transaction not found');
+    }
+
+    if (transaction.status !== 'completed') {
+      throw new Error('Only completed transactions can be disputed');
+    }
+
+    const amount = new Prisma.Decimal(data.amount ?? transaction.amount);
+    if (amount.lessThanOrEqualTo(0) || amount.greaterThan(transaction.amount)) {
+      throw new Error('Disputed amount must be between 0 and the transaction amount');
+    }
+
+    const existing = await prisma.financialDispute.findFirst({
+      where: { transactionId: transaction.id, status: { in: OPEN_DISPUTE_STATUSES } }
+    });
+
+    if (existing) {
+      throw new Error('This transaction already has an open dispute');
+    }
+
+    // The counterparty is whoever's wallet took the other side of the same journal entry
+    const counterpartyLeg = transaction.journalEntry?.entries
+      .filter(entry => entry.walletId && entry.walletId !== transaction.walletId
+        && entry.transactionType !== transaction.transactionType)
+      .sort((a, b) => b.amount.comparedTo(a.amount))[0];
+
+    const counterpartyWallet = counterpartyLeg?.walletId
+      ? await prisma.wallet.findUnique({ where: { id: counterpartyLeg.walletId } })
+      : null;
+
+    const dispute = await prisma.$transaction(async (tx) => {
+      const created = await tx.financialDispute.create({
+        data: {
+          userId,
+          transactionId: transaction.id,
+          journalEntryId: transaction.journalEntryId,
+          counterpartyUserId: counterpartyWallet?.userId ?? null,
+          counterpartyWalletId: counterpartyWallet?.id ?? null,
+          disputeType: data.disputeType,
+          description: data.description,
+          amount
+        }
+      });
+
+      await this.audit(tx, userId, 'DISPUTE_OPENED', created, {
+        newValues: { transactionId: transaction.id, disputeType: data.disputeType, amount: amount.toString() }
+      });
+
+      return created;
+    });
+
+    if (dispute.counterpartyUserId) {
+      await this.notify(dispute.counterpartyUserId, 'Payment disputed',
+        `A patient has disputed a payment of ₦${amount.toFixed(2)}. You can submit evidence for review.`);
+    }
+
+    return dispute;
+  }
+
+  async getDispute(disputeId: string, actor: Actor) {
+    const dispute = await prisma.financialDispute.findUnique({
+      where: { id: disputeId },
+      include: { evidence: { orderBy: { createdAt: 'asc' } } }
+    });
+
+    if (!dispute || !this.getPartyRole(dispute, actor)) {
+      throw new Error('Dispute not found');
+    }
+
+    return dispute;
+  }
+
+  async addEvidence(disputeId: string, actor: Actor, data: EvidenceData): Promise<DisputeEvidence> {
+    const dispute = await this.getDispute(disputeId, actor);
+
+    if (!OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new Error(`Dispute is already ${dispute.status}`);
+    }
+
+    if (data.documentId) {
+      const document = await prisma.document.findFirst({
+        where: { id: data.documentId, userId: actor.id }
+      });
+
+      if (!document) {
+        throw new Error('Evidence document not found');
+      }
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const evidence = await tx.disputeEvidence.create({
+        data: {
+          disputeId,
+          submittedBy: actor.id,
+          partyRole: this.getPartyRole(dispute, actor)!,
+          note: data.note ?? null,
+          documentId: data.documentId ?? null
+        }
+      });
+
+      await this.audit(tx, actor.id, 'DISPUTE_EVIDENCE_ADDED', dispute, {
+        newValues: { evidenceId: evidence.id, documentId: evidence.documentId }
+      });
+
+      return evidence;
+    });
+  }
+
+  // Move the counterparty's proportional share of the disputed amount out of
+  // their spendable balance until the dispute is closed
+  async freezeFunds(disputeId: string, adminId: string): Promise<FinancialDispute> {
+    const dispute = await prisma.financialDispute.findUnique({ where: { id: disputeId } });
+
+    if (!dispute || !OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new Error('Dispute is not open');
+    }
+
+    if (dispute.frozenAmount.greaterThan(0)) {
+      throw new Error('Funds are already frozen for this dispute');
+    }
+
+    if (!dispute.counterpartyWalletId) {
+      throw new Error('This transaction has no counterparty wallet to freeze');
+    }
+
+    const frozenAmount = await this.getCounterpartyShare(dispute);
+
+    return prisma.$transaction(async (tx) => {
+      await ledgerService.postJournalEntry({
+        reference: `DISPUTE_${dispute.id}_HOLD`,
+        entryType: 'dispute_hold',
+        description: 'Funds frozen pending dispute',
+        metadata: { disputeId: dispute.id },
+        lines: [
+          { account: { walletId: dispute.counterpartyWalletId! }, side: 'debit', amount: frozenAmount },
+          { account: { systemAccount: 'disputeHolds' }, side: 'credit', amount: frozenAmount }
+        ]
+      }, tx);
+
+      const updated = await tx.financialDispute.update({
+        where: { id: dispute.id },
+        data: { frozenAmount, frozenAt: new Date(), status: 'investigating' }
+      });
+
+      await this.audit(tx, adminId, 'DISPUTE_FUNDS_FROZEN', updated, {
+        oldValues: { status: dispute.status },
+        newValues: { status: updated.status, frozenAmount: frozenAmount.toString() },
+        financialImpact: frozenAmount
+      });
+
+      return updated;
+    });
+  }
+
+  async resolveDispute(disputeId: string, adminId: string, data: ResolutionData): Promise<FinancialDispute> {
+    const dispute = await prisma.financialDispute.findUnique({ where: { id: disputeId } });
+
+    if (!dispute || !OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new Error('Dispute is not open');
+    }
+
+    const amount = new Prisma.Decimal(data.amount).toDecimalPlaces(2);
+    if (amount.lessThanOrEqualTo(0) || amount.greaterThan(dispute.amount)) {
+      throw new Error('Resolution amount must be between 0 and the disputed amount');
+    }
+
+    const [transaction, wallet] = await Promise.all([
+      prisma.walletTransaction.findUniqueOrThrow({
+        where: { id: dispute.transactionId },
+        include: { journalEntry: true }
+      }),
+      prisma.wallet.findUniqueOrThrow({ where: { userId: dispute.userId } })
+    ]);
+
+    if (data.resolutionType === 'refund' && (transaction.transactionType !== 'debit' || !transaction.journalEntry)) {
+      throw new Error('Only payments out of the wallet can be refunded; use an adjustment instead');
+    }
+
+    const resolved = await prisma.$transaction(async (tx) => {
+      await this.releaseFrozenFunds(tx, dispute);
+
+      if (data.resolutionType === 'refund') {
+        await this.claimConsultationRefund(tx, transaction.journalEntry!);
+      }
+
+      // A refund reverses the same share of every leg of the disputed payment;
+      // an adjustment is a goodwill credit funded by the platform
+      const { journalEntry } = data.resolutionType === 'refund'
+        ? await ledgerService.reverseJournalEntry(transaction.journalEntry!.reference, {
+            reference: `DISPUTE_${dispute.id}`,
+            entryType: 'dispute_refund',
+            description: 'Dispute refund',
+            metadata: { disputeId: dispute.id },
+            ratio: amount.dividedBy(transaction.amount)
+          }, tx)
+        : await ledgerService.postJournalEntry({
+            reference: `DISPUTE_${dispute.id}`,
+            entryType: 'dispute_adjustment',
+            description: 'Dispute adjustment',
+            metadata: { disputeId: dispute.id },
+            lines: [
+              { account: { systemAccount: 'platformFees' }, side: 'debit', amount },
+              { account: { walletId: wallet.id }, side: 'credit', amount }
+            ]
+          }, tx);
+
+      if (data.resolutionType === 'refund') {
+        await this.markConsultationRefunded(tx, transaction.journalEntry!);
+      }
+
+      const updated = await tx.financialDispute.update({
+        where: { id: dispute.id },
+        data: {
+          status: 'resolved',
+          resolutionType: data.resolutionType,
+          resolutionAmount: amount,
+          resolutionNotes: data.notes,
+          resolutionJournalEntryId: journalEntry.id,
+          resolvedBy: adminId,
+          resolvedAt: new Date()
+        }
+      });
+
+      await this.audit(tx, adminId, 'DISPUTE_RESOLVED', updated, {
+        oldValues: { status: dispute.status },
+        newValues: {
+          status: 'resolved',
+          resolutionType: data.resolutionType,
+          amount: amount.toString(),
+          journalEntryId: journalEntry.id
+        },
+        financialImpact: amount
+      });
+
+      return updated;
+    });
+
+    await this.notify(dispute.userId, 'Dispute resolved',
+      `Your dispute has been resolved and ₦${amount.toFixed(2)} has been credited to your wallet`);
+    if (dispute.counterpartyUserId) {
+      await this.notify(dispute.counterpartyUserId, 'Dispute resolved',
+        'A dispute on one of your payments has been resolved in favour of the patient');
+    }
+
+    return resolved;
+  }
+
+  // Refunding a consultation payment moves its session out of `paid`, as
+  // refundService does, which also makes a concurrent refund wait for this one
+  private async claimConsultationRefund(tx: Prisma.TransactionClient, journalEntry: JournalEntry): Promise<void> {
+    if (journalEntry.entryType !== 'consultation_payment') {
+      return;
+    }
+
+    const sessionId = journalEntry.reference.replace(/^CONSULT_/, '');
+    const claimed = await tx.consultationSession.updateMany({
+      where: { id: sessionId, paymentStatus: { in: ['paid', 'partially_refunded'] } },
+      data: { paymentStatus: 'partially_refunded' }
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('This consultation payment has already been refunded');
+    }
+  }
+
+  // Called after the reversal is posted, once the reversed share is known
+  private async markConsultationRefunded(tx: Prisma.TransactionClient, journalEntry: JournalEntry): Promise<void> {
+    if (journalEntry.entryType !== 'consultation_payment') {
+      return;
+    }
+
+    const reversed = await ledgerService.getReversedRatio(journalEntry.reference, tx);
+    if (reversed.greaterThanOrEqualTo(1)) {
+      await tx.consultationSession.update({
+        where: { id: journalEntry.reference.replace(/^CONSULT_/, '') },
+        data: { paymentStatus: 'refunded' }
+      });
+    }
+  }
+
+  async rejectDispute(disputeId: string, adminId: string, notes: string): Promise<FinancialDispute> {
+    const dispute = await prisma.financialDispute.findUnique({ where: { id: disputeId } });
+
+    if (!dispute || !OPEN_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new Error('Dispute is not open');
+    }
+
+    const rejected = await prisma.$transaction(async (tx) => {
+      await this.releaseFrozenFunds(tx, dispute);
+
+      const updated = await tx.financialDispute.update({
+        where: { id: dispute.id },
+        data: {
+          status: 'rejected',
+          resolutionNotes: notes,
+          resolvedBy: adminId,
+          resolvedAt: new Date()
+        }
+      });
+
+      await this.audit(tx, adminId, 'DISPUTE_REJECTED', updated, {
+        oldValues: { status: dispute.status },
+        newValues: { status: 'rejected', notes }
+      });
+
+      return updated;
+    });
+
+    await this.notify(dispute.userId, 'Dispute closed', `Your dispute was not upheld: ${notes}`);
+    if (dispute.counterpartyUserId && dispute.frozenAmount.greaterThan(0)) {
+      await this.notify(dispute.counterpartyUserId, 'Dispute closed',
+        `The dispute was rejected and ₦${dispute.frozenAmount.toFixed(2)} has been released to your wallet`);
+    }
+
+    return rejected;
+  }
+
+  async listDisputes(options: {
+    partyId?: string | undefined;
+    status?: string | undefined;
+    page?: number | undefined;
+    limit?: number | undefined;
+  } = {}) {
+    const { partyId, status, page = 1, limit = 20 } = options;
+
+    const where: Prisma.FinancialDisputeWhereInput = {};
+    if (partyId) where.OR = [{ userId: partyId }, { counterpartyUserId: partyId }];
+    if (status) where.status = status;
+
+    const [disputes, total] = await Promise.all([
+      prisma.financialDispute.findMany({
+        where,
+        include: { evidence: true },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.financialDispute.count({ where })
+    ]);
+
+    return {
+      disputes,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  // The counterparty leg scaled by the disputed share of the transaction
+  private async getCounterpartyShare(dispute: FinancialDispute): Promise<Prisma.Decimal> {
+    const [transaction, counterpartyLeg] = await Promise.all([
+      prisma.walletTransaction.findUniqueOrThrow({ where: { id: dispute.transactionId } }),
+      prisma.walletTransaction.findFirstOrThrow({
+        where: { journalEntryId: dispute.journalEntryId, walletId: dispute.counterpartyWalletId }
+      })
+    ]);
+
+    return counterpartyLeg.amount
+      .times(dispute.amount)
+      .dividedBy(transaction.amount)
+      .toDecimalPlaces(2);
+  }
+
+  private async releaseFrozenFunds(tx: Prisma.TransactionClient, dispute: FinancialDispute): Promise<void> {
+    if (dispute.frozenAmount.lessThanOrEqualTo(0) || !dispute.counterpartyWalletId) {
+      return;
+    }
+
+    await ledgerService.postJournalEntry({
+      reference: `DISPUTE_${dispute.id}_RELEASE`,
+      entryType: 'dispute_release',
+      description: 'Frozen dispute funds released',
+      metadata: { disputeId: dispute.id },
+      lines: [
+        { account: { systemAccount: 'disputeHolds' }, side: 'debit', amount: dispute.frozenAmount },
+        { account: { walletId: dispute.counterpartyWalletId }, side: 'credit', amount: dispute.frozenAmount }
+      ]
+    }, tx);
+  }
+
+  private getPartyRole(dispute: FinancialDispute, actor: Actor): string | null {
+    if (actor.role === 'ADMIN') return 'admin';
+    if (dispute.userId === actor.id) return 'patient';
+    if (dispute.counterpartyUserId === actor.id) return 'counterparty';
+    return null;
+  }
+
+  private async audit(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    actionType: string,
+    dispute: FinancialDispute,
+    values: {
+      oldValues?: Prisma.InputJsonObject;
+      newValues: Prisma.InputJsonObject;
+      financialImpact?: Prisma.Decimal;
+    }
+  ): Promise<void> {
+    await tx.auditLog.create({
+      data: {
+        userId,
+        actionType,
+        actionCategory: 'payment',
+        resourceType: 'financial_dispute',
+        resourceId: dispute.id,
+        ...(values.oldValues ? { oldValues: values.oldValues } : {}),
+        newValues: values.newValues,
+        impactLevel: values.financialImpact ? 'high' : 'medium',
+        complianceRelevant: true,
+        financialImpact: values.financialImpact ?? dispute.amount
+      }
+    });
+  }
+
+  private async notify(userId: string, title: string, message: string): Promise<void> {
+    try {
+      await notificationService.notify(userId, {
+        category: 'billing',
+        type: 'payment',
+        title,
+        message
+      });
+    } catch (error) {
+      console.error('Error sending dispute notification:', error);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { PrismaClient } from '@prisma/client';
+import { SUBSCRIPTION_CONFIG, type PlanEntitlements } from '../config/subscriptionConfig.js';
+import { ENTITLED_STATUSES } from './subscriptionService.js';
+
+const prisma = new PrismaClient();
+
+export type EntitlementFeature = 'booking' | 'virtual_consultation' | 'ai_assistant';
+
+export interface EntitlementCheck {
+  feature: EntitlementFeature;
+  allowed: boolean;
+  planCode: string;
+  limit: number | null; // -1 for unlimited, null for on/off features
+  used: number | null;
+  remaining: number | null;
+  reason?: string;
+}
+
+// The one place that decides what a user's plan lets them do. Booking limits,
+// virtual consultations and the AI assistant all go through check().
+export class EntitlementService {
+  async getEntitlements(userId: string): Promise<{
+    planCode: string;
+    subscriptionStatus: string | null;
+    entitlements: PlanEntitlements;
+  }> {
+    const subscription = await prisma.subscription.findFirst({
+      where: { userId, status: { in: ENTITLED_STATUSES } },
+      include: { plan: true },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!subscription) {
+      return {
+        planCode: SUBSCRIPTION_CONFIG.freePlanCode,
+        subscriptionStatus: null,
+        entitlements: SUBSCRIPTION_CONFIG.freeEntitlements
+      };
+    }
+
+    return {
+      planCode: subscription.plan.code,
+      subscriptionStatus: subscription.status,
+      entitlements: {
+        ...SUBSCRIPTION_CONFIG.freeEntitlements,
+        ...(subscription.plan.entitlements as Partial<PlanEntitlements>)
+      }
+    };
+  }
+
+  async check(userId: string, feature: EntitlementFeature): Promise<EntitlementCheck> {
+    const { planCode, entitlements } = await this.getEntitlements(userId);
+
+    if (feature === 'ai_assistant') {
+      return {
+        feature,
+        allowed: entitlements.aiAssistant,
+        planCode,
+        limit: null,
+        used: null,
+        remaining: null,
+        ...(entitlements.aiAssistant ? {} : { reason: 'The AI assistant is not included in your plan' })
+      };
+    }
+
+    const limit = feature === 'booking'
+      ? entitlements.monthlyBookings
+      : entitlements.monthlyVirtualConsultations;
+    const used = await this.countMonthlyUsage(userId, feature);
+    const allowed = limit === -1 || used < limit;
+
+    return {
+      feature,
+      allowed,
+      planCode,
+      limit,
+      used,
+      remaining: limit === -1 ? -1 : Math.max(0, limit - used),
+      ...(allowed ? {} : { reason: `Your plan allows ${limit} per month` })
+    };
+  }
+
+  private async countMonthlyUsage(userId: string, feature: 'booking' | 'virtual_consultation'): Promise<number> {
+    const now = new Date();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+    if (feature === 'booking') {
+      return prisma.appointment.count({
+        where: {
+          patientId: userId,
+          createdAt: { gte: monthStart },
+          status: { not: 'cancelled' }
+        }
+      });
+    }
+
+    // Only sessions that actually started count against the allowance
+    return prisma.consultationSession.count({
+      where: {
+        patientId: userId,
+        startedAt: { gte: monthStart }
+      }
+    });
+  }
+}
@@ -9,6 +9,7 @@ import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { Upload } from '@aws-sdk/lib-storage';
 import { PrismaClient } from '@prisma/client';
 import { s3Client, S3_CONFIG } from '../config/awsConfig.js';
+import { virusScanService } from './virusScanService.js';
 import sharp from 'sharp';
 import crypto from 'crypto';
 import path from 'path';
@@ -264,9 +265,10 @@ export class FileService {
     fileName: string,
     fileType: string,
     userId: string,
-    options: Partial<FileUploadOptions> = {}
+    options: Partial<FileUploadOptions> & { contentLength?: number } = {}
   ): Promise<{
     uploadUrl: string;
+    bucket: string;
     fileKey: string;
     fields: Record<string, string>;
   }> {
@@ -281,6 +283,7 @@ export class FileService {
         Bucket: bucket,
         Key: fileKey,
         ContentType: fileType,
+        ...(options.contentLength !== undefined && { ContentLength: options.contentLength }),
         Metadata: {
           originalName: fileName,
           uploadedBy: userId,
@@ -289,10 +292,15 @@ export class FileService {
         ServerSideEncryption: 'AES256'
       });
 
-      const uploadUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
+      // With a content length the signature covers it, so S3 refuses a body of any other size
+      const uploadUrl = await getSignedUrl(s3Client, command, {
+        expiresIn: 3600,
+        ...(options.contentLength !== undefined && { signableHeaders: new Set(['content-length', 'content-type']) })
+      });
 
       return {
         uploadUrl,
+        bucket,
         fileKey,
         fields: {
           'Content-Type': fileType,
@@ -366,6 +374,50 @@ export class FileService {
     }
   }
 
+  // Thumbnail for an object that was uploaded directly through a presigned URL
+  async generateThumbnailForObject(bucket: string, key: string): Promise<string> {
+    const buffer = await this.getObjectBuffer(bucket, key);
+    return this.generateThumbnail(buffer, key, bucket);
+  }
+
+  async getObjectBuffer(bucket: string, key: string): Promise<Buffer> {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: bucket,
+      Key: key
+    }));
+
+    if (!response.Body) {
+      throw new Error('File not found');
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  // Stores bytes the caller has already prepared (e.g. encrypted) without a document record
+  async putObject(
+    bucket: string,
+    key: string,
+    body: Buffer,
+    contentType: string,
+    metadata: Record<string, string> = {}
+  ): Promise<void> {
+    await s3Client.send(new PutObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      Metadata: metadata,
+      ServerSideEncryption: 'AES256'
+    }));
+  }
+
+  async deleteObject(bucket: string, key: string): Promise<void> {
+    await s3Client.send(new DeleteObjectCommand({
+      Bucket: bucket,
+      Key: key
+    }));
+  }
+
   private getBucketName(fileType: string): string {
     switch (fileType) {
       case 'image':
@@ -389,7 +441,7 @@ export class FileService {
     return `https://${bucket}.s3.${process.env.AWS_REGION}.amazonaws.com/${key}`;
   }
 
-  private async getSignedDownloadUrl(bucket: string, key: string): Promise<string> {
+  async getSignedDownloadUrl(bucket: string, key: string): Promise<string> {
     const command = new GetObjectCommand({
       Bucket: bucket,
       Key: key
@@ -450,10 +502,14 @@ export class FileService {
     }
   }
 
+  // True if clean, false if infected; throws when no verdict could be had
   async scanFileForViruses(bucket: string, key: string): Promise<boolean> {
-    // Integration with antivirus service (placeholder)
-    // This would integrate with services like ClamAV, Trend Micro, etc.
-    console.log(`Scanning file for viruses: ${bucket}/${key}`);
-    return true; // Return true if file is clean
+    const result = await virusScanService.scanBuffer(await this.getObjectBuffer(bucket, key));
+
+    if (!result.clean) {
+      console.warn(`Virus found in ${bucket}/${key}: ${result.signature}`);
+    }
+
+    return result.clean;
   }
 }
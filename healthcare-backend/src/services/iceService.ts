@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { TURN_CONFIG } from '../config/turnConfig.js';
+import { consultationRoomService } from './consultationRoomService.js';
+
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceConfiguration {
+  iceServers: IceServer[];
+  expiresAt: Date | null; // When the TURN credentials stop working
+  ttlSeconds: number;
+}
+
+// ICE servers for a consultation room, with TURN credentials in coturn's REST API
+// format: the username carries its expiry and the password is an HMAC of it
+export class IceService {
+  async getIceConfiguration(sessionId: string, userId: string, now = new Date()): Promise<IceConfiguration | null> {
+    const access = await consultationRoomService.getAccess(sessionId, userId);
+    const room = access?.session.room;
+
+    if (!access || !room) {
+      return null;
+    }
+
+    const { session } = access;
+    if (!TURN_CONFIG.activeSessionStatuses.includes(session.status)) {
+      throw new Error('This consultation is no longer active');
+    }
+
+    const iceServers: IceServer[] = [{ urls: TURN_CONFIG.stunUrls }];
+
+    if (!TURN_CONFIG.secret || TURN_CONFIG.urls.length === 0) {
+      return { iceServers, expiresAt: null, ttlSeconds: TURN_CONFIG.credentialTtlSeconds };
+    }
+
+    const expiry = Math.floor(now.getTime() / 1000) + TURN_CONFIG.credentialTtlSeconds;
+    const username = `${expiry}:${room.id}:${userId}`;
+
+    iceServers.push({
+      urls: TURN_CONFIG.urls,
+      username,
+      credential: crypto.createHmac('sha1', TURN_CONFIG.secret).update(username).digest('base64')
+    });
+
+    return {
+      iceServers,
+      expiresAt: new Date(expiry * 1000),
+      ttlSeconds: TURN_CONFIG.credentialTtlSeconds
+    };
+  }
+}
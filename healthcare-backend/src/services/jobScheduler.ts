@@ -0,0 +1,309 @@
+import { hostname } from 'os';
+import { PrismaClient, Prisma, type ScheduledJob } from '@prisma/client';
+import { SCHEDULER_CONFIG } from '../config/schedulerConfig.js';
+
+const prisma = new PrismaClient();
+
+export const JOB_STATUSES = ['pending', 'running', 'completed', 'failed', 'cancelled'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export type JobHandler = (payload: Prisma.JsonObject, job: ScheduledJob) => Promise<void>;
+
+export interface JobDefinition {
+  handler: JobHandler;
+  // Recurring jobs are kept as a single row that moves to the next run when done
+  intervalMs?: number;
+  maxAttempts?: number;
+}
+
+export interface ScheduleOptions {
+  // Scheduling again under the same key moves a pending job instead of adding one
+  uniqueKey?: string;
+  maxAttempts?: number;
+}
+
+export interface JobFilters {
+  status?: JobStatus;
+  type?: string;
+  limit?: number;
+}
+
+// Jobs live in the database so they survive restarts; any instance may run them,
+// but a job is only ever claimed by one
+export class JobScheduler {
+  private definitions = new Map<string, JobDefinition>();
+  private timer: NodeJS.Timeout | null = null;
+  private tick: Promise<void> | null = null;
+  private readonly workerId = `${hostname()}:${process.pid}`;
+
+  register(type: string, definition: JobDefinition) {
+    this.definitions.set(type, definition);
+  }
+
+  async schedule(type: string, payload: Prisma.JsonObject, runAt: Date, options: ScheduleOptions = {}): Promise<ScheduledJob> {
+    const data = {
+      type,
+      payload,
+      runAt,
+      maxAttempts: options.maxAttempts ?? SCHEDULER_CONFIG.maxAttempts
+    };
+
+    if (!options.uniqueKey) {
+      return prisma.scheduledJob.create({ data });
+    }
+
+    const existing = await prisma.scheduledJob.findUnique({ where: { uniqueKey: options.uniqueKey } });
+    if (!existing) {
+      try {
+        return await prisma.scheduledJob.create({ data: { ...data, uniqueKey: options.uniqueKey } });
+      } catch (error) {
+        // Another instance queued it first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return prisma.scheduledJob.findUniqueOrThrow({ where: { uniqueKey: options.uniqueKey } });
+        }
+        throw error;
+      }
+    }
+
+    // A job that already ran, failed or was cancelled stays that way
+    if (existing.status !== 'pending') {
+      return existing;
+    }
+
+    await prisma.scheduledJob.updateMany({
+      where: { id: existing.id, status: 'pending' },
+      data: { payload, runAt }
+    });
+    return { ...existing, payload, runAt };
+  }
+
+  async cancelByKey(uniqueKey: string): Promise<boolean> {
+    const result = await prisma.scheduledJob.updateMany({
+      where: { uniqueKey, status: 'pending' },
+      data: { status: 'cancelled' }
+    });
+    return result.count > 0;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.runOnce(), SCHEDULER_CONFIG.pollIntervalMs);
+    this.runOnce();
+  }
+
+  // Stop polling and let jobs already claimed finish
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.tick;
+  }
+
+  async listJobs(filters: JobFilters = {}) {
+    const where: Prisma.ScheduledJobWhereInput = {
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.type ? { type: filters.type } : {})
+    };
+
+    const [jobs, counts] = await Promise.all([
+      prisma.scheduledJob.findMany({
+        where,
+        orderBy: { runAt: filters.status === 'failed' ? 'desc' : 'asc' },
+        take: filters.limit ?? 50
+      }),
+      prisma.scheduledJob.groupBy({
+        by: ['status'],
+        ...(filters.type ? { where: { type: filters.type } } : {}),
+        _count: { _all: true }
+      })
+    ]);
+
+    return {
+      jobs,
+      counts: Object.fromEntries(
+        JOB_STATUSES.map(status => [status, counts.find(count => count.status === status)?._count._all ?? 0])
+      ) as Record<JobStatus, number>
+    };
+  }
+
+  // Queue a failed or cancelled job to run again straight away
+  async retryJob(jobId: string): Promise<ScheduledJob | null> {
+    const result = await prisma.scheduledJob.updateMany({
+      where: { id: jobId, status: { in: ['failed', 'cancelled'] } },
+      data: { status: 'pending', runAt: new Date(), attempts: 0, lastError: null, completedAt: null }
+    });
+    return result.count > 0 ? prisma.scheduledJob.findUnique({ where: { id: jobId } }) : null;
+  }
+
+  async cancelJob(jobId: string): Promise<ScheduledJob | null> {
+    const result = await prisma.scheduledJob.updateMany({
+      where: { id: jobId, status: 'pending' },
+      data: { status: 'cancelled' }
+    });
+    return result.count > 0 ? prisma.scheduledJob.findUnique({ where: { id: jobId } }) : null;
+  }
+
+  private runOnce() {
+    // A slow batch is not overlapped by the next poll
+    if (this.tick) {
+      return;
+    }
+
+    this.tick = this.processDueJobs()
+      .catch((error) => {
+        console.error('Job scheduler tick failed:', error);
+      })
+      .finally(() => {
+        this.tick = null;
+      });
+  }
+
+  private async processDueJobs() {
+    await this.ensureRecurringJobs();
+    await this.releaseStaleLocks();
+
+    const jobs = await this.claimDueJobs();
+    for (const job of jobs) {
+      await this.run(job);
+    }
+  }
+
+  // Every recurring type has exactly one row, created the first time any instance starts
+  private async ensureRecurringJobs() {
+    for (const [type, definition] of this.definitions) {
+      if (!definition.intervalMs) {
+        continue;
+      }
+
+      const uniqueKey = `recurring:${type}`;
+      const existing = await prisma.scheduledJob.findUnique({ where: { uniqueKey } });
+
+      if (!existing) {
+        await this.schedule(type, {}, new Date(), {
+          uniqueKey,
+          ...(definition.maxAttempts ? { maxAttempts: definition.maxAttempts } : {})
+        });
+      } else if (existing.status !== 'pending' && existing.status !== 'running') {
+        await prisma.scheduledJob.update({
+          where: { id: existing.id },
+          data: { status: 'pending', runAt: new Date(), attempts: 0 }
+        });
+      }
+    }
+  }
+
+  // Jobs left running by an instance that went away are picked up again
+  private async releaseStaleLocks() {
+    const result = await prisma.scheduledJob.updateMany({
+      where: {
+        status: 'running',
+        lockedAt: { lt: new Date(Date.now() - SCHEDULER_CONFIG.lockTimeoutMs) }
+      },
+      data: { status: 'pending', lockedAt: null, lockedBy: null }
+    });
+
+    if (result.count > 0) {
+      console.warn(`Released ${result.count} stale job lock(s)`);
+    }
+  }
+
+  private async claimDueJobs(): Promise<ScheduledJob[]> {
+    const candidates = await prisma.scheduledJob.findMany({
+      where: {
+        status: 'pending',
+        runAt: { lte: new Date() },
+        type: { in: [...this.definitions.keys()] }
+      },
+      orderBy: { runAt: 'asc' },
+      take: SCHEDULER_CONFIG.batchSize
+    });
+
+    const claimed: ScheduledJob[] = [];
+    for (const candidate of candidates) {
+      const lockedAt = new Date();
+
+      // Only one instance sees count 1 for a given job
+      const result = await prisma.scheduledJob.updateMany({
+        where: { id: candidate.id, status: 'pending' },
+        data: {
+          status: 'running',
+          lockedAt,
+          lockedBy: this.workerId,
+          attempts: { increment: 1 }
+        }
+      });
+
+      if (result.count > 0) {
+        claimed.push({
+          ...candidate,
+          status: 'running',
+          lockedAt,
+          lockedBy: this.workerId,
+          attempts: candidate.attempts + 1
+        });
+      }
+    }
+
+    return claimed;
+  }
+
+  private async run(job: ScheduledJob) {
+    const definition = this.definitions.get(job.type)!;
+    const payload = (job.payload ?? {}) as Prisma.JsonObject;
+
+    try {
+      await definition.handler(payload, job);
+
+      await prisma.scheduledJob.update({
+        where: { id: job.id },
+        data: definition.intervalMs
+          ? {
+              status: 'pending',
+              runAt: new Date(Date.now() + definition.intervalMs),
+              attempts: 0,
+              lastError: null,
+              lockedAt: null,
+              lockedBy: null
+            }
+          : {
+              status: 'completed',
+              completedAt: new Date(),
+              lastError: null,
+              lockedAt: null,
+              lockedBy: null
+            }
+      });
+
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Job ${job.type} (${job.id}) failed:`, error);
+
+      await prisma.scheduledJob.update({
+        where: { id: job.id },
+        data: {
+          ...this.failure(job, definition),
+          lastError: reason,
+          lockedAt: null,
+          lockedBy: null
+        }
+      });
+    }
+  }
+
+  private failure(job: ScheduledJob, definition: JobDefinition): Prisma.ScheduledJobUpdateInput {
+    if (job.attempts >= job.maxAttempts) {
+      // A recurring job carries on at its next run; the error stays visible until then
+      return definition.intervalMs
+        ? { status: 'pending', runAt: new Date(Date.now() + definition.intervalMs), attempts: 0 }
+        : { status: 'failed' };
+    }
+
+    const delay = SCHEDULER_CONFIG.retryDelayMs * 2 ** (job.attempts - 1);
+    return { status: 'pending', runAt: new Date(Date.now() + delay) };
+  }
+}
@@ -0,0 +1,461 @@
+import { Prisma, PrismaClient, type LedgerAccount } from '@prisma/client';
+import { LEDGER_CONFIG, type SystemAccountKey } from '../config/ledgerConfig.js';
+
+const prisma = new PrismaClient();
+
+export type LedgerSide = 'debit' | 'credit';
+
+export type LedgerAccountRef =
+  | { walletId: string }
+  | { hospitalId: string }
+  | { systemAccount: SystemAccountKey };
+
+export interface JournalLine {
+  account: LedgerAccountRef;
+  side: LedgerSide;
+  amount: Prisma.Decimal | number; // Amount in naira
+  description?: string;
+  // Settle an existing pending wallet transaction instead of creating a new leg
+  pendingTransactionId?: string;
+}
+
+export interface JournalEntryInput {
+  reference: string;
+  entryType: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+  lines: JournalLine[];
+}
+
+export interface ReversalOptions {
+  reference: string;
+  entryType: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+  ratio?: Prisma.Decimal | number; // Portion of the original entry to reverse, 0 < ratio <= 1
+}
+
+export interface WalletDiscrepancy {
+  walletId: string;
+  userId: string;
+  storedBalance: string;
+  ledgerBalance: string;
+  difference: string;
+}
+
+export interface ReconciliationReport {
+  generatedAt: string;
+  walletsChecked: number;
+  totals: {
+    debits: string;
+    credits: string;
+    balanced: boolean;
+  };
+  discrepancies: WalletDiscrepancy[];
+  unbalancedEntries: Array<{
+    journalEntryId: string;
+    debits: string;
+    credits: string;
+  }>;
+}
+
+const ZERO = new Prisma.Decimal(0);
+
+export class LedgerService {
+  async postJournalEntry(input: JournalEntryInput, tx?: Prisma.TransactionClient) {
+    if (tx) {
+      return this.post(tx, input);
+    }
+
+    return prisma.$transaction((client) => this.post(client, input));
+  }
+
+  // Post the mirror image of an existing entry, optionally scaled down for partial reversals
+  async reverseJournalEntry(
+    originalReference: string,
+    options: ReversalOptions,
+    tx?: Prisma.TransactionClient
+  ) {
+    const client = tx ?? prisma;
+    const original = await client.journalEntry.findUnique({
+      where: { reference: originalReference },
+      include: { entries: { include: { ledgerAccount: true } } }
+    });
+
+    if (!original) {
+      throw new Error(`Journal entry ${originalReference} not found`);
+    }
+
+    const ratio = new Prisma.Decimal(options.ratio ?? 1);
+    if (ratio.lessThanOrEqualTo(0) || ratio.greaterThan(1)) {
+      throw new Error('Reversal ratio must be between 0 and 1');
+    }
+
+    // Refunds and dispute resolutions both reverse payments; together they
+    // may not give back more than was paid
+    const reversed = await this.getReversedRatio(originalReference, tx);
+    if (reversed.plus(ratio).greaterThan(1)) {
+      throw new Error(`Journal entry ${originalReference} has already been reversed`);
+    }
+
+    const lines: JournalLine[] = original.entries.map(entry => ({
+      account: this.toAccountRef(entry.ledgerAccount!),
+      side: entry.transactionType === 'debit' ? 'credit' : 'debit',
+      amount: entry.amount.times(ratio).toDecimalPlaces(2),
+      description: `Reversal: ${entry.description ?? original.description ?? original.entryType}`
+    }));
+
+    // Rounding can leave the sides a kobo apart; absorb it in the largest leg
+    const total = (side: LedgerSide) => lines
+      .filter(line => line.side === side)
+      .reduce((sum, line) => sum.plus(line.amount), ZERO);
+    const difference = total('debit').minus(total('credit'));
+
+    if (!difference.isZero()) {
+      const side: LedgerSide = difference.greaterThan(0) ? 'credit' : 'debit';
+      const largest = lines
+        .filter(line => line.side === side)
+        .reduce((max, line) => new Prisma.Decimal(line.amount).greaterThan(max.amount) ? line : max);
+      largest.amount = new Prisma.Decimal(largest.amount).plus(difference.abs());
+    }
+
+    return this.postJournalEntry({
+      reference: options.reference,
+      entryType: options.entryType,
+      description: options.description ?? `Reversal of ${originalReference}`,
+      metadata: { ...options.metadata, reverses: originalReference, ratio: ratio.toString() },
+      lines: lines.filter(line => new Prisma.Decimal(line.amount).greaterThan(0))
+    }, tx);
+  }
+
+  // Share of an entry given back by earlier reversals, 0 to 1
+  async getReversedRatio(originalReference: string, tx?: Prisma.TransactionClient): Promise<Prisma.Decimal> {
+    const reversals = await (tx ?? prisma).journalEntry.findMany({
+      where: { metadata: { path: ['reverses'], equals: originalReference } },
+      select: { metadata: true }
+    });
+
+    return reversals.reduce((sum, reversal) => {
+      const { ratio } = reversal.metadata as { ratio?: string };
+      return sum.plus(ratio ?? 1);
+    }, ZERO);
+  }
+
+  async getAccountBalance(accountId: string): Promise<Prisma.Decimal> {
+    const account = await prisma.ledgerAccount.findUnique({ where: { id: accountId } });
+
+    if (!account) {
+      throw new Error('Ledger account not found');
+    }
+
+    const sums = await prisma.walletTransaction.groupBy({
+      by: ['transactionType'],
+      where: { ledgerAccountId: accountId, status: 'completed' },
+      _sum: { amount: true }
+    });
+
+    const credits = this.sumFor(sums, 'credit');
+    const debits = this.sumFor(sums, 'debit');
+
+    return account.normalBalance === 'credit' ? credits.minus(debits) : debits.minus(credits);
+  }
+
+  async getReconciliationReport(): Promise<ReconciliationReport> {
+    const [wallets, walletSums, entrySums] = await Promise.all([
+      prisma.wallet.findMany({ select: { id: true, userId: true, balance: true } }),
+      prisma.walletTransaction.groupBy({
+        by: ['walletId', 'transactionType'],
+        where: {
+          walletId: { not: null },
+          journalEntryId: { not: null },
+          status: 'completed'
+        },
+        _sum: { amount: true }
+      }),
+      prisma.walletTransaction.groupBy({
+        by: ['journalEntryId', 'transactionType'],
+        where: {
+          journalEntryId: { not: null },
+          status: 'completed'
+        },
+        _sum: { amount: true }
+      })
+    ]);
+
+    // Derive each wallet's balance from its journal legs
+    const ledgerBalances = new Map<string, Prisma.Decimal>();
+    for (const row of walletSums) {
+      const amount = row._sum.amount ?? ZERO;
+      const current = ledgerBalances.get(row.walletId!) ?? ZERO;
+      ledgerBalances.set(
+        row.walletId!,
+        row.transactionType === 'credit' ? current.plus(amount) : current.minus(amount)
+      );
+    }
+
+    const discrepancies: WalletDiscrepancy[] = [];
+    for (const wallet of wallets) {
+      const ledgerBalance = ledgerBalances.get(wallet.id) ?? ZERO;
+      const difference = wallet.balance.minus(ledgerBalance);
+
+      if (!difference.isZero()) {
+        discrepancies.push({
+          walletId: wallet.id,
+          userId: wallet.userId,
+          storedBalance: wallet.balance.toFixed(2),
+          ledgerBalance: ledgerBalance.toFixed(2),
+          difference: difference.toFixed(2)
+        });
+      }
+    }
+
+    // Every journal entry must have equal debit and credit legs
+    const entryTotals = new Map<string, { debits: Prisma.Decimal; credits: Prisma.Decimal }>();
+    let totalDebits = ZERO;
+    let totalCredits = ZERO;
+
+    for (const row of entrySums) {
+      const amount = row._sum.amount ?? ZERO;
+      const totals = entryTotals.get(row.journalEntryId!) ?? { debits: ZERO, credits: ZERO };
+
+      if (row.transactionType === 'debit') {
+        totals.debits = totals.debits.plus(amount);
+        totalDebits = totalDebits.plus(amount);
+      } else {
+        totals.credits = totals.credits.plus(amount);
+        totalCredits = totalCredits.plus(amount);
+      }
+
+      entryTotals.set(row.journalEntryId!, totals);
+    }
+
+    const unbalancedEntries = [...entryTotals.entries()]
+      .filter(([, totals]) => !totals.debits.equals(totals.credits))
+      .map(([journalEntryId, totals]) => ({
+        journalEntryId,
+        debits: totals.debits.toFixed(2),
+        credits: totals.credits.toFixed(2)
+      }));
+
+    return {
+      generatedAt: new Date().toISOString(),
+      walletsChecked: wallets.length,
+      totals: {
+        debits: totalDebits.toFixed(2),
+        credits: totalCredits.toFixed(2),
+        balanced: totalDebits.equals(totalCredits)
+      },
+      discrepancies,
+      unbalancedEntries
+    };
+  }
+
+  private async post(tx: Prisma.TransactionClient, input: JournalEntryInput) {
+    const lines = input.lines.map(line => ({
+      ...line,
+      amount: new Prisma.Decimal(line.amount)
+    }));
+
+    this.assertBalanced(lines);
+
+    const existing = await tx.journalEntry.findUnique({
+      where: { reference: input.reference }
+    });
+
+    if (existing) {
+      throw new Error(`Journal entry ${input.reference} has already been posted`);
+    }
+
+    const journalEntry = await tx.journalEntry.create({
+      data: {
+        reference: input.reference,
+        entryType: input.entryType,
+        description: input.description ?? null,
+        metadata: (input.metadata ?? {}) as Prisma.InputJsonValue
+      }
+    });
+
+    // Lock wallets in a stable order so concurrent entries cannot deadlock
+    const ordered = [...lines].sort((a, b) =>
+      this.lockKey(a.account).localeCompare(this.lockKey(b.account))
+    );
+
+    const entries = [];
+    for (const line of ordered) {
+      const account = await this.resolveAccount(tx, line.account);
+      const balanceAfter = account.walletId
+        ? await this.applyToWallet(tx, account, line.side, line.amount)
+        : null;
+
+      const data = {
+        walletId: account.walletId,
+        ledgerAccountId: account.id,
+        journalEntryId: journalEntry.id,
+        transactionType: line.side,
+        amount: line.amount,
+        balanceAfter,
+        description: line.description ?? input.description ?? null,
+        referenceId: input.reference,
+        status: 'completed'
+      };
+
+      entries.push(
+        line.pendingTransactionId
+          ? await tx.walletTransaction.update({ where: { id: line.pendingTransactionId }, data })
+          : await tx.walletTransaction.create({ data })
+      );
+    }
+
+    return { journalEntry, entries };
+  }
+
+  private assertBalanced(lines: Array<{ side: LedgerSide; amount: Prisma.Decimal }>) {
+    if (lines.length < 2) {
+      throw new Error('A journal entry needs at least two legs');
+    }
+
+    let debits = ZERO;
+    let credits = ZERO;
+
+    for (const line of lines) {
+      if (line.amount.lessThanOrEqualTo(0)) {
+        throw new Error('Journal entry amounts must be positive');
+      }
+
+      if (line.side === 'debit') {
+        debits = debits.plus(line.amount);
+      } else {
+        credits = credits.plus(line.amount);
+      }
+    }
+
+    if (!debits.equals(credits)) {
+      throw new Error(`Unbalanced journal entry: debits ${debits.toFixed(2)} != credits ${credits.toFixed(2)}`);
+    }
+  }
+
+  private async applyToWallet(
+    tx: Prisma.TransactionClient,
+    account: LedgerAccount,
+    side: LedgerSide,
+    amount: Prisma.Decimal
+  ): Promise<Prisma.Decimal> {
+    const walletId = account.walletId!;
+    const increases = side === account.normalBalance;
+
+    if (increases) {
+      const wallet = await tx.wallet.update({
+        where: { id: walletId },
+        data: { balance: { increment: amount } }
+      });
+      return wallet.balance;
+    }
+
+    // Conditional decrement so a concurrent debit can never overdraw the wallet
+    const result = await tx.wallet.updateMany({
+      where: { id: walletId, balance: { gte: amount } },
+      data: { balance: { decrement: amount } }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Insufficient balance');
+    }
+
+    const wallet = await tx.wallet.findUniqueOrThrow({ where: { id: walletId } });
+    return wallet.balance;
+  }
+
+  private async resolveAccount(tx: Prisma.TransactionClient, ref: LedgerAccountRef): Promise<LedgerAccount> {
+    if ('systemAccount' in ref) {
+      const definition = LEDGER_CONFIG.systemAccounts[ref.systemAccount];
+      return tx.ledgerAccount.upsert({
+        where: { code: definition.code },
+        update: {},
+        create: {
+          code: definition.code,
+          name: definition.name,
+          accountType: definition.accountType,
+          normalBalance: definition.normalBalance,
+          currency: LEDGER_CONFIG.currency
+        }
+      });
+    }
+
+    if ('hospitalId' in ref) {
+      return tx.ledgerAccount.upsert({
+        where: { code: `HOSPITAL_${ref.hospitalId}` },
+        update: {},
+        create: {
+          code: `HOSPITAL_${ref.hospitalId}`,
+          name: `Hospital revenue ${ref.hospitalId}`,
+          accountType: LEDGER_CONFIG.hospitalAccountType,
+          normalBalance: 'credit',
+          currency: LEDGER_CONFIG.currency
+        }
+      });
+    }
+
+    const existing = await tx.ledgerAccount.findUnique({ where: { walletId: ref.walletId } });
+    if (existing) {
+      return existing;
+    }
+
+    const wallet = await tx.wallet.findUnique({
+      where: { id: ref.walletId },
+      include: { user: { include: { profile: true } } }
+    });
+
+    if (!wallet) {
+      throw new Error('Wallet not found');
+    }
+
+    const accountType = wallet.user.profile?.role === 'PHYSICIAN'
+      ? LEDGER_CONFIG.walletAccountTypes.PHYSICIAN
+      : LEDGER_CONFIG.walletAccountTypes.default;
+
+    return tx.ledgerAccount.upsert({
+      where: { walletId: wallet.id },
+      update: {},
+      create: {
+        code: `WALLET_${wallet.id}`,
+        name: `${accountType} ${wallet.userId}`,
+        accountType,
+        normalBalance: LEDGER_CONFIG.walletNormalBalance,
+        currency: wallet.currency,
+        walletId: wallet.id
+      }
+    });
+  }
+
+  private toAccountRef(account: LedgerAccount): LedgerAccountRef {
+    if (account.walletId) {
+      return { walletId: account.walletId };
+    }
+
+    if (account.accountType === LEDGER_CONFIG.hospitalAccountType) {
+      return { hospitalId: account.code.replace(/^HOSPITAL_/, '') };
+    }
+
+    const systemAccount = (Object.keys(LEDGER_CONFIG.systemAccounts) as SystemAccountKey[])
+      .find(key => LEDGER_CONFIG.systemAccounts[key].code === account.code);
+
+    if (!systemAccount) {
+      throw new Error(`Unknown ledger account ${account.code}`);
+    }
+
+    return { systemAccount };
+  }
+
+  private lockKey(ref: LedgerAccountRef): string {
+    if ('walletId' in ref) return `wallet:${ref.walletId}`;
+    if ('hospitalId' in ref) return `hospital:${ref.hospitalId}`;
+    return `system:${ref.systemAccount}`;
+  }
+
+  private sumFor(
+    rows: Array<{ transactionType: string; _sum: { amount: Prisma.Decimal | null } }>,
+    side: LedgerSide
+  ): Prisma.Decimal {
+    return rows.find(row => row.transactionType === side)?._sum.amount ?? ZERO;
+  }
+}
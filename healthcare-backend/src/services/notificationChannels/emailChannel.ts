@@ -0,0 +1,15 @@
+import type { NotificationChannel } from '../../config/notificationConfig.js';
+import { sendNotificationEmail } from '../../utils/emailService.js';
+import type { NotificationRecipient, NotificationSender, OutgoingNotification } from './types.js';
+
+export class EmailChannel implements NotificationSender {
+  readonly channel: NotificationChannel = 'email';
+
+  canReach(recipient: NotificationRecipient): boolean {
+    return Boolean(recipient.email);
+  }
+
+  async send(recipient: NotificationRecipient, notification: OutgoingNotification): Promise<void> {
+    await sendNotificationEmail(recipient.email!, notification.title, notification.message);
+  }
+}
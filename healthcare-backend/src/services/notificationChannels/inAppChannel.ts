@@ -0,0 +1,34 @@
+import type { Server as SocketIOServer } from 'socket.io';
+import type { NotificationChannel } from '../../config/notificationConfig.js';
+import type { NotificationRecipient, NotificationSender, OutgoingNotification } from './types.js';
+
+// The stored notification is the in-app inbox; this pushes it to open
+// sessions through the `user:<id>` room the server joins every socket to
+// on connect. Without a socket server attached (e.g. in a script) the
+// inbox row is all the user gets.
+export class InAppChannel implements NotificationSender {
+  readonly channel: NotificationChannel = 'in_app';
+  private io: SocketIOServer | null = null;
+
+  attach(io: SocketIOServer) {
+    this.io = io;
+  }
+
+  canReach(): boolean {
+    return true;
+  }
+
+  async send(recipient: NotificationRecipient, notification: OutgoingNotification): Promise<void> {
+    this.io?.to(`user:${recipient.userId}`).emit('notification:new', {
+      id: notification.id,
+      userId: recipient.userId,
+      category: notification.category,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      data: notification.data,
+      read: false,
+      createdAt: notification.createdAt
+    });
+  }
+}
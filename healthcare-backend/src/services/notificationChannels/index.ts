@@ -0,0 +1,19 @@
+import type { NotificationChannel } from '../../config/notificationConfig.js';
+import { EmailChannel } from './emailChannel.js';
+import { InAppChannel } from './inAppChannel.js';
+import { PushChannel } from './pushChannel.js';
+import { SmsChannel } from './smsChannel.js';
+import type { NotificationSender } from './types.js';
+
+export type * from './types.js';
+export { EmailChannel, InAppChannel, PushChannel, SmsChannel };
+
+// Shared so the socket server can attach to it once for every dispatcher
+export const inAppChannel = new InAppChannel();
+
+export const notificationSenders: Record<NotificationChannel, NotificationSender> = {
+  in_app: inAppChannel,
+  email: new EmailChannel(),
+  sms: new SmsChannel(),
+  push: new PushChannel()
+};
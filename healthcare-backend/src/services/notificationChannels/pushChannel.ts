@@ -0,0 +1,62 @@
+import webpush from 'web-push';
+import { PrismaClient, type PushSubscription } from '@prisma/client';
+import { NOTIFICATION_CONFIG, type NotificationChannel } from '../../config/notificationConfig.js';
+import type { NotificationRecipient, NotificationSender, OutgoingNotification } from './types.js';
+
+const prisma = new PrismaClient();
+
+const PUSH = NOTIFICATION_CONFIG.push;
+
+// Push services answer these for subscriptions that no longer exist
+const EXPIRED_STATUS_CODES = [404, 410];
+
+// Web push to every browser the user has subscribed
+export class PushChannel implements NotificationSender {
+  readonly channel: NotificationChannel = 'push';
+
+  canReach(recipient: NotificationRecipient): boolean {
+    return Boolean(PUSH.vapidPublicKey && PUSH.vapidPrivateKey && recipient.pushSubscriptions.length > 0);
+  }
+
+  async send(recipient: NotificationRecipient, notification: OutgoingNotification): Promise<void> {
+    const payload = JSON.stringify({
+      id: notification.id,
+      category: notification.category,
+      title: notification.title,
+      body: notification.message,
+      data: notification.data
+    });
+
+    const results = await Promise.allSettled(
+      recipient.pushSubscriptions.map(subscription => this.sendTo(subscription, payload))
+    );
+
+    // Delivered if any of the user's browsers took it
+    if (!results.some(result => result.status === 'fulfilled')) {
+      const failure = results.find(result => result.status === 'rejected');
+      throw failure?.reason instanceof Error ? failure.reason : new Error('Push delivery failed');
+    }
+  }
+
+  private async sendTo(subscription: PushSubscription, payload: string) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        {
+          TTL: PUSH.ttlSeconds,
+          vapidDetails: {
+            subject: PUSH.subject,
+            publicKey: PUSH.vapidPublicKey!,
+            privateKey: PUSH.vapidPrivateKey!
+          }
+        }
+      );
+    } catch (error) {
+      if (error instanceof webpush.WebPushError && EXPIRED_STATUS_CODES.includes(error.statusCode)) {
+        await prisma.pushSubscription.deleteMany({ where: { id: subscription.id } });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { NOTIFICATION_CONFIG, type NotificationChannel } from '../../config/notificationConfig.js';
+import type { NotificationRecipient, NotificationSender, OutgoingNotification } from './types.js';
+
+const SMS = NOTIFICATION_CONFIG.sms;
+
+// Single-part SMS; longer texts are cut rather than billed as several parts
+const MAX_SMS_LENGTH = 160;
+
+// Sends through Termii, which routes to Nigerian networks
+export class SmsChannel implements NotificationSender {
+  readonly channel: NotificationChannel = 'sms';
+
+  canReach(recipient: NotificationRecipient): boolean {
+    return Boolean(SMS.apiKey && recipient.phone);
+  }
+
+  async send(recipient: NotificationRecipient, notification: OutgoingNotification): Promise<void> {
+    const text = `${notification.title}: ${notification.message}`;
+
+    const response = await fetch(`${SMS.baseUrl}/sms/send`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        api_key: SMS.apiKey,
+        to: this.toInternational(recipient.phone!),
+        from: SMS.senderId,
+        sms: text.length > MAX_SMS_LENGTH ? `${text.slice(0, MAX_SMS_LENGTH - 1)}…` : text,
+        type: 'plain',
+        channel: 'generic'
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS provider responded with ${response.status}`);
+    }
+  }
+
+  // Local numbers (0803...) become 234803...
+  private toInternational(phone: string): string {
+    const digits = phone.replace(/\D/g, '');
+    return digits.startsWith('0') ? `234${digits.slice(1)}` : digits;
+  }
+}
@@ -0,0 +1,29 @@
+import type { PushSubscription } from '@prisma/client';
+import type { NotificationCategory, NotificationChannel } from '../../config/notificationConfig.js';
+
+// Where a user can be reached
+export interface NotificationRecipient {
+  userId: string;
+  email: string | null;
+  phone: string | null;
+  pushSubscriptions: PushSubscription[];
+}
+
+export interface OutgoingNotification {
+  id: string | null; // Null for digests, which cover several notifications
+  category: NotificationCategory;
+  type: string;
+  title: string;
+  message: string;
+  data?: unknown;
+  createdAt: Date;
+}
+
+// A delivery channel. `canReach` is checked before a delivery is attempted;
+// `send` throws when the channel could not take the message.
+export interface NotificationSender {
+  readonly channel: NotificationChannel;
+
+  canReach(recipient: NotificationRecipient): boolean;
+  send(recipient: NotificationRecipient, notification: OutgoingNotification): Promise<void>;
+}
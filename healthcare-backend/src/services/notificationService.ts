@@ -0,0 +1,503 @@
+import {
+  PrismaClient,
+  type Notification,
+  type NotificationDelivery,
+  type Prisma,
+  type UserPreference
+} from '@prisma/client';
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CONFIG,
+  type NotificationCategory,
+  type NotificationChannel
+} from '../config/notificationConfig.js';
+import {
+  notificationSenders,
+  type NotificationRecipient,
+  type NotificationSender,
+  type OutgoingNotification
+} from './notificationChannels/index.js';
+
+const prisma = new PrismaClient();
+
+const MINUTES_PER_DAY = 24 * 60;
+const NOTIFICATION_LIST_LIMIT = 50;
+
+export interface NotificationInput {
+  category?: NotificationCategory | undefined;
+  type?: string | undefined;
+  title: string;
+  message: string;
+  data?: Record<string, unknown> | undefined;
+}
+
+export type CategoryPreference = Record<NotificationChannel, boolean> & { digest: boolean };
+
+export interface NotificationPreferences {
+  categories: Record<NotificationCategory, CategoryPreference>;
+  quietHours: { start: string; end: string } | null; // "HH:mm" in `timezone`
+  timezone: string;
+}
+
+export interface NotificationPreferencesUpdate {
+  // true/false switches every channel; an object overrides single channels
+  categories?: Partial<Record<NotificationCategory, boolean | Partial<CategoryPreference>>>;
+  quietHours?: { start: string; end: string } | null;
+  timezone?: string;
+}
+
+interface Recipient extends NotificationRecipient {
+  preferences: NotificationPreferences;
+}
+
+interface DeliveryPlan {
+  channel: NotificationChannel;
+  status: 'pending' | 'queued' | 'skipped';
+  digest: boolean;
+  reason: string | null;
+  scheduledFor: Date | null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Stores notifications and delivers them in-app, by email, SMS and web push
+// according to each user's preferences. Deliveries that cannot go out now
+// (quiet hours, digests, retries) are queued and sent by the periodic jobs;
+// every attempt is recorded in the delivery log.
+export class NotificationService {
+  constructor(private senders: Record<NotificationChannel, NotificationSender> = notificationSenders) {}
+
+  async notify(userId: string, input: NotificationInput): Promise<Notification> {
+    const category = input.category ?? 'general';
+    const recipient = await this.getRecipient(userId);
+
+    const notification = await prisma.notification.create({
+      data: {
+        userId,
+        category,
+        type: input.type ?? 'info',
+        title: input.title,
+        message: input.message,
+        ...(input.data ? { data: input.data as Prisma.InputJsonValue } : {}),
+        read: false
+      }
+    });
+
+    const now = new Date();
+    const deliveries = await prisma.$transaction(
+      NOTIFICATION_CHANNELS.map(channel => prisma.notificationDelivery.create({
+        data: {
+          notificationId: notification.id,
+          userId,
+          ...this.plan(recipient, category, channel, now)
+        }
+      }))
+    );
+
+    const outgoing = this.toOutgoing(notification);
+    await Promise.all(
+      deliveries
+        .filter(delivery => delivery.status === 'pending')
+        .map(delivery => this.deliver(delivery, recipient, outgoing))
+    );
+
+    return notification;
+  }
+
+  // Sends deliveries held back by quiet hours and retries failed ones
+  async processDueDeliveries(now = new Date()): Promise<number> {
+    const due = await prisma.notificationDelivery.findMany({
+      where: {
+        status: { in: ['pending', 'queued'] },
+        digest: false,
+        scheduledFor: { lte: now }
+      },
+      include: { notification: true },
+      orderBy: { scheduledFor: 'asc' },
+      take: NOTIFICATION_CONFIG.dispatchBatchSize
+    });
+
+    const recipients = new Map<string, Recipient>();
+
+    for (const delivery of due) {
+      try {
+        const recipient = recipients.get(delivery.userId) ?? await this.getRecipient(delivery.userId);
+        recipients.set(delivery.userId, recipient);
+
+        // Preferences may have changed since the delivery was queued
+        const category = this.toCategory(delivery.notification.category);
+        const plan = this.plan(recipient, category, delivery.channel as NotificationChannel, now);
+        if (plan.status !== 'pending') {
+          await prisma.notificationDelivery.update({ where: { id: delivery.id }, data: plan });
+          continue;
+        }
+
+        await this.deliver(delivery, recipient, this.toOutgoing(delivery.notification));
+      } catch (error) {
+        console.error(`Error processing notification delivery ${delivery.id}:`, error);
+        await prisma.notificationDelivery.update({
+          where: { id: delivery.id },
+          data: this.failure(delivery.attempts + 1, error)
+        });
+      }
+    }
+
+    return due.length;
+  }
+
+  // Sends one digest per user and channel for everything collected since the
+  // last run. Users in quiet hours get theirs on a later run.
+  async processDigests(now = new Date()): Promise<number> {
+    const queued = await prisma.notificationDelivery.findMany({
+      where: { status: 'queued', digest: true },
+      include: { notification: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const groups = new Map<string, typeof queued>();
+    for (const delivery of queued) {
+      const key = `${delivery.userId}:${delivery.channel}`;
+      groups.set(key, [...(groups.get(key) ?? []), delivery]);
+    }
+
+    const recipients = new Map<string, Recipient>();
+    let sent = 0;
+
+    for (const group of groups.values()) {
+      const { userId } = group[0]!;
+      const channel = group[0]!.channel as NotificationChannel;
+      const ids = group.map(delivery => delivery.id);
+
+      try {
+        const recipient = recipients.get(userId) ?? await this.getRecipient(userId);
+        recipients.set(userId, recipient);
+
+        if (this.quietHoursEnd(recipient.preferences, now)) {
+          continue;
+        }
+
+        if (!this.senders[channel].canReach(recipient)) {
+          await prisma.notificationDelivery.updateMany({
+            where: { id: { in: ids } },
+            data: { status: 'skipped', reason: 'unreachable' }
+          });
+          continue;
+        }
+
+        await this.senders[channel].send(recipient, this.toDigest(group.map(delivery => delivery.notification)));
+        await prisma.notificationDelivery.updateMany({
+          where: { id: { in: ids } },
+          data: { status: 'sent', sentAt: new Date(), error: null, attempts: { increment: 1 } }
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Error sending ${channel} digest to ${userId}:`, error);
+        await prisma.notificationDelivery.updateMany({
+          where: { id: { in: ids } },
+          data: { attempts: { increment: 1 }, error: error instanceof Error ? error.message : 'Delivery failed' }
+        });
+        await prisma.notificationDelivery.updateMany({
+          where: { id: { in: ids }, attempts: { gte: NOTIFICATION_CONFIG.maxAttempts } },
+          data: { status: 'failed' }
+        });
+      }
+    }
+
+    return sent;
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const preference = await prisma.userPreference.findUnique({ where: { userId } });
+    return this.resolvePreferences(preference);
+  }
+
+  async updatePreferences(userId: string, update: NotificationPreferencesUpdate): Promise<NotificationPreferences> {
+    const existing = await prisma.userPreference.findUnique({ where: { userId } });
+    const stored = isRecord(existing?.notificationPreferences) ? { ...existing.notificationPreferences } : {};
+
+    for (const [category, value] of Object.entries(update.categories ?? {})) {
+      const current = stored[category];
+      stored[category] = isRecord(value) && isRecord(current) ? { ...current, ...value } : value;
+    }
+
+    const data = {
+      notificationPreferences: stored as Prisma.InputJsonValue,
+      ...(update.quietHours !== undefined
+        ? { quietHoursStart: update.quietHours?.start ?? null, quietHoursEnd: update.quietHours?.end ?? null }
+        : {}),
+      ...(update.timezone !== undefined ? { timezone: update.timezone } : {})
+    };
+
+    const preference = await prisma.userPreference.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data
+    });
+
+    return this.resolvePreferences(preference);
+  }
+
+  async listNotifications(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}) {
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId, ...(options.unreadOnly ? { read: false } : {}) },
+        orderBy: { createdAt: 'desc' },
+        take: options.limit ?? NOTIFICATION_LIST_LIMIT
+      }),
+      prisma.notification.count({ where: { userId, read: false } })
+    ]);
+
+    return { notifications, unreadCount };
+  }
+
+  // Returns false when the notification does not belong to the user
+  async markAsRead(userId: string, notificationId: string): Promise<boolean> {
+    const { count } = await prisma.notification.updateMany({
+      where: { id: notificationId, userId },
+      data: { read: true }
+    });
+    return count > 0;
+  }
+
+  async markAllAsRead(userId: string): Promise<number> {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, read: false },
+      data: { read: true }
+    });
+    return count;
+  }
+
+  async deleteNotification(userId: string, notificationId: string): Promise<boolean> {
+    const { count } = await prisma.notification.deleteMany({
+      where: { id: notificationId, userId }
+    });
+    return count > 0;
+  }
+
+  // Null when the notification is not the user's, unless `asAdmin`
+  async getDeliveryLog(notificationId: string, userId: string, asAdmin = false): Promise<NotificationDelivery[] | null> {
+    const notification = await prisma.notification.findFirst({
+      where: { id: notificationId, ...(asAdmin ? {} : { userId }) },
+      select: { id: true }
+    });
+
+    if (!notification) {
+      return null;
+    }
+
+    return prisma.notificationDelivery.findMany({
+      where: { notificationId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  // A browser re-subscribing under another account moves to that account
+  async registerPushSubscription(
+    userId: string,
+    subscription: { endpoint: string; keys: { p256dh: string; auth: string } },
+    userAgent?: string
+  ) {
+    const data = {
+      userId,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      userAgent: userAgent ?? null
+    };
+
+    return prisma.pushSubscription.upsert({
+      where: { endpoint: subscription.endpoint },
+      create: { endpoint: subscription.endpoint, ...data },
+      update: data
+    });
+  }
+
+  async removePushSubscription(userId: string, endpoint: string): Promise<boolean> {
+    const { count } = await prisma.pushSubscription.deleteMany({
+      where: { userId, endpoint }
+    });
+    return count > 0;
+  }
+
+  private plan(recipient: Recipient, category: NotificationCategory, channel: NotificationChannel, now: Date): DeliveryPlan {
+    const plan: DeliveryPlan = { channel, status: 'pending', digest: false, reason: null, scheduledFor: null };
+
+    if (!recipient.preferences.categories[category][channel]) {
+      return { ...plan, status: 'skipped', reason: 'disabled' };
+    }
+
+    if (!this.senders[channel].canReach(recipient)) {
+      return { ...plan, status: 'skipped', reason: 'unreachable' };
+    }
+
+    // In-app notifications are silent, so they are never held back
+    if (channel === 'in_app' || NOTIFICATION_CONFIG.urgentCategories.includes(category)) {
+      return plan;
+    }
+
+    if (recipient.preferences.categories[category].digest) {
+      return { ...plan, status: 'queued', digest: true, reason: 'digest' };
+    }
+
+    const quietUntil = this.quietHoursEnd(recipient.preferences, now);
+    if (quietUntil) {
+      return { ...plan, status: 'queued', reason: 'quiet_hours', scheduledFor: quietUntil };
+    }
+
+    return plan;
+  }
+
+  private async deliver(delivery: NotificationDelivery, recipient: Recipient, notification: OutgoingNotification) {
+    const attempts = delivery.attempts + 1;
+
+    try {
+      await this.senders[delivery.channel as NotificationChannel].send(recipient, notification);
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'sent', attempts, sentAt: new Date(), scheduledFor: null, reason: null, error: null }
+      });
+    } catch (error) {
+      console.error(`Error sending ${delivery.channel} notification ${delivery.notificationId}:`, error);
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: this.failure(attempts, error)
+      });
+    }
+  }
+
+  // Retried with exponential backoff until maxAttempts
+  private failure(attempts: number, error: unknown): Prisma.NotificationDeliveryUpdateInput {
+    const message = error instanceof Error ? error.message : 'Delivery failed';
+
+    if (attempts >= NOTIFICATION_CONFIG.maxAttempts) {
+      return { status: 'failed', attempts, error: message, scheduledFor: null };
+    }
+
+    return {
+      status: 'pending',
+      attempts,
+      error: message,
+      scheduledFor: new Date(Date.now() + NOTIFICATION_CONFIG.retryDelayMs * 2 ** (attempts - 1))
+    };
+  }
+
+  private async getRecipient(userId: string): Promise<Recipient> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: { profile: true, preferences: true, pushSubscriptions: true }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      userId,
+      email: user.email,
+      phone: user.profile?.phone ?? null,
+      pushSubscriptions: user.pushSubscriptions,
+      preferences: this.resolvePreferences(user.preferences)
+    };
+  }
+
+  // Stored preferences only hold what the user changed; everything else
+  // falls back to the category defaults
+  private resolvePreferences(preference: UserPreference | null): NotificationPreferences {
+    const stored = isRecord(preference?.notificationPreferences) ? preference.notificationPreferences : {};
+
+    const categories = Object.fromEntries(NOTIFICATION_CATEGORIES.map(category => {
+      const defaults: NotificationChannel[] = NOTIFICATION_CONFIG.defaultChannels[category];
+      const value = stored[category];
+
+      const channels = Object.fromEntries(NOTIFICATION_CHANNELS.map(channel => {
+        if (typeof value === 'boolean') {
+          return [channel, value && defaults.includes(channel)];
+        }
+        if (isRecord(value) && typeof value[channel] === 'boolean') {
+          return [channel, value[channel]];
+        }
+        return [channel, defaults.includes(channel)];
+      }));
+
+      return [category, { ...channels, digest: isRecord(value) && value.digest === true }];
+    })) as Record<NotificationCategory, CategoryPreference>;
+
+    return {
+      categories,
+      quietHours: preference?.quietHoursStart && preference.quietHoursEnd
+        ? { start: preference.quietHoursStart, end: preference.quietHoursEnd }
+        : null,
+      timezone: preference?.timezone ?? NOTIFICATION_CONFIG.defaultTimezone
+    };
+  }
+
+  // When the user's quiet hours end, or null if they are not in them now
+  private quietHoursEnd(preferences: NotificationPreferences, now: Date): Date | null {
+    if (!preferences.quietHours) {
+      return null;
+    }
+
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: preferences.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now);
+    const current = Number(parts.find(part => part.type === 'hour')?.value) * 60
+      + Number(parts.find(part => part.type === 'minute')?.value);
+
+    const start = this.toMinutes(preferences.quietHours.start);
+    const end = this.toMinutes(preferences.quietHours.end);
+
+    // Windows like 22:00-07:00 wrap past midnight
+    const quiet = start <= end
+      ? current >= start && current < end
+      : current >= start || current < end;
+
+    if (!quiet) {
+      return null;
+    }
+
+    const minutesLeft = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+    return new Date(startOfMinute + minutesLeft * 60000);
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours ?? 0) * 60 + (minutes ?? 0);
+  }
+
+  private toCategory(category: string): NotificationCategory {
+    return (NOTIFICATION_CATEGORIES as readonly string[]).includes(category)
+      ? category as NotificationCategory
+      : 'general';
+  }
+
+  private toOutgoing(notification: Notification): OutgoingNotification {
+    return {
+      id: notification.id,
+      category: this.toCategory(notification.category),
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      data: notification.data,
+      createdAt: notification.createdAt
+    };
+  }
+
+  private toDigest(notifications: Notification[]): OutgoingNotification {
+    const [first] = notifications;
+
+    return {
+      id: null,
+      category: 'general',
+      type: 'digest',
+      title: notifications.length === 1 && first ? first.title : `You have ${notifications.length} new notifications`,
+      message: notifications.map(notification => `• ${notification.title}: ${notification.message}`).join('\n'),
+      data: { notificationIds: notifications.map(notification => notification.id) },
+      createdAt: new Date()
+    };
+  }
+}
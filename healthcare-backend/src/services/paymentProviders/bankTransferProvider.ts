@@ -0,0 +1,66 @@
+import axios from 'axios';
+import { PAYMENT_PROVIDER_CONFIG, type PaymentProviderName } from '../../config/paymentProviderConfig.js';
+import type { SystemAccountKey } from '../../config/ledgerConfig.js';
+import { FlutterwaveProvider, type FlutterwaveResponse } from './flutterwaveProvider.js';
+import { providerErrorMessage } from './providerErrors.js';
+import type { ProviderInitializeData, ProviderInitializeResult } from './types.js';
+
+const FLUTTERWAVE = PAYMENT_PROVIDER_CONFIG.flutterwave;
+
+interface VirtualAccount {
+  account_number: string;
+  bank_name: string;
+  note?: string;
+  expiry_date?: string;
+}
+
+// Pay by bank transfer into a one-time virtual account. Flutterwave issues
+// the account and reports the incoming transfer as an ordinary charge, so
+// everything after initialization is the Flutterwave flow.
+export class BankTransferProvider extends FlutterwaveProvider {
+  override readonly name: PaymentProviderName = 'bank_transfer';
+  override readonly clearingAccount: SystemAccountKey = PAYMENT_PROVIDER_CONFIG.clearingAccounts.bank_transfer;
+
+  override async initializePayment(data: ProviderInitializeData): Promise<ProviderInitializeResult> {
+    if (data.plan) {
+      throw new Error('Subscription plans are only available through Paystack');
+    }
+
+    try {
+      const response = await axios.post<FlutterwaveResponse<VirtualAccount>>(
+        `${FLUTTERWAVE.baseUrl}/virtual-account-numbers`,
+        {
+          email: data.email,
+          tx_ref: data.reference,
+          amount: data.amount / 100,
+          is_permanent: false,
+          expiry: FLUTTERWAVE.virtualAccountExpirySeconds,
+          narration: 'Heala payment'
+        },
+        { headers: this.getHeaders() }
+      );
+
+      if (response.data.status !== 'success') {
+        throw new Error(response.data.message || 'Virtual account creation failed');
+      }
+
+      const account = response.data.data;
+
+      return {
+        authorizationUrl: null,
+        accessCode: null,
+        reference: data.reference,
+        bankAccount: {
+          accountNumber: account.account_number,
+          bankName: account.bank_name,
+          accountName: account.note ?? null,
+          expiresAt: account.expiry_date ?? null
+        }
+      };
+
+    } catch (error: unknown) {
+      console.error('Virtual account creation error:', error);
+      throw new Error(providerErrorMessage(error, 'Payment initialization failed'));
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { PAYSTACK_CONFIG } from '../../config/paystackConfig.js';
+import { PAYMENT_PROVIDER_CONFIG } from '../../config/paymentProviderConfig.js';
+import type { WebhookPayload } from '../webhookEventService.js';
+import type {
+  PaymentProvider,
+  ProviderInitializeData,
+  ProviderInitializeResult,
+  ProviderVerifyResult,
+  TransferData,
+  TransferRecipientData
+} from './types.js';
+
+const FAKE = PAYMENT_PROVIDER_CONFIG.fake;
+
+interface FakePayment {
+  reference: string;
+  email: string;
+  amount: number; // Amount in kobo
+  currency: string;
+  metadata: Record<string, unknown>;
+  status: 'pending' | 'success' | 'failed';
+  refunded: number; // Amount in kobo
+  paidAt: string | null;
+}
+
+interface FakeTransfer {
+  reference: string;
+  recipient: string;
+  amount: number; // Amount in kobo
+  status: 'pending' | 'success' | 'failed';
+}
+
+export interface SignedWebhook {
+  payload: WebhookPayload;
+  headers: Record<string, string>;
+}
+
+// Shared by every instance so a test can drive payments the service started
+const payments = new Map<string, FakePayment>();
+const transfers = new Map<string, FakeTransfer>();
+let sequence = 0;
+
+// In-memory gateway for local development and tests. Nothing leaves the
+// process; tests complete payments and transfers by feeding the signed
+// webhooks built below back through the webhook endpoint.
+export class FakeProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+  readonly clearingAccount = PAYMENT_PROVIDER_CONFIG.clearingAccounts.fake;
+
+  async initializePayment(data: ProviderInitializeData): Promise<ProviderInitializeResult> {
+    payments.set(data.reference, {
+      reference: data.reference,
+      email: data.email,
+      amount: data.amount,
+      currency: data.currency || PAYSTACK_CONFIG.currency,
+      metadata: data.metadata ?? {},
+      status: 'pending',
+      refunded: 0,
+      paidAt: null
+    });
+
+    return {
+      authorizationUrl: `${FAKE.checkoutUrl}/${data.reference}`,
+      accessCode: `fake_${data.reference}`,
+      reference: data.reference
+    };
+  }
+
+  async verifyPayment(reference: string): Promise<ProviderVerifyResult> {
+    const payment = this.getPayment(reference);
+
+    return {
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency,
+      customer: { email: payment.email },
+      metadata: payment.metadata,
+      paidAt: payment.paidAt
+    };
+  }
+
+  async refundPayment(reference: string, amount?: number): Promise<void> {
+    const payment = this.getPayment(reference);
+    const refundAmount = amount ?? payment.amount - payment.refunded;
+
+    if (payment.status !== 'success' || payment.refunded + refundAmount > payment.amount) {
+      throw new Error('Refund processing failed');
+    }
+
+    payment.refunded += refundAmount;
+  }
+
+  async createTransferRecipient(data: TransferRecipientData): Promise<string> {
+    return `FAKE_RCP_${data.bankCode}_${data.accountNumber}`;
+  }
+
+  async initiateTransfer(data: TransferData): Promise<string> {
+    transfers.set(data.reference, {
+      reference: data.reference,
+      recipient: data.recipient,
+      amount: data.amount,
+      status: 'pending'
+    });
+
+    return `FAKE_TRF_${++sequence}`;
+  }
+
+  verifyWebhook(payload: unknown, headers: IncomingHttpHeaders): boolean {
+    if (!FAKE.webhookSecret) {
+      return false;
+    }
+
+    return headers['x-fake-signature'] === this.sign(payload);
+  }
+
+  parseWebhook(payload: unknown): WebhookPayload {
+    return payload as WebhookPayload;
+  }
+
+  // Test helpers
+
+  // Mark a payment as paid and return the charge.success webhook for it
+  completePayment(reference: string): SignedWebhook {
+    const payment = this.getPayment(reference);
+    payment.status = 'success';
+    payment.paidAt = new Date().toISOString();
+
+    return this.buildWebhook('charge.success', {
+      id: `FAKE_CHG_${++sequence}`,
+      reference,
+      amount: payment.amount,
+      currency: payment.currency,
+      customer: { email: payment.email },
+      metadata: payment.metadata
+    });
+  }
+
+  // Settle or fail a transfer and return the matching webhook
+  completeTransfer(reference: string, succeeded = true, reason?: string): SignedWebhook {
+    const transfer = transfers.get(reference);
+
+    if (!transfer) {
+      throw new Error(`Unknown fake transfer ${reference}`);
+    }
+
+    transfer.status = succeeded ? 'success' : 'failed';
+
+    return this.buildWebhook(succeeded ? 'transfer.success' : 'transfer.failed', {
+      id: `FAKE_TRF_EVT_${++sequence}`,
+      reference,
+      amount: transfer.amount,
+      ...(reason ? { reason } : {})
+    });
+  }
+
+  // Return the refund.processed webhook for a refund made through refundPayment
+  completeRefund(reference: string, amount?: number): SignedWebhook {
+    const payment = this.getPayment(reference);
+
+    return this.buildWebhook('refund.processed', {
+      id: `FAKE_RFD_${++sequence}`,
+      transaction_reference: reference,
+      amount: amount ?? payment.refunded
+    });
+  }
+
+  getTransfer(reference: string): FakeTransfer | undefined {
+    return transfers.get(reference);
+  }
+
+  reset(): void {
+    payments.clear();
+    transfers.clear();
+  }
+
+  sign(payload: unknown): string {
+    if (!FAKE.webhookSecret) {
+      throw new Error('FAKE_PROVIDER_WEBHOOK_SECRET is not set');
+    }
+
+    return crypto
+      .createHmac('sha256', FAKE.webhookSecret)
+      .update(JSON.stringify(payload))
+      .digest('hex');
+  }
+
+  private buildWebhook(event: string, data: WebhookPayload['data']): SignedWebhook {
+    const payload = { event, data };
+    return { payload, headers: { 'x-fake-signature': this.sign(payload) } };
+  }
+
+  private getPayment(reference: string): FakePayment {
+    const payment = payments.get(reference);
+
+    if (!payment) {
+      throw new Error(`Unknown fake payment ${reference}`);
+    }
+
+    return payment;
+  }
+}
@@ -0,0 +1,269 @@
+import axios from 'axios';
+import type { IncomingHttpHeaders } from 'http';
+import { PAYSTACK_CONFIG } from '../../config/paystackConfig.js';
+import { PAYMENT_PROVIDER_CONFIG, type PaymentProviderName } from '../../config/paymentProviderConfig.js';
+import type { SystemAccountKey } from '../../config/ledgerConfig.js';
+import type { WebhookPayload } from '../webhookEventService.js';
+import { providerErrorMessage } from './providerErrors.js';
+import type {
+  PaymentProvider,
+  ProviderInitializeData,
+  ProviderInitializeResult,
+  ProviderVerifyResult,
+  TransferData,
+  TransferRecipientData
+} from './types.js';
+
+const FLUTTERWAVE = PAYMENT_PROVIDER_CONFIG.flutterwave;
+
+// Flutterwave works in naira while the rest of the payment code uses kobo
+const toNaira = (kobo: number) => kobo / 100;
+const toKobo = (naira: number | string) => Math.round(Number(naira) * 100);
+
+// Flutterwave responses report `status: 'success'` or `'error'`
+export interface FlutterwaveResponse<T> {
+  status: string;
+  message?: string;
+  data: T;
+}
+
+interface FlutterwaveTransaction {
+  id: number;
+  status: string;
+  amount: number; // Amount in naira
+  currency: string;
+  customer: { email?: string; [key: string]: unknown } | null;
+  meta: Record<string, unknown> | null;
+  created_at?: string;
+}
+
+// The fields of Flutterwave's charge, transfer and refund events used here;
+// charges and refunds carry our reference as tx_ref, transfers as reference
+interface FlutterwaveWebhook {
+  event: string;
+  meta_data?: Record<string, unknown>;
+  data: {
+    id: number;
+    status?: string;
+    tx_ref?: string;
+    reference?: string;
+    amount: number; // Amount in naira
+    amount_refunded?: number;
+    currency?: string;
+    customer?: Record<string, unknown>;
+    meta?: Record<string, unknown>;
+    complete_message?: string;
+    comments?: string;
+  };
+}
+
+export class FlutterwaveProvider implements PaymentProvider {
+  readonly name: PaymentProviderName = 'flutterwave';
+  readonly clearingAccount: SystemAccountKey = PAYMENT_PROVIDER_CONFIG.clearingAccounts.flutterwave;
+
+  protected getHeaders() {
+    return {
+      'Authorization': `Bearer ${FLUTTERWAVE.secretKey}`,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  async initializePayment(data: ProviderInitializeData): Promise<ProviderInitializeResult> {
+    if (data.plan) {
+      throw new Error('Subscription plans are only available through Paystack');
+    }
+
+    try {
+      const response = await axios.post<FlutterwaveResponse<{ link: string }>>(
+        `${FLUTTERWAVE.baseUrl}/payments`,
+        {
+          tx_ref: data.reference,
+          amount: toNaira(data.amount),
+          currency: data.currency || PAYSTACK_CONFIG.currency,
+          redirect_url: data.callbackUrl,
+          customer: { email: data.email },
+          meta: data.metadata,
+          ...(data.channels ? { payment_options: data.channels.join(',') } : {})
+        },
+        { headers: this.getHeaders() }
+      );
+
+      if (response.data.status !== 'success') {
+        throw new Error(response.data.message || 'Payment initialization failed');
+      }
+
+      return {
+        authorizationUrl: response.data.data.link,
+        accessCode: null,
+        reference: data.reference
+      };
+
+    } catch (error: unknown) {
+      console.error('Flutterwave payment initialization error:', error);
+      throw new Error(providerErrorMessage(error, 'Payment initialization failed'));
+    }
+  }
+
+  async verifyPayment(reference: string): Promise<ProviderVerifyResult> {
+    try {
+      const transaction = await this.fetchTransaction(reference);
+
+      return {
+        // Report statuses the way Paystack does so callers need no mapping
+        status: transaction.status === 'successful' ? 'success' : transaction.status,
+        amount: toKobo(transaction.amount),
+        currency: transaction.currency,
+        customer: transaction.customer,
+        metadata: transaction.meta,
+        paidAt: transaction.created_at ?? null
+      };
+
+    } catch (error: unknown) {
+      console.error('Flutterwave payment verification error:', error);
+      throw new Error('Payment verification failed');
+    }
+  }
+
+  async refundPayment(reference: string, amount?: number): Promise<void> {
+    try {
+      // Refunds are keyed by Flutterwave's transaction id, not our reference
+      const transaction = await this.fetchTransaction(reference);
+
+      const response = await axios.post<FlutterwaveResponse<unknown>>(
+        `${FLUTTERWAVE.baseUrl}/transactions/${transaction.id}/refund`,
+        amount !== undefined ? { amount: toNaira(amount) } : {},
+        { headers: this.getHeaders() }
+      );
+
+      if (response.data.status !== 'success') {
+        throw new Error(response.data.message || 'Refund failed');
+      }
+    } catch (error: unknown) {
+      console.error('Flutterwave refund error:', error);
+      throw new Error('Refund processing failed');
+    }
+  }
+
+  // Flutterwave transfers address the bank account directly, so once the
+  // beneficiary is saved the recipient code carries the bank and account number
+  async createTransferRecipient(data: TransferRecipientData): Promise<string> {
+    try {
+      const response = await axios.post<FlutterwaveResponse<unknown>>(
+        `${FLUTTERWAVE.baseUrl}/beneficiaries`,
+        {
+          account_bank: data.bankCode,
+          account_number: data.accountNumber,
+          beneficiary_name: data.name,
+          currency: data.currency || PAYSTACK_CONFIG.currency
+        },
+        { headers: this.getHeaders() }
+      );
+
+      if (response.data.status !== 'success') {
+        throw new Error(response.data.message || 'Beneficiary creation failed');
+      }
+
+      return `${data.bankCode}:${data.accountNumber}`;
+
+    } catch (error: unknown) {
+      console.error('Flutterwave beneficiary creation error:', error);
+      throw new Error('Failed to create transfer recipient');
+    }
+  }
+
+  async initiateTransfer(data: TransferData): Promise<string> {
+    const [accountBank, accountNumber] = data.recipient.split(':');
+
+    if (!accountBank || !accountNumber) {
+      throw new Error('Invalid Flutterwave transfer recipient');
+    }
+
+    try {
+      const response = await axios.post<FlutterwaveResponse<{ id: number }>>(
+        `${FLUTTERWAVE.baseUrl}/transfers`,
+        {
+          account_bank: accountBank,
+          account_number: accountNumber,
+          amount: toNaira(data.amount),
+          currency: PAYSTACK_CONFIG.currency,
+          narration: data.reason,
+          reference: data.reference
+        },
+        { headers: this.getHeaders() }
+      );
+
+      if (response.data.status !== 'success') {
+        throw new Error(response.data.message || 'Transfer initiation failed');
+      }
+
+      return String(response.data.data.id);
+
+    } catch (error: unknown) {
+      console.error('Flutterwave transfer error:', error);
+      throw new Error('Failed to initiate transfer');
+    }
+  }
+
+  // Flutterwave sends the secret hash configured on the dashboard as-is
+  verifyWebhook(_payload: unknown, headers: IncomingHttpHeaders): boolean {
+    return Boolean(FLUTTERWAVE.webhookHash) && headers['verif-hash'] === FLUTTERWAVE.webhookHash;
+  }
+
+  parseWebhook(payload: unknown): WebhookPayload {
+    const webhook = payload as FlutterwaveWebhook;
+    const { data } = webhook;
+    const reference = data.tx_ref ?? data.reference;
+
+    switch (webhook.event) {
+      case 'charge.completed':
+        return {
+          event: data.status === 'successful' ? 'charge.success' : 'charge.failed',
+          data: {
+            id: data.id,
+            ...(reference ? { reference } : {}),
+            amount: toKobo(data.amount),
+            currency: data.currency,
+            customer: data.customer,
+            metadata: webhook.meta_data ?? data.meta ?? {}
+          }
+        };
+      case 'transfer.completed':
+        return {
+          event: data.status === 'SUCCESSFUL' ? 'transfer.success' : 'transfer.failed',
+          data: {
+            id: data.id,
+            ...(reference ? { reference } : {}),
+            reason: data.complete_message
+          }
+        };
+      case 'refund.completed':
+        return {
+          event: 'refund.processed',
+          data: {
+            id: data.id,
+            transaction_reference: data.tx_ref,
+            amount: toKobo(data.amount_refunded ?? data.amount),
+            merchant_note: data.comments
+          }
+        };
+      default:
+        return { event: `flutterwave.${webhook.event}`, data: { id: data.id, ...(reference ? { reference } : {}) } };
+    }
+  }
+
+  private async fetchTransaction(reference: string): Promise<FlutterwaveTransaction> {
+    const response = await axios.get<FlutterwaveResponse<FlutterwaveTransaction>>(
+      `${FLUTTERWAVE.baseUrl}/transactions/verify_by_reference`,
+      {
+        params: { tx_ref: reference },
+        headers: this.getHeaders()
+      }
+    );
+
+    if (response.data.status !== 'success') {
+      throw new Error(response.data.message || 'Transaction lookup failed');
+    }
+
+    return response.data.data;
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  PAYMENT_PROVIDERS,
+  PAYMENT_PROVIDER_CONFIG,
+  type PaymentProviderName
+} from '../../config/paymentProviderConfig.js';
+import { BankTransferProvider } from './bankTransferProvider.js';
+import { FakeProvider } from './fakeProvider.js';
+import { FlutterwaveProvider } from './flutterwaveProvider.js';
+import { PaystackProvider } from './paystackProvider.js';
+import type { PaymentProvider } from './types.js';
+
+export type * from './types.js';
+export { BankTransferProvider, FakeProvider, FlutterwaveProvider, PaystackProvider };
+
+export const paystackProvider = new PaystackProvider();
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+  paystack: paystackProvider,
+  flutterwave: new FlutterwaveProvider(),
+  bank_transfer: new BankTransferProvider(),
+  fake: new FakeProvider()
+};
+
+export function isPaymentProviderName(name: string): name is PaymentProviderName {
+  return (PAYMENT_PROVIDERS as readonly string[]).includes(name);
+}
+
+export function isProviderEnabled(name: PaymentProviderName): boolean {
+  if (name === 'fake' && process.env.NODE_ENV === 'production') {
+    return false;
+  }
+
+  return PAYMENT_PROVIDER_CONFIG.enabled.includes(name);
+}
+
+// Provider for a new payment or payout; must be enabled
+export function getPaymentProvider(name: string = PAYMENT_PROVIDER_CONFIG.defaultProvider): PaymentProvider {
+  if (!isPaymentProviderName(name) || !isProviderEnabled(name)) {
+    throw new Error(`Payment provider ${name} is not available`);
+  }
+
+  return providers[name];
+}
+
+// Provider that handled an existing transaction. Still resolves after the
+// provider is disabled so in-flight payments can be verified, refunded and
+// settled; webhooks are only taken from enabled providers.
+export function getRecordedProvider(name: string | null | undefined): PaymentProvider {
+  if (!name) {
+    return paystackProvider;
+  }
+
+  if (!isPaymentProviderName(name)) {
+    throw new Error(`Unknown payment provider ${name}`);
+  }
+
+  if (name === 'fake' && process.env.NODE_ENV === 'production') {
+    throw new Error('The fake payment provider is not available in production');
+  }
+
+  return providers[name];
+}
@@ -0,0 +1,323 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import type { IncomingHttpHeaders } from 'http';
+import { PAYSTACK_CONFIG } from '../../config/paystackConfig.js';
+import { PAYMENT_PROVIDER_CONFIG } from '../../config/paymentProviderConfig.js';
+import type { WebhookPayload } from '../webhookEventService.js';
+import { providerErrorMessage } from './providerErrors.js';
+import type {
+  PaymentProvider,
+  ProviderInitializeData,
+  ProviderInitializeResult,
+  ProviderVerifyResult,
+  TransferData,
+  TransferRecipientData
+} from './types.js';
+
+// Every Paystack response wraps its result the same way
+interface PaystackResponse<T> {
+  status: boolean;
+  message?: string;
+  data: T;
+}
+
+interface PaystackTransaction {
+  status: string;
+  amount: number; // Amount in kobo
+  currency: string;
+  customer: { email?: string; [key: string]: unknown } | null;
+  metadata: Record<string, unknown> | null;
+  paid_at: string | null;
+}
+
+interface PaystackBank {
+  name: string;
+  code: string;
+  longcode: string;
+  gateway: string;
+  pay_with_bank: boolean;
+  active: boolean;
+  country: string;
+  currency: string;
+  type: string;
+}
+
+export class PaystackProvider implements PaymentProvider {
+  readonly name = 'paystack' as const;
+  readonly clearingAccount = PAYMENT_PROVIDER_CONFIG.clearingAccounts.paystack;
+
+  private getHeaders() {
+    return {
+      'Authorization': `Bearer ${PAYSTACK_CONFIG.secretKey}`,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  async initializePayment(data: ProviderInitializeData): Promise<ProviderInitializeResult> {
+    try {
+      const payload = {
+        email: data.email,
+        amount: data.amount,
+        currency: data.currency || PAYSTACK_CONFIG.currency,
+        reference: data.reference,
+        callback_url: data.callbackUrl,
+        metadata: {
+          ...data.metadata,
+          custom_fields: [
+            {
+              display_name: "Payment Type",
+              variable_name: "payment_type",
+              value: data.metadata?.paymentType || "wallet_funding"
+            }
+          ]
+        },
+        channels: data.channels || PAYSTACK_CONFIG.channels,
+        ...(data.plan ? { plan: data.plan } : {})
+      };
+
+      const response = await axios.post<PaystackResponse<{ authorization_url: string; access_code: string; reference: string }>>(
+        `${PAYSTACK_CONFIG.baseUrl}/transaction/initialize`,
+        payload,
+        { headers: this.getHeaders() }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || 'Payment initialization failed');
+      }
+
+      return {
+        authorizationUrl: response.data.data.authorization_url,
+        accessCode: response.data.data.access_code,
+        reference: response.data.data.reference
+      };
+
+    } catch (error: unknown) {
+      console.error('Payment initialization error:', error);
+      throw new Error(providerErrorMessage(error, 'Payment initialization failed'));
+    }
+  }
+
+  async verifyPayment(reference: string): Promise<ProviderVerifyResult> {
+    try {
+      const response = await axios.get<PaystackResponse<PaystackTransaction>>(
+        `${PAYSTACK_CONFIG.baseUrl}/transaction/verify/${reference}`,
+        { headers: this.getHeaders() }
+      );
+
+      if (!response.data.status) {
+        throw new Error('Payment verification failed');
+      }
+
+      const transaction = response.data.data;
+
+      return {
+        status: transaction.status,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        customer: transaction.customer,
+        metadata: transaction.metadata,
+        paidAt: transaction.paid_at
+      };
+
+    } catch (error: unknown) {
+      console.error('Payment verification error:', error);
+      throw new Error('Payment verification failed');
+    }
+  }
+
+  async refundPayment(reference: string, amount?: number): Promise<void> {
+    try {
+      const response = await axios.post<PaystackResponse<unknown>>(
+        `${PAYSTACK_CONFIG.baseUrl}/refund`,
+        {
+          transaction: reference,
+          ...(amount !== undefined ? { amount } : {})
+        },
+        { headers: this.getHeaders() }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || 'Refund failed');
+      }
+    } catch (error: unknown) {
+      console.error('Refund processing error:', error);
+      throw new Error('Refund processing failed');
+    }
+  }
+
+  async createTransferRecipient(data: TransferRecipientData): Promise<string> {
+    try {
+      const response = await axios.post<PaystackResponse<{ recipient_code: string }>>(
+        `${PAYSTACK_CONFIG.baseUrl}/transferrecipient`,
+        {
+          type: 'nuban',
+          name: data.name,
+          account_number: data.accountNumber,
+          bank_code: data.bankCode,
+          currency: data.currency || PAYSTACK_CONFIG.currency
+        },
+        { headers: this.getHeaders() }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || 'Recipient creation failed');
+      }
+
+      return response.data.data.recipient_code;
+
+    } catch (error: unknown) {
+      console.error('Transfer recipient creation error:', error);
+      throw new Error('Failed to create transfer recipient');
+    }
+  }
+
+  async initiateTransfer(data: TransferData): Promise<string> {
+    try {
+      const response = await axios.post<PaystackResponse<{ transfer_code: string }>>(
+        `${PAYSTACK_CONFIG.baseUrl}/transfer`,
+        {
+          source: 'balance',
+          amount: data.amount,
+          recipient: data.recipient,
+          reason: data.reason,
+          reference: data.reference
+        },
+        { headers: this.getHeaders() }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || 'Transfer initiation failed');
+      }
+
+      return response.data.data.transfer_code;
+
+    } catch (error: unknown) {
+      console.error('Transfer initiation error:', error);
+      throw new Error('Failed to initiate transfer');
+    }
+  }
+
+  verifyWebhook(payload: unknown, headers: IncomingHttpHeaders): boolean {
+    const signature = headers['x-paystack-signature'];
+
+    if (typeof signature !== 'string') {
+      return false;
+    }
+
+    const hash = crypto
+      .createHmac('sha512', PAYSTACK_CONFIG.webhookSecret)
+      .update(JSON.stringify(payload))
+      .digest('hex');
+
+    return hash === signature;
+  }
+
+  parseWebhook(payload: unknown): WebhookPayload {
+    return payload as WebhookPayload;
+  }
+
+  // Paystack-only features: recurring plans, bank listing and account lookup
+
+  async createPlan(data: {
+    name: string;
+    amount: number; // Amount in kobo
+    interval: string;
+    description?: string;
+  }): Promise<string> {
+    try {
+      const response = await axios.post<PaystackResponse<{ plan_code: string }>>(
+        `${PAYSTACK_CONFIG.baseUrl}/plan`,
+        {
+          ...data,
+          currency: PAYSTACK_CONFIG.currency
+        },
+        { headers: this.getHeaders() }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || 'Plan creation failed');
+      }
+
+      return response.data.data.plan_code;
+
+    } catch (error: unknown) {
+      console.error('Paystack plan creation error:', error);
+      throw new Error('Failed to create subscription plan');
+    }
+  }
+
+  async disableSubscription(code: string, token: string): Promise<void> {
+    try {
+      const response = await axios.post<PaystackResponse<unknown>>(
+        `${PAYSTACK_CONFIG.baseUrl}/subscription/disable`,
+        { code, token },
+        { headers: this.getHeaders() }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || 'Subscription cancellation failed');
+      }
+
+    } catch (error: unknown) {
+      console.error('Paystack subscription disable error:', error);
+      throw new Error('Failed to cancel subscription');
+    }
+  }
+
+  async validateAccountNumber(accountNumber: string, bankCode: string): Promise<{
+    accountName: string;
+    accountNumber: string;
+  }> {
+    try {
+      const response = await axios.get<PaystackResponse<{ account_name: string; account_number: string }>>(
+        `${PAYSTACK_CONFIG.baseUrl}/bank/resolve`,
+        {
+          params: {
+            account_number: accountNumber,
+            bank_code: bankCode
+          },
+          headers: this.getHeaders()
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error('Account validation failed');
+      }
+
+      return {
+        accountName: response.data.data.account_name,
+        accountNumber: response.data.data.account_number
+      };
+
+    } catch (error: unknown) {
+      console.error('Account validation error:', error);
+      throw new Error('Failed to validate account');
+    }
+  }
+
+  async getBanks(): Promise<PaystackBank[]> {
+    try {
+      const response = await axios.get<PaystackResponse<PaystackBank[]>>(
+        `${PAYSTACK_CONFIG.baseUrl}/bank`,
+        {
+          params: {
+            country: 'nigeria',
+            use_cursor: false,
+            perPage: 100
+          },
+          headers: this.getHeaders()
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error('Failed to fetch banks');
+      }
+
+      return response.data.data;
+
+    } catch (error: unknown) {
+      console.error('Error fetching banks:', error);
+      throw new Error('Failed to fetch banks');
+    }
+  }
+}
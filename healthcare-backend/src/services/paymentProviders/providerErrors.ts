@@ -0,0 +1,6 @@
+import axios from 'axios';
+
+// The gateway's own reason when it rejected the request (e.g. an invalid
+// email), otherwise the caller's fallback
+export const providerErrorMessage = (error: unknown, fallback: string): string =>
+  (axios.isAxiosError<{ message?: string }>(error) && error.response?.data?.message) || fallback;
@@ -0,0 +1,69 @@
+import type { IncomingHttpHeaders } from 'http';
+import type { SystemAccountKey } from '../../config/ledgerConfig.js';
+import type { PaymentProviderName } from '../../config/paymentProviderConfig.js';
+import type { WebhookPayload } from '../webhookEventService.js';
+
+export interface ProviderInitializeData {
+  email: string;
+  amount: number; // Amount in kobo
+  reference: string;
+  currency?: string | undefined;
+  callbackUrl?: string | undefined;
+  metadata?: Record<string, unknown> | undefined;
+  channels?: string[] | undefined;
+  plan?: string | undefined;
+}
+
+export interface ProviderInitializeResult {
+  reference: string;
+  authorizationUrl: string | null;
+  accessCode: string | null;
+  // Set when the customer pays by transfer into a one-time account
+  bankAccount?: {
+    accountNumber: string;
+    bankName: string;
+    accountName: string | null;
+    expiresAt: string | null;
+  };
+}
+
+export interface ProviderVerifyResult {
+  status: string;
+  amount: number; // Amount in kobo
+  currency: string;
+  customer: { email?: string; [key: string]: unknown } | null;
+  metadata: Record<string, unknown> | null;
+  paidAt: string | null;
+}
+
+export interface TransferRecipientData {
+  name: string;
+  accountNumber: string;
+  bankCode: string;
+  currency?: string | undefined;
+}
+
+export interface TransferData {
+  amount: number; // Amount in kobo
+  recipient: string;
+  reference: string;
+  reason?: string | undefined;
+}
+
+// Everything the payment flows need from a gateway. Webhooks are translated
+// into Paystack's event shape so one set of handlers serves every provider.
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  readonly clearingAccount: SystemAccountKey;
+
+  initializePayment(data: ProviderInitializeData): Promise<ProviderInitializeResult>;
+  verifyPayment(reference: string): Promise<ProviderVerifyResult>;
+  // Amount in kobo; omit for a full refund
+  refundPayment(reference: string, amount?: number): Promise<void>;
+  createTransferRecipient(data: TransferRecipientData): Promise<string>;
+  // Returns the provider's transfer code
+  initiateTransfer(data: TransferData): Promise<string>;
+
+  verifyWebhook(payload: unknown, headers: IncomingHttpHeaders): boolean;
+  parseWebhook(payload: unknown): WebhookPayload;
+}
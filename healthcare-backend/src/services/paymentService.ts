@@ -1,9 +1,30 @@
-import { PrismaClient } from '@prisma/client';
-import crypto from 'crypto';
-import axios from 'axios';
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { IncomingHttpHeaders } from 'http';
 import { PAYSTACK_CONFIG } from '../config/paystackConfig.js';
+import type { PaymentProviderName } from '../config/paymentProviderConfig.js';
+import type { SystemAccountKey } from '../config/ledgerConfig.js';
+import { LedgerService, type JournalLine } from './ledgerService.js';
+import { CommissionService } from './commissionService.js';
+import { COMMISSION_CONFIG } from '../config/commissionConfig.js';
+import { WebhookEventService, type WebhookPayload } from './webhookEventService.js';
+import { WithdrawalService } from './withdrawalService.js';
+import { SubscriptionService, type PaystackInvoiceData } from './subscriptionService.js';
+import { NotificationService } from './notificationService.js';
+import {
+  getPaymentProvider,
+  getRecordedProvider,
+  isPaymentProviderName,
+  isProviderEnabled,
+  paystackProvider,
+  type ProviderInitializeResult,
+  type ProviderVerifyResult
+} from './paymentProviders/index.js';
 
 const prisma = new PrismaClient();
+const ledgerService = new LedgerService();
+const commissionService = new CommissionService();
+const webhookEventService = new WebhookEventService();
+const notificationService = new NotificationService();
 
 export interface PaymentInitializeData {
   email: string;
@@ -13,6 +34,8 @@ export interface PaymentInitializeData {
   callback_url?: string;
   metadata?: Record<string, any>;
   channels?: string[];
+  plan?: string; // Paystack plan code; the charge then starts a subscription
+  provider?: PaymentProviderName | undefined; // Defaults to the configured provider
 }
 
 export interface WalletFundingData {
@@ -20,6 +43,7 @@ export interface WalletFundingData {
   amount: number;
   email: string;
   metadata?: Record<string, any>;
+  provider?: PaymentProviderName | undefined;
 }
 
 export interface ConsultationPaymentData {
@@ -30,101 +54,50 @@ export interface ConsultationPaymentData {
 }
 
 export class PaymentService {
-  private getHeaders() {
-    return {
-      'Authorization': `Bearer ${PAYSTACK_CONFIG.secretKey}`,
-      'Content-Type': 'application/json'
-    };
-  }
+  private withdrawalService = new WithdrawalService(this);
+  private subscriptionService = new SubscriptionService(this);
 
-  async initializePayment(data: PaymentInitializeData): Promise<{
-    authorizationUrl: string;
-    accessCode: string;
-    reference: string;
+  async initializePayment(data: PaymentInitializeData): Promise<ProviderInitializeResult & {
+    provider: PaymentProviderName;
   }> {
-    try {
-      // Generate reference if not provided
-      const reference = data.reference || this.generateReference();
-
-      const payload = {
-        email: data.email,
-        amount: data.amount,
-        currency: data.currency || PAYSTACK_CONFIG.currency,
-        reference,
-        callback_url: data.callback_url,
-        metadata: {
-          ...data.metadata,
-          custom_fields: [
-            {
-              display_name: "Payment Type",
-              variable_name: "payment_type",
-              value: data.metadata?.paymentType || "wallet_funding"
-            }
-          ]
-        },
-        channels: data.channels || PAYSTACK_CONFIG.channels
-      };
-
-      const response = await axios.post(
-        `${PAYSTACK_CONFIG.baseUrl}/transaction/initialize`,
-        payload,
-        { headers: this.getHeaders() }
-      );
-
-      if (!response.data.status) {
-        throw new Error(response.data.message || 'Payment initialization failed');
-      }
-
-      return {
-        authorizationUrl: response.data.data.authorization_url,
-        accessCode: response.data.data.access_code,
-        reference: response.data.data.reference
-      };
-
-    } catch (error: any) {
-      console.error('Payment initialization error:', error);
-      throw new Error(error.response?.data?.message || 'Payment initialization failed');
-    }
+    // Recurring plans only exist on Paystack
+    const provider = data.plan ? paystackProvider : getPaymentProvider(data.provider);
+
+    // Generate reference if not provided
+    const reference = data.reference || this.generateReference();
+
+    const result = await provider.initializePayment({
+      email: data.email,
+      amount: data.amount,
+      reference,
+      currency: data.currency,
+      callbackUrl: data.callback_url,
+      metadata: { ...data.metadata, provider: provider.name },
+      channels: data.channels,
+      plan: data.plan
+    });
+
+    return { ...result, provider: provider.name };
   }
 
-  async verifyPayment(reference: string): Promise<{
-    status: string;
-    amount: number;
-    currency: string;
-    customer: any;
-    metadata: any;
-    paidAt: string;
+  async verifyPayment(reference: string): Promise<ProviderVerifyResult & {
+    provider: PaymentProviderName;
   }> {
-    try {
-      const response = await axios.get(
-        `${PAYSTACK_CONFIG.baseUrl}/transaction/verify/${reference}`,
-        { headers: this.getHeaders() }
-      );
-
-      if (!response.data.status) {
-        throw new Error('Payment verification failed');
-      }
-
-      const transaction = response.data.data;
-
-      return {
-        status: transaction.status,
-        amount: transaction.amount,
-        currency: transaction.currency,
-        customer: transaction.customer,
-        metadata: transaction.metadata,
-        paidAt: transaction.paid_at
-      };
-
-    } catch (error: any) {
-      console.error('Payment verification error:', error);
-      throw new Error('Payment verification failed');
-    }
+    // Ask the provider that took the payment; untracked references are Paystack's
+    const transaction = await prisma.walletTransaction.findFirst({
+      where: { referenceId: reference, provider: { not: null } },
+      select: { provider: true }
+    });
+    const provider = getRecordedProvider(transaction?.provider);
+
+    return { ...await provider.verifyPayment(reference), provider: provider.name };
   }
 
   async fundWallet(data: WalletFundingData): Promise<{
-    authorizationUrl: string;
+    authorizationUrl: string | null;
     reference: string;
+    provider: PaymentProviderName;
+    bankAccount?: ProviderInitializeResult['bankAccount'];
   }> {
     try {
       // Validate amount
@@ -146,25 +119,27 @@ export class PaymentService {
         throw new Error('Wallet not found');
       }
 
+      const provider = getPaymentProvider(data.provider);
       const reference = this.generateReference('FUND');
 
-      // Create pending transaction record
+      // Create pending transaction record; it becomes a ledger leg once the provider confirms
       await prisma.walletTransaction.create({
         data: {
           walletId: wallet.id,
           transactionType: 'credit',
           amount: data.amount / 100, // Convert from kobo to naira
-          balanceAfter: wallet.balance,
           description: 'Wallet funding',
-          referenceId: reference
+          referenceId: reference,
+          provider: provider.name,
+          status: 'pending'
         }
       });
 
-      // Initialize payment with Paystack
       const paymentData = await this.initializePayment({
         email: data.email,
         amount: data.amount,
         reference,
+        provider: provider.name,
         metadata: {
           userId: data.userId,
           paymentType: 'wallet_funding',
@@ -175,7 +150,9 @@ export class PaymentService {
 
       return {
         authorizationUrl: paymentData.authorizationUrl,
-        reference
+        reference,
+        provider: provider.name,
+        ...(paymentData.bankAccount ? { bankAccount: paymentData.bankAccount } : {})
       };
 
     } catch (error: any) {
@@ -184,7 +161,8 @@ export class PaymentService {
     }
   }
 
-  async processConsultationPayment(data: ConsultationPaymentData): Promise<boolean> {
+  // Pass `tx` to settle as part of a larger transaction, e.g. capturing a held fee
+  async processConsultationPayment(data: ConsultationPaymentData, tx?: Prisma.TransactionClient): Promise<boolean> {
     try {
       // Get wallets
       const [patientWallet, physicianWallet] = await Promise.all([
@@ -198,59 +176,98 @@ export class PaymentService {
 
       const amountInNaira = data.amount / 100;
 
-      // Check patient balance
-      if (patientWallet.balance < amountInNaira) {
-        throw new Error('Insufficient balance');
-      }
+      const [physicianProfile, session] = await Promise.all([
+        prisma.profile.findUnique({ where: { userId: data.physicianId } }),
+        prisma.consultationSession.findUnique({
+          where: { id: data.sessionId },
+          include: { appointment: true }
+        })
+      ]);
 
-      // Start transaction
-      await prisma.$transaction(async (tx) => {
-        // Deduct from patient wallet
-        await tx.wallet.update({
-          where: { id: patientWallet.id },
-          data: { 
-            balance: patientWallet.balance - amountInNaira,
-            updatedAt: new Date()
-          }
-        });
+      const hospitalId = physicianProfile?.hospitalId ?? null;
+      const split = await commissionService.calculateSplit(amountInNaira, {
+        hospitalId,
+        specialization: physicianProfile?.specialization ?? null,
+        consultationType: session?.appointment.consultationType ?? null
+      });
 
-        // Add to physician wallet
-        await tx.wallet.update({
-          where: { id: physicianWallet.id },
-          data: { 
-            balance: physicianWallet.balance + amountInNaira,
-            updatedAt: new Date()
-          }
+      // Patient pays the gross amount; physician, platform and hospital share it
+      const lines: JournalLine[] = [
+        {
+          account: { walletId: patientWallet.id },
+          side: 'debit',
+          amount: split.grossAmount,
+          description: 'Virtual consultation payment'
+        },
+        {
+          account: { walletId: physicianWallet.id },
+          side: 'credit',
+          amount: split.physicianAmount,
+          description: 'Virtual consultation payment received'
+        }
+      ];
+
+      if (split.platformFee.greaterThan(0)) {
+        lines.push({
+          account: { systemAccount: 'platformFees' },
+          side: 'credit',
+          amount: split.platformFee,
+          description: 'Platform fee'
         });
+      }
 
-        // Record transactions
-        await tx.walletTransaction.createMany({
-          data: [
-            {
-              walletId: patientWallet.id,
-              transactionType: 'debit',
-              amount: amountInNaira,
-              balanceAfter: patientWallet.balance - amountInNaira,
-              description: 'Virtual consultation payment',
-              referenceId: data.sessionId
-            },
-            {
-              walletId: physicianWallet.id,
-              transactionType: 'credit',
-              amount: amountInNaira,
-              balanceAfter: physicianWallet.balance + amountInNaira,
-              description: 'Virtual consultation payment received',
-              referenceId: data.sessionId
-            }
-          ]
+      if (hospitalId && split.hospitalShare.greaterThan(0)) {
+        lines.push({
+          account: { hospitalId },
+          side: 'credit',
+          amount: split.hospitalShare,
+          description: 'Hospital revenue share'
         });
+      }
+
+      const splitSummary = {
+        sessionId: data.sessionId,
+        grossAmount: split.grossAmount.toFixed(2),
+        platformFee: split.platformFee.toFixed(2),
+        hospitalShare: split.hospitalShare.toFixed(2),
+        physicianAmount: split.physicianAmount.toFixed(2),
+        platformFeePercent: split.platformFeePercent.toString(),
+        hospitalSharePercent: split.hospitalSharePercent.toString(),
+        commissionRuleId: split.ruleId
+      };
+
+      const settle = async (tx: Prisma.TransactionClient) => {
+        await ledgerService.postJournalEntry({
+          reference: `CONSULT_${data.sessionId}`,
+          entryType: 'consultation_payment',
+          description: 'Virtual consultation payment',
+          metadata: splitSummary,
+          lines
+        }, tx);
 
         // Update consultation session
         await tx.consultationSession.update({
           where: { id: data.sessionId },
           data: { paymentStatus: 'paid' }
         });
-      });
+
+        if (hospitalId && split.hospitalShare.greaterThan(0)) {
+          await tx.hospitalFinancialData.create({
+            data: {
+              hospitalId,
+              transactionType: 'revenue',
+              category: COMMISSION_CONFIG.hospitalRevenueCategory,
+              amount: split.hospitalShare,
+              description: 'Consultation revenue share',
+              fiscalMonth: new Date().toISOString().slice(0, 7),
+              referenceId: data.sessionId,
+              metadata: splitSummary as Prisma.InputJsonValue
+            }
+          });
+        }
+      };
+
+      await (tx ? settle(tx) : prisma.$transaction(settle));
 
       return true;
 
@@ -260,166 +277,271 @@ export class PaymentService {
     }
   }
 
-  async processWebhook(payload: any, signature: string): Promise<void> {
-    try {
-      // Verify webhook signature
-      const hash = crypto
-        .createHmac('sha512', PAYSTACK_CONFIG.webhookSecret)
-        .update(JSON.stringify(payload))
-        .digest('hex');
-
-      if (hash !== signature) {
-        throw new Error('Invalid webhook signature');
-      }
+  async processWebhook(
+    payload: any,
+    headers: IncomingHttpHeaders,
+    providerName: string = 'paystack'
+  ): Promise<{
+    eventId: string;
+    status: string;
+  }> {
+    // Only providers that may take payments can report on them
+    if (!isPaymentProviderName(providerName) || !isProviderEnabled(providerName)) {
+      throw new Error(`Payment provider ${providerName} is not enabled`);
+    }
+
+    const provider = getRecordedProvider(providerName);
+
+    if (!provider.verifyWebhook(payload, headers)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    // Persist before applying so retried deliveries are recognised. The
+    // stored payload is already in the common (Paystack) event shape.
+    const event = await webhookEventService.record(provider.name, provider.parseWebhook(payload));
+
+    return this.applyWebhookEvent(event.id, event.provider, event.payload as unknown as WebhookPayload);
+  }
+
+  async replayWebhookEvent(eventId: string): Promise<{
+    eventId: string;
+    status: string;
+  }> {
+    const event = await webhookEventService.getEvent(eventId);
+
+    if (!event) {
+      throw new Error('Webhook event not found');
+    }
+
+    // A stuck `processing` claim can be replayed once it has timed out
+    if (event.status === 'processed' || (event.status === 'processing' && !webhookEventService.isStale(event))) {
+      throw new Error(`Webhook event is already ${event.status}`);
+    }
+
+    return this.applyWebhookEvent(
+      event.id,
+      event.provider,
+      event.payload as unknown as WebhookPayload,
+      ['received', 'failed', 'dead_letter']
+    );
+  }
+
+  private async applyWebhookEvent(
+    eventId: string,
+    providerName: string,
+    payload: WebhookPayload,
+    claimableStatuses?: string[]
+  ): Promise<{ eventId: string; status: string }> {
+    const claimed = await webhookEventService.claim(eventId, claimableStatuses);
+
+    if (!claimed) {
+      // Already applied or being applied by another delivery
+      const current = await webhookEventService.getEvent(eventId);
+      return { eventId, status: current?.status || 'processed' };
+    }
 
+    try {
       const { event, data } = payload;
+      const provider = getRecordedProvider(providerName);
 
       switch (event) {
         case 'charge.success':
-          await this.handleSuccessfulPayment(data);
+          await this.handleSuccessfulPayment(data, provider.clearingAccount);
           break;
         case 'transfer.success':
           await this.handleSuccessfulTransfer(data);
           break;
         case 'transfer.failed':
+        case 'transfer.reversed':
           await this.handleFailedTransfer(data);
           break;
         case 'refund.processed':
-          await this.handleRefund(data);
+          await this.handleRefund(data, provider.clearingAccount);
+          break;
+        case 'subscription.create':
+          await this.subscriptionService.activateSubscription(data);
+          break;
+        case 'invoice.update':
+          await this.subscriptionService.renewSubscription(data as PaystackInvoiceData);
+          break;
+        case 'invoice.payment_failed':
+          await this.subscriptionService.markRenewalFailed(data as PaystackInvoiceData);
+          break;
+        case 'subscription.not_renew':
+        case 'subscription.disable':
+          await this.subscriptionService.markSubscriptionDisabled(data, event);
           break;
         default:
           console.log(`Unhandled webhook event: ${event}`);
       }
 
-    } catch (error: any) {
+      await webhookEventService.markProcessed(eventId);
+      return { eventId, status: 'processed' };
+
+    } catch (error) {
       console.error('Webhook processing error:', error);
+      const failed = await webhookEventService.markFailed(eventId, error);
+
+      if (failed.status === 'dead_letter') {
+        // Parked for manual replay; acknowledge so the provider stops retrying
+        return { eventId, status: failed.status };
+      }
+
       throw new Error('Webhook processing failed');
     }
   }
 
-  private async handleSuccessfulPayment(data: any): Promise<void> {
+  private async handleSuccessfulPayment(data: any, clearingAccount: SystemAccountKey): Promise<void> {
     try {
-      const { reference, amount, currency, customer, metadata } = data;
+      const { reference, amount, currency, customer } = data;
 
-      if (metadata?.paymentType === 'wallet_funding') {
-        // Update wallet balance
-        const wallet = await prisma.wallet.findUnique({
-          where: { id: metadata.walletId }
-        });
+      // First charges and renewals of a Paystack plan both arrive here
+      if (data.plan?.plan_code) {
+        await this.subscriptionService.recordSubscriptionPayment(data);
+        return;
+      }
 
-        if (wallet) {
-          const amountInNaira = amount / 100;
-
-          await prisma.$transaction(async (tx) => {
-            // Update wallet balance
-            await tx.wallet.update({
-              where: { id: wallet.id },
-              data: { 
-                balance: wallet.balance + amountInNaira,
-                updatedAt: new Date()
-              }
-            });
-
-            // Update transaction record
-            await tx.walletTransaction.updateMany({
-              where: {
-                walletId: wallet.id,
-                referenceId: reference
-              },
-              data: {
-                balanceAfter: wallet.balance + amountInNaira,
-                description: 'Wallet funding - Payment confirmed'
-              }
-            });
-          });
+      // The pending wallet transaction written when funding started says
+      // which wallet the charge is for; bank transfers arrive without the
+      // metadata sent at initialization, so it is not relied on
+      const pending = await prisma.walletTransaction.findFirst({
+        where: {
+          referenceId: reference,
+          transactionType: 'credit',
+          status: 'pending',
+          walletId: { not: null }
+        },
+        include: { wallet: true }
+      });
 
-          // Send notification
-          await this.sendPaymentNotification(metadata.userId, {
-            type: 'wallet_funded',
-            amount: amountInNaira,
-            reference
-          });
-        }
+      if (pending?.wallet) {
+        const wallet = pending.wallet;
+        const amountInNaira = amount / 100;
+
+        // Funds land in the provider's clearing account and are owed to the patient
+        await ledgerService.postJournalEntry({
+          reference,
+          entryType: 'wallet_funding',
+          description: 'Wallet funding - Payment confirmed',
+          metadata: { currency, customerEmail: customer?.email },
+          lines: [
+            {
+              account: { systemAccount: clearingAccount },
+              side: 'debit',
+              amount: amountInNaira
+            },
+            {
+              account: { walletId: wallet.id },
+              side: 'credit',
+              amount: amountInNaira,
+              pendingTransactionId: pending.id
+            }
+          ]
+        });
+
+        // Send notification
+        await this.sendPaymentNotification(wallet.userId, {
+          type: 'wallet_funded',
+          amount: amountInNaira,
+          reference
+        });
       }
 
     } catch (error) {
       console.error('Error handling successful payment:', error);
+      throw error;
     }
   }
 
   private async handleSuccessfulTransfer(data: any): Promise<void> {
-    // Handle successful money transfer
-    console.log('Transfer successful:', data);
+    await this.withdrawalService.settleTransfer({ reference: data.reference });
   }
 
   private async handleFailedTransfer(data: any): Promise<void> {
-    // Handle failed money transfer
-    console.log('Transfer failed:', data);
+    await this.withdrawalService.reverseTransfer({
+      reference: data.reference,
+      reason: data.reason || data.gateway_response
+    });
   }
 
-  private async handleRefund(data: any): Promise<void> {
-    // Handle refund processing
-    console.log('Refund processed:', data);
+  // Called from the refund.processed webhook once the provider has returned card funds
+  private async handleRefund(data: any, clearingAccount: SystemAccountKey): Promise<void> {
+    const transactionReference: string = data.transaction_reference ?? data.transaction?.reference;
+    const amountInNaira = data.amount / 100;
+
+    const funding = await prisma.walletTransaction.findFirst({
+      where: {
+        referenceId: transactionReference,
+        transactionType: 'credit',
+        status: 'completed',
+        walletId: { not: null }
+      },
+      include: { wallet: true }
+    });
+
+    if (!funding?.wallet) {
+      throw new Error(`No wallet funding found for refunded transaction ${transactionReference}`);
+    }
+
+    const wallet = funding.wallet;
+
+    await prisma.$transaction(async (tx) => {
+      // The money has already left through the provider, so take it off the wallet
+      const { journalEntry } = await ledgerService.postJournalEntry({
+        reference: `REFUND_${data.id ?? transactionReference}`,
+        entryType: 'card_refund',
+        description: 'Wallet funding refunded to card',
+        metadata: { transactionReference },
+        lines: [
+          { account: { walletId: wallet.id }, side: 'debit', amount: amountInNaira },
+          { account: { systemAccount: clearingAccount }, side: 'credit', amount: amountInNaira }
+        ]
+      }, tx);
+
+      await tx.refund.create({
+        data: {
+          patientId: wallet.userId,
+          amount: amountInNaira,
+          percent: new Prisma.Decimal(amountInNaira).dividedBy(funding.amount).times(100).toDecimalPlaces(2),
+          trigger: 'card_refund',
+          reason: data.merchant_note ?? null,
+          status: 'completed',
+          journalEntryId: journalEntry.id,
+          processedBy: 'system'
+        }
+      });
+    });
   }
 
-  async createTransferRecipient(data: {
-    type: 'nuban';
+  async createPlan(data: {
     name: string;
-    account_number: string;
-    bank_code: string;
-    currency?: string;
+    amount: number; // Amount in kobo
+    interval: string;
+    description?: string;
   }): Promise<string> {
-    try {
-      const response = await axios.post(
-        `${PAYSTACK_CONFIG.baseUrl}/transferrecipient`,
-        {
-          ...data,
-          currency: data.currency || PAYSTACK_CONFIG.currency
-        },
-        { headers: this.getHeaders() }
-      );
-
-      if (!response.data.status) {
-        throw new Error(response.data.message || 'Recipient creation failed');
-      }
-
-      return response.data.data.recipient_code;
-
-    } catch (error: any) {
-      console.error('Transfer recipient creation error:', error);
-      throw new Error('Failed to create transfer recipient');
-    }
+    return paystackProvider.createPlan(data);
   }
 
-  async initiateTransfer(data: {
-    source: 'balance';
-    amount: number;
-    recipient: string;
-    reason?: string;
-    reference?: string;
-  }): Promise<string> {
-    try {
-      const reference = data.reference || this.generateReference('TRANSFER');
-
-      const response = await axios.post(
-        `${PAYSTACK_CONFIG.baseUrl}/transfer`,
-        {
-          ...data,
-          reference
-        },
-        { headers: this.getHeaders() }
-      );
-
-      if (!response.data.status) {
-        throw new Error(response.data.message || 'Transfer initiation failed');
-      }
+  async disableSubscription(code: string, token: string): Promise<void> {
+    return paystackProvider.disableSubscription(code, token);
+  }
 
-      return response.data.data.transfer_code;
+  async createTransferRecipient(
+    data: { name: string; accountNumber: string; bankCode: string; currency?: string },
+    providerName: PaymentProviderName
+  ): Promise<string> {
+    return getPaymentProvider(providerName).createTransferRecipient(data);
+  }
 
-    } catch (error: any) {
-      console.error('Transfer initiation error:', error);
-      throw new Error('Failed to initiate transfer');
-    }
+  // Transfers already in flight settle through the provider they started on
+  async initiateTransfer(
+    data: { amount: number; recipient: string; reason?: string; reference?: string },
+    providerName: string
+  ): Promise<string> {
+    return getRecordedProvider(providerName).initiateTransfer({
+      ...data,
+      reference: data.reference || this.generateReference('TRANSFER')
+    });
   }
 
   async getTransactionHistory(userId: string, options: {
@@ -492,102 +614,38 @@ export class PaymentService {
 
   private async sendPaymentNotification(userId: string, data: any): Promise<void> {
     try {
-      await prisma.notification.create({
-        data: {
-          userId,
-          type: 'payment',
-          title: 'Payment Notification',
-          message: `Your ${data.type} of ₦${data.amount} was successful`,
-          read: false
-        }
+      await notificationService.notify(userId, {
+        category: 'billing',
+        type: 'payment',
+        title: 'Payment Notification',
+        message: `Your ${data.type} of ₦${data.amount} was successful`
       });
     } catch (error) {
       console.error('Error sending payment notification:', error);
     }
   }
 
+  // Ask the provider to return a card payment; the wallet is only debited when
+  // the refund.processed webhook arrives. Amount is in kobo, omit for a full refund.
   async refundPayment(reference: string, amount?: number): Promise<boolean> {
-    try {
-      // Note: Paystack doesn't have a direct refund API
-      // This would typically be handled through their dashboard
-      // or by contacting their support for automated refunds
-      
-      console.log(`Refund requested for transaction: ${reference}, amount: ${amount}`);
-      
-      // For now, we'll mark it in our system
-      // In production, integrate with Paystack's refund process
-      
-      return true;
-    } catch (error: any) {
-      console.error('Refund processing error:', error);
-      throw new Error('Refund processing failed');
-    }
+    const transaction = await prisma.walletTransaction.findFirst({
+      where: { referenceId: reference, provider: { not: null } },
+      select: { provider: true }
+    });
+
+    await getRecordedProvider(transaction?.provider).refundPayment(reference, amount);
+    return true;
   }
 
+  // Bank lookups use Paystack's NIBSS directory whichever provider pays out
   async validateAccountNumber(accountNumber: string, bankCode: string): Promise<{
     accountName: string;
     accountNumber: string;
   }> {
-    try {
-      const response = await axios.get(
-        `${PAYSTACK_CONFIG.baseUrl}/bank/resolve`,
-        {
-          params: {
-            account_number: accountNumber,
-            bank_code: bankCode
-          },
-          headers: this.getHeaders()
-        }
-      );
-
-      if (!response.data.status) {
-        throw new Error('Account validation failed');
-      }
-
-      return {
-        accountName: response.data.data.account_name,
-        accountNumber: response.data.data.account_number
-      };
-
-    } catch (error: any) {
-      console.error('Account validation error:', error);
-      throw new Error('Failed to validate account');
-    }
+    return paystackProvider.validateAccountNumber(accountNumber, bankCode);
   }
 
-  async getBanks(): Promise<Array<{
-    name: string;
-    code: string;
-    longcode: string;
-    gateway: string;
-    pay_with_bank: boolean;
-    active: boolean;
-    country: string;
-    currency: string;
-    type: string;
-  }>> {
-    try {
-      const response = await axios.get(
-        `${PAYSTACK_CONFIG.baseUrl}/bank`,
-        {
-          params: {
-            country: 'nigeria',
-            use_cursor: false,
-            perPage: 100
-          },
-          headers: this.getHeaders()
-        }
-      );
-
-      if (!response.data.status) {
-        throw new Error('Failed to fetch banks');
-      }
-
-      return response.data.data;
-
-    } catch (error: any) {
-      console.error('Error fetching banks:', error);
-      throw new Error('Failed to fetch banks');
-    }
+  async getBanks() {
+    return paystackProvider.getBanks();
   }
 }
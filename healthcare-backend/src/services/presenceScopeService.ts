@@ -0,0 +1,160 @@
+import { PrismaClient, type Profile } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Appointment states that still tie a patient to a physician
+const ACTIVE_APPOINTMENT_STATUSES = ['pending', 'confirmed', 'completed'];
+
+export interface PresenceScope {
+  // Users whose presence this user may see
+  visible: string[];
+  // Users who may see this user's presence
+  audience: string[];
+}
+
+// Presence is only shared along care relationships: patients and their
+// physicians and agents see each other, and hospital admins see their staff.
+// Everything is returned as user ids, the key presence is stored under.
+export class PresenceScopeService {
+  async getScope(profile: Pick<Profile, 'id' | 'userId' | 'role' | 'hospitalId'>): Promise<PresenceScope> {
+    switch (profile.role) {
+      case 'PATIENT': {
+        const careTeam = await this.getCareTeam(profile);
+        return { visible: careTeam, audience: careTeam };
+      }
+      case 'PHYSICIAN':
+      case 'AGENT': {
+        const patients = profile.role === 'PHYSICIAN'
+          ? await this.getPhysicianPatients(profile)
+          : await this.getAgentPatients(profile);
+        const admins = await this.getHospitalAdmins(profile.hospitalId);
+        return { visible: patients, audience: [...new Set([...patients, ...admins])] };
+      }
+      case 'HOSPITAL_ADMIN':
+        return { visible: await this.getHospitalStaff(profile.hospitalId, profile.userId), audience: [] };
+      default:
+        return { visible: [], audience: [] };
+    }
+  }
+
+  // Physicians the patient has appointments, conversations or a hospital
+  // assignment with, plus their agents
+  private async getCareTeam(profile: Pick<Profile, 'id' | 'userId'>): Promise<string[]> {
+    const patientIds = [profile.userId, profile.id];
+
+    const [appointments, conversations, admissions, assignments, assisted] = await Promise.all([
+      prisma.appointment.findMany({
+        where: { patientId: profile.userId, status: { in: ACTIVE_APPOINTMENT_STATUSES } },
+        select: { physicianId: true }
+      }),
+      prisma.conversation.findMany({
+        where: { patientId: profile.userId, physicianId: { not: null } },
+        select: { physicianId: true }
+      }),
+      prisma.hospitalPatient.findMany({
+        where: { patientId: { in: patientIds }, status: 'active', assignedPhysicianId: { not: null } },
+        select: { assignedPhysicianId: true }
+      }),
+      prisma.agentAssignment.findMany({
+        where: { patientId: { in: patientIds }, status: 'active' },
+        select: { agentId: true }
+      }),
+      prisma.agentAssistedPatient.findMany({
+        where: { patientId: { in: patientIds }, status: 'active' },
+        select: { agentId: true }
+      })
+    ]);
+
+    return this.toUserIds([
+      ...appointments.map(appointment => appointment.physicianId),
+      ...conversations.map(conversation => conversation.physicianId!),
+      ...admissions.map(admission => admission.assignedPhysicianId!),
+      ...assignments.map(assignment => assignment.agentId),
+      ...assisted.map(patient => patient.agentId)
+    ]);
+  }
+
+  private async getPhysicianPatients(profile: Pick<Profile, 'id' | 'userId'>): Promise<string[]> {
+    const physicianIds = [profile.id, profile.userId];
+
+    const [appointments, conversations, admissions] = await Promise.all([
+      prisma.appointment.findMany({
+        where: { physicianId: profile.id, status: { in: ACTIVE_APPOINTMENT_STATUSES } },
+        select: { patientId: true }
+      }),
+      prisma.conversation.findMany({
+        where: { physicianId: { in: physicianIds } },
+        select: { patientId: true }
+      }),
+      prisma.hospitalPatient.findMany({
+        where: { assignedPhysicianId: { in: physicianIds }, status: 'active' },
+        select: { patientId: true }
+      })
+    ]);
+
+    return this.toUserIds([
+      ...appointments.map(appointment => appointment.patientId),
+      ...conversations.map(conversation => conversation.patientId),
+      ...admissions.map(admission => admission.patientId)
+    ]);
+  }
+
+  private async getAgentPatients(profile: Pick<Profile, 'id'>): Promise<string[]> {
+    const [assignments, assisted] = await Promise.all([
+      prisma.agentAssignment.findMany({
+        where: { agentId: profile.id, status: 'active' },
+        select: { patientId: true }
+      }),
+      prisma.agentAssistedPatient.findMany({
+        where: { agentId: profile.id, status: 'active' },
+        select: { patientId: true }
+      })
+    ]);
+
+    return this.toUserIds([
+      ...assignments.map(assignment => assignment.patientId),
+      ...assisted.map(patient => patient.patientId)
+    ]);
+  }
+
+  private async getHospitalStaff(hospitalId: string | null, adminUserId: string): Promise<string[]> {
+    if (!hospitalId) {
+      return [];
+    }
+
+    const staff = await prisma.profile.findMany({
+      where: { hospitalId, role: { in: ['PHYSICIAN', 'AGENT'] }, userId: { not: adminUserId } },
+      select: { userId: true }
+    });
+
+    return staff.map(member => member.userId);
+  }
+
+  private async getHospitalAdmins(hospitalId: string | null): Promise<string[]> {
+    if (!hospitalId) {
+      return [];
+    }
+
+    const admins = await prisma.profile.findMany({
+      where: { hospitalId, role: 'HOSPITAL_ADMIN' },
+      select: { userId: true }
+    });
+
+    return admins.map(admin => admin.userId);
+  }
+
+  // Relationship tables mix profile ids and user ids; resolve both
+  private async toUserIds(ids: string[]): Promise<string[]> {
+    const unique = [...new Set(ids)];
+    if (unique.length === 0) {
+      return [];
+    }
+
+    const profiles = await prisma.profile.findMany({
+      where: { OR: [{ id: { in: unique } }, { userId: { in: unique } }] },
+      select: { userId: true }
+    });
+
+    return [...new Set(profiles.map(profile => profile.userId))];
+  }
+}
@@ -0,0 +1,541 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { Prisma, PrismaClient, type ConsultationSession } from '@prisma/client';
+import { RECORDING_CONFIG } from '../config/recordingConfig.js';
+import { FileService } from './fileService.js';
+import {
+  decryptChunk,
+  decryptDataKey,
+  encryptChunk,
+  generateDataKey,
+  isRecordingEncryptionConfigured
+} from '../utils/recordingCrypto.js';
+
+const prisma = new PrismaClient();
+const fileService = new FileService();
+
+// What participants see of a recording; keys and storage paths stay on the server
+export const RECORDING_SELECT = {
+  id: true,
+  sessionId: true,
+  requestedBy: true,
+  status: true,
+  mimeType: true,
+  chunkCount: true,
+  totalBytes: true,
+  consentExpiresAt: true,
+  startedAt: true,
+  stoppedAt: true,
+  stoppedBy: true,
+  completedAt: true,
+  retainUntil: true,
+  legalHold: true,
+  consents: {
+    select: { userId: true, role: true, decision: true, createdAt: true },
+    orderBy: { createdAt: 'asc' }
+  }
+} satisfies Prisma.ConsultationRecordingSelect;
+
+type RecordingRow = Prisma.ConsultationRecordingGetPayload<{ select: typeof RECORDING_SELECT }>;
+
+export type RecordingSummary = Omit<RecordingRow, 'totalBytes'> & { totalBytes: number };
+
+// Where a consent decision came from, kept with it as evidence
+export interface ConsentContext {
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface RecordingDownload {
+  recording: RecordingSummary;
+  stream: Readable;
+}
+
+// Recording is opt-in and needs both participants' consent. The requester's
+// browser records; each uploaded chunk is encrypted with the recording's own
+// data key before it is stored.
+export class RecordingService {
+  isAvailable(): boolean {
+    return isRecordingEncryptionConfigured();
+  }
+
+  // Asking to record is the requester's own consent
+  async requestRecording(sessionId: string, userId: string, context: ConsentContext = {}): Promise<RecordingSummary> {
+    const session = await this.getParticipantSession(sessionId, userId);
+
+    if (!this.isAvailable()) {
+      throw new Error('Recording is not available');
+    }
+    if (session.status !== 'in_progress') {
+      throw new Error('Recording can only be requested during an active consultation');
+    }
+
+    const active = await this.findActiveRecording(sessionId);
+    if (active) {
+      throw new Error('A recording is already pending or in progress for this session');
+    }
+
+    const { encryptedDataKey, keyId } = generateDataKey();
+    const recording = await prisma.consultationRecording.create({
+      data: {
+        sessionId,
+        requestedBy: userId,
+        encryptedDataKey,
+        keyId,
+        bucket: RECORDING_CONFIG.bucket,
+        keyPrefix: `${RECORDING_CONFIG.folder}/${sessionId}/${crypto.randomUUID()}`,
+        consentExpiresAt: new Date(Date.now() + RECORDING_CONFIG.consentTimeoutMs),
+        consents: {
+          create: { userId, role: this.roleIn(session, userId), decision: 'granted', ...this.contextFields(context) }
+        }
+      },
+      select: RECORDING_SELECT
+    });
+
+    await this.audit(userId, 'RECORDING_REQUESTED', recording.id, { sessionId }, context);
+    return this.summarize(recording);
+  }
+
+  async respondToRequest(
+    recordingId: string,
+    userId: string,
+    granted: boolean,
+    context: ConsentContext = {}
+  ): Promise<RecordingSummary> {
+    const { recording, session } = await this.getParticipantRecording(recordingId, userId);
+
+    if (recording.status !== 'awaiting_consent') {
+      throw new Error('This recording request is no longer open');
+    }
+    if (recording.requestedBy === userId) {
+      throw new Error('You requested this recording');
+    }
+    if (recording.consentExpiresAt <= new Date()) {
+      await prisma.consultationRecording.updateMany({
+        where: { id: recordingId, status: 'awaiting_consent' },
+        data: { status: 'expired' }
+      });
+      throw new Error('This recording request has expired');
+    }
+
+    const now = new Date();
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.recordingConsent.create({
+        data: {
+          recordingId,
+          userId,
+          role: this.roleIn(session, userId),
+          decision: granted ? 'granted' : 'declined',
+          ...this.contextFields(context)
+        }
+      });
+
+      // The requester consented when asking, so this answer settles it
+      const result = await tx.consultationRecording.updateMany({
+        where: { id: recordingId, status: 'awaiting_consent' },
+        data: granted ? { status: 'recording', startedAt: now } : { status: 'declined', stoppedAt: now }
+      });
+      if (result.count === 0) {
+        throw new Error('This recording request is no longer open');
+      }
+
+      return tx.consultationRecording.findUniqueOrThrow({ where: { id: recordingId }, select: RECORDING_SELECT });
+    });
+
+    await this.audit(userId, granted ? 'RECORDING_CONSENT_GRANTED' : 'RECORDING_CONSENT_DECLINED', recordingId, {
+      sessionId: session.id
+    }, context);
+    return this.summarize(updated);
+  }
+
+  // Either participant may stop; for the one not recording it withdraws consent
+  async stopRecording(recordingId: string, userId: string, context: ConsentContext = {}): Promise<RecordingSummary> {
+    const { recording, session } = await this.getParticipantRecording(recordingId, userId);
+
+    if (recording.status !== 'recording' && recording.status !== 'awaiting_consent') {
+      throw new Error('This recording is not in progress');
+    }
+
+    const now = new Date();
+    const updated = await prisma.$transaction(async (tx) => {
+      // A request that never started is simply called off. Only moves on from
+      // the status read above, so a recording completed meanwhile stays completed.
+      const result = await tx.consultationRecording.updateMany({
+        where: { id: recordingId, status: recording.status },
+        data: recording.status === 'recording'
+          ? { status: 'stopped', stoppedAt: now, stoppedBy: userId }
+          : { status: 'declined', stoppedAt: now, stoppedBy: userId }
+      });
+      if (result.count === 0) {
+        throw new Error('This recording is not in progress');
+      }
+
+      await tx.recordingConsent.create({
+        data: { recordingId, userId, role: this.roleIn(session, userId), decision: 'withdrawn', ...this.contextFields(context) }
+      });
+
+      return tx.consultationRecording.findUniqueOrThrow({ where: { id: recordingId }, select: RECORDING_SELECT });
+    });
+
+    await this.audit(userId, 'RECORDING_STOPPED', recordingId, { sessionId: session.id }, context);
+    return this.summarize(updated);
+  }
+
+  // When the session ends nothing more may be recorded; uploads already made can still complete
+  async stopActiveRecordings(sessionId: string, userId: string): Promise<RecordingSummary[]> {
+    const active = await prisma.consultationRecording.findMany({
+      where: { sessionId, status: { in: ['recording', 'awaiting_consent'] } },
+      select: { id: true, status: true }
+    });
+
+    if (active.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    const ids = (status: string) => active.filter(recording => recording.status === status).map(recording => recording.id);
+
+    await prisma.$transaction([
+      prisma.consultationRecording.updateMany({
+        where: { id: { in: ids('recording') }, status: 'recording' },
+        data: { status: 'stopped', stoppedAt: now, stoppedBy: userId }
+      }),
+      prisma.consultationRecording.updateMany({
+        where: { id: { in: ids('awaiting_consent') }, status: 'awaiting_consent' },
+        data: { status: 'expired' }
+      })
+    ]);
+
+    const recordings = await prisma.consultationRecording.findMany({
+      where: { id: { in: active.map(recording => recording.id) } },
+      select: RECORDING_SELECT
+    });
+    return recordings.map(recording => this.summarize(recording));
+  }
+
+  // The pending request or running recording, if any, for clients that (re)join the room
+  async getActiveRecording(sessionId: string): Promise<RecordingSummary | null> {
+    const recording = await this.findActiveRecording(sessionId);
+    return recording ? this.summarize(recording) : null;
+  }
+
+  async uploadChunk(
+    recordingId: string,
+    userId: string,
+    sequence: number,
+    chunk: Buffer,
+    mimeType: string
+  ): Promise<{ sequence: number; size: number }> {
+    const recording = await prisma.consultationRecording.findUnique({ where: { id: recordingId } });
+
+    if (!recording || recording.requestedBy !== userId) {
+      throw new Error('Recording not found');
+    }
+    // Chunks recorded before a stop may still arrive shortly after it, but
+    // once consent is gone nothing new can be added or replaced
+    const stopped = recording.status === 'stopped';
+    if (recording.status !== 'recording' && !stopped) {
+      throw new Error('This recording is not accepting uploads');
+    }
+    if (stopped && (!recording.stoppedAt || Date.now() - recording.stoppedAt.getTime() > RECORDING_CONFIG.stoppedUploadGraceMs)) {
+      throw new Error('This recording has stopped and is no longer accepting uploads');
+    }
+    if (sequence >= RECORDING_CONFIG.maxChunks) {
+      throw new Error('This recording has reached its maximum length');
+    }
+    if (recording.mimeType && recording.mimeType !== mimeType) {
+      throw new Error(`Chunks for this recording must be ${recording.mimeType}`);
+    }
+
+    const dataKey = decryptDataKey(recording.encryptedDataKey, recording.keyId);
+    const encrypted = encryptChunk(dataKey, chunk);
+    const fileKey = `${recording.keyPrefix}/${String(sequence).padStart(6, '0')}.enc`;
+    const fields = {
+      fileKey,
+      size: chunk.length,
+      iv: encrypted.iv,
+      authTag: encrypted.authTag,
+      sha256: crypto.createHash('sha256').update(chunk).digest('hex')
+    };
+    const putChunk = () => fileService.putObject(recording.bucket, fileKey, encrypted.ciphertext, 'application/octet-stream', {
+      recordingId,
+      sequence: String(sequence)
+    });
+
+    if (stopped) {
+      // Claim the sequence before writing so an uploaded chunk is never replaced
+      try {
+        await prisma.recordingChunk.create({ data: { recordingId, sequence, ...fields } });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw new Error(`Chunk ${sequence} was already uploaded`);
+        }
+        throw error;
+      }
+
+      try {
+        await putChunk();
+      } catch (error) {
+        await prisma.recordingChunk.delete({ where: { recordingId_sequence: { recordingId, sequence } } });
+        throw error;
+      }
+    } else {
+      // While recording, a retried chunk replaces the earlier upload
+      await putChunk();
+      await prisma.recordingChunk.upsert({
+        where: { recordingId_sequence: { recordingId, sequence } },
+        create: { recordingId, sequence, ...fields },
+        update: fields
+      });
+    }
+
+    if (!recording.mimeType) {
+      await prisma.consultationRecording.update({ where: { id: recordingId }, data: { mimeType } });
+    }
+
+    return { sequence, size: chunk.length };
+  }
+
+  // The recorder confirms how many chunks it sent; the recording is only kept once all arrived
+  async completeRecording(recordingId: string, userId: string, chunkCount: number): Promise<RecordingSummary> {
+    const recording = await prisma.consultationRecording.findUnique({ where: { id: recordingId } });
+
+    if (!recording || recording.requestedBy !== userId) {
+      throw new Error('Recording not found');
+    }
+    if (recording.status !== 'recording' && recording.status !== 'stopped') {
+      throw new Error('This recording cannot be completed');
+    }
+
+    const chunks = await prisma.recordingChunk.findMany({
+      where: { recordingId },
+      select: { sequence: true, size: true }
+    });
+    const received = new Set(chunks.map(chunk => chunk.sequence));
+    const missing = Array.from({ length: chunkCount }, (_, sequence) => sequence)
+      .filter(sequence => !received.has(sequence));
+
+    if (missing.length > 0 || chunks.length !== chunkCount) {
+      throw new Error(
+        missing.length > 0
+          ? `Missing chunks: ${missing.slice(0, 20).join(', ')}`
+          : `Expected ${chunkCount} chunks but received ${chunks.length}`
+      );
+    }
+
+    const now = new Date();
+    const updated = await prisma.consultationRecording.update({
+      where: { id: recordingId },
+      data: {
+        status: 'completed',
+        stoppedAt: recording.stoppedAt ?? now,
+        stoppedBy: recording.stoppedBy ?? userId,
+        completedAt: now,
+        chunkCount,
+        totalBytes: chunks.reduce((sum, chunk) => sum + BigInt(chunk.size), BigInt(0)),
+        retainUntil: new Date(now.getTime() + RECORDING_CONFIG.retentionMs)
+      },
+      select: RECORDING_SELECT
+    });
+
+    await this.audit(userId, 'RECORDING_COMPLETED', recordingId, { sessionId: recording.sessionId, chunkCount });
+    return this.summarize(updated);
+  }
+
+  async listForSession(sessionId: string, userId: string, asAdmin = false): Promise<RecordingSummary[] | null> {
+    const session = await prisma.consultationSession.findFirst({
+      where: asAdmin ? { id: sessionId } : { id: sessionId, OR: [{ patientId: userId }, { physicianId: userId }] },
+      select: { id: true }
+    });
+
+    if (!session) {
+      return null;
+    }
+
+    const recordings = await prisma.consultationRecording.findMany({
+      where: { sessionId, status: { not: 'deleted' } },
+      select: RECORDING_SELECT,
+      orderBy: { createdAt: 'asc' }
+    });
+    return recordings.map(recording => this.summarize(recording));
+  }
+
+  // Decrypts the chunks in order as they are read; every access is audited
+  async openDownload(
+    recordingId: string,
+    userId: string,
+    asAdmin = false,
+    context: ConsentContext = {}
+  ): Promise<RecordingDownload | null> {
+    const recording = await prisma.consultationRecording.findFirst({
+      where: {
+        id: recordingId,
+        status: 'completed',
+        ...(asAdmin ? {} : { session: { OR: [{ patientId: userId }, { physicianId: userId }] } })
+      },
+      include: { chunks: { orderBy: { sequence: 'asc' } } }
+    });
+
+    if (!recording) {
+      return null;
+    }
+
+    const dataKey = decryptDataKey(recording.encryptedDataKey, recording.keyId);
+    const chunks = recording.chunks;
+
+    async function* decrypted() {
+      for (const chunk of chunks) {
+        const ciphertext = await fileService.getObjectBuffer(recording!.bucket, chunk.fileKey);
+        const plaintext = decryptChunk(dataKey, { ciphertext, iv: chunk.iv, authTag: chunk.authTag });
+
+        if (crypto.createHash('sha256').update(plaintext).digest('hex') !== chunk.sha256) {
+          throw new Error(`Recording chunk ${chunk.sequence} failed its integrity check`);
+        }
+        yield plaintext;
+      }
+    }
+
+    await this.audit(userId, 'RECORDING_ACCESSED', recordingId, { sessionId: recording.sessionId }, context);
+
+    const summary = await prisma.consultationRecording.findUniqueOrThrow({
+      where: { id: recordingId },
+      select: RECORDING_SELECT
+    });
+    return { recording: this.summarize(summary), stream: Readable.from(decrypted()) };
+  }
+
+  // Recordings on legal hold are never purged, whatever their retention date
+  async setLegalHold(recordingId: string, legalHold: boolean, adminId: string): Promise<RecordingSummary | null> {
+    const result = await prisma.consultationRecording.updateMany({
+      where: { id: recordingId, status: { not: 'deleted' } },
+      data: { legalHold }
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    await this.audit(adminId, legalHold ? 'RECORDING_HOLD_PLACED' : 'RECORDING_HOLD_RELEASED', recordingId, {});
+    const recording = await prisma.consultationRecording.findUniqueOrThrow({
+      where: { id: recordingId },
+      select: RECORDING_SELECT
+    });
+    return this.summarize(recording);
+  }
+
+  // Expires unanswered requests and deletes recordings past their retention
+  async purgeExpired(now = new Date()): Promise<number> {
+    await prisma.consultationRecording.updateMany({
+      where: { status: 'awaiting_consent', consentExpiresAt: { lt: now } },
+      data: { status: 'expired' }
+    });
+
+    const expired = await prisma.consultationRecording.findMany({
+      where: {
+        legalHold: false,
+        OR: [
+          { status: 'completed', retainUntil: { lt: now } },
+          {
+            status: { in: ['recording', 'stopped'] },
+            updatedAt: { lt: new Date(now.getTime() - RECORDING_CONFIG.incompleteRetentionMs) }
+          }
+        ]
+      },
+      include: { chunks: { select: { id: true, fileKey: true } } }
+    });
+
+    for (const recording of expired) {
+      for (const chunk of recording.chunks) {
+        await fileService.deleteObject(recording.bucket, chunk.fileKey);
+      }
+
+      await prisma.$transaction([
+        prisma.recordingChunk.deleteMany({ where: { recordingId: recording.id } }),
+        prisma.consultationRecording.update({
+          where: { id: recording.id },
+          data: { status: 'deleted', deletedAt: now }
+        })
+      ]);
+    }
+
+    return expired.length;
+  }
+
+  private async findActiveRecording(sessionId: string) {
+    return prisma.consultationRecording.findFirst({
+      where: {
+        sessionId,
+        OR: [
+          { status: 'recording' },
+          { status: 'awaiting_consent', consentExpiresAt: { gt: new Date() } }
+        ]
+      },
+      select: RECORDING_SELECT
+    });
+  }
+
+  private async getParticipantSession(sessionId: string, userId: string): Promise<ConsultationSession> {
+    const session = await prisma.consultationSession.findFirst({
+      where: { id: sessionId, OR: [{ patientId: userId }, { physicianId: userId }] }
+    });
+
+    if (!session) {
+      throw new Error('Consultation session not found');
+    }
+    return session;
+  }
+
+  private async getParticipantRecording(recordingId: string, userId: string) {
+    const recording = await prisma.consultationRecording.findUnique({
+      where: { id: recordingId },
+      include: { session: true }
+    });
+
+    if (!recording || (recording.session.patientId !== userId && recording.session.physicianId !== userId)) {
+      throw new Error('Recording not found');
+    }
+    return { recording, session: recording.session };
+  }
+
+  private roleIn(session: ConsultationSession, userId: string): 'patient' | 'physician' {
+    return session.patientId === userId ? 'patient' : 'physician';
+  }
+
+  private contextFields(context: ConsentContext) {
+    return {
+      ...(context.ipAddress ? { ipAddress: context.ipAddress } : {}),
+      ...(context.userAgent ? { userAgent: context.userAgent } : {})
+    };
+  }
+
+  private summarize(recording: RecordingRow): RecordingSummary {
+    return { ...recording, totalBytes: Number(recording.totalBytes) };
+  }
+
+  // Consent and access are part of the medical record
+  private async audit(
+    userId: string,
+    actionType: string,
+    recordingId: string,
+    details: Record<string, unknown>,
+    context: ConsentContext = {}
+  ) {
+    try {
+      await prisma.auditLog.create({
+        data: {
+          userId,
+          actionType,
+          actionCategory: 'consultation_recording',
+          resourceType: 'consultation_recording',
+          resourceId: recordingId,
+          newValues: details as Prisma.InputJsonValue,
+          impactLevel: 'medium',
+          complianceRelevant: true,
+          ...this.contextFields(context)
+        }
+      });
+    } catch (error) {
+      console.error('Error logging recording activity:', error);
+    }
+  }
+}
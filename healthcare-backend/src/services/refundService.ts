@@ -0,0 +1,328 @@
+import { Prisma, PrismaClient, type Appointment, type Refund } from '@prisma/client';
+import { REFUND_CONFIG } from '../config/refundConfig.js';
+import { LEDGER_CONFIG } from '../config/ledgerConfig.js';
+import { LedgerService } from './ledgerService.js';
+import { NotificationService } from './notificationService.js';
+import { getAppointmentStart } from '../utils/appointmentTime.js';
+
+const prisma = new PrismaClient();
+const ledgerService = new LedgerService();
+const notificationService = new NotificationService();
+
+export type RefundTrigger = 'cancellation' | 'physician_no_show' | 'zero_duration' | 'manual' | 'card_refund';
+
+export interface RefundOptions {
+  trigger: RefundTrigger;
+  percent: number;
+  reason?: string | undefined;
+  processedBy: string;
+}
+
+export interface RefundQuote {
+  appointmentId: string;
+  hoursBeforeStart: number;
+  percent: number;
+  amountPaid: Prisma.Decimal | null;
+  refundAmount: Prisma.Decimal | null;
+}
+
+export class RefundService {
+  // Work out how much of the payment a cancellation at `cancelledAt` gets back
+  async calculateCancellationPercent(appointment: Appointment, cancelledAt = new Date()): Promise<{
+    percent: number;
+    hoursBeforeStart: number;
+  }> {
+    const policy = await prisma.refundPolicy.findFirst({
+      where: { appointmentType: appointment.appointmentType, isActive: true }
+    });
+
+    const windows = policy
+      ? {
+          fullRefundHoursBefore: policy.fullRefundHoursBefore,
+          partialRefundHoursBefore: policy.partialRefundHoursBefore,
+          partialRefundPercent: policy.partialRefundPercent.toNumber()
+        }
+      : REFUND_CONFIG.defaultPolicy;
+
+    const hoursBeforeStart =
+      (getAppointmentStart(appointment).getTime() - cancelledAt.getTime()) / (60 * 60 * 1000);
+
+    let percent = 0;
+    if (hoursBeforeStart >= windows.fullRefundHoursBefore) {
+      percent = 100;
+    } else if (hoursBeforeStart >= windows.partialRefundHoursBefore) {
+      percent = windows.partialRefundPercent;
+    }
+
+    return { percent, hoursBeforeStart };
+  }
+
+  async getRefundQuote(appointmentId: string, userId: string): Promise<RefundQuote> {
+    const appointment = await this.getAppointmentForUser(appointmentId, userId);
+    const { percent, hoursBeforeStart } = appointment.isPhysician
+      ? { percent: 100, hoursBeforeStart: 0 }
+      : await this.calculateCancellationPercent(appointment);
+
+    const sessionId = appointment.consultationSession?.paymentStatus === 'paid'
+      ? appointment.consultationSession.id
+      : null;
+    const amountPaid = sessionId ? await this.getAmountPaid(sessionId) : null;
+
+    return {
+      appointmentId,
+      hoursBeforeStart: Math.max(0, Math.round(hoursBeforeStart * 100) / 100),
+      percent,
+      amountPaid,
+      refundAmount: amountPaid ? amountPaid.times(percent).dividedBy(100).toDecimalPlaces(2) : null
+    };
+  }
+
+  async cancelAppointment(appointmentId: string, userId: string, reason?: string): Promise<{
+    appointment: Appointment;
+    refund: Refund | null;
+  }> {
+    const appointment = await this.getAppointmentForUser(appointmentId, userId);
+
+    if (appointment.status === 'cancelled' || appointment.status === 'completed') {
+      throw new Error(`Appointment is already ${appointment.status}`);
+    }
+
+    // A physician cancelling is never the patient's fault
+    const { percent } = appointment.isPhysician
+      ? { percent: 100 }
+      : await this.calculateCancellationPercent(appointment);
+
+    const session = appointment.consultationSession;
+
+    const cancelled = await prisma.$transaction(async (tx) => {
+      if (session) {
+        await tx.consultationSession.update({
+          where: { id: session.id },
+          data: { status: 'cancelled' }
+        });
+      }
+
+      return tx.appointment.update({
+        where: { id: appointmentId },
+        data: { status: 'cancelled' }
+      });
+    });
+
+    let refund: Refund | null = null;
+    if (session?.paymentStatus === 'paid' && percent > 0) {
+      refund = await this.refundConsultation(session.id, {
+        trigger: 'cancellation',
+        percent,
+        reason: reason || (appointment.isPhysician ? 'Cancelled by physician' : 'Cancelled by patient'),
+        processedBy: userId
+      });
+    }
+
+    return { appointment: cancelled, refund };
+  }
+
+  // Called when a virtual session ends; refunds sessions that never really happened
+  async handleSessionEnded(sessionId: string): Promise<Refund | null> {
+    const session = await prisma.consultationSession.findUnique({
+      where: { id: sessionId },
+      include: { room: true }
+    });
+
+    if (!session || session.paymentStatus !== 'paid') {
+      return null;
+    }
+
+    let trigger: RefundTrigger | null = null;
+    if (!session.room?.physicianJoinedAt) {
+      trigger = 'physician_no_show';
+    } else if (!session.startedAt || (session.durationMinutes ?? 0) < REFUND_CONFIG.minimumBillableMinutes) {
+      trigger = 'zero_duration';
+    }
+
+    if (!trigger) {
+      return null;
+    }
+
+    return this.refundConsultation(sessionId, {
+      trigger,
+      percent: 100,
+      reason: trigger === 'physician_no_show' ? 'Physician did not join the consultation' : 'Consultation did not take place',
+      processedBy: 'system'
+    });
+  }
+
+  // Return `percent` of a consultation payment to the patient's wallet by
+  // reversing the same share of every leg of the original split
+  async refundConsultation(sessionId: string, options: RefundOptions): Promise<Refund> {
+    if (options.percent <= 0 || options.percent > 100) {
+      throw new Error('Refund percent must be between 0 and 100');
+    }
+
+    const session = await prisma.consultationSession.findUnique({ where: { id: sessionId } });
+
+    if (!session) {
+      throw new Error('Consultation session not found');
+    }
+
+    if (session.paymentStatus !== 'paid') {
+      throw new Error(`Consultation payment is ${session.paymentStatus} and cannot be refunded`);
+    }
+
+    const amountPaid = await this.getAmountPaid(sessionId);
+    const ratio = new Prisma.Decimal(options.percent).dividedBy(100);
+    const amount = amountPaid.times(ratio).toDecimalPlaces(2);
+    const base = {
+      patientId: session.patientId,
+      appointmentId: session.appointmentId,
+      sessionId,
+      amount,
+      percent: options.percent,
+      trigger: options.trigger,
+      reason: options.reason ?? null,
+      processedBy: options.processedBy
+    };
+
+    try {
+      const refund = await prisma.$transaction(async (tx) => {
+        // Claimed first so a dispute refund on the same payment waits for this one
+        const claimed = await tx.consultationSession.updateMany({
+          where: { id: sessionId, paymentStatus: 'paid' },
+          data: { paymentStatus: options.percent === 100 ? 'refunded' : 'partially_refunded' }
+        });
+
+        if (claimed.count === 0) {
+          throw new Error('Consultation payment has already been refunded');
+        }
+
+        const { journalEntry, entries } = await ledgerService.reverseJournalEntry(`CONSULT_${sessionId}`, {
+          reference: `REFUND_${sessionId}`,
+          entryType: 'consultation_refund',
+          description: 'Consultation refund',
+          metadata: { sessionId, trigger: options.trigger, percent: options.percent },
+          ratio
+        }, tx);
+
+        // Hospitals give back their share of the refunded amount
+        const hospitalAccounts = await tx.ledgerAccount.findMany({
+          where: {
+            id: { in: entries.map(entry => entry.ledgerAccountId).filter((id): id is string => !!id) },
+            accountType: LEDGER_CONFIG.hospitalAccountType
+          }
+        });
+
+        for (const account of hospitalAccounts) {
+          const entry = entries.find(e => e.ledgerAccountId === account.id)!;
+          await tx.hospitalFinancialData.create({
+            data: {
+              hospitalId: account.code.replace(/^HOSPITAL_/, ''),
+              transactionType: 'expense',
+              category: REFUND_CONFIG.hospitalRefundCategory,
+              amount: entry.amount,
+              description: 'Consultation refund',
+              fiscalMonth: new Date().toISOString().slice(0, 7),
+              referenceId: sessionId,
+              metadata: { trigger: options.trigger, percent: options.percent }
+            }
+          });
+        }
+
+        return tx.refund.create({
+          data: { ...base, status: 'completed', journalEntryId: journalEntry.id }
+        });
+      });
+
+      await this.notify(session.patientId, 'Refund processed',
+        `₦${amount.toFixed(2)} has been refunded to your wallet`);
+
+      return refund;
+
+    } catch (error) {
+      // Usually the physician has already withdrawn the earnings; keep a
+      // record so an admin can retry once the balance is available
+      const failureReason = error instanceof Error ? error.message : 'Refund failed';
+      console.error('Consultation refund error:', error);
+
+      return prisma.refund.create({
+        data: { ...base, status: 'failed', failureReason }
+      });
+    }
+  }
+
+  async listRefunds(options: {
+    patientId?: string | undefined;
+    status?: string | undefined;
+    page?: number | undefined;
+    limit?: number | undefined;
+  } = {}) {
+    const { patientId, status, page = 1, limit = 20 } = options;
+
+    const where: Prisma.RefundWhereInput = {};
+    if (patientId) where.patientId = patientId;
+    if (status) where.status = status;
+
+    const [refunds, total] = await Promise.all([
+      prisma.refund.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.refund.count({ where })
+    ]);
+
+    return {
+      refunds,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  private async getAppointmentForUser(appointmentId: string, userId: string) {
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: appointmentId },
+      include: { consultationSession: true, physician: true }
+    });
+
+    if (!appointment) {
+      throw new Error('Appointment not found');
+    }
+
+    const isPhysician = appointment.physician.userId === userId;
+    if (appointment.patientId !== userId && !isPhysician) {
+      throw new Error('Not allowed to manage this appointment');
+    }
+
+    return { ...appointment, isPhysician };
+  }
+
+  // What the patient actually paid, taken from the original journal entry
+  private async getAmountPaid(sessionId: string): Promise<Prisma.Decimal> {
+    const payment = await prisma.journalEntry.findUnique({
+      where: { reference: `CONSULT_${sessionId}` },
+      include: { entries: { where: { transactionType: 'debit' } } }
+    });
+
+    if (!payment) {
+      throw new Error('No consultation payment found for this session');
+    }
+
+    return payment.entries.reduce((sum, entry) => sum.plus(entry.amount), new Prisma.Decimal(0));
+  }
+
+  private async notify(userId: string, title: string, message: string): Promise<void> {
+    try {
+      await notificationService.notify(userId, {
+        category: 'billing',
+        type: 'payment',
+        title,
+        message
+      });
+    } catch (error) {
+      console.error('Error sending refund notification:', error);
+    }
+  }
+}
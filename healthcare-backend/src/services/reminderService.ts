@@ -0,0 +1,239 @@
+import { PrismaClient, type Prisma, type Profile } from '@prisma/client';
+import { SCHEDULER_CONFIG } from '../config/schedulerConfig.js';
+import { NOTIFICATION_CONFIG } from '../config/notificationConfig.js';
+import { JobScheduler } from './jobScheduler.js';
+import { NotificationService } from './notificationService.js';
+import { getAppointmentStart } from '../utils/appointmentTime.js';
+
+const prisma = new PrismaClient();
+const notificationService = new NotificationService();
+const jobScheduler = new JobScheduler();
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const REMINDER_JOBS = {
+  plan: 'appointments.plan_reminders',
+  appointmentReminder: 'appointments.reminder',
+  approvalNudge: 'appointments.approval_nudge',
+  followUp: 'consultations.follow_up'
+} as const;
+
+// Reminders are queued as individual jobs so each is sent once, even across restarts;
+// the handlers re-check the appointment because it may have changed since
+export class ReminderService {
+  // Queue whatever the current appointments call for; safe to run repeatedly
+  async planAll(now = new Date()): Promise<void> {
+    await this.planAppointmentReminders(now);
+    await this.planApprovalNudges(now);
+    await this.planFollowUps(now);
+  }
+
+  async planAppointmentReminders(now = new Date()): Promise<number> {
+    const longest = Math.max(...SCHEDULER_CONFIG.appointmentReminders.map(reminder => reminder.offsetMs));
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        status: 'confirmed',
+        appointmentDate: { gte: new Date(now.getTime() - DAY), lte: new Date(now.getTime() + longest + DAY) }
+      },
+      select: { id: true, appointmentDate: true, appointmentTime: true }
+    });
+
+    let queued = 0;
+    for (const appointment of appointments) {
+      const start = getAppointmentStart(appointment);
+
+      for (const reminder of SCHEDULER_CONFIG.appointmentReminders) {
+        const runAt = new Date(start.getTime() - reminder.offsetMs);
+
+        // Too late for this one; a shorter reminder still covers it
+        if (runAt <= now) {
+          continue;
+        }
+
+        // Moving the appointment moves the pending reminder with it
+        await jobScheduler.schedule(
+          REMINDER_JOBS.appointmentReminder,
+          { appointmentId: appointment.id, reminder: reminder.key },
+          runAt,
+          { uniqueKey: `appointment-reminder:${appointment.id}:${reminder.key}` }
+        );
+        queued++;
+      }
+    }
+
+    return queued;
+  }
+
+  // One nudge per physician per interval, however many requests are waiting
+  async planApprovalNudges(now = new Date()): Promise<number> {
+    const waiting = await prisma.appointment.groupBy({
+      by: ['physicianId'],
+      where: this.awaitingApproval(now)
+    });
+
+    const window = Math.floor(now.getTime() / SCHEDULER_CONFIG.approvalNudgeIntervalMs);
+    for (const { physicianId } of waiting) {
+      await jobScheduler.schedule(
+        REMINDER_JOBS.approvalNudge,
+        { physicianId },
+        now,
+        { uniqueKey: `approval-nudge:${physicianId}:${window}` }
+      );
+    }
+
+    return waiting.length;
+  }
+
+  // Virtual consultations are queued when the session ends; this also covers
+  // in-person visits and anything ended while the scheduler was unavailable
+  async planFollowUps(now = new Date()): Promise<number> {
+    const since = new Date(now.getTime() - SCHEDULER_CONFIG.followUpLookbackMs);
+
+    const [sessions, visits] = await Promise.all([
+      prisma.consultationSession.findMany({
+        where: { status: 'completed', endedAt: { gte: since } },
+        select: { appointmentId: true, endedAt: true }
+      }),
+      prisma.appointment.findMany({
+        where: { status: 'completed', consultationType: 'in_person', updatedAt: { gte: since } },
+        select: { id: true, updatedAt: true }
+      })
+    ]);
+
+    for (const session of sessions) {
+      await this.scheduleFollowUp(session.appointmentId, session.endedAt!);
+    }
+    for (const visit of visits) {
+      await this.scheduleFollowUp(visit.id, visit.updatedAt);
+    }
+
+    return sessions.length + visits.length;
+  }
+
+  async scheduleFollowUp(appointmentId: string, endedAt: Date) {
+    return jobScheduler.schedule(
+      REMINDER_JOBS.followUp,
+      { appointmentId },
+      new Date(endedAt.getTime() + SCHEDULER_CONFIG.followUpDelayMs),
+      { uniqueKey: `follow-up:${appointmentId}` }
+    );
+  }
+
+  async sendAppointmentReminder(payload: Prisma.JsonObject, now = new Date()): Promise<void> {
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: this.requireString(payload, 'appointmentId') },
+      include: { physician: true }
+    });
+
+    // Cancelled, still unconfirmed, or moved into the past since it was queued
+    if (!appointment || appointment.status !== 'confirmed') {
+      return;
+    }
+    const start = getAppointmentStart(appointment);
+    if (start <= now) {
+      return;
+    }
+
+    const virtual = appointment.consultationType === 'virtual';
+    const data = {
+      appointmentId: appointment.id,
+      startsAt: start.toISOString(),
+      reminder: payload.reminder,
+      ...(appointment.meetingLink ? { meetingLink: appointment.meetingLink } : {})
+    };
+
+    await notificationService.notify(appointment.patientId, {
+      category: 'appointments',
+      type: 'appointment_reminder',
+      title: 'Upcoming appointment',
+      message: `Your ${virtual ? 'virtual consultation' : 'appointment'} with ${this.physicianName(appointment.physician)} is on ${this.formatStart(start)}.`,
+      data
+    });
+
+    // Physicians only get the last, shortest reminder
+    const last = SCHEDULER_CONFIG.appointmentReminders[SCHEDULER_CONFIG.appointmentReminders.length - 1];
+    if (payload.reminder === last?.key) {
+      await notificationService.notify(appointment.physician.userId, {
+        category: 'appointments',
+        type: 'appointment_reminder',
+        title: 'Upcoming appointment',
+        message: `You have a ${virtual ? 'virtual consultation' : 'appointment'} on ${this.formatStart(start)}.`,
+        data
+      });
+    }
+  }
+
+  async sendApprovalNudge(payload: Prisma.JsonObject, now = new Date()): Promise<void> {
+    const physicianId = this.requireString(payload, 'physicianId');
+
+    const [physician, count] = await Promise.all([
+      prisma.profile.findUnique({ where: { id: physicianId } }),
+      prisma.appointment.count({ where: { ...this.awaitingApproval(now), physicianId } })
+    ]);
+
+    // Dealt with since the nudge was queued
+    if (!physician || count === 0) {
+      return;
+    }
+
+    await notificationService.notify(physician.userId, {
+      category: 'appointments',
+      type: 'approval_reminder',
+      title: 'Appointment requests awaiting approval',
+      message: `You have ${count} appointment request${count === 1 ? '' : 's'} waiting for your approval.`,
+      data: { count }
+    });
+  }
+
+  async sendFollowUp(payload: Prisma.JsonObject): Promise<void> {
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: this.requireString(payload, 'appointmentId') },
+      include: { physician: true }
+    });
+
+    if (!appointment || appointment.status === 'cancelled') {
+      return;
+    }
+
+    await notificationService.notify(appointment.patientId, {
+      category: 'health_reminders',
+      type: 'follow_up',
+      title: 'How are you feeling?',
+      message: `Please take a moment to answer a few questions about your consultation with ${this.physicianName(appointment.physician)}.`,
+      data: {
+        appointmentId: appointment.id,
+        questionnaireUrl: `${SCHEDULER_CONFIG.followUpUrl}/${appointment.id}`
+      }
+    });
+  }
+
+  // Pending long enough to nudge about, for appointments that have not yet passed
+  private awaitingApproval(now: Date): Prisma.AppointmentWhereInput {
+    return {
+      status: 'pending',
+      createdAt: { lte: new Date(now.getTime() - SCHEDULER_CONFIG.approvalNudgeAfterMs) },
+      appointmentDate: { gte: new Date(now.getTime() - DAY) }
+    };
+  }
+
+  private requireString(payload: Prisma.JsonObject, key: string): string {
+    const value = payload[key];
+    if (typeof value !== 'string' || !value) {
+      throw new Error(`Job payload is missing ${key}`);
+    }
+    return value;
+  }
+
+  private physicianName(physician: Profile): string {
+    const name = [physician.firstName, physician.lastName].filter(Boolean).join(' ');
+    return name ? `Dr. ${name}` : 'your physician';
+  }
+
+  private formatStart(start: Date): string {
+    return start.toLocaleString('en-NG', {
+      timeZone: NOTIFICATION_CONFIG.defaultTimezone,
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    });
+  }
+}
@@ -0,0 +1,198 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const ZERO = new Prisma.Decimal(0);
+
+export interface StatementEntry {
+  date: Date;
+  description: string;
+  reference: string | null;
+  entryType: string | null;
+  debit: Prisma.Decimal;
+  credit: Prisma.Decimal;
+  balance: Prisma.Decimal;
+}
+
+export interface WalletStatement {
+  accountHolder: string;
+  walletId: string;
+  currency: string;
+  from: Date;
+  to: Date;
+  openingBalance: Prisma.Decimal;
+  totalCredits: Prisma.Decimal;
+  totalDebits: Prisma.Decimal;
+  closingBalance: Prisma.Decimal;
+  entries: StatementEntry[];
+  generatedAt: Date;
+}
+
+export interface EarningsMonth {
+  month: string; // YYYY-MM
+  consultations: number;
+  grossEarnings: Prisma.Decimal;
+  refunds: Prisma.Decimal;
+  netEarnings: Prisma.Decimal;
+  withdrawals: Prisma.Decimal;
+}
+
+export interface EarningsSummary {
+  accountHolder: string;
+  year: number;
+  currency: string;
+  months: EarningsMonth[];
+  totals: Omit<EarningsMonth, 'month'>;
+  generatedAt: Date;
+}
+
+// Journal entry types that make up a physician's earnings
+const EARNING_ENTRY_TYPES = ['consultation_payment'];
+const REFUND_ENTRY_TYPES = ['consultation_refund', 'dispute_refund'];
+const WITHDRAWAL_ENTRY_TYPES = ['withdrawal_hold', 'withdrawal_reversal'];
+
+// Statements are built from the wallet's ledger legs, so they always agree
+// with the reconciliation report
+export class StatementService {
+  async getStatement(userId: string, from: Date, to: Date): Promise<WalletStatement> {
+    const wallet = await this.getWallet(userId);
+
+    // Everything settled before the period carries over as the opening balance
+    const before = await prisma.walletTransaction.groupBy({
+      by: ['transactionType'],
+      where: { walletId: wallet.id, status: 'completed', createdAt: { lt: from } },
+      _sum: { amount: true }
+    });
+    const openingBalance = this.sumSide(before, 'credit').minus(this.sumSide(before, 'debit'));
+
+    const transactions = await prisma.walletTransaction.findMany({
+      where: { walletId: wallet.id, status: 'completed', createdAt: { gte: from, lte: to } },
+      include: { journalEntry: { select: { reference: true, entryType: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    let balance = openingBalance;
+    let totalCredits = ZERO;
+    let totalDebits = ZERO;
+
+    const entries = transactions.map((transaction): StatementEntry => {
+      const isCredit = transaction.transactionType === 'credit';
+      balance = isCredit ? balance.plus(transaction.amount) : balance.minus(transaction.amount);
+      if (isCredit) {
+        totalCredits = totalCredits.plus(transaction.amount);
+      } else {
+        totalDebits = totalDebits.plus(transaction.amount);
+      }
+
+      return {
+        date: transaction.createdAt,
+        description: transaction.description ?? transaction.journalEntry?.entryType ?? 'Transaction',
+        reference: transaction.journalEntry?.reference ?? transaction.referenceId,
+        entryType: transaction.journalEntry?.entryType ?? null,
+        debit: isCredit ? ZERO : transaction.amount,
+        credit: isCredit ? transaction.amount : ZERO,
+        balance
+      };
+    });
+
+    return {
+      accountHolder: wallet.accountHolder,
+      walletId: wallet.id,
+      currency: wallet.currency,
+      from,
+      to,
+      openingBalance,
+      totalCredits,
+      totalDebits,
+      closingBalance: balance,
+      entries,
+      generatedAt: new Date()
+    };
+  }
+
+  async getEarningsSummary(userId: string, year: number): Promise<EarningsSummary> {
+    const wallet = await this.getWallet(userId);
+    const start = new Date(Date.UTC(year, 0, 1));
+    const end = new Date(Date.UTC(year + 1, 0, 1));
+
+    const transactions = await prisma.walletTransaction.findMany({
+      where: {
+        walletId: wallet.id,
+        status: 'completed',
+        createdAt: { gte: start, lt: end },
+        journalEntry: {
+          entryType: { in: [...EARNING_ENTRY_TYPES, ...REFUND_ENTRY_TYPES, ...WITHDRAWAL_ENTRY_TYPES] }
+        }
+      },
+      include: { journalEntry: { select: { entryType: true } } }
+    });
+
+    const months: EarningsMonth[] = Array.from({ length: 12 }, (_, index) => ({
+      month: `${year}-${String(index + 1).padStart(2, '0')}`,
+      consultations: 0,
+      grossEarnings: ZERO,
+      refunds: ZERO,
+      netEarnings: ZERO,
+      withdrawals: ZERO
+    }));
+
+    for (const transaction of transactions) {
+      const month = months[transaction.createdAt.getUTCMonth()]!;
+      const entryType = transaction.journalEntry!.entryType;
+      const signed = transaction.transactionType === 'credit' ? transaction.amount : transaction.amount.negated();
+
+      if (EARNING_ENTRY_TYPES.includes(entryType)) {
+        month.consultations += 1;
+        month.grossEarnings = month.grossEarnings.plus(signed);
+      } else if (REFUND_ENTRY_TYPES.includes(entryType)) {
+        month.refunds = month.refunds.minus(signed);
+      } else {
+        // A reversed withdrawal puts the held amount back
+        month.withdrawals = month.withdrawals.minus(signed);
+      }
+    }
+
+    for (const month of months) {
+      month.netEarnings = month.grossEarnings.minus(month.refunds);
+    }
+
+    const totals = months.reduce((sum, month) => ({
+      consultations: sum.consultations + month.consultations,
+      grossEarnings: sum.grossEarnings.plus(month.grossEarnings),
+      refunds: sum.refunds.plus(month.refunds),
+      netEarnings: sum.netEarnings.plus(month.netEarnings),
+      withdrawals: sum.withdrawals.plus(month.withdrawals)
+    }), { consultations: 0, grossEarnings: ZERO, refunds: ZERO, netEarnings: ZERO, withdrawals: ZERO });
+
+    return {
+      accountHolder: wallet.accountHolder,
+      year,
+      currency: wallet.currency,
+      months,
+      totals,
+      generatedAt: new Date()
+    };
+  }
+
+  private async getWallet(userId: string) {
+    const wallet = await prisma.wallet.findUnique({
+      where: { userId },
+      include: { user: { include: { profile: true } } }
+    });
+
+    if (!wallet) {
+      throw new Error('Wallet not found');
+    }
+
+    const profile = wallet.user.profile;
+    const name = [profile?.firstName, profile?.lastName].filter(Boolean).join(' ');
+
+    return { ...wallet, accountHolder: name || wallet.user.email };
+  }
+
+  private sumSide(
+    groups: Array<{ transactionType: string; _sum: { amount: Prisma.Decimal | null } }>,
+    side: 'credit' | 'debit'
+  ): Prisma.Decimal {
+    return groups.find(group => group.transactionType === side)?._sum.amount ?? ZERO;
+  }
+}
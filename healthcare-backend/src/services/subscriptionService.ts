@@ -0,0 +1,511 @@
+import { Prisma, PrismaClient, type Subscription, type SubscriptionPlan } from '@prisma/client';
+import { SUBSCRIPTION_CONFIG, type PlanEntitlements } from '../config/subscriptionConfig.js';
+import { LedgerService } from './ledgerService.js';
+import type { PaymentService } from './paymentService.js';
+import { NotificationService } from './notificationService.js';
+
+const prisma = new PrismaClient();
+const ledgerService = new LedgerService();
+const notificationService = new NotificationService();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Subscriptions in these states still grant their plan's entitlements
+export const ENTITLED_STATUSES = ['active', 'past_due', 'non_renewing'];
+
+export interface SubscriptionPlanInput {
+  code: string;
+  name: string;
+  description?: string | null;
+  amount: number; // Amount in naira
+  interval?: string;
+  features?: string[];
+  entitlements: PlanEntitlements;
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+// The parts of Paystack's subscription webhook payloads used here
+export interface PaystackSubscriptionData {
+  subscription_code?: string;
+  email_token?: string;
+  next_payment_date?: string | null;
+  plan?: { plan_code?: string; name?: string };
+  customer?: { email?: string; customer_code?: string };
+}
+
+export interface PaystackInvoiceData {
+  paid?: boolean;
+  subscription?: { subscription_code?: string; next_payment_date?: string | null };
+}
+
+export interface PaystackPlanChargeData {
+  reference: string;
+  amount: number; // Amount in kobo
+  plan?: { plan_code?: string; name?: string };
+  customer?: { email?: string };
+}
+
+export class SubscriptionService {
+  constructor(private paymentService: PaymentService) {}
+
+  async listPlans(options: { includeInactive?: boolean } = {}): Promise<SubscriptionPlan[]> {
+    return prisma.subscriptionPlan.findMany({
+      where: options.includeInactive ? {} : { isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { amount: 'asc' }]
+    });
+  }
+
+  // New plans are registered with Paystack so renewals are charged automatically
+  async createPlan(input: SubscriptionPlanInput): Promise<SubscriptionPlan> {
+    const interval = input.interval ?? 'monthly';
+    const paystackPlanCode = await this.paymentService.createPlan({
+      name: input.name,
+      amount: input.amount * 100, // Convert to kobo
+      interval,
+      ...(input.description ? { description: input.description } : {})
+    });
+
+    return prisma.subscriptionPlan.create({
+      data: {
+        code: input.code,
+        name: input.name,
+        description: input.description ?? null,
+        amount: input.amount,
+        interval,
+        paystackPlanCode,
+        features: input.features ?? [],
+        entitlements: input.entitlements as unknown as Prisma.InputJsonValue,
+        isActive: input.isActive ?? true,
+        sortOrder: input.sortOrder ?? 0
+      }
+    });
+  }
+
+  // Price and interval live on the Paystack plan; changing them means creating a new plan
+  async updatePlan(
+    planId: string,
+    input: Partial<Omit<SubscriptionPlanInput, 'code' | 'amount' | 'interval'>>
+  ): Promise<SubscriptionPlan> {
+    const data: Prisma.SubscriptionPlanUpdateInput = {};
+
+    if (input.name !== undefined) data.name = input.name;
+    if (input.description !== undefined) data.description = input.description;
+    if (input.features !== undefined) data.features = input.features;
+    if (input.entitlements !== undefined) data.entitlements = input.entitlements as unknown as Prisma.InputJsonValue;
+    if (input.isActive !== undefined) data.isActive = input.isActive;
+    if (input.sortOrder !== undefined) data.sortOrder = input.sortOrder;
+
+    return prisma.subscriptionPlan.update({
+      where: { id: planId },
+      data
+    });
+  }
+
+  async getCurrentSubscription(userId: string) {
+    return prisma.subscription.findFirst({
+      where: { userId, status: { in: ENTITLED_STATUSES } },
+      include: { plan: true },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  async subscribe(userId: string, planId: string, callbackUrl?: string): Promise<{
+    subscription: Subscription;
+    authorizationUrl: string;
+    reference: string;
+  }> {
+    const [user, plan, current] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId } }),
+      prisma.subscriptionPlan.findUnique({ where: { id: planId } }),
+      this.getCurrentSubscription(userId)
+    ]);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!plan || !plan.isActive || !plan.paystackPlanCode) {
+      throw new Error('Subscription plan is not available');
+    }
+
+    if (current?.planId === planId && current.status === 'active') {
+      throw new Error('You are already subscribed to this plan');
+    }
+
+    const subscription = await prisma.subscription.create({
+      data: { userId, planId }
+    });
+
+    // The first charge creates the Paystack subscription; subscription.create activates ours
+    const payment = await this.paymentService.initializePayment({
+      email: user.email,
+      amount: plan.amount.times(100).toNumber(), // Convert to kobo
+      plan: plan.paystackPlanCode,
+      channels: ['card'],
+      metadata: {
+        paymentType: 'subscription',
+        userId,
+        planId,
+        subscriptionId: subscription.id
+      },
+      ...(callbackUrl ? { callback_url: callbackUrl } : {})
+    });
+
+    return {
+      subscription,
+      authorizationUrl: payment.authorizationUrl!, // Always set for Paystack checkouts
+      reference: payment.reference
+    };
+  }
+
+  // Stops renewal; the plan stays usable until the paid period ends
+  async cancelSubscription(userId: string): Promise<Subscription> {
+    const subscription = await prisma.subscription.findFirst({
+      where: { userId, status: { in: ['active', 'past_due'] } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!subscription) {
+      throw new Error('No active subscription');
+    }
+
+    if (subscription.paystackSubscriptionCode && subscription.paystackEmailToken) {
+      await this.paymentService.disableSubscription(
+        subscription.paystackSubscriptionCode,
+        subscription.paystackEmailToken
+      );
+    }
+
+    return prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: subscription.status === 'past_due' ? 'cancelled' : 'non_renewing',
+        cancelledAt: new Date(),
+        nextDunningAt: null
+      }
+    });
+  }
+
+  // subscription.create webhook
+  async activateSubscription(data: PaystackSubscriptionData): Promise<void> {
+    const planCode = data.plan?.plan_code;
+    const email = data.customer?.email;
+    const subscriptionCode = data.subscription_code;
+
+    if (!planCode || !email || !subscriptionCode) {
+      throw new Error('Incomplete subscription.create payload');
+    }
+
+    const [plan, user] = await Promise.all([
+      prisma.subscriptionPlan.findUnique({ where: { paystackPlanCode: planCode } }),
+      prisma.user.findUnique({ where: { email } })
+    ]);
+
+    if (!plan || !user) {
+      throw new Error(`Cannot match Paystack subscription ${subscriptionCode}`);
+    }
+
+    const pending = await prisma.subscription.findFirst({
+      where: { userId: user.id, planId: plan.id, status: 'pending' },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const now = new Date();
+    const details = {
+      status: 'active',
+      paystackSubscriptionCode: subscriptionCode,
+      paystackEmailToken: data.email_token ?? null,
+      paystackCustomerCode: data.customer?.customer_code ?? null,
+      currentPeriodStart: now,
+      currentPeriodEnd: data.next_payment_date ? new Date(data.next_payment_date) : null
+    };
+
+    const replaced = await prisma.subscription.findMany({
+      where: {
+        userId: user.id,
+        status: { in: ENTITLED_STATUSES },
+        ...(pending ? { id: { not: pending.id } } : {})
+      }
+    });
+
+    await prisma.$transaction(async (tx) => {
+      if (pending) {
+        await tx.subscription.update({ where: { id: pending.id }, data: details });
+      } else {
+        await tx.subscription.create({ data: { userId: user.id, planId: plan.id, ...details } });
+      }
+
+      // A plan change replaces whatever the user had before
+      if (replaced.length > 0) {
+        await tx.subscription.updateMany({
+          where: { id: { in: replaced.map(s => s.id) } },
+          data: { status: 'cancelled', cancelledAt: now, nextDunningAt: null }
+        });
+      }
+
+      await tx.profile.update({
+        where: { userId: user.id },
+        data: { subscriptionPlan: plan.code }
+      });
+    });
+
+    for (const old of replaced) {
+      await this.disableAtPaystack(old);
+    }
+
+    await this.notify(user.id, 'Subscription active', `Your ${plan.name} subscription is now active`);
+  }
+
+  // charge.success for a plan charge; books the revenue against Paystack clearing
+  async recordSubscriptionPayment(data: PaystackPlanChargeData): Promise<void> {
+    const amountInNaira = data.amount / 100;
+
+    await ledgerService.postJournalEntry({
+      reference: data.reference,
+      entryType: 'subscription_payment',
+      description: `Subscription payment - ${data.plan?.name ?? data.plan?.plan_code}`,
+      metadata: { planCode: data.plan?.plan_code, customerEmail: data.customer?.email },
+      lines: [
+        { account: { systemAccount: 'paystackClearing' }, side: 'debit', amount: amountInNaira },
+        { account: { systemAccount: 'subscriptionRevenue' }, side: 'credit', amount: amountInNaira }
+      ]
+    });
+  }
+
+  // invoice.update webhook once a renewal has been paid
+  async renewSubscription(data: PaystackInvoiceData): Promise<void> {
+    if (!data.paid) {
+      return;
+    }
+
+    const subscription = await this.findByCode(data.subscription?.subscription_code);
+    const wasPastDue = subscription.status === 'past_due';
+
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: subscription.status === 'non_renewing' ? 'non_renewing' : 'active',
+        currentPeriodStart: new Date(),
+        currentPeriodEnd: data.subscription?.next_payment_date
+          ? new Date(data.subscription.next_payment_date)
+          : subscription.currentPeriodEnd,
+        graceUntil: null,
+        failedPaymentCount: 0,
+        remindersSent: 0,
+        nextDunningAt: null
+      }
+    });
+
+    if (wasPastDue) {
+      await this.notify(subscription.userId, 'Subscription renewed',
+        'Your payment went through and your subscription is back in good standing');
+    }
+  }
+
+  // invoice.payment_failed webhook: start the grace period and dunning reminders
+  async markRenewalFailed(data: PaystackInvoiceData): Promise<void> {
+    const subscription = await this.findByCode(data.subscription?.subscription_code);
+    const now = new Date();
+    // Further failures inside the grace period do not extend it
+    const graceUntil = subscription.graceUntil ?? new Date(now.getTime() + SUBSCRIPTION_CONFIG.gracePeriodDays * DAY_MS);
+
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: 'past_due',
+        graceUntil,
+        failedPaymentCount: { increment: 1 },
+        nextDunningAt: this.nextReminderAt(this.graceStart(graceUntil), subscription.remindersSent, graceUntil)
+      }
+    });
+
+    await this.notify(subscription.userId, 'Subscription payment failed',
+      `We could not renew your subscription. Update your card before ${graceUntil.toDateString()} to keep your benefits.`);
+  }
+
+  // subscription.not_renew and subscription.disable webhooks
+  async markSubscriptionDisabled(data: PaystackSubscriptionData, event: string): Promise<void> {
+    const subscription = await this.findByCode(data.subscription_code);
+
+    if (['cancelled', 'expired'].includes(subscription.status)) {
+      return;
+    }
+
+    if (event === 'subscription.not_renew') {
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { status: 'non_renewing', cancelledAt: subscription.cancelledAt ?? new Date() }
+      });
+      return;
+    }
+
+    await this.expire(subscription, 'cancelled');
+  }
+
+  // Sends due reminders and ends subscriptions whose grace or paid period is over
+  async processDunning(now = new Date()): Promise<{ reminded: number; expired: number }> {
+    let reminded = 0;
+    let expired = 0;
+
+    const lapsed = await prisma.subscription.findMany({
+      where: {
+        OR: [
+          { status: 'past_due', graceUntil: { lte: now } },
+          { status: 'non_renewing', currentPeriodEnd: { lte: now } }
+        ]
+      }
+    });
+
+    for (const subscription of lapsed) {
+      await this.expire(subscription, 'expired');
+      expired++;
+    }
+
+    const due = await prisma.subscription.findMany({
+      where: { status: 'past_due', nextDunningAt: { lte: now }, graceUntil: { gt: now } }
+    });
+
+    for (const subscription of due) {
+      const remindersSent = subscription.remindersSent + 1;
+
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          remindersSent,
+          nextDunningAt: this.nextReminderAt(
+            this.graceStart(subscription.graceUntil!),
+            remindersSent,
+            subscription.graceUntil!
+          )
+        }
+      });
+
+      await this.notify(subscription.userId, 'Subscription payment overdue',
+        `Your subscription will end on ${subscription.graceUntil!.toDateString()} unless your payment method is updated.`);
+      reminded++;
+    }
+
+    return { reminded, expired };
+  }
+
+  async listSubscriptions(options: {
+    userId?: string | undefined;
+    status?: string | undefined;
+    page?: number | undefined;
+    limit?: number | undefined;
+  } = {}) {
+    const { userId, status, page = 1, limit = 20 } = options;
+
+    const where: Prisma.SubscriptionWhereInput = {};
+    if (userId) where.userId = userId;
+    if (status) where.status = status;
+
+    const [subscriptions, total] = await Promise.all([
+      prisma.subscription.findMany({
+        where,
+        include: { plan: true },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.subscription.count({ where })
+    ]);
+
+    return {
+      subscriptions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  private async expire(subscription: Subscription, status: 'cancelled' | 'expired'): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await tx.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          status,
+          cancelledAt: subscription.cancelledAt ?? new Date(),
+          nextDunningAt: null
+        }
+      });
+
+      // Fall back to the free tier unless another subscription took over
+      const other = await tx.subscription.count({
+        where: { userId: subscription.userId, status: { in: ENTITLED_STATUSES }, id: { not: subscription.id } }
+      });
+
+      if (other === 0) {
+        await tx.profile.update({
+          where: { userId: subscription.userId },
+          data: { subscriptionPlan: SUBSCRIPTION_CONFIG.freePlanCode }
+        });
+      }
+    });
+
+    if (status === 'expired') {
+      await this.disableAtPaystack(subscription);
+      await this.notify(subscription.userId, 'Subscription ended',
+        'Your subscription has ended and your account is back on the free tier');
+    }
+  }
+
+  private graceStart(graceUntil: Date): Date {
+    return new Date(graceUntil.getTime() - SUBSCRIPTION_CONFIG.gracePeriodDays * DAY_MS);
+  }
+
+  private nextReminderAt(failedAt: Date, remindersSent: number, graceUntil: Date): Date | null {
+    const days = SUBSCRIPTION_CONFIG.dunningReminderDays[remindersSent];
+    if (days === undefined) {
+      return null;
+    }
+
+    const at = new Date(failedAt.getTime() + days * DAY_MS);
+    return at < graceUntil ? at : null;
+  }
+
+  private async findByCode(code: string | undefined): Promise<Subscription> {
+    const subscription = code
+      ? await prisma.subscription.findUnique({ where: { paystackSubscriptionCode: code } })
+      : null;
+
+    if (!subscription) {
+      throw new Error(`No subscription for Paystack code ${code}`);
+    }
+
+    return subscription;
+  }
+
+  private async disableAtPaystack(subscription: Subscription): Promise<void> {
+    if (!subscription.paystackSubscriptionCode || !subscription.paystackEmailToken) {
+      return;
+    }
+
+    try {
+      await this.paymentService.disableSubscription(
+        subscription.paystackSubscriptionCode,
+        subscription.paystackEmailToken
+      );
+    } catch (error) {
+      // Already disabled on Paystack's side is fine; anything else is retried by hand
+      console.error('Error disabling Paystack subscription:', error);
+    }
+  }
+
+  private async notify(userId: string, title: string, message: string): Promise<void> {
+    try {
+      await notificationService.notify(userId, {
+        category: 'billing',
+        type: 'subscription',
+        title,
+        message
+      });
+    } catch (error) {
+      console.error('Error sending subscription notification:', error);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import net from 'net';
+import { VIRUS_SCAN_CONFIG } from '../config/virusScanConfig.js';
+
+export type ScanResult =
+  | { clean: true }
+  | { clean: false; signature: string };
+
+// Scans bytes with clamd's INSTREAM command. Anything short of a verdict
+// from clamd (not configured, unreachable, timed out, an error reply)
+// throws, so callers never mistake a failed scan for a clean file.
+export class VirusScanService {
+  async scanBuffer(buffer: Buffer): Promise<ScanResult> {
+    if (!VIRUS_SCAN_CONFIG.host) {
+      throw new Error('Virus scanning is not configured');
+    }
+
+    const reply = await this.instream(VIRUS_SCAN_CONFIG.host, VIRUS_SCAN_CONFIG.port, buffer);
+
+    // "stream: OK", "stream: Eicar-Test-Signature FOUND" or "... ERROR"
+    if (reply.endsWith('OK')) {
+      return { clean: true };
+    }
+
+    const found = reply.match(/^stream: (.+) FOUND$/);
+    if (found) {
+      return { clean: false, signature: found[1]! };
+    }
+
+    throw new Error(`Virus scan failed: ${reply}`);
+  }
+
+  private instream(host: string, port: number, buffer: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host, port });
+      const replies: Buffer[] = [];
+
+      socket.setTimeout(VIRUS_SCAN_CONFIG.timeoutMs, () => {
+        socket.destroy(new Error('Virus scan timed out'));
+      });
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+
+        // Each chunk is prefixed with its length; a zero length ends the stream
+        for (let offset = 0; offset < buffer.length; offset += VIRUS_SCAN_CONFIG.chunkSize) {
+          const chunk = buffer.subarray(offset, offset + VIRUS_SCAN_CONFIG.chunkSize);
+          const size = Buffer.alloc(4);
+          size.writeUInt32BE(chunk.length);
+          socket.write(size);
+          socket.write(chunk);
+        }
+
+        socket.end(Buffer.alloc(4));
+      });
+
+      socket.on('data', (data) => replies.push(data));
+      socket.on('error', reject);
+      socket.on('close', (hadError) => {
+        if (hadError) return;
+        resolve(Buffer.concat(replies).toString('utf8').replace(/\0/g, '').trim());
+      });
+    });
+  }
+}
+
+export const virusScanService = new VirusScanService();
@@ -0,0 +1,506 @@
+import type { Server as SocketIOServer } from 'socket.io';
+import { Prisma, PrismaClient, type Appointment, type Profile } from '@prisma/client';
+import { WAITING_ROOM_CONFIG } from '../config/waitingRoomConfig.js';
+import { getAppointmentStart } from '../utils/appointmentTime.js';
+import { JobScheduler } from './jobScheduler.js';
+import { ConsultationBillingService } from './consultationBillingService.js';
+import { NotificationService } from './notificationService.js';
+import { consultationRoomService, type RoomAccess } from './consultationRoomService.js';
+import type {
+  DeviceCheckResult,
+  RescheduleSlot,
+  WaitingRoomCheckInPayload,
+  WaitingRoomEntry,
+  WaitingRoomStatus,
+  WaitingStatus
+} from '../socket/events.js';
+
+const prisma = new PrismaClient();
+const jobScheduler = new JobScheduler();
+const notificationService = new NotificationService();
+const billingService = new ConsultationBillingService();
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export const WAITING_ROOM_JOBS = {
+  physicianLate: 'consultations.physician_late'
+} as const;
+
+export interface RescheduleInput {
+  appointmentDate: string;
+  appointmentTime: string; // HH:mm
+}
+
+type EntryWithSession = Prisma.ConsultationWaitingEntryGetPayload<{
+  include: { session: { include: { appointment: true } } };
+}>;
+
+interface QueuedEntry {
+  entry: EntryWithSession;
+  scheduledAt: Date;
+  position: number;
+  estimatedWaitMinutes: number;
+}
+
+// The physician's virtual waiting room: patients check in with a device check
+// and intake answers, wait in order of their appointment times, and join the
+// consultation room once the physician admits them. Queue changes are pushed
+// to the physician and every waiting patient once a socket server is attached.
+export class WaitingRoomService {
+  private io: SocketIOServer | null = null;
+
+  attach(io: SocketIOServer) {
+    this.io = io;
+  }
+
+  // What the patient's client needs before checking in
+  async getInfo(sessionId: string, userId: string) {
+    const session = await prisma.consultationSession.findUnique({
+      where: { id: sessionId },
+      include: { appointment: true, waitingEntry: true }
+    });
+
+    if (!session || (session.patientId !== userId && session.physicianId !== userId)) {
+      return null;
+    }
+
+    const scheduledAt = getAppointmentStart(session.appointment);
+
+    return {
+      scheduledAt: scheduledAt.toISOString(),
+      checkInOpensAt: new Date(scheduledAt.getTime() - WAITING_ROOM_CONFIG.checkInOpensMinutes * MINUTE).toISOString(),
+      intakeQuestions: WAITING_ROOM_CONFIG.intakeQuestions,
+      status: session.waitingEntry ? await this.getStatus(sessionId) : null
+    };
+  }
+
+  async checkIn(userId: string, payload: WaitingRoomCheckInPayload, now = new Date()): Promise<WaitingRoomStatus> {
+    const { sessionId, deviceCheck, intake } = payload;
+    const session = await prisma.consultationSession.findUnique({
+      where: { id: sessionId },
+      include: { appointment: true, waitingEntry: true }
+    });
+
+    if (!session || session.patientId !== userId) {
+      throw new Error('Only the patient can check in to this consultation');
+    }
+    if (['completed', 'cancelled'].includes(session.status)) {
+      throw new Error('This consultation is no longer active');
+    }
+
+    const scheduledAt = getAppointmentStart(session.appointment);
+    if (now.getTime() < scheduledAt.getTime() - WAITING_ROOM_CONFIG.checkInOpensMinutes * MINUTE) {
+      throw new Error(`Check-in opens ${WAITING_ROOM_CONFIG.checkInOpensMinutes} minutes before your appointment`);
+    }
+
+    // The call can fall back to audio, so only the camera is optional
+    if (!deviceCheck.microphone || !deviceCheck.connection) {
+      throw new Error('Your microphone and internet connection must work to join a consultation');
+    }
+
+    const unanswered = WAITING_ROOM_CONFIG.intakeQuestions
+      .filter(question => question.required && String(intake[question.id] ?? '').trim() === '');
+    if (unanswered.length > 0) {
+      throw new Error(`Please answer: ${unanswered.map(question => question.label).join(' ')}`);
+    }
+
+    const existing = session.waitingEntry;
+    if (existing?.status === 'admitted') {
+      return (await this.getStatus(sessionId))!;
+    }
+
+    // Checking in again while waiting keeps the patient's place
+    const stillWaiting = existing?.status === 'waiting';
+    await prisma.consultationWaitingEntry.upsert({
+      where: { sessionId },
+      create: {
+        sessionId,
+        patientId: session.patientId,
+        physicianId: session.physicianId,
+        deviceCheck: deviceCheck as unknown as Prisma.InputJsonValue,
+        intake,
+        checkedInAt: now
+      },
+      update: {
+        status: 'waiting',
+        deviceCheck: deviceCheck as unknown as Prisma.InputJsonValue,
+        intake,
+        ...(stillWaiting ? {} : { checkedInAt: now, leftAt: null, physicianLateNotifiedAt: null })
+      }
+    });
+
+    // Moving the appointment gives it a new key, so a rescheduled session is watched again
+    const lateAt = new Date(scheduledAt.getTime() + WAITING_ROOM_CONFIG.physicianLateMinutes * MINUTE);
+    await jobScheduler.schedule(
+      WAITING_ROOM_JOBS.physicianLate,
+      { sessionId },
+      lateAt > now ? lateAt : now,
+      { uniqueKey: `physician-late:${sessionId}:${scheduledAt.getTime()}` }
+    );
+
+    await this.broadcastQueue(session.physicianId);
+    return (await this.getStatus(sessionId))!;
+  }
+
+  async leave(sessionId: string, userId: string): Promise<WaitingRoomStatus | null> {
+    const entry = await prisma.consultationWaitingEntry.findUnique({ where: { sessionId } });
+
+    if (!entry || entry.patientId !== userId || entry.status !== 'waiting') {
+      return null;
+    }
+
+    await prisma.consultationWaitingEntry.update({
+      where: { id: entry.id },
+      data: { status: 'left', leftAt: new Date() }
+    });
+
+    await this.broadcastQueue(entry.physicianId);
+    return this.getStatus(sessionId);
+  }
+
+  // The session's participants may join the consultation room from now on
+  async admit(sessionId: string, physicianId: string): Promise<WaitingRoomStatus | null> {
+    const entry = await prisma.consultationWaitingEntry.findUnique({ where: { sessionId } });
+
+    if (!entry || entry.physicianId !== physicianId) {
+      return null;
+    }
+
+    const admitted = await prisma.consultationWaitingEntry.updateMany({
+      where: { id: entry.id, status: 'waiting' },
+      data: { status: 'admitted', admittedAt: new Date(), admittedBy: physicianId }
+    });
+
+    if (admitted.count === 0) {
+      throw new Error('This patient is not waiting to be admitted');
+    }
+
+    if (this.io) {
+      const participants = await consultationRoomService.listParticipants(sessionId);
+      participants
+        .filter(participant => participant.userId !== physicianId)
+        .forEach(participant => this.io!.to(`user:${participant.userId}`).emit('waiting_room:admitted', { sessionId }));
+    }
+
+    await this.broadcastQueue(physicianId);
+    return this.getStatus(sessionId);
+  }
+
+  // Whether this participant still has to wait for the physician to admit the session
+  async mustWait(access: RoomAccess): Promise<boolean> {
+    if (!WAITING_ROOM_CONFIG.admissionRequiredFor.includes(access.role)) {
+      return false;
+    }
+
+    const entry = await prisma.consultationWaitingEntry.findUnique({
+      where: { sessionId: access.session.id },
+      select: { status: true }
+    });
+
+    return entry?.status !== 'admitted';
+  }
+
+  async getQueue(physicianId: string): Promise<WaitingRoomEntry[]> {
+    const queue = await this.buildQueue(physicianId);
+    const profiles = await prisma.profile.findMany({
+      where: { userId: { in: queue.map(({ entry }) => entry.patientId) } },
+      select: { userId: true, firstName: true, lastName: true }
+    });
+
+    return queue.map(({ entry, scheduledAt, position }) => {
+      const profile = profiles.find(p => p.userId === entry.patientId);
+      const name = [profile?.firstName, profile?.lastName].filter(Boolean).join(' ');
+
+      return {
+        sessionId: entry.sessionId,
+        patientId: entry.patientId,
+        patientName: name || null,
+        position,
+        scheduledAt: scheduledAt.toISOString(),
+        checkedInAt: entry.checkedInAt.toISOString(),
+        deviceCheck: entry.deviceCheck as unknown as DeviceCheckResult,
+        intake: entry.intake as Record<string, string | number>
+      };
+    });
+  }
+
+  async getStatus(sessionId: string): Promise<WaitingRoomStatus | null> {
+    const entry = await prisma.consultationWaitingEntry.findUnique({ where: { sessionId } });
+
+    if (!entry) {
+      return null;
+    }
+
+    const queued = entry.status === 'waiting'
+      ? (await this.buildQueue(entry.physicianId)).find(item => item.entry.id === entry.id)
+      : undefined;
+
+    return {
+      sessionId,
+      status: entry.status as WaitingStatus,
+      position: queued?.position ?? null,
+      estimatedWaitMinutes: queued?.estimatedWaitMinutes ?? null,
+      physicianLate: !!entry.physicianLateNotifiedAt,
+      checkedInAt: entry.checkedInAt.toISOString()
+    };
+  }
+
+  // Scheduled for each check-in; does nothing once the patient has been
+  // admitted, left, or the physician has come into the room
+  async notifyPhysicianLate(payload: Prisma.JsonObject, now = new Date()): Promise<void> {
+    const sessionId = payload.sessionId;
+    if (typeof sessionId !== 'string' || !sessionId) {
+      throw new Error('Job payload is missing sessionId');
+    }
+
+    const entry = await prisma.consultationWaitingEntry.findUnique({
+      where: { sessionId },
+      include: { session: { include: { room: true, appointment: { include: { physician: true } } } } }
+    });
+
+    if (!entry || entry.status !== 'waiting' || entry.physicianLateNotifiedAt || entry.session.room?.physicianJoined) {
+      return;
+    }
+
+    const { appointment } = entry.session;
+    const minutesLate = Math.floor((now.getTime() - getAppointmentStart(appointment).getTime()) / MINUTE);
+
+    // The appointment was moved later since the job was queued
+    if (minutesLate < WAITING_ROOM_CONFIG.physicianLateMinutes) {
+      return;
+    }
+
+    const claimed = await prisma.consultationWaitingEntry.updateMany({
+      where: { id: entry.id, physicianLateNotifiedAt: null },
+      data: { physicianLateNotifiedAt: now }
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    await notificationService.notify(entry.patientId, {
+      category: 'appointments',
+      type: 'physician_late',
+      title: 'Your physician is running late',
+      message: `${this.physicianName(appointment.physician)} is running ${minutesLate} minutes late. You can keep waiting or choose another time.`,
+      data: {
+        sessionId,
+        appointmentId: appointment.id,
+        rescheduleUrl: `${WAITING_ROOM_CONFIG.rescheduleUrl}/${appointment.id}/reschedule`
+      }
+    });
+
+    await notificationService.notify(entry.physicianId, {
+      category: 'appointments',
+      type: 'patient_waiting',
+      title: 'Patient waiting',
+      message: `A patient has been waiting for a consultation that was due to start ${minutesLate} minutes ago.`,
+      data: { sessionId, appointmentId: appointment.id }
+    });
+
+    await this.broadcastQueue(entry.physicianId);
+  }
+
+  // Free times the patient can move to, soonest first
+  async getRescheduleSlots(sessionId: string, userId: string, now = new Date()): Promise<RescheduleSlot[] | null> {
+    const entry = await this.findReschedulableEntry(sessionId, userId);
+    return entry ? this.findFreeSlots(prisma, entry.session.appointment, now) : null;
+  }
+
+  // Offered once the physician is late: moves the appointment to one of the
+  // free times, for the physician to confirm
+  async reschedule(sessionId: string, userId: string, input: RescheduleInput, now = new Date()): Promise<WaitingRoomStatus | null> {
+    const entry = await this.findReschedulableEntry(sessionId, userId);
+
+    if (!entry) {
+      return null;
+    }
+
+    const appointmentDate = input.appointmentDate.slice(0, 10);
+    const isChosenSlot = (slot: RescheduleSlot) =>
+      slot.appointmentDate === appointmentDate && slot.appointmentTime === input.appointmentTime;
+
+    // Checked again inside a serializable transaction so two patients cannot
+    // take the same slot
+    await prisma.$transaction(async (tx) => {
+      const slots = await this.findFreeSlots(tx, entry.session.appointment, now);
+      if (!slots.some(isChosenSlot)) {
+        throw new Error('That time is not available, please choose one of the offered times');
+      }
+
+      await tx.appointment.update({
+        where: { id: entry.session.appointmentId },
+        data: { appointmentDate: new Date(appointmentDate), appointmentTime: input.appointmentTime, status: 'pending' }
+      });
+      await tx.consultationWaitingEntry.update({
+        where: { id: entry.id },
+        data: { status: 'rescheduled', leftAt: now }
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    // A fee held for the missed start goes back to the wallet; the session
+    // holds again when it starts at the new time
+    if (entry.session.paymentStatus === 'authorized') {
+      try {
+        await billingService.release(sessionId, 'rescheduled');
+      } catch (error) {
+        // The scheduled sweep releases it once the session counts as abandoned
+        console.error('Error releasing consultation hold after reschedule:', error);
+      }
+    }
+
+    await notificationService.notify(entry.physicianId, {
+      category: 'appointments',
+      type: 'appointment_reschedule_requested',
+      title: 'Appointment moved',
+      message: `A patient who was waiting for you chose a new time: ${appointmentDate} at ${input.appointmentTime}. Please confirm it.`,
+      data: { sessionId, appointmentId: entry.session.appointmentId }
+    });
+
+    await this.broadcastQueue(entry.physicianId);
+    return this.getStatus(sessionId);
+  }
+
+  // Waiting patients in order of their appointment times, then arrival, with
+  // estimates based on how long the physician's consultations usually take
+  private async buildQueue(physicianId: string, now = new Date()): Promise<QueuedEntry[]> {
+    const [entries, averageMinutes, inProgress] = await Promise.all([
+      prisma.consultationWaitingEntry.findMany({
+        where: { physicianId, status: 'waiting' },
+        include: { session: { include: { appointment: true } } }
+      }),
+      this.getAverageMinutes(physicianId),
+      prisma.consultationSession.findFirst({
+        where: { physicianId, status: 'in_progress' },
+        select: { startedAt: true }
+      })
+    ]);
+
+    const busyMinutes = inProgress?.startedAt
+      ? Math.max(0, averageMinutes - (now.getTime() - inProgress.startedAt.getTime()) / MINUTE)
+      : 0;
+
+    return entries
+      .map(entry => ({ entry, scheduledAt: getAppointmentStart(entry.session.appointment) }))
+      .sort((a, b) =>
+        a.scheduledAt.getTime() - b.scheduledAt.getTime() ||
+        a.entry.checkedInAt.getTime() - b.entry.checkedInAt.getTime()
+      )
+      .map(({ entry, scheduledAt }, index) => {
+        const untilStart = Math.max(0, (scheduledAt.getTime() - now.getTime()) / MINUTE);
+        const queued = busyMinutes + index * averageMinutes;
+
+        return {
+          entry,
+          scheduledAt,
+          position: index + 1,
+          estimatedWaitMinutes: Math.ceil(Math.max(untilStart, queued))
+        };
+      });
+  }
+
+  private async getAverageMinutes(physicianId: string): Promise<number> {
+    const recent = await prisma.consultationSession.findMany({
+      where: { physicianId, status: 'completed', durationMinutes: { gt: 0 } },
+      orderBy: { endedAt: 'desc' },
+      take: WAITING_ROOM_CONFIG.averageOverSessions,
+      select: { durationMinutes: true }
+    });
+
+    if (recent.length === 0) {
+      return WAITING_ROOM_CONFIG.defaultConsultationMinutes;
+    }
+
+    return recent.reduce((total, session) => total + (session.durationMinutes ?? 0), 0) / recent.length;
+  }
+
+  // Only the patient, and only while a late physician keeps them waiting
+  private async findReschedulableEntry(sessionId: string, userId: string): Promise<EntryWithSession | null> {
+    const entry = await prisma.consultationWaitingEntry.findUnique({
+      where: { sessionId },
+      include: { session: { include: { appointment: true } } }
+    });
+
+    if (!entry || entry.patientId !== userId) {
+      return null;
+    }
+    if (entry.status !== 'waiting' || !entry.physicianLateNotifiedAt) {
+      throw new Error('A new time can only be chosen while your physician is running late');
+    }
+
+    return entry;
+  }
+
+  // Slots in the physician's consulting hours that start after `now` and do
+  // not overlap any of their other appointments
+  private async findFreeSlots(
+    client: Prisma.TransactionClient,
+    appointment: Appointment,
+    now: Date
+  ): Promise<RescheduleSlot[]> {
+    const { daysAhead, workingDays, dayStartHour, dayEndHour, slotMinutes } = WAITING_ROOM_CONFIG.reschedule;
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    const slots: RescheduleSlot[] = [];
+    for (let offset = 0; offset <= daysAhead; offset++) {
+      const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+      if (!workingDays.includes(day.getDay())) continue;
+
+      const appointmentDate = `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`;
+      for (let minute = dayStartHour * 60; minute + slotMinutes <= dayEndHour * 60; minute += slotMinutes) {
+        const appointmentTime = `${pad(Math.floor(minute / 60))}:${pad(minute % 60)}`;
+        const startsAt = getAppointmentStart({ appointmentDate: new Date(appointmentDate), appointmentTime });
+
+        if (startsAt > now) {
+          slots.push({ appointmentDate, appointmentTime, startsAt: startsAt.toISOString() });
+        }
+      }
+    }
+
+    const booked = await client.appointment.findMany({
+      where: {
+        physicianId: appointment.physicianId,
+        id: { not: appointment.id },
+        status: { not: 'cancelled' },
+        appointmentDate: {
+          gte: new Date(now.getTime() - DAY),
+          lte: new Date(now.getTime() + (daysAhead + 1) * DAY)
+        }
+      },
+      select: { appointmentDate: true, appointmentTime: true }
+    });
+    const bookedStarts = booked.map(other => getAppointmentStart(other).getTime());
+
+    return slots.filter(slot => {
+      const start = Date.parse(slot.startsAt);
+      return bookedStarts.every(other => Math.abs(other - start) >= slotMinutes * MINUTE);
+    });
+  }
+
+  // Everyone's position may have moved, so the whole queue is sent again
+  private async broadcastQueue(physicianId: string): Promise<void> {
+    if (!this.io) return;
+
+    this.io.to(`user:${physicianId}`).emit('waiting_room:queue', { entries: await this.getQueue(physicianId) });
+
+    const queue = await this.buildQueue(physicianId);
+    queue.forEach(({ entry, position, estimatedWaitMinutes }) => {
+      this.io!.to(`user:${entry.patientId}`).emit('waiting_room:status', {
+        sessionId: entry.sessionId,
+        status: 'waiting',
+        position,
+        estimatedWaitMinutes,
+        physicianLate: !!entry.physicianLateNotifiedAt,
+        checkedInAt: entry.checkedInAt.toISOString()
+      });
+    });
+  }
+
+  private physicianName(physician: Profile): string {
+    const name = [physician.firstName, physician.lastName].filter(Boolean).join(' ');
+    return name ? `Dr. ${name}` : 'Your physician';
+  }
+}
+
+export const waitingRoomService = new WaitingRoomService();
@@ -0,0 +1,138 @@
+import { Prisma, PrismaClient, type PaymentWebhookEvent } from '@prisma/client';
+import { PAYSTACK_CONFIG } from '../config/paystackConfig.js';
+
+const prisma = new PrismaClient();
+
+export interface WebhookPayload {
+  event: string;
+  data: {
+    id?: number | string;
+    reference?: string;
+    invoice_code?: string;
+    subscription_code?: string;
+    [key: string]: unknown;
+  };
+}
+
+export class WebhookEventService {
+  // Paystack retries deliveries, so the same event can arrive more than once
+  buildEventKey(provider: string, payload: WebhookPayload): string {
+    const identifier = payload.data?.id ?? payload.data?.reference ??
+      payload.data?.invoice_code ?? payload.data?.subscription_code;
+
+    if (identifier === undefined || identifier === null) {
+      throw new Error('Webhook payload has no event id or reference');
+    }
+
+    return `${provider}:${payload.event}:${identifier}`;
+  }
+
+  async record(provider: string, payload: WebhookPayload): Promise<PaymentWebhookEvent> {
+    const eventKey = this.buildEventKey(provider, payload);
+
+    try {
+      return await prisma.paymentWebhookEvent.create({
+        data: {
+          provider,
+          eventKey,
+          event: payload.event,
+          reference: payload.data?.reference ?? null,
+          payload: payload as unknown as Prisma.InputJsonValue
+        }
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.paymentWebhookEvent.findUniqueOrThrow({ where: { eventKey } });
+      }
+      throw error;
+    }
+  }
+
+  // Move an event into `processing`. Returns false when another delivery has
+  // already claimed or applied it, which is what makes processing exactly-once.
+  // A claim left `processing` past the timeout is taken over; claiming bumps
+  // updatedAt, so only one of several takers gets it.
+  async claim(eventId: string, allowedStatuses: string[] = ['received', 'failed']): Promise<boolean> {
+    const result = await prisma.paymentWebhookEvent.updateMany({
+      where: {
+        id: eventId,
+        OR: [
+          { status: { in: allowedStatuses } },
+          { status: 'processing', updatedAt: { lt: this.staleProcessingCutoff() } }
+        ]
+      },
+      data: {
+        status: 'processing',
+        attempts: { increment: 1 }
+      }
+    });
+
+    return result.count === 1;
+  }
+
+  // Whether a `processing` event has outlived its worker
+  isStale(event: PaymentWebhookEvent): boolean {
+    return event.status === 'processing' && event.updatedAt < this.staleProcessingCutoff();
+  }
+
+  async markProcessed(eventId: string): Promise<void> {
+    await prisma.paymentWebhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: 'processed',
+        processedAt: new Date(),
+        lastError: null
+      }
+    });
+  }
+
+  async markFailed(eventId: string, error: unknown): Promise<PaymentWebhookEvent> {
+    const event = await prisma.paymentWebhookEvent.findUniqueOrThrow({ where: { id: eventId } });
+    const deadLetter = event.attempts >= PAYSTACK_CONFIG.webhookMaxAttempts;
+
+    return prisma.paymentWebhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: deadLetter ? 'dead_letter' : 'failed',
+        lastError: error instanceof Error ? error.message : String(error)
+      }
+    });
+  }
+
+  async getEvent(eventId: string): Promise<PaymentWebhookEvent | null> {
+    return prisma.paymentWebhookEvent.findUnique({ where: { id: eventId } });
+  }
+
+  async listEvents(options: {
+    status?: string | undefined;
+    page?: number | undefined;
+    limit?: number | undefined;
+  } = {}) {
+    const { status, page = 1, limit = 20 } = options;
+    const where: Prisma.PaymentWebhookEventWhereInput = status ? { status } : {};
+
+    const [events, total] = await Promise.all([
+      prisma.paymentWebhookEvent.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.paymentWebhookEvent.count({ where })
+    ]);
+
+    return {
+      events,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  private staleProcessingCutoff(): Date {
+    return new Date(Date.now() - PAYSTACK_CONFIG.webhookProcessingTimeoutMs);
+  }
+}
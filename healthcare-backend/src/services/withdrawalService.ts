@@ -0,0 +1,364 @@
+import { PrismaClient, type WithdrawalRequest } from '@prisma/client';
+import crypto from 'crypto';
+import { PAYSTACK_CONFIG } from '../config/paystackConfig.js';
+import { PAYMENT_PROVIDER_CONFIG } from '../config/paymentProviderConfig.js';
+import { LedgerService } from './ledgerService.js';
+import { getRecordedProvider } from './paymentProviders/index.js';
+import type { PaymentService } from './paymentService.js';
+import { NotificationService } from './notificationService.js';
+
+const prisma = new PrismaClient();
+const ledgerService = new LedgerService();
+const notificationService = new NotificationService();
+
+export interface WithdrawalRequestData {
+  userId: string;
+  amount: number; // Amount in naira
+  bankCode: string;
+  accountNumber: string;
+}
+
+export class WithdrawalService {
+  constructor(private paymentService: PaymentService) {}
+
+  async requestWithdrawal(data: WithdrawalRequestData): Promise<WithdrawalRequest> {
+    const wallet = await prisma.wallet.findUnique({
+      where: { userId: data.userId }
+    });
+
+    if (!wallet) {
+      throw new Error('Wallet not found');
+    }
+
+    if (wallet.balance.lessThan(data.amount)) {
+      throw new Error('Insufficient balance');
+    }
+
+    // Resolve the account before holding any funds
+    const provider = PAYMENT_PROVIDER_CONFIG.payoutProvider;
+    const account = await this.paymentService.validateAccountNumber(data.accountNumber, data.bankCode);
+    const recipientCode = await this.paymentService.createTransferRecipient({
+      name: account.accountName,
+      accountNumber: data.accountNumber,
+      bankCode: data.bankCode
+    }, provider);
+
+    const transferReference = this.generateReference();
+
+    const withdrawal = await prisma.$transaction(async (tx) => {
+      const request = await tx.withdrawalRequest.create({
+        data: {
+          userId: data.userId,
+          walletId: wallet.id,
+          amount: data.amount,
+          currency: wallet.currency,
+          bankCode: data.bankCode,
+          accountNumber: data.accountNumber,
+          accountName: account.accountName,
+          recipientCode,
+          transferReference,
+          provider
+        }
+      });
+
+      // Move the funds out of the spendable balance until the transfer settles
+      await ledgerService.postJournalEntry({
+        reference: `${transferReference}_HOLD`,
+        entryType: 'withdrawal_hold',
+        description: 'Withdrawal request - funds held',
+        metadata: { withdrawalId: request.id },
+        lines: [
+          { account: { walletId: wallet.id }, side: 'debit', amount: data.amount },
+          { account: { systemAccount: 'payoutHolds' }, side: 'credit', amount: data.amount }
+        ]
+      }, tx);
+
+      return request;
+    });
+
+    if (data.amount * 100 <= PAYSTACK_CONFIG.limits.withdrawalAutoApproveMax) {
+      return this.approveWithdrawal(withdrawal.id, 'system');
+    }
+
+    return withdrawal;
+  }
+
+  async approveWithdrawal(withdrawalId: string, approvedBy: string): Promise<WithdrawalRequest> {
+    // Only one approver can move a request out of pending
+    const claimed = await prisma.withdrawalRequest.updateMany({
+      where: { id: withdrawalId, status: 'pending' },
+      data: {
+        status: 'processing',
+        approvedBy,
+        approvedAt: new Date()
+      }
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Withdrawal request is not pending');
+    }
+
+    const withdrawal = await prisma.withdrawalRequest.findUniqueOrThrow({ where: { id: withdrawalId } });
+
+    try {
+      const transferCode = await this.paymentService.initiateTransfer({
+        amount: withdrawal.amount.times(100).toNumber(), // Convert to kobo
+        recipient: withdrawal.recipientCode!,
+        reason: 'Physician earnings payout',
+        reference: withdrawal.transferReference
+      }, withdrawal.provider);
+
+      return prisma.withdrawalRequest.update({
+        where: { id: withdrawalId },
+        data: { transferCode }
+      });
+
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Transfer initiation failed';
+      const released = await this.releaseHold(withdrawal, 'processing', 'failed', reason);
+
+      if (!released) {
+        throw new Error('Withdrawal request changed while its transfer was starting');
+      }
+
+      return released;
+    }
+  }
+
+  async rejectWithdrawal(withdrawalId: string, rejectedBy: string, reason: string): Promise<WithdrawalRequest> {
+    const withdrawal = await prisma.withdrawalRequest.findUnique({ where: { id: withdrawalId } });
+
+    // An approval may claim the request between the read and the release
+    const rejected = withdrawal && await this.releaseHold(withdrawal, 'pending', 'rejected', reason);
+
+    if (!withdrawal || !rejected) {
+      throw new Error('Withdrawal request is not pending');
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: rejectedBy,
+        actionType: 'WITHDRAWAL_REJECTED',
+        actionCategory: 'payment',
+        resourceType: 'withdrawal_request',
+        resourceId: withdrawalId,
+        newValues: { reason },
+        impactLevel: 'medium',
+        financialImpact: withdrawal.amount
+      }
+    });
+
+    return rejected;
+  }
+
+  // Called from the transfer.success webhook
+  async settleTransfer(data: { reference: string }): Promise<void> {
+    const withdrawal = await prisma.withdrawalRequest.findUnique({
+      where: { transferReference: data.reference }
+    });
+
+    if (!withdrawal) {
+      throw new Error(`No withdrawal request for transfer ${data.reference}`);
+    }
+
+    if (withdrawal.status === 'completed' || withdrawal.status === 'reversed') {
+      return;
+    }
+
+    // The hold was already returned to the wallet, yet the provider paid out
+    if (withdrawal.status !== 'processing') {
+      throw new Error(`Transfer ${data.reference} succeeded for a withdrawal that is ${withdrawal.status}`);
+    }
+
+    const settled = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.withdrawalRequest.updateMany({
+        where: { id: withdrawal.id, status: 'processing' },
+        data: {
+          status: 'completed',
+          completedAt: new Date()
+        }
+      });
+
+      // A failure or reversal for the same transfer got there first
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      // The held amount leaves the platform through the payout provider
+      await ledgerService.postJournalEntry({
+        reference: `${withdrawal.transferReference}_SETTLE`,
+        entryType: 'withdrawal_settlement',
+        description: 'Withdrawal paid out',
+        metadata: { withdrawalId: withdrawal.id },
+        lines: [
+          { account: { systemAccount: 'payoutHolds' }, side: 'debit', amount: withdrawal.amount },
+          {
+            account: { systemAccount: getRecordedProvider(withdrawal.provider).clearingAccount },
+            side: 'credit',
+            amount: withdrawal.amount
+          }
+        ]
+      }, tx);
+
+      return true;
+    });
+
+    if (!settled) {
+      return;
+    }
+
+    await this.notify(withdrawal.userId, 'Withdrawal completed',
+      `Your withdrawal of ₦${withdrawal.amount.toFixed(2)} has been paid to your bank account`);
+  }
+
+  // Called from the transfer.failed and transfer.reversed webhooks
+  async reverseTransfer(data: { reference: string; reason?: string }): Promise<void> {
+    const withdrawal = await prisma.withdrawalRequest.findUnique({
+      where: { transferReference: data.reference }
+    });
+
+    if (!withdrawal) {
+      throw new Error(`No withdrawal request for transfer ${data.reference}`);
+    }
+
+    const reason = data.reason || 'Transfer failed';
+
+    if (withdrawal.status === 'processing') {
+      await this.releaseHold(withdrawal, 'processing', 'failed', reason);
+    } else if (withdrawal.status === 'completed') {
+      await this.reversePayout(withdrawal, reason);
+    }
+  }
+
+  async listWithdrawals(options: {
+    userId?: string | undefined;
+    status?: string | undefined;
+    page?: number | undefined;
+    limit?: number | undefined;
+  } = {}) {
+    const { userId, status, page = 1, limit = 20 } = options;
+
+    const where: { userId?: string; status?: string } = {};
+    if (userId) where.userId = userId;
+    if (status) where.status = status;
+
+    const [withdrawals, total] = await Promise.all([
+      prisma.withdrawalRequest.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.withdrawalRequest.count({ where })
+    ]);
+
+    return {
+      withdrawals,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  // Returns null when the request is no longer in `from`; whoever moved it
+  // first decides what happens to the funds
+  private async releaseHold(
+    withdrawal: WithdrawalRequest,
+    from: 'pending' | 'processing',
+    status: 'failed' | 'rejected',
+    reason: string
+  ): Promise<WithdrawalRequest | null> {
+    const released = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.withdrawalRequest.updateMany({
+        where: { id: withdrawal.id, status: from },
+        data: status === 'rejected'
+          ? { status, rejectionReason: reason }
+          : { status, failureReason: reason }
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      // Return the held amount to the physician's spendable balance
+      await ledgerService.postJournalEntry({
+        reference: `${withdrawal.transferReference}_RELEASE`,
+        entryType: 'withdrawal_reversal',
+        description: 'Withdrawal reversed - funds returned',
+        metadata: { withdrawalId: withdrawal.id, reason },
+        lines: [
+          { account: { systemAccount: 'payoutHolds' }, side: 'debit', amount: withdrawal.amount },
+          { account: { walletId: withdrawal.walletId }, side: 'credit', amount: withdrawal.amount }
+        ]
+      }, tx);
+
+      return tx.withdrawalRequest.findUniqueOrThrow({ where: { id: withdrawal.id } });
+    });
+
+    if (!released) {
+      return null;
+    }
+
+    await this.notify(withdrawal.userId, 'Withdrawal not completed',
+      `Your withdrawal of ₦${withdrawal.amount.toFixed(2)} was ${status}: ${reason}. The funds are back in your wallet.`);
+
+    return released;
+  }
+
+  // The provider returned a transfer it had already paid out; the money is
+  // back in its clearing account and goes back to the physician's wallet
+  private async reversePayout(withdrawal: WithdrawalRequest, reason: string): Promise<void> {
+    const reversed = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.withdrawalRequest.updateMany({
+        where: { id: withdrawal.id, status: 'completed' },
+        data: { status: 'reversed', failureReason: reason }
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await ledgerService.postJournalEntry({
+        reference: `${withdrawal.transferReference}_REVERSE`,
+        entryType: 'withdrawal_reversal',
+        description: 'Withdrawal reversed by provider - funds returned',
+        metadata: { withdrawalId: withdrawal.id, reason },
+        lines: [
+          {
+            account: { systemAccount: getRecordedProvider(withdrawal.provider).clearingAccount },
+            side: 'debit',
+            amount: withdrawal.amount
+          },
+          { account: { walletId: withdrawal.walletId }, side: 'credit', amount: withdrawal.amount }
+        ]
+      }, tx);
+
+      return true;
+    });
+
+    if (reversed) {
+      await this.notify(withdrawal.userId, 'Withdrawal reversed',
+        `Your withdrawal of ₦${withdrawal.amount.toFixed(2)} was returned by the bank: ${reason}. The funds are back in your wallet.`);
+    }
+  }
+
+  private generateReference(): string {
+    return `WDR_${Date.now()}_${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+  }
+
+  private async notify(userId: string, title: string, message: string): Promise<void> {
+    try {
+      await notificationService.notify(userId, {
+        category: 'billing',
+        type: 'payment',
+        title,
+        message
+      });
+    } catch (error) {
+      console.error('Error sending withdrawal notification:', error);
+    }
+  }
+}
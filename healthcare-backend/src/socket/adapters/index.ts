@@ -0,0 +1,18 @@
+import { SOCKET_CONFIG } from '../../config/socketConfig.js';
+import { MemorySocketAdapter } from './memoryAdapter.js';
+import { RedisSocketAdapter } from './redisAdapter.js';
+import type { SocketAdapter } from './types.js';
+
+export type * from './types.js';
+export { MemorySocketAdapter, RedisSocketAdapter };
+
+export function createSocketAdapter(name: string = SOCKET_CONFIG.adapter): SocketAdapter {
+  switch (name) {
+    case 'redis':
+      return new RedisSocketAdapter();
+    case 'memory':
+      return new MemorySocketAdapter();
+    default:
+      throw new Error(`Unknown socket adapter ${name}`);
+  }
+}
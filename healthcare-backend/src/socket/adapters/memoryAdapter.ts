@@ -0,0 +1,126 @@
+import type { Server as SocketIOServer } from 'socket.io';
+import { SOCKET_CONFIG } from '../../config/socketConfig.js';
+import type { PresenceState, PresenceStatus, PresenceStore, SocketAdapter } from './types.js';
+
+interface MemoryPresence {
+  status: PresenceStatus;
+  lastSeen: Date;
+  socketIds: Set<string>;
+}
+
+export class MemoryPresenceStore implements PresenceStore {
+  private userPresence = new Map<string, MemoryPresence>();
+  private expiryTimers = new Map<string, NodeJS.Timeout>();
+
+  async addConnection(userId: string, socketId: string): Promise<PresenceState> {
+    this.cancelExpiry(userId);
+
+    const presence = this.userPresence.get(userId) ?? {
+      status: 'online',
+      lastSeen: new Date(),
+      socketIds: new Set<string>()
+    };
+
+    presence.socketIds.add(socketId);
+    presence.status = 'online';
+    presence.lastSeen = new Date();
+    this.userPresence.set(userId, presence);
+
+    return this.toState(presence);
+  }
+
+  async removeConnection(userId: string, socketId: string): Promise<PresenceState | null> {
+    const presence = this.userPresence.get(userId);
+
+    if (!presence) {
+      return null;
+    }
+
+    presence.socketIds.delete(socketId);
+
+    // If no more active connections, mark as offline
+    if (presence.socketIds.size === 0) {
+      presence.status = 'offline';
+      presence.lastSeen = new Date();
+      this.scheduleExpiry(userId);
+    }
+
+    return this.toState(presence);
+  }
+
+  async setStatus(userId: string, status: Exclude<PresenceStatus, 'offline'>): Promise<PresenceState | null> {
+    const presence = this.userPresence.get(userId);
+
+    if (!presence || presence.socketIds.size === 0) {
+      return null;
+    }
+
+    presence.status = status;
+    presence.lastSeen = new Date();
+
+    return this.toState(presence);
+  }
+
+  async get(userId: string): Promise<PresenceState | null> {
+    const presence = this.userPresence.get(userId);
+    return presence ? this.toState(presence) : null;
+  }
+
+  async getAll(): Promise<Record<string, PresenceState>> {
+    const all: Record<string, PresenceState> = {};
+    this.userPresence.forEach((value, key) => {
+      all[key] = this.toState(value);
+    });
+    return all;
+  }
+
+  clear() {
+    this.expiryTimers.forEach(timer => clearTimeout(timer));
+    this.expiryTimers.clear();
+    this.userPresence.clear();
+  }
+
+  // Remove from memory if still offline once the retention period passes
+  private scheduleExpiry(userId: string) {
+    this.cancelExpiry(userId);
+    const timer = setTimeout(() => {
+      this.expiryTimers.delete(userId);
+      if (this.userPresence.get(userId)?.status === 'offline') {
+        this.userPresence.delete(userId);
+      }
+    }, SOCKET_CONFIG.offlineRetentionMs);
+    timer.unref();
+    this.expiryTimers.set(userId, timer);
+  }
+
+  private cancelExpiry(userId: string) {
+    const timer = this.expiryTimers.get(userId);
+    if (timer) {
+      clearTimeout(timer);
+      this.expiryTimers.delete(userId);
+    }
+  }
+
+  private toState(presence: MemoryPresence): PresenceState {
+    return {
+      status: presence.status,
+      lastSeen: presence.lastSeen,
+      connections: presence.socketIds.size
+    };
+  }
+}
+
+// Single-process adapter: Socket.IO's built-in rooms plus in-memory presence.
+// Used in development and tests, or whenever only one instance runs.
+export class MemorySocketAdapter implements SocketAdapter {
+  readonly name = 'memory' as const;
+  readonly presence = new MemoryPresenceStore();
+
+  async attach(_io: SocketIOServer): Promise<void> {
+    // Socket.IO's default adapter already keeps rooms in memory
+  }
+
+  async close(): Promise<void> {
+    this.presence.clear();
+  }
+}
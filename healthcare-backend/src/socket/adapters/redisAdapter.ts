@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import os from 'os';
+import type { Server as SocketIOServer } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createClient, type RedisClientType } from 'redis';
+import { SOCKET_CONFIG } from '../../config/socketConfig.js';
+import type { PresenceState, PresenceStatus, PresenceStore, SocketAdapter } from './types.js';
+
+const key = (...parts: string[]) => [SOCKET_CONFIG.keyPrefix, ...parts].join(':');
+
+// Presence kept in Redis:
+//   presence:<userId>          hash { status, lastSeen }
+//   presence:<userId>:sockets  set of "<instanceId>|<socketId>"
+//   presence:users             every user with a presence record
+//   instance:<instanceId>      heartbeat; expires when the instance dies
+export class RedisPresenceStore implements PresenceStore {
+  constructor(
+    private client: RedisClientType,
+    private instanceId: string
+  ) {}
+
+  async addConnection(userId: string, socketId: string): Promise<PresenceState> {
+    const lastSeen = new Date();
+
+    await this.client.multi()
+      .sAdd(key('presence', userId, 'sockets'), `${this.instanceId}|${socketId}`)
+      .hSet(key('presence', userId), { status: 'online', lastSeen: lastSeen.toISOString() })
+      .persist(key('presence', userId))
+      .persist(key('presence', userId, 'sockets'))
+      .sAdd(key('presence', 'users'), userId)
+      .exec();
+
+    return { status: 'online', lastSeen, connections: await this.countConnections(userId) };
+  }
+
+  async removeConnection(userId: string, socketId: string): Promise<PresenceState | null> {
+    await this.client.sRem(key('presence', userId, 'sockets'), `${this.instanceId}|${socketId}`);
+
+    const current = await this.get(userId);
+    if (!current || current.connections > 0) {
+      return current;
+    }
+
+    // Last connection anywhere closed; forget the user after the retention period
+    const lastSeen = new Date();
+    await this.client.multi()
+      .hSet(key('presence', userId), { status: 'offline', lastSeen: lastSeen.toISOString() })
+      .pExpire(key('presence', userId), SOCKET_CONFIG.offlineRetentionMs)
+      .pExpire(key('presence', userId, 'sockets'), SOCKET_CONFIG.offlineRetentionMs)
+      .exec();
+
+    return { status: 'offline', lastSeen, connections: 0 };
+  }
+
+  async setStatus(userId: string, status: Exclude<PresenceStatus, 'offline'>): Promise<PresenceState | null> {
+    const connections = await this.countConnections(userId);
+
+    if (connections === 0) {
+      return null;
+    }
+
+    const lastSeen = new Date();
+    await this.client.hSet(key('presence', userId), { status, lastSeen: lastSeen.toISOString() });
+
+    return { status, lastSeen, connections };
+  }
+
+  async get(userId: string): Promise<PresenceState | null> {
+    const stored: Record<string, string> = await this.client.hGetAll(key('presence', userId));
+
+    if (!stored.status) {
+      await this.client.sRem(key('presence', 'users'), userId);
+      return null;
+    }
+
+    const connections = await this.countConnections(userId);
+
+    return {
+      // Sockets held by a crashed instance do not keep the user online
+      status: connections > 0 ? stored.status as PresenceStatus : 'offline',
+      lastSeen: new Date(stored.lastSeen ?? Date.now()),
+      connections
+    };
+  }
+
+  async getAll(): Promise<Record<string, PresenceState>> {
+    const userIds: string[] = await this.client.sMembers(key('presence', 'users'));
+    const all: Record<string, PresenceState> = {};
+
+    for (const userId of userIds) {
+      const presence = await this.get(userId);
+      if (presence) {
+        all[userId] = presence;
+      }
+    }
+
+    return all;
+  }
+
+  // Live connections for a user, pruning sockets whose instance stopped heartbeating
+  private async countConnections(userId: string): Promise<number> {
+    const members: string[] = await this.client.sMembers(key('presence', userId, 'sockets'));
+
+    if (members.length === 0) {
+      return 0;
+    }
+
+    const instanceIds = [...new Set(members.map(member => member.split('|')[0]!))];
+    const heartbeats: Array<string | null> = await this.client.mGet(instanceIds.map(id => key('instance', id)));
+    const live = new Set(instanceIds.filter((id, index) => id === this.instanceId || heartbeats[index] !== null));
+
+    const dead = members.filter(member => !live.has(member.split('|')[0]!));
+    if (dead.length > 0) {
+      await this.client.sRem(key('presence', userId, 'sockets'), dead);
+    }
+
+    return members.length - dead.length;
+  }
+}
+
+// Multi-instance adapter: room emits go through Redis pub/sub and presence
+// lives in Redis, so any instance can reach any user, conversation or
+// consultation room.
+export class RedisSocketAdapter implements SocketAdapter {
+  readonly name = 'redis' as const;
+  readonly presence: RedisPresenceStore;
+
+  private instanceId = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+  private pubClient: RedisClientType;
+  private subClient: RedisClientType;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(url: string = SOCKET_CONFIG.redisUrl) {
+    this.pubClient = createClient({ url });
+    this.subClient = this.pubClient.duplicate();
+    this.presence = new RedisPresenceStore(this.pubClient, this.instanceId);
+
+    for (const client of [this.pubClient, this.subClient]) {
+      client.on('error', (error: Error) => {
+        console.error('Redis socket adapter error:', error);
+      });
+    }
+  }
+
+  async attach(io: SocketIOServer): Promise<void> {
+    await Promise.all([this.pubClient.connect(), this.subClient.connect()]);
+
+    io.adapter(createAdapter(this.pubClient, this.subClient, { key: SOCKET_CONFIG.keyPrefix }));
+
+    await this.beat();
+    this.heartbeat = setInterval(() => {
+      this.beat().catch((error) => {
+        console.error('Socket instance heartbeat failed:', error);
+      });
+    }, SOCKET_CONFIG.instanceHeartbeatMs);
+    this.heartbeat.unref();
+  }
+
+  async close(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    if (this.pubClient.isOpen) {
+      await this.pubClient.del(key('instance', this.instanceId));
+      await this.pubClient.quit();
+    }
+
+    if (this.subClient.isOpen) {
+      await this.subClient.quit();
+    }
+  }
+
+  private async beat(): Promise<void> {
+    await this.pubClient.set(key('instance', this.instanceId), new Date().toISOString(), {
+      PX: SOCKET_CONFIG.instanceTtlMs
+    });
+  }
+}
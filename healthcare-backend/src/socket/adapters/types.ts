@@ -0,0 +1,28 @@
+import type { Server as SocketIOServer } from 'socket.io';
+
+export type PresenceStatus = 'online' | 'away' | 'busy' | 'offline';
+
+export interface PresenceState {
+  status: PresenceStatus;
+  lastSeen: Date;
+  connections: number; // Open sockets across all instances
+}
+
+// Presence shared by every backend instance. A user is online while any
+// instance holds one of their sockets.
+export interface PresenceStore {
+  addConnection(userId: string, socketId: string): Promise<PresenceState>;
+  // Returns null when the user has no presence record
+  removeConnection(userId: string, socketId: string): Promise<PresenceState | null>;
+  setStatus(userId: string, status: Exclude<PresenceStatus, 'offline'>): Promise<PresenceState | null>;
+  get(userId: string): Promise<PresenceState | null>;
+  getAll(): Promise<Record<string, PresenceState>>;
+}
+
+export interface SocketAdapter {
+  readonly name: 'memory' | 'redis';
+  readonly presence: PresenceStore;
+  // Install the Socket.IO adapter so room emits reach every instance
+  attach(io: SocketIOServer): Promise<void>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,401 @@
+// Socket.IO event contract shared by the server and the web client
+// (src/lib/realtime in the frontend). Payloads are described as they travel
+// over the wire, so dates are ISO strings. This file must stay free of
+// imports so both builds can compile it.
+
+export type SocketErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'RATE_LIMITED'
+  | 'BAD_REQUEST'
+  | 'NOT_FOUND'
+  | 'FORBIDDEN'
+  | 'INTERNAL_ERROR';
+
+export interface SocketErrorPayload {
+  code: SocketErrorCode;
+  message: string;
+  details?: unknown;
+  retryAfterMs?: number;
+}
+
+// Sent to the client's acknowledgement callback for every handled event
+export type SocketAck<T = unknown> =
+  | { success: true; data?: T }
+  | { success: false; error: SocketErrorPayload };
+
+type Ack<T = unknown> = (response: SocketAck<T>) => void;
+
+// Client → server payloads
+
+export interface ConversationRef {
+  conversationId: string;
+}
+
+export interface ChatJoinPayload extends ConversationRef {
+  after?: string; // nextCursor of the last page the client holds
+}
+
+export interface ChatHistoryPayload extends ConversationRef {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+export interface ChatSendPayload extends ConversationRef {
+  content?: string;
+  messageType?: 'text' | 'image' | 'file';
+  attachmentIds?: string[];
+}
+
+export interface ChatDeliveredPayload extends ConversationRef {
+  messageIds: string[];
+}
+
+export interface ChatMarkReadPayload extends ConversationRef {
+  messageId?: string;
+}
+
+export interface ConsultationRef {
+  sessionId: string;
+}
+
+export interface SessionDescription {
+  type: 'offer' | 'answer';
+  sdp: string;
+}
+
+export interface IceCandidate {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+export interface ConsultationOfferPayload extends ConsultationRef {
+  targetUserId: string;
+  offer: SessionDescription;
+}
+
+export interface ConsultationAnswerPayload extends ConsultationRef {
+  targetUserId: string;
+  answer: SessionDescription;
+}
+
+export interface ConsultationIceCandidatePayload extends ConsultationRef {
+  targetUserId: string;
+  candidate: IceCandidate;
+}
+
+export interface RecordingRef extends ConsultationRef {
+  recordingId: string;
+}
+
+export interface RecordingConsentPayload extends RecordingRef {
+  granted: boolean;
+}
+
+// Steps a call takes down on a weak connection, best first
+export type MediaMode = 'full' | 'reduced' | 'audio_only' | 'chat';
+
+export interface MediaQualityStats {
+  latency: number; // Round trip in ms
+  packetLoss: number; // Percent
+  bitrate: number; // Kbps
+}
+
+export interface MediaModePayload extends ConsultationRef {
+  mode: MediaMode;
+  reason: 'degraded' | 'recovered';
+  stats?: MediaQualityStats; // What the change was based on
+}
+
+// Results of the pre-consultation check run in the patient's browser
+export interface DeviceCheckResult {
+  camera: boolean;
+  microphone: boolean;
+  connection: boolean; // Reached the realtime server and ICE servers
+}
+
+export interface WaitingRoomCheckInPayload extends ConsultationRef {
+  deviceCheck: DeviceCheckResult;
+  intake: Record<string, string | number>; // Answers keyed by question id
+}
+
+export interface NotificationsSubscribePayload {
+  channels?: string[];
+}
+
+export interface NotificationsMarkReadPayload {
+  notificationId?: string;
+  markAllAsRead?: boolean;
+}
+
+export interface PresenceStatusPayload {
+  status: 'online' | 'away' | 'busy';
+}
+
+export interface PresenceVisibilityPayload {
+  hidden: boolean;
+}
+
+export interface PresenceQueryPayload {
+  userIds: string[];
+}
+
+export interface ClientToServerEvents {
+  'chat:join': (data: ChatJoinPayload, ack?: Ack) => void;
+  'chat:history': (data: ChatHistoryPayload, ack?: Ack) => void;
+  'chat:leave': (data: ConversationRef, ack?: Ack) => void;
+  'chat:message': (data: ChatSendPayload, ack?: Ack<{ messageId: string }>) => void;
+  'chat:typing:start': (data: ConversationRef, ack?: Ack) => void;
+  'chat:typing:stop': (data: ConversationRef, ack?: Ack) => void;
+  'chat:delivered': (data: ChatDeliveredPayload, ack?: Ack) => void;
+  'chat:mark_read': (data: ChatMarkReadPayload, ack?: Ack) => void;
+  'consultation:join': (data: ConsultationRef, ack?: Ack) => void;
+  'consultation:leave': (data: ConsultationRef, ack?: Ack) => void;
+  'consultation:offer': (data: ConsultationOfferPayload, ack?: Ack) => void;
+  'consultation:answer': (data: ConsultationAnswerPayload, ack?: Ack) => void;
+  'consultation:ice-candidate': (data: ConsultationIceCandidatePayload, ack?: Ack) => void;
+  'consultation:start': (data: ConsultationRef, ack?: Ack) => void;
+  'consultation:end': (data: ConsultationRef, ack?: Ack) => void;
+  'consultation:recording:request': (data: ConsultationRef, ack?: Ack<RecordingState>) => void;
+  'consultation:recording:consent': (data: RecordingConsentPayload, ack?: Ack<RecordingState>) => void;
+  'consultation:recording:stop': (data: RecordingRef, ack?: Ack<RecordingState>) => void;
+  'consultation:media_mode': (data: MediaModePayload, ack?: Ack) => void;
+  'waiting_room:check_in': (data: WaitingRoomCheckInPayload, ack?: Ack<WaitingRoomStatus>) => void;
+  'waiting_room:leave': (data: ConsultationRef, ack?: Ack) => void;
+  'waiting_room:admit': (data: ConsultationRef, ack?: Ack) => void;
+  'waiting_room:queue': (data: Record<string, never>, ack?: Ack<WaitingRoomEntry[]>) => void;
+  'notifications:subscribe': (data: NotificationsSubscribePayload, ack?: Ack) => void;
+  'notifications:mark_read': (data: NotificationsMarkReadPayload, ack?: Ack) => void;
+  'presence:status': (data: PresenceStatusPayload) => void;
+  'presence:visibility': (data: PresenceVisibilityPayload) => void;
+  'presence:query': (data: PresenceQueryPayload) => void;
+}
+
+export type ClientEventName = keyof ClientToServerEvents;
+export type ClientEventPayload<E extends ClientEventName> = Parameters<ClientToServerEvents[E]>[0];
+
+// Server → client payloads
+
+export interface ProfileSummary {
+  id: string;
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: string;
+  specialization?: string | null;
+}
+
+export interface MessageReceipt {
+  userId: string;
+  status: 'sent' | 'delivered' | 'read';
+  deliveredAt: string | null;
+  readAt: string | null;
+}
+
+export interface MessageAttachmentSummary {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  scanStatus: 'pending' | 'clean' | 'infected';
+}
+
+export interface ChatMessage {
+  id: string;
+  conversationId: string;
+  senderId: string | null;
+  senderType: string;
+  messageType: string;
+  content: string;
+  metadata: unknown;
+  createdAt: string;
+  sender: { id: string; profile: ProfileSummary | null } | null;
+  receipts: MessageReceipt[];
+  attachments: MessageAttachmentSummary[];
+}
+
+export interface MessagePage {
+  messages: ChatMessage[]; // Oldest first
+  hasMore: boolean;
+  previousCursor: string | null;
+  nextCursor: string | null;
+}
+
+export interface PresenceUpdate {
+  userId: string;
+  status: 'online' | 'away' | 'busy' | 'offline';
+  lastSeen: string | null;
+}
+
+export interface NotificationMessage {
+  id: string;
+  userId: string;
+  category: string;
+  type: string;
+  title: string;
+  message: string;
+  read: boolean;
+  createdAt: string;
+  data?: unknown;
+}
+
+export type RecordingStatus =
+  | 'awaiting_consent'
+  | 'recording'
+  | 'stopped'
+  | 'completed'
+  | 'declined'
+  | 'expired'
+  | 'deleted';
+
+export interface RecordingConsent {
+  userId: string;
+  role: 'patient' | 'physician';
+  decision: 'granted' | 'declined' | 'withdrawn';
+  createdAt: string;
+}
+
+export interface RecordingState {
+  id: string;
+  sessionId: string;
+  requestedBy: string; // This participant's browser records and uploads
+  status: RecordingStatus;
+  mimeType: string | null;
+  chunkCount: number;
+  totalBytes: number;
+  consentExpiresAt: string;
+  startedAt: string | null;
+  stoppedAt: string | null;
+  stoppedBy: string | null;
+  completedAt: string | null;
+  retainUntil: string | null;
+  legalHold: boolean;
+  consents: RecordingConsent[];
+}
+
+export type ParticipantRole = 'patient' | 'physician' | 'caregiver' | 'interpreter' | 'consulting_physician';
+
+export interface ConsultationParticipant {
+  userId: string;
+  role: ParticipantRole;
+  name: string | null;
+  joined: boolean; // In the room right now
+  invitedBy: string | null; // Set for guests
+}
+
+export type WaitingStatus = 'waiting' | 'admitted' | 'left' | 'rescheduled';
+
+// What a patient sees while waiting to be admitted
+// A time a waiting patient may move their appointment to
+export interface RescheduleSlot {
+  appointmentDate: string; // YYYY-MM-DD
+  appointmentTime: string; // HH:mm
+  startsAt: string;
+}
+
+export interface WaitingRoomStatus {
+  sessionId: string;
+  status: WaitingStatus;
+  position: number | null; // 1 is next; null once no longer waiting
+  estimatedWaitMinutes: number | null;
+  physicianLate: boolean; // A reschedule can be requested
+  checkedInAt: string;
+}
+
+// A patient in the physician's queue
+export interface WaitingRoomEntry {
+  sessionId: string;
+  patientId: string;
+  patientName: string | null;
+  position: number;
+  scheduledAt: string;
+  checkedInAt: string;
+  deviceCheck: DeviceCheckResult;
+  intake: Record<string, string | number>;
+}
+
+// Decimal amounts are strings in naira
+export interface BillingState {
+  sessionId: string;
+  paymentStatus: string; // authorized while held, then paid or released
+  billingMode: string | null;
+  consultationRate: string | null;
+  amountHeld: string;
+  amountCharged: string | null;
+  billedMinutes: number | null;
+}
+
+export interface ServerToClientEvents {
+  'chat:messages': (data: MessagePage & ConversationRef & { unreadCount: number }) => void;
+  'chat:history': (data: MessagePage & ConversationRef & { before?: string; after?: string }) => void;
+  'chat:message:new': (data: ConversationRef & { message: ChatMessage; cursor: string }) => void;
+  'chat:user_joined': (data: { userId: string; userRole: string; userProfile: ProfileSummary }) => void;
+  'chat:user_left': (data: { userId: string }) => void;
+  'chat:typing:start': (data: { userId: string; userProfile: ProfileSummary }) => void;
+  'chat:typing:stop': (data: { userId: string }) => void;
+  'chat:message:delivered': (data: ConversationRef & {
+    messageIds: string[];
+    deliveredTo: string;
+    deliveredAt: string;
+  }) => void;
+  'chat:message:read': (data: ConversationRef & {
+    messageId?: string;
+    messageIds: string[];
+    readBy: string;
+    readAt: string;
+  }) => void;
+  'chat:unread': (data: ConversationRef & { unreadCount: number }) => void;
+  'consultation:user_joined': (data: ConsultationRef & {
+    userId: string;
+    userRole: string;
+    participantRole: ParticipantRole;
+    userProfile: ProfileSummary;
+  }) => void;
+  'consultation:user_left': (data: ConsultationRef & { userId: string }) => void;
+  'consultation:room_state': (data: {
+    session: Record<string, unknown>;
+    room: Record<string, unknown> | null;
+    role: ParticipantRole; // The joining user's role in this room
+    participants: ConsultationParticipant[];
+    topology: 'mesh'; // Each participant connects to every other one
+    recording: RecordingState | null; // A pending request or running recording
+    mediaModes: Record<string, MediaMode>; // By user id; users not listed are on full
+  }) => void;
+  'consultation:participants': (data: ConsultationRef & { participants: ConsultationParticipant[] }) => void;
+  // Sent to a guest who was removed; their sockets have left the room
+  'consultation:removed': (data: ConsultationRef) => void;
+  'consultation:offer': (data: ConsultationRef & { offer: SessionDescription; fromUserId: string; fromUserRole: string }) => void;
+  'consultation:answer': (data: ConsultationRef & { answer: SessionDescription; fromUserId: string; fromUserRole: string }) => void;
+  'consultation:ice-candidate': (data: ConsultationRef & { candidate: IceCandidate; fromUserId: string }) => void;
+  'consultation:session_started': (data: ConsultationRef & { startedBy: string; startedAt: string }) => void;
+  'consultation:session_ended': (data: ConsultationRef & {
+    endedBy: string;
+    endedAt: string;
+    durationMinutes: number | null;
+  }) => void;
+  'consultation:billing': (data: BillingState) => void;
+  'consultation:refunded': (data: ConsultationRef & { refundId: string; status: string; amount: string }) => void;
+  'consultation:recording:state': (data: ConsultationRef & { recording: RecordingState }) => void;
+  // Others in the room lower what they send to this user to match
+  'consultation:media_mode': (data: ConsultationRef & { userId: string; mode: MediaMode; changedAt: string }) => void;
+  'waiting_room:status': (data: WaitingRoomStatus) => void;
+  // Sent to the physician whenever their queue changes
+  'waiting_room:queue': (data: { entries: WaitingRoomEntry[] }) => void;
+  // Sent to the session's participants; they can now join the consultation room
+  'waiting_room:admitted': (data: ConsultationRef) => void;
+  'consultation:update': (data: ConsultationRef & { endedAt: string; durationMinutes?: number | null }) => void;
+  'notification:new': (data: NotificationMessage) => void;
+  'notifications:subscribed': (data: { channels: string[] }) => void;
+  'notifications:marked_read': (data: NotificationsMarkReadPayload) => void;
+  'presence:update': (data: PresenceUpdate) => void;
+  'presence:state': (data: { presence: Record<string, PresenceUpdate> }) => void;
+  'presence:visibility': (data: PresenceVisibilityPayload) => void;
+  'server:draining': (data: { timeoutMs: number }) => void;
+  // Failures of events sent without an acknowledgement callback
+  'error': (data: SocketErrorPayload & { event?: string }) => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0];
@@ -1,6 +1,27 @@
 import { type Server as SocketIOServer } from 'socket.io';
 import { PrismaClient } from '@prisma/client';
 import { type AuthenticatedSocket } from '../socketServer.js';
+import {
+  ChatService,
+  MESSAGE_INCLUDE,
+  encodeMessageCursor,
+  type HistoryQuery
+} from '../../services/chatService.js';
+import { NotificationService } from '../../services/notificationService.js';
+import { SocketEventError, toSocketError } from '../socketErrors.js';
+import type {
+  ChatDeliveredPayload,
+  ChatJoinPayload,
+  ChatMarkReadPayload,
+  ChatSendPayload,
+  ConversationRef
+} from '../events.js';
+
+const chatService = new ChatService();
+const notificationService = new NotificationService();
+
+// Longest message preview put in a notification
+const PREVIEW_LENGTH = 100;
 
 export class ChatHandler {
   constructor(
@@ -8,9 +29,11 @@ export class ChatHandler {
     private prisma: PrismaClient
   ) {}
 
-  async handleJoinConversation(socket: AuthenticatedSocket, data: { conversationId: string }) {
+  // `after` is the cursor of the last message the client has; a rejoin
+  // then receives exactly the messages it missed
+  async handleJoinConversation(socket: AuthenticatedSocket, data: ChatJoinPayload) {
     try {
-      const { conversationId } = data;
+      const { conversationId, after } = data;
 
       // Verify user has access to this conversation
       const conversation = await this.prisma.conversation.findFirst({
@@ -31,29 +54,25 @@ export class ChatHandler {
       });
 
       if (!conversation) {
-        socket.emit('error', { message: 'Conversation not found or access denied' });
-        return;
+        throw new SocketEventError('NOT_FOUND', 'Conversation not found or access denied');
       }
 
       // Join the conversation room
       socket.join(`conversation:${conversationId}`);
 
-      // Get recent messages
-      const messages = await this.prisma.message.findMany({
-        where: { conversationId },
-        orderBy: { createdAt: 'desc' },
-        take: 50,
-        include: {
-          sender: {
-            include: { profile: true }
-          }
-        }
-      });
+      // Everything waiting for this participant reaches them now
+      await this.markDelivered(socket.userId!, conversationId);
+
+      // Missed messages when catching up, otherwise the latest page
+      const page = await chatService.getHistory(conversationId, { after });
+
+      const unreadCount = await this.countUnread(socket.userId!, conversationId);
 
       // Send recent messages to the user
       socket.emit('chat:messages', {
         conversationId,
-        messages: messages.reverse()
+        ...page,
+        unreadCount
       });
 
       // Notify others in the conversation that user joined
@@ -65,11 +84,36 @@ export class ChatHandler {
 
     } catch (error) {
       console.error('Error joining conversation:', error);
-      socket.emit('error', { message: 'Failed to join conversation' });
+      throw toSocketError(error, 'Failed to join conversation');
+    }
+  }
+
+  // Older pages (`before`) or further catch-up pages (`after`)
+  async handleHistory(socket: AuthenticatedSocket, data: HistoryQuery & ConversationRef) {
+    try {
+      const { conversationId, before, after, limit } = data;
+
+      const conversation = await chatService.findConversationForUser(conversationId, socket.userId!);
+      if (!conversation) {
+        throw new SocketEventError('NOT_FOUND', 'Conversation not found or access denied');
+      }
+
+      const page = await chatService.getHistory(conversationId, { before, after, limit });
+
+      socket.emit('chat:history', {
+        conversationId,
+        ...(before ? { before } : {}),
+        ...(after ? { after } : {}),
+        ...page
+      });
+
+    } catch (error) {
+      console.error('Error loading message history:', error);
+      throw toSocketError(error, 'Failed to load message history', true);
     }
   }
 
-  async handleLeaveConversation(socket: AuthenticatedSocket, data: { conversationId: string }) {
+  async handleLeaveConversation(socket: AuthenticatedSocket, data: ConversationRef) {
     const { conversationId } = data;
     
     socket.leave(`conversation:${conversationId}`);
@@ -80,13 +124,9 @@ export class ChatHandler {
     });
   }
 
-  async handleSendMessage(socket: AuthenticatedSocket, data: {
-    conversationId: string;
-    content: string;
-    messageType?: string;
-  }) {
+  async handleSendMessage(socket: AuthenticatedSocket, data: ChatSendPayload) {
     try {
-      const { conversationId, content, messageType = 'text' } = data;
+      const { conversationId, content = '', attachmentIds = [] } = data;
 
       // Verify user has access to this conversation
       const conversation = await this.prisma.conversation.findFirst({
@@ -100,24 +140,46 @@ export class ChatHandler {
       });
 
       if (!conversation) {
-        socket.emit('error', { message: 'Conversation not found or access denied' });
-        return;
+        throw new SocketEventError('NOT_FOUND', 'Conversation not found or access denied');
       }
 
-      // Create message in database
+      if (!content.trim() && attachmentIds.length === 0) {
+        throw new SocketEventError('BAD_REQUEST', 'Message is empty');
+      }
+
+      // Attachments are uploaded and scanned before the message goes out
+      const attachments = attachmentIds.length > 0
+        ? await chatService.getSendableAttachments(conversationId, socket.userId!, attachmentIds)
+        : [];
+      const messageType = attachments.length === 0
+        ? data.messageType ?? 'text'
+        : attachments.every(attachment => attachment.mimeType.startsWith('image/')) ? 'image' : 'file';
+
+      const recipientIds = [conversation.patientId, conversation.physicianId]
+        .filter((id): id is string => Boolean(id) && id !== socket.userId);
+
+      // Create message in database with a "sent" receipt per recipient
       const message = await this.prisma.message.create({
         data: {
           conversationId,
-          senderId: socket.userId,
+          senderId: socket.userId!,
           senderType: socket.userRole?.toLowerCase() || 'patient',
           content,
-          messageType
-        },
-        include: {
-          sender: {
-            include: { profile: true }
+          messageType,
+          // Clients reading the messages table directly see the files on the row
+          ...(attachments.length > 0 && {
+            metadata: {
+              attachments: attachments.map(({ id, fileName, mimeType, fileSize }) => ({ id, fileName, mimeType, fileSize }))
+            }
+          }),
+          receipts: {
+            create: recipientIds.map(userId => ({ userId, conversationId }))
+          },
+          attachments: {
+            connect: attachments.map(attachment => ({ id: attachment.id }))
           }
-        }
+        },
+        include: MESSAGE_INCLUDE
       });
 
       // Update conversation timestamp
@@ -126,77 +188,207 @@ export class ChatHandler {
         data: { updatedAt: new Date() }
       });
 
-      // Send message to all users in the conversation
+      // Send message to all users in the conversation; the cursor lets a
+      // client rejoin after this message
       this.io.to(`conversation:${conversationId}`).emit('chat:message:new', {
         message,
-        conversationId
+        conversationId,
+        cursor: encodeMessageCursor(message)
       });
 
-      // Send push notification to offline users
-      await this.sendMessageNotification(conversation, message);
+      // Recipients outside the conversation still see their unread badge move
+      for (const recipientId of recipientIds) {
+        await this.emitUnreadCount(recipientId, conversationId);
+      }
+
+      // Recipients who do not have the conversation open are notified
+      await this.sendMessageNotification(socket, conversationId, message, recipientIds);
+
+      return { messageId: message.id };
 
     } catch (error) {
       console.error('Error sending message:', error);
-      socket.emit('error', { message: 'Failed to send message' });
+      throw toSocketError(error, 'Failed to send message', true);
     }
   }
 
-  handleTypingStart(socket: AuthenticatedSocket, data: { conversationId: string }) {
+  handleTypingStart(socket: AuthenticatedSocket, data: ConversationRef) {
     socket.to(`conversation:${data.conversationId}`).emit('chat:typing:start', {
       userId: socket.userId,
       userProfile: socket.profile
     });
   }
 
-  handleTypingStop(socket: AuthenticatedSocket, data: { conversationId: string }) {
+  handleTypingStop(socket: AuthenticatedSocket, data: ConversationRef) {
     socket.to(`conversation:${data.conversationId}`).emit('chat:typing:stop', {
       userId: socket.userId
     });
   }
 
-  async handleMarkAsRead(socket: AuthenticatedSocket, data: {
-    conversationId: string;
-    messageId?: string;
-  }) {
+  // Clients acknowledge chat:message:new so the sender can show delivery
+  async handleDelivered(socket: AuthenticatedSocket, data: ChatDeliveredPayload) {
+    try {
+      await this.markDelivered(socket.userId!, data.conversationId, data.messageIds);
+    } catch (error) {
+      console.error('Error marking messages as delivered:', error);
+      throw toSocketError(error, 'Failed to mark messages as delivered');
+    }
+  }
+
+  // Marks one message, and everything before it, as read; without a
+  // messageId the whole conversation is read
+  async handleMarkAsRead(socket: AuthenticatedSocket, data: ChatMarkReadPayload) {
     try {
       const { conversationId, messageId } = data;
+      const userId = socket.userId!;
 
+      let readUpTo: Date | undefined;
       if (messageId) {
-        // Mark specific message as read
-        await this.prisma.message.updateMany({
-          where: {
-            id: messageId,
-            conversationId,
-            senderId: { not: socket.userId }
-          },
-          data: { /* Add read status fields if needed */ }
-        });
-      } else {
-        // Mark all messages in conversation as read
-        await this.prisma.message.updateMany({
-          where: {
-            conversationId,
-            senderId: { not: socket.userId }
-          },
-          data: { /* Add read status fields if needed */ }
+        const message = await this.prisma.message.findFirst({
+          where: { id: messageId, conversationId },
+          select: { createdAt: true }
         });
+
+        if (!message) {
+          throw new SocketEventError('NOT_FOUND', 'Message not found');
+        }
+
+        readUpTo = message.createdAt;
       }
 
-      // Notify sender that message was read
-      socket.to(`conversation:${conversationId}`).emit('chat:message:read', {
-        conversationId,
-        messageId,
-        readBy: socket.userId
+      const unread = await this.prisma.messageReceipt.findMany({
+        where: {
+          userId,
+          conversationId,
+          status: { not: 'read' },
+          ...(readUpTo ? { message: { createdAt: { lte: readUpTo } } } : {})
+        },
+        select: { messageId: true, message: { select: { senderId: true } } }
       });
 
+      if (unread.length > 0) {
+        const messageIds = unread.map(receipt => receipt.messageId);
+        const readAt = new Date();
+
+        // A read message was necessarily delivered
+        await this.prisma.$transaction([
+          this.prisma.messageReceipt.updateMany({
+            where: { userId, messageId: { in: messageIds }, deliveredAt: null },
+            data: { deliveredAt: readAt }
+          }),
+          this.prisma.messageReceipt.updateMany({
+            where: { userId, messageId: { in: messageIds } },
+            data: { status: 'read', readAt }
+          })
+        ]);
+
+        // Notify sender that message was read
+        this.io.to(this.receiptRooms(conversationId, unread)).emit('chat:message:read', {
+          conversationId,
+          messageId,
+          messageIds,
+          readBy: userId,
+          readAt
+        });
+      }
+
+      // Keep the reader's other devices in step
+      await this.emitUnreadCount(userId, conversationId);
+
     } catch (error) {
       console.error('Error marking message as read:', error);
+      throw toSocketError(error, 'Failed to mark messages as read');
+    }
+  }
+
+  private async markDelivered(userId: string, conversationId: string, messageIds?: string[]) {
+    const pending = await this.prisma.messageReceipt.findMany({
+      where: {
+        userId,
+        conversationId,
+        status: 'sent',
+        ...(messageIds ? { messageId: { in: messageIds } } : {})
+      },
+      select: { messageId: true, message: { select: { senderId: true } } }
+    });
+
+    if (pending.length === 0) {
+      return;
     }
+
+    const deliveredAt = new Date();
+    await this.prisma.messageReceipt.updateMany({
+      where: { userId, status: 'sent', messageId: { in: pending.map(receipt => receipt.messageId) } },
+      data: { status: 'delivered', deliveredAt }
+    });
+
+    this.io.to(this.receiptRooms(conversationId, pending)).emit('chat:message:delivered', {
+      conversationId,
+      messageIds: pending.map(receipt => receipt.messageId),
+      deliveredTo: userId,
+      deliveredAt
+    });
+  }
+
+  // The conversation plus each sender's personal room, so senders who have
+  // left the conversation still get their ticks
+  private receiptRooms(conversationId: string, receipts: Array<{ message: { senderId: string | null } }>) {
+    const senderRooms = receipts
+      .map(receipt => receipt.message.senderId)
+      .filter((senderId): senderId is string => Boolean(senderId))
+      .map(senderId => `user:${senderId}`);
+
+    return [`conversation:${conversationId}`, ...new Set(senderRooms)];
+  }
+
+  private countUnread(userId: string, conversationId: string) {
+    return this.prisma.messageReceipt.count({
+      where: { userId, conversationId, status: { not: 'read' } }
+    });
   }
 
-  private async sendMessageNotification(conversation: unknown, message: unknown) {
-    // Implementation for push notifications
-    // This would integrate with your notification service
-    console.log('Sending message notification:', { conversation, message });
+  private async emitUnreadCount(userId: string, conversationId: string) {
+    this.io.to(`user:${userId}`).emit('chat:unread', {
+      conversationId,
+      unreadCount: await this.countUnread(userId, conversationId)
+    });
+  }
+
+  private async sendMessageNotification(
+    socket: AuthenticatedSocket,
+    conversationId: string,
+    message: { id: string; content: string; messageType: string },
+    recipientIds: string[]
+  ) {
+    try {
+      // Every socket is also in its user's room, on whichever instance it is
+      const sockets = await this.io.in(`conversation:${conversationId}`).fetchSockets();
+      const present = new Set(sockets.flatMap(roomSocket =>
+        [...roomSocket.rooms].filter(room => room.startsWith('user:')).map(room => room.slice('user:'.length))
+      ));
+
+      const { firstName, lastName } = await this.prisma.profile.findUnique({
+        where: { userId: socket.userId! },
+        select: { firstName: true, lastName: true }
+      }) ?? {};
+      const senderName = [firstName, lastName].filter(Boolean).join(' ') || 'your care team';
+
+      const preview = message.messageType === 'text'
+        ? message.content.length > PREVIEW_LENGTH ? `${message.content.slice(0, PREVIEW_LENGTH - 1)}…` : message.content
+        : `Sent ${message.messageType === 'image' ? 'an image' : 'a file'}`;
+
+      await Promise.all(recipientIds
+        .filter(recipientId => !present.has(recipientId))
+        .map(recipientId => notificationService.notify(recipientId, {
+          category: 'chat',
+          type: 'message',
+          title: `New message from ${senderName}`,
+          message: preview,
+          data: { conversationId, messageId: message.id }
+        })));
+    } catch (error) {
+      // The message is already sent; a missed notification must not fail it
+      console.error('Error sending message notification:', error);
+    }
   }
 }
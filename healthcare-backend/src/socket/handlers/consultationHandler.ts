@@ -1,6 +1,30 @@
 import { type Server as SocketIOServer } from 'socket.io';
 import { PrismaClient } from '@prisma/client';
 import { type AuthenticatedSocket, type Profile } from '../socketServer.js';
+import { RefundService } from '../../services/refundService.js';
+import { EntitlementService } from '../../services/entitlementService.js';
+import { ReminderService } from '../../services/reminderService.js';
+import { RecordingService, type ConsentContext, type RecordingSummary } from '../../services/recordingService.js';
+import { ConsultationBillingService, type BillingSummary } from '../../services/consultationBillingService.js';
+import { consultationRoomService, type RoomAccess } from '../../services/consultationRoomService.js';
+import { waitingRoomService } from '../../services/waitingRoomService.js';
+import { CONSULTATION_CONFIG } from '../../config/consultationConfig.js';
+import { SocketEventError, toSocketError } from '../socketErrors.js';
+import type {
+  ConsultationAnswerPayload,
+  ConsultationIceCandidatePayload,
+  ConsultationOfferPayload,
+  ConsultationRef,
+  MediaModePayload,
+  RecordingConsentPayload,
+  RecordingRef
+} from '../events.js';
+
+const refundService = new RefundService();
+const entitlementService = new EntitlementService();
+const reminderService = new ReminderService();
+const recordingService = new RecordingService();
+const billingService = new ConsultationBillingService();
 
 export class ConsultationHandler {
   constructor(
@@ -8,19 +32,23 @@ export class ConsultationHandler {
     private prisma: PrismaClient
   ) {}
 
-  async handleJoinRoom(socket: AuthenticatedSocket, data: { sessionId: string }) {
+  async handleJoinRoom(socket: AuthenticatedSocket, data: ConsultationRef) {
     try {
       const { sessionId } = data;
 
       // Verify user has access to this consultation session
-      const session = await this.prisma.consultationSession.findFirst({
-        where: {
-          id: sessionId,
-          OR: [
-            { patientId: socket.userId },
-            { physicianId: socket.userId }
-          ]
-        },
+      const access = await consultationRoomService.getAccess(sessionId, socket.userId!);
+
+      if (!access) {
+        throw new SocketEventError('NOT_FOUND', 'Consultation session not found or access denied');
+      }
+
+      if (await waitingRoomService.mustWait(access)) {
+        throw new SocketEventError('FORBIDDEN', 'Please wait for the physician to admit you');
+      }
+
+      const session = await this.prisma.consultationSession.findUnique({
+        where: { id: sessionId },
         include: {
           room: true,
           appointment: {
@@ -32,26 +60,16 @@ export class ConsultationHandler {
         }
       });
 
-      if (!session) {
-        socket.emit('error', { message: 'Consultation session not found or access denied' });
-        return;
-      }
-
       const roomName = `consultation:${sessionId}`;
       socket.join(roomName);
 
-      // Update room status
-      const updateData: Record<string, boolean> = {};
-      if (socket.userRole === 'PATIENT') {
-        updateData.patientJoined = true;
-      } else if (socket.userRole === 'PHYSICIAN') {
-        updateData.physicianJoined = true;
-      }
+      await this.updatePresence(access, true);
 
-      if (Object.keys(updateData).length > 0) {
-        await this.prisma.consultationRoom.update({
-          where: { sessionId },
-          data: updateData
+      // Keep the first physician join; refunds for no-shows depend on it
+      if (access.role === 'physician') {
+        await this.prisma.consultationRoom.updateMany({
+          where: { sessionId, physicianJoinedAt: null },
+          data: { physicianJoinedAt: new Date() }
         });
       }
 
@@ -59,9 +77,11 @@ export class ConsultationHandler {
       socket.to(roomName).emit('consultation:user_joined', {
         userId: socket.userId,
         userRole: socket.userRole,
+        participantRole: access.role,
         userProfile: socket.profile as Profile,
         sessionId
       });
+      await consultationRoomService.broadcastParticipants(sessionId);
 
       // Send current room state to the joining user
       const updatedRoom = await this.prisma.consultationRoom.findUnique({
@@ -70,34 +90,29 @@ export class ConsultationHandler {
 
       socket.emit('consultation:room_state', {
         session,
-        room: updatedRoom
+        room: updatedRoom,
+        role: access.role,
+        participants: await consultationRoomService.listParticipants(sessionId),
+        topology: CONSULTATION_CONFIG.topology,
+        recording: await recordingService.getActiveRecording(sessionId),
+        mediaModes: await consultationRoomService.getMediaModes(sessionId)
       });
 
     } catch (error) {
       console.error('Error joining consultation room:', error);
-      socket.emit('error', { message: 'Failed to join consultation room' });
+      throw toSocketError(error, 'Failed to join consultation room');
     }
   }
 
-  async handleLeaveRoom(socket: AuthenticatedSocket, data: { sessionId: string }) {
+  async handleLeaveRoom(socket: AuthenticatedSocket, data: ConsultationRef) {
     const { sessionId } = data;
     const roomName = `consultation:${sessionId}`;
     
     socket.leave(roomName);
 
-    // Update room status
-    const updateData: Record<string, boolean> = {};
-    if (socket.userRole === 'PATIENT') {
-      updateData.patientJoined = false;
-    } else if (socket.userRole === 'PHYSICIAN') {
-      updateData.physicianJoined = false;
-    }
-
-    if (Object.keys(updateData).length > 0) {
-      await this.prisma.consultationRoom.update({
-        where: { sessionId },
-        data: updateData
-      });
+    const access = await consultationRoomService.getAccess(sessionId, socket.userId!);
+    if (access) {
+      await this.updatePresence(access, false);
     }
 
     // Notify others that user left
@@ -105,15 +120,18 @@ export class ConsultationHandler {
       userId: socket.userId,
       sessionId
     });
+    await consultationRoomService.broadcastParticipants(sessionId);
   }
 
-  handleOffer(socket: AuthenticatedSocket, data: {
-    sessionId: string;
-    offer: RTCSessionDescriptionInit;
-    targetUserId: string;
-  }) {
+  // Signaling is addressed to one peer at a time, so each pair of participants
+  // negotiates its own connection. Only sockets in the room may signal, and
+  // only to someone who may be in the same room; anything else is dropped.
+  async handleOffer(socket: AuthenticatedSocket, data: ConsultationOfferPayload) {
     const { sessionId, offer, targetUserId } = data;
-    
+    this.assertInRoom(socket, sessionId);
+
+    if (!await this.isSignalTarget(sessionId, targetUserId)) return;
+
     // Send offer to target user
     socket.to(`user:${targetUserId}`).emit('consultation:offer', {
       sessionId,
@@ -123,13 +141,12 @@ export class ConsultationHandler {
     });
   }
 
-  handleAnswer(socket: AuthenticatedSocket, data: {
-    sessionId: string;
-    answer: RTCSessionDescriptionInit;
-    targetUserId: string;
-  }) {
+  async handleAnswer(socket: AuthenticatedSocket, data: ConsultationAnswerPayload) {
     const { sessionId, answer, targetUserId } = data;
-    
+    this.assertInRoom(socket, sessionId);
+
+    if (!await this.isSignalTarget(sessionId, targetUserId)) return;
+
     // Send answer to target user
     socket.to(`user:${targetUserId}`).emit('consultation:answer', {
       sessionId,
@@ -139,13 +156,12 @@ export class ConsultationHandler {
     });
   }
 
-  handleIceCandidate(socket: AuthenticatedSocket, data: {
-    sessionId: string;
-    candidate: RTCIceCandidateInit;
-    targetUserId: string;
-  }) {
+  async handleIceCandidate(socket: AuthenticatedSocket, data: ConsultationIceCandidatePayload) {
     const { sessionId, candidate, targetUserId } = data;
-    
+    this.assertInRoom(socket, sessionId);
+
+    if (!await this.isSignalTarget(sessionId, targetUserId)) return;
+
     // Send ICE candidate to target user
     socket.to(`user:${targetUserId}`).emit('consultation:ice-candidate', {
       sessionId,
@@ -154,25 +170,81 @@ export class ConsultationHandler {
     });
   }
 
-  async handleStartSession(socket: AuthenticatedSocket, data: { sessionId: string }) {
+  async handleStartSession(socket: AuthenticatedSocket, data: ConsultationRef) {
     try {
       const { sessionId } = data;
 
-      // Update session status
-      await this.prisma.consultationSession.update({
-        where: { id: sessionId },
-        data: {
-          status: 'in_progress',
-          startedAt: new Date()
-        }
-      });
+      // Guests can join the call but not run the session
+      await this.assertHost(socket, sessionId);
 
-      // Update room status
-      await this.prisma.consultationRoom.update({
-        where: { sessionId },
-        data: { roomStatus: 'active' }
+      const session = await this.prisma.consultationSession.findUnique({
+        where: { id: sessionId }
       });
 
+      if (!session) {
+        throw new SocketEventError('NOT_FOUND', 'Session not found');
+      }
+
+      if (session.status === 'completed' || session.status === 'cancelled') {
+        throw new SocketEventError('BAD_REQUEST', 'This consultation has already ended');
+      }
+
+      // Starting a session uses up one of the patient's monthly consultations
+      if (!session.startedAt) {
+        const entitlement = await entitlementService.check(session.patientId, 'virtual_consultation');
+        if (!entitlement.allowed) {
+          const message = 'The patient has used all virtual consultations included in their plan';
+          // The other participant hears about it too; the starter gets it as the failure
+          socket.to(`consultation:${sessionId}`).emit('error', {
+            message,
+            code: 'ENTITLEMENT_EXCEEDED',
+            entitlement
+          });
+          throw new SocketEventError('FORBIDDEN', message, { reason: 'ENTITLEMENT_EXCEEDED', entitlement });
+        }
+      }
+
+      // Hold the patient's fee before the clock starts
+      let billing: BillingSummary | null;
+      try {
+        billing = await billingService.authorize(sessionId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'The consultation fee could not be held';
+        socket.to(`consultation:${sessionId}`).emit('error', {
+          message,
+          code: 'PAYMENT_REQUIRED'
+        });
+        throw new SocketEventError('FORBIDDEN', message, { reason: 'PAYMENT_REQUIRED' });
+      }
+
+      try {
+        // Update session status
+        await this.prisma.consultationSession.update({
+          where: { id: sessionId },
+          data: {
+            status: 'in_progress',
+            // Billing meters from the first start; starting again must not shorten it
+            startedAt: session.startedAt ?? new Date()
+          }
+        });
+
+        // Update room status
+        await this.prisma.consultationRoom.update({
+          where: { sessionId },
+          data: { roomStatus: 'active' }
+        });
+      } catch (error) {
+        if (billing) {
+          await billingService.release(sessionId, 'start_failed')
+            .catch(releaseError => console.error('Error releasing consultation hold:', releaseError));
+        }
+        throw error;
+      }
+
+      if (billing) {
+        this.emitBilling(billing);
+      }
+
       // Notify all users in the room
       this.io.to(`consultation:${sessionId}`).emit('consultation:session_started', {
         sessionId,
@@ -182,22 +254,24 @@ export class ConsultationHandler {
 
     } catch (error) {
       console.error('Error starting consultation session:', error);
-      socket.emit('error', { message: 'Failed to start consultation session' });
+      throw toSocketError(error, 'Failed to start consultation session');
     }
   }
 
-  async handleEndSession(socket: AuthenticatedSocket, data: { sessionId: string }) {
+  async handleEndSession(socket: AuthenticatedSocket, data: ConsultationRef) {
     try {
       const { sessionId } = data;
 
+      // Guests can join the call but not run the session
+      await this.assertHost(socket, sessionId);
+
       // Get session to calculate duration
       const session = await this.prisma.consultationSession.findUnique({
         where: { id: sessionId }
       });
 
       if (!session) {
-        socket.emit('error', { message: 'Session not found' });
-        return;
+        throw new SocketEventError('NOT_FOUND', 'Session not found');
       }
 
       const endTime = new Date();
@@ -230,18 +304,155 @@ export class ConsultationHandler {
         durationMinutes
       });
 
-      // Process payment if needed
-      await this.processConsultationPayment(sessionId);
+      // Nothing more may be recorded once the session is over
+      const recordings = await recordingService.stopActiveRecordings(sessionId, socket.userId!);
+      recordings.forEach(recording => this.emitRecordingState(recording));
+
+      // Charge the time used from the held fee; failures are retried by the scheduler
+      try {
+        const billing = await billingService.settle(sessionId);
+        if (billing) {
+          this.emitBilling(billing);
+        }
+      } catch (error) {
+        console.error('Error settling consultation payment:', error);
+      }
+
+      // Queue the follow-up questionnaire for the patient
+      await reminderService.scheduleFollowUp(session.appointmentId, endTime);
+
+      // Refund sessions the physician missed or that never got going
+      const refund = await refundService.handleSessionEnded(sessionId);
+      if (refund) {
+        this.io.to(`consultation:${sessionId}`).emit('consultation:refunded', {
+          sessionId,
+          refundId: refund.id,
+          status: refund.status,
+          amount: refund.amount
+        });
+      }
 
     } catch (error) {
       console.error('Error ending consultation session:', error);
-      socket.emit('error', { message: 'Failed to end consultation session' });
+      throw toSocketError(error, 'Failed to end consultation session');
+    }
+  }
+
+  // Recording needs both participants' consent; each step is broadcast to the room
+  async handleRecordingRequest(socket: AuthenticatedSocket, data: ConsultationRef) {
+    try {
+      const recording = await recordingService.requestRecording(data.sessionId, socket.userId!, this.consentContext(socket));
+      this.emitRecordingState(recording);
+      return recording;
+
+    } catch (error) {
+      console.error('Error requesting consultation recording:', error);
+      throw toSocketError(error, 'Failed to request recording', true);
+    }
+  }
+
+  async handleRecordingConsent(socket: AuthenticatedSocket, data: RecordingConsentPayload) {
+    try {
+      const recording = await recordingService.respondToRequest(
+        data.recordingId,
+        socket.userId!,
+        data.granted,
+        this.consentContext(socket)
+      );
+      this.emitRecordingState(recording);
+      return recording;
+
+    } catch (error) {
+      console.error('Error recording consent:', error);
+      throw toSocketError(error, 'Failed to record consent', true);
+    }
+  }
+
+  async handleRecordingStop(socket: AuthenticatedSocket, data: RecordingRef) {
+    try {
+      const recording = await recordingService.stopRecording(data.recordingId, socket.userId!, this.consentContext(socket));
+      this.emitRecordingState(recording);
+      return recording;
+
+    } catch (error) {
+      console.error('Error stopping consultation recording:', error);
+      throw toSocketError(error, 'Failed to stop recording', true);
     }
   }
 
-  private async processConsultationPayment(sessionId: string) {
-    // Implementation for payment processing
-    // This would integrate with your payment service
-    console.log('Processing consultation payment for session:', sessionId);
+  // Each client steps its own call down on a weak connection and back up when
+  // it recovers; the others in the room lower what they send it to match
+  async handleMediaMode(socket: AuthenticatedSocket, data: MediaModePayload) {
+    try {
+      this.assertInRoom(socket, data.sessionId);
+
+      const change = await consultationRoomService.recordMediaMode(socket.userId!, data);
+      if (change) {
+        socket.to(`consultation:${data.sessionId}`).emit('consultation:media_mode', {
+          sessionId: data.sessionId,
+          userId: socket.userId!,
+          mode: data.mode,
+          changedAt: change.createdAt.toISOString()
+        });
+      }
+
+      return { mode: data.mode };
+
+    } catch (error) {
+      console.error('Error recording media mode:', error);
+      throw toSocketError(error, 'Failed to record media mode');
+    }
+  }
+
+  private emitRecordingState(recording: RecordingSummary) {
+    this.io.to(`consultation:${recording.sessionId}`).emit('consultation:recording:state', {
+      sessionId: recording.sessionId,
+      recording
+    });
+  }
+
+  // The room's flags track the patient and physician; guests have their own rows
+  private async updatePresence(access: RoomAccess, joined: boolean) {
+    if (access.role === 'patient' || access.role === 'physician') {
+      await this.prisma.consultationRoom.update({
+        where: { sessionId: access.session.id },
+        data: access.role === 'patient' ? { patientJoined: joined } : { physicianJoined: joined }
+      });
+    } else {
+      await consultationRoomService.markPresence(access, joined);
+    }
+  }
+
+  private async assertHost(socket: AuthenticatedSocket, sessionId: string) {
+    const access = await consultationRoomService.getAccess(sessionId, socket.userId!);
+
+    if (!access) {
+      throw new SocketEventError('NOT_FOUND', 'Session not found');
+    }
+    if (access.role !== 'patient' && access.role !== 'physician') {
+      throw new SocketEventError('FORBIDDEN', 'Only the patient or physician can start or end the consultation');
+    }
+  }
+
+  private assertInRoom(socket: AuthenticatedSocket, sessionId: string) {
+    if (!socket.rooms.has(`consultation:${sessionId}`)) {
+      throw new SocketEventError('FORBIDDEN', 'Join the consultation room first');
+    }
+  }
+
+  // The session's patient or physician, or a guest who has not been removed
+  private async isSignalTarget(sessionId: string, targetUserId: string): Promise<boolean> {
+    return !!await consultationRoomService.getAccess(sessionId, targetUserId);
+  }
+
+  private emitBilling(billing: BillingSummary) {
+    this.io.to(`consultation:${billing.sessionId}`).emit('consultation:billing', billing);
+  }
+
+  private consentContext(socket: AuthenticatedSocket): ConsentContext {
+    return {
+      ipAddress: socket.handshake.address,
+      userAgent: socket.handshake.headers['user-agent']
+    };
   }
 }
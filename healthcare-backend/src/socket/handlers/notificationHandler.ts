@@ -1,6 +1,11 @@
 import { type Server as SocketIOServer } from 'socket.io';
 import { PrismaClient } from '@prisma/client';
 import { type AuthenticatedSocket } from '../socketServer.js';
+import { toSocketError } from '../socketErrors.js';
+import type { NotificationsMarkReadPayload, NotificationsSubscribePayload } from '../events.js';
+import { NotificationService, type NotificationInput } from '../../services/notificationService.js';
+
+const notificationService = new NotificationService();
 
 export class NotificationHandler {
   constructor(
@@ -8,7 +13,7 @@ export class NotificationHandler {
     private prisma: PrismaClient
   ) {}
 
-  handleSubscribe(socket: AuthenticatedSocket, data: { channels?: string[] }) {
+  handleSubscribe(socket: AuthenticatedSocket, data: NotificationsSubscribePayload) {
     const { channels = [] } = data;
 
     // Subscribe to user-specific notifications
@@ -17,24 +22,22 @@ export class NotificationHandler {
     // Subscribe to role-based notifications
     socket.join(`notifications:role:${socket.userRole}`);
 
-    // Subscribe to custom channels
+    // Subscribe to category topics; validation only lets category names
+    // through, so no other user's or role's room can be named here
     channels.forEach(channel => {
-      socket.join(`notifications:${channel}`);
+      socket.join(`notifications:topic:${channel}`);
     });
 
     socket.emit('notifications:subscribed', {
       channels: [
         `notifications:${socket.userId}`,
         `notifications:role:${socket.userRole}`,
-        ...channels.map(c => `notifications:${c}`)
+        ...channels.map(c => `notifications:topic:${c}`)
       ]
     });
   }
 
-  async handleMarkAsRead(socket: AuthenticatedSocket, data: {
-    notificationId?: string;
-    markAllAsRead?: boolean;
-  }) {
+  async handleMarkAsRead(socket: AuthenticatedSocket, data: NotificationsMarkReadPayload) {
     try {
       const { notificationId, markAllAsRead } = data;
 
@@ -63,38 +66,15 @@ export class NotificationHandler {
 
     } catch (error) {
       console.error('Error marking notification as read:', error);
+      throw toSocketError(error, 'Failed to mark notification as read');
     }
   }
 
-  // Method to send notification from other parts of the application
-  async sendNotification(
-    userId: string,
-    notification: {
-      type: string;
-      title: string;
-      message: string;
-      data?: Record<string, unknown>;
-    }
-  ) {
+  // Method to send notification from other parts of the application; goes
+  // out on every channel the user has enabled for the category
+  async sendNotification(userId: string, notification: NotificationInput) {
     try {
-      // Save to database
-      const savedNotification = await this.prisma.notification.create({
-        data: {
-          userId,
-          type: notification.type,
-          title: notification.title,
-          message: notification.message,
-          read: false
-        }
-      });
-
-      // Send via Socket.IO
-      this.io.to(`notifications:${userId}`).emit('notification:new', {
-        ...savedNotification,
-        data: notification.data
-      });
-
-      return savedNotification;
+      return await notificationService.notify(userId, notification);
     } catch (error) {
       console.error('Error sending notification:', error);
     }
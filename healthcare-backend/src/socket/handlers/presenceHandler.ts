@@ -1,102 +1,176 @@
 import { type Server as SocketIOServer } from 'socket.io';
 import { PrismaClient } from '@prisma/client';
 import { type AuthenticatedSocket } from '../socketServer.js';
+import type { PresenceState, PresenceStore } from '../adapters/index.js';
+import { PresenceScopeService } from '../../services/presenceScopeService.js';
+import type { PresenceQueryPayload, PresenceStatusPayload, PresenceVisibilityPayload } from '../events.js';
 
-interface Presence {
-  status: 'online' | 'away' | 'busy' | 'offline';
-  lastSeen: Date;
-  socketIds: Set<string>;
+const presenceScopeService = new PresenceScopeService();
+
+interface PresenceUpdate {
+  userId: string;
+  status: string;
+  lastSeen: Date | null;
 }
 
 export class PresenceHandler {
-  private userPresence = new Map<string, Presence>();
-
   constructor(
     private io: SocketIOServer,
-    private prisma: PrismaClient
+    private prisma: PrismaClient,
+    private store: PresenceStore
   ) {}
 
-  handleConnection(socket: AuthenticatedSocket) {
+  async handleConnection(socket: AuthenticatedSocket) {
     const userId = socket.userId!;
-    
-    if (!this.userPresence.has(userId)) {
-      this.userPresence.set(userId, {
-        status: 'online',
-        lastSeen: new Date(),
-        socketIds: new Set()
-      });
-    }
-
-    const presence = this.userPresence.get(userId)!;
-    presence.socketIds.add(socket.id);
-    presence.status = 'online';
-    presence.lastSeen = new Date();
-
-    // Broadcast presence update
-    this.broadcastPresenceUpdate(userId, presence);
 
     // Handle status changes
-    socket.on('presence:status', (data: { status: 'online' | 'away' | 'busy' }) => {
+    socket.on('presence:status', (data: PresenceStatusPayload) => {
       this.handleStatusChange(socket, data.status);
     });
+
+    // Hide from (or reappear to) everyone
+    socket.on('presence:visibility', (data: PresenceVisibilityPayload) => {
+      this.handleVisibilityChange(socket, data.hidden);
+    });
+
+    // Presence of specific users, limited to those this user may see
+    socket.on('presence:query', (data: PresenceQueryPayload) => {
+      this.handleQuery(socket, data.userIds);
+    });
+
+    try {
+      const presence = await this.store.addConnection(userId, socket.id);
+
+      await this.broadcastPresenceUpdate(userId, presence);
+    } catch (error) {
+      console.error('Error recording presence:', error);
+    }
   }
 
-  handleDisconnection(socket: AuthenticatedSocket) {
+  async handleDisconnection(socket: AuthenticatedSocket) {
     const userId = socket.userId!;
-    const presence = this.userPresence.get(userId);
-
-    if (presence) {
-      presence.socketIds.delete(socket.id);
-      
-      // If no more active connections, mark as offline
-      if (presence.socketIds.size === 0) {
-        presence.status = 'offline';
-        presence.lastSeen = new Date();
-        
-        // Set a timeout to remove from memory if still offline
-        setTimeout(() => {
-          const currentPresence = this.userPresence.get(userId);
-          if (currentPresence && currentPresence.status === 'offline') {
-            this.userPresence.delete(userId);
-          }
-        }, 300000); // 5 minutes
+
+    try {
+      const presence = await this.store.removeConnection(userId, socket.id);
+
+      if (presence) {
+        await this.broadcastPresenceUpdate(userId, presence);
       }
+    } catch (error) {
+      console.error('Error clearing presence:', error);
+    }
+  }
 
-      this.broadcastPresenceUpdate(userId, presence);
+  private async handleStatusChange(socket: AuthenticatedSocket, status: 'online' | 'away' | 'busy') {
+    const userId = socket.userId!;
+
+    try {
+      const presence = await this.store.setStatus(userId, status);
+
+      if (presence) {
+        await this.broadcastPresenceUpdate(userId, presence);
+      }
+    } catch (error) {
+      console.error('Error updating presence status:', error);
     }
   }
 
-  private handleStatusChange(socket: AuthenticatedSocket, status: 'online' | 'away' | 'busy') {
+  private async handleVisibilityChange(socket: AuthenticatedSocket, hidden: boolean) {
     const userId = socket.userId!;
-    const presence = this.userPresence.get(userId);
 
-    if (presence) {
-      presence.status = status;
-      presence.lastSeen = new Date();
-      this.broadcastPresenceUpdate(userId, presence);
+    try {
+      const profile = await this.prisma.profile.update({
+        where: { userId },
+        data: { presenceHidden: hidden }
+      });
+
+      // Hiding looks like going offline; reappearing restores the real state
+      const update = hidden
+        ? this.hiddenUpdate(userId)
+        : this.toUpdate(userId, await this.getPresence(userId));
+      const { audience } = await presenceScopeService.getScope(profile);
+      this.emitToUsers(audience, update);
+
+      this.io.to(`user:${userId}`).emit('presence:visibility', { hidden });
+    } catch (error) {
+      console.error('Error updating presence visibility:', error);
+      socket.emit('error', { message: 'Failed to update presence visibility' });
     }
   }
 
-  private broadcastPresenceUpdate(userId: string, presence: Presence) {
-    // Broadcast to relevant users (contacts, active conversations, etc.)
-    this.io.emit('presence:update', {
+  private async handleQuery(socket: AuthenticatedSocket, userIds: string[]) {
+    try {
+      const profile = await this.prisma.profile.findUnique({ where: { userId: socket.userId! } });
+      const { visible } = profile ? await presenceScopeService.getScope(profile) : { visible: [] };
+      const visibleIds = new Set(visible);
+      const requested = [...new Set(userIds)].filter(id => visibleIds.has(id));
+
+      const hidden = new Set((await this.prisma.profile.findMany({
+        where: { userId: { in: requested }, presenceHidden: true },
+        select: { userId: true }
+      })).map(profile => profile.userId));
+
+      // Users outside this user's scope are left out entirely
+      const presence: Record<string, PresenceUpdate> = {};
+      for (const id of requested) {
+        presence[id] = hidden.has(id)
+          ? this.hiddenUpdate(id)
+          : this.toUpdate(id, await this.getPresence(id));
+      }
+
+      socket.emit('presence:state', { presence });
+    } catch (error) {
+      console.error('Error querying presence:', error);
+      socket.emit('error', { message: 'Failed to query presence' });
+    }
+  }
+
+  // Only users with a care relationship hear about changes. The user's own
+  // devices always get their real state, even while hidden.
+  private async broadcastPresenceUpdate(userId: string, presence: PresenceState) {
+    const update = this.toUpdate(userId, presence);
+    this.io.to(`user:${userId}`).emit('presence:update', update);
+
+    const profile = await this.prisma.profile.findUnique({ where: { userId } });
+    if (!profile || profile.presenceHidden) {
+      return;
+    }
+
+    const { audience } = await presenceScopeService.getScope(profile);
+    this.emitToUsers(audience, update);
+  }
+
+  private emitToUsers(userIds: string[], update: PresenceUpdate) {
+    if (userIds.length > 0) {
+      this.io.to(userIds.map(id => `user:${id}`)).emit('presence:update', update);
+    }
+  }
+
+  private toUpdate(userId: string, presence: PresenceState): PresenceUpdate {
+    return {
       userId,
       status: presence.status,
       lastSeen: presence.lastSeen
-    });
+    };
+  }
+
+  // Hidden users look offline, without revealing when they were last around
+  private hiddenUpdate(userId: string): PresenceUpdate {
+    return { userId, status: 'offline', lastSeen: null };
   }
 
-  getPresence(userId: string) {
-    return this.userPresence.get(userId) || {
+  async getPresence(userId: string): Promise<PresenceState> {
+    return await this.store.get(userId) ?? {
       status: 'offline',
       lastSeen: new Date(),
-      socketIds: new Set()
+      connections: 0
     };
   }
 
-  getAllPresence() {
+  async getAllPresence() {
     const presence: Record<string, { status: string; lastSeen: Date }> = {};
-    this.userPresence.forEach((value, key) => {
+    const all = await this.store.getAll();
+    Object.entries(all).forEach(([key, value]) => {
       presence[key] = {
         status: value.status,
         lastSeen: value.lastSeen
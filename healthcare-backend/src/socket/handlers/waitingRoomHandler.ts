@@ -0,0 +1,74 @@
+import { type Server as SocketIOServer } from 'socket.io';
+import { PrismaClient } from '@prisma/client';
+import { type AuthenticatedSocket } from '../socketServer.js';
+import { SocketEventError, toSocketError } from '../socketErrors.js';
+import { waitingRoomService } from '../../services/waitingRoomService.js';
+import type { ConsultationRef, WaitingRoomCheckInPayload } from '../events.js';
+
+export class WaitingRoomHandler {
+  constructor(
+    private io: SocketIOServer,
+    private prisma: PrismaClient
+  ) {}
+
+  async handleCheckIn(socket: AuthenticatedSocket, data: WaitingRoomCheckInPayload) {
+    try {
+      return await waitingRoomService.checkIn(socket.userId!, data);
+
+    } catch (error) {
+      console.error('Error checking in to waiting room:', error);
+      throw toSocketError(error, 'Failed to check in', true);
+    }
+  }
+
+  async handleLeave(socket: AuthenticatedSocket, data: ConsultationRef) {
+    try {
+      const status = await waitingRoomService.leave(data.sessionId, socket.userId!);
+
+      if (!status) {
+        throw new SocketEventError('NOT_FOUND', 'You are not in this waiting room');
+      }
+
+      return status;
+
+    } catch (error) {
+      console.error('Error leaving waiting room:', error);
+      throw toSocketError(error, 'Failed to leave waiting room');
+    }
+  }
+
+  async handleAdmit(socket: AuthenticatedSocket, data: ConsultationRef) {
+    try {
+      this.assertPhysician(socket);
+
+      const status = await waitingRoomService.admit(data.sessionId, socket.userId!);
+
+      if (!status) {
+        throw new SocketEventError('NOT_FOUND', 'Patient not found in your waiting room');
+      }
+
+      return status;
+
+    } catch (error) {
+      console.error('Error admitting patient:', error);
+      throw toSocketError(error, 'Failed to admit patient', true);
+    }
+  }
+
+  async handleQueue(socket: AuthenticatedSocket) {
+    try {
+      this.assertPhysician(socket);
+      return await waitingRoomService.getQueue(socket.userId!);
+
+    } catch (error) {
+      console.error('Error loading waiting room queue:', error);
+      throw toSocketError(error, 'Failed to load waiting room');
+    }
+  }
+
+  private assertPhysician(socket: AuthenticatedSocket) {
+    if (socket.userRole !== 'physician') {
+      throw new SocketEventError('FORBIDDEN', 'Only physicians can manage the waiting room');
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { SOCKET_CONFIG } from '../config/socketConfig.js';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimit {
+  capacity: number; // Burst size
+  refillPerSecond: number;
+}
+
+// Token buckets per user and event type. Buckets live on the instance the
+// user is connected to, so each instance enforces its own share.
+export class SocketRateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(
+    private limits: Record<string, RateLimit> = SOCKET_CONFIG.rateLimits.events,
+    private defaultLimit: RateLimit = SOCKET_CONFIG.rateLimits.default
+  ) {
+    // Full buckets carry no state worth keeping
+    this.sweepTimer = setInterval(() => this.sweep(), SOCKET_CONFIG.rateLimits.sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  // Takes a token, or returns how long until one is available
+  take(userId: string, event: string): { allowed: true } | { allowed: false; retryAfterMs: number } {
+    const limit = this.limitFor(event);
+    const key = `${userId}:${event}`;
+    const now = Date.now();
+
+    const bucket = this.buckets.get(key) ?? { tokens: limit.capacity, updatedAt: now };
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, retryAfterMs: Math.ceil(((1 - bucket.tokens) / limit.refillPerSecond) * 1000) };
+    }
+
+    bucket.tokens -= 1;
+    return { allowed: true };
+  }
+
+  close() {
+    clearInterval(this.sweepTimer);
+    this.buckets.clear();
+  }
+
+  private limitFor(event: string): RateLimit {
+    return this.limits[event] ?? this.defaultLimit;
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      const limit = this.limitFor(key.slice(key.indexOf(':') + 1));
+      const refilled = bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond;
+      if (refilled >= limit.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
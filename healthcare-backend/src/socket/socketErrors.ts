@@ -0,0 +1,38 @@
+import type { SocketErrorCode, SocketErrorPayload } from './events.js';
+
+export type { SocketAck, SocketErrorCode, SocketErrorPayload } from './events.js';
+
+export class SocketEventError extends Error {
+  constructor(
+    public code: SocketErrorCode,
+    message: string,
+    public details?: unknown,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'SocketEventError';
+  }
+
+  toPayload(): SocketErrorPayload {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.details !== undefined ? { details: this.details } : {}),
+      ...(this.retryAfterMs !== undefined ? { retryAfterMs: this.retryAfterMs } : {})
+    };
+  }
+}
+
+// Handler failures that are not already a SocketEventError. Service errors
+// carry user-facing messages only where `exposeMessage` says so.
+export function toSocketError(error: unknown, fallbackMessage: string, exposeMessage = false): SocketEventError {
+  if (error instanceof SocketEventError) {
+    return error;
+  }
+
+  if (exposeMessage && error instanceof Error) {
+    return new SocketEventError('BAD_REQUEST', error.message);
+  }
+
+  return new SocketEventError('INTERNAL_ERROR', fallbackMessage);
+}
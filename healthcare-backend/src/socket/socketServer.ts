@@ -2,10 +2,22 @@ import { Server as SocketIOServer, type Socket } from 'socket.io';
 import { type Server as HTTPServer } from 'http';
 import { PrismaClient } from '@prisma/client';
 import { verifyAccessToken } from '../utils/tokenUtils.js';
+import { SOCKET_CONFIG } from '../config/socketConfig.js';
+import { createSocketAdapter, type SocketAdapter } from './adapters/index.js';
 import { ChatHandler } from './handlers/chatHandler.js';
 import { ConsultationHandler } from './handlers/consultationHandler.js';
 import { NotificationHandler } from './handlers/notificationHandler.js';
 import { PresenceHandler } from './handlers/presenceHandler.js';
+import { WaitingRoomHandler } from './handlers/waitingRoomHandler.js';
+import { SocketRateLimiter } from './rateLimiter.js';
+import { SocketEventError, toSocketError, type SocketAck } from './socketErrors.js';
+import type { ClientEventName, ClientEventPayload } from './events.js';
+import { validateSocketEvent } from '../utils/validation.js';
+import { encodeMessageCursor } from '../services/chatService.js';
+import { inAppChannel } from '../services/notificationChannels/index.js';
+import { consultationRoomService } from '../services/consultationRoomService.js';
+import { waitingRoomService } from '../services/waitingRoomService.js';
+import type { NotificationInput } from '../services/notificationService.js';
 
 const prisma = new PrismaClient();
 
@@ -16,19 +28,14 @@ export interface Profile {
   // Add other profile properties as needed
 }
 
+type AckCallback = (response: SocketAck) => void;
+
 export interface AuthenticatedSocket extends Socket {
   userId?: string;
   userRole?: string;
   profile?: Profile;
 }
 
-interface NotificationPayload {
-  type: string;
-  title: string;
-  message: string;
-  data?: unknown;
-}
-
 interface ChatMessagePayload {
   message: {
     id: string;
@@ -58,8 +65,16 @@ export class SocketServer {
   private consultationHandler: ConsultationHandler;
   private notificationHandler: NotificationHandler;
   private presenceHandler: PresenceHandler;
+  private waitingRoomHandler: WaitingRoomHandler;
+  private rateLimiter = new SocketRateLimiter();
+  private draining = false;
+  // Presence updates still being written for closed sockets
+  private pendingDisconnects = new Set<Promise<void>>();
+
+  // Resolves once the adapter is connected; wait for it before listening
+  readonly ready: Promise<void>;
 
-  constructor(httpServer: HTTPServer) {
+  constructor(httpServer: HTTPServer, private adapter: SocketAdapter = createSocketAdapter()) {
     this.io = new SocketIOServer(httpServer, {
       cors: {
         origin: process.env.CLIENT_ORIGIN || "http://localhost:3000",
@@ -72,13 +87,30 @@ export class SocketServer {
     this.chatHandler = new ChatHandler(this.io, prisma);
     this.consultationHandler = new ConsultationHandler(this.io, prisma);
     this.notificationHandler = new NotificationHandler(this.io, prisma);
-    this.presenceHandler = new PresenceHandler(this.io, prisma);
+    this.presenceHandler = new PresenceHandler(this.io, prisma, adapter.presence);
+    this.waitingRoomHandler = new WaitingRoomHandler(this.io, prisma);
+
+    // In-app notifications from anywhere in the process reach open sessions
+    inAppChannel.attach(this.io);
+    // So do participant changes made over REST, e.g. accepted invitations
+    consultationRoomService.attach(this.io);
+    waitingRoomService.attach(this.io);
+
+    this.ready = adapter.attach(this.io);
 
     this.setupMiddleware();
     this.setupEventHandlers();
   }
 
   private setupMiddleware() {
+    // Turn new clients away while shutting down so they connect to another instance
+    this.io.use((socket, next) => {
+      if (this.draining) {
+        return next(new Error('Server is shutting down'));
+      }
+      next();
+    });
+
     // Authentication middleware
     this.io.use(async (socket: AuthenticatedSocket, next) => {
       try {
@@ -109,12 +141,6 @@ export class SocketServer {
         next(new Error('Invalid authentication token'));
       }
     });
-
-    // Rate limiting middleware
-    this.io.use((socket, next) => {
-      // Implement rate limiting logic here
-      next();
-    });
   }
 
   private setupEventHandlers() {
@@ -124,18 +150,23 @@ export class SocketServer {
       // Join user to their personal room for notifications
       socket.join(`user:${socket.userId}`);
 
+      this.guardEvents(socket);
+
       // Handle presence
       this.presenceHandler.handleConnection(socket);
 
       // Setup event handlers
       this.setupChatEvents(socket);
       this.setupConsultationEvents(socket);
+      this.setupWaitingRoomEvents(socket);
       this.setupNotificationEvents(socket);
 
       // Handle disconnection
       socket.on('disconnect', () => {
         console.log(`User ${socket.userId} disconnected`);
-        this.presenceHandler.handleDisconnection(socket);
+        const pending = this.presenceHandler.handleDisconnection(socket);
+        this.pendingDisconnects.add(pending);
+        pending.finally(() => this.pendingDisconnects.delete(pending));
       });
 
       // Handle errors
@@ -147,88 +178,223 @@ export class SocketServer {
 
   private setupChatEvents(socket: AuthenticatedSocket) {
     // Join conversation
-    socket.on('chat:join', (data) => {
-      this.chatHandler.handleJoinConversation(socket, data);
-    });
+    this.on(socket, 'chat:join', (data) =>
+      this.chatHandler.handleJoinConversation(socket, data)
+    );
+
+    // Page through message history
+    this.on(socket, 'chat:history', (data) =>
+      this.chatHandler.handleHistory(socket, data)
+    );
 
     // Leave conversation
-    socket.on('chat:leave', (data) => {
-      this.chatHandler.handleLeaveConversation(socket, data);
-    });
+    this.on(socket, 'chat:leave', (data) =>
+      this.chatHandler.handleLeaveConversation(socket, data)
+    );
 
     // Send message
-    socket.on('chat:message', (data) => {
-      this.chatHandler.handleSendMessage(socket, data);
-    });
+    this.on(socket, 'chat:message', (data) =>
+      this.chatHandler.handleSendMessage(socket, data)
+    );
 
     // Typing indicators
-    socket.on('chat:typing:start', (data) => {
-      this.chatHandler.handleTypingStart(socket, data);
-    });
+    this.on(socket, 'chat:typing:start', (data) =>
+      this.chatHandler.handleTypingStart(socket, data)
+    );
 
-    socket.on('chat:typing:stop', (data) => {
-      this.chatHandler.handleTypingStop(socket, data);
-    });
+    this.on(socket, 'chat:typing:stop', (data) =>
+      this.chatHandler.handleTypingStop(socket, data)
+    );
+
+    // Delivery acknowledgements for received messages
+    this.on(socket, 'chat:delivered', (data) =>
+      this.chatHandler.handleDelivered(socket, data)
+    );
 
     // Mark messages as read
-    socket.on('chat:mark_read', (data) => {
-      this.chatHandler.handleMarkAsRead(socket, data);
-    });
+    this.on(socket, 'chat:mark_read', (data) =>
+      this.chatHandler.handleMarkAsRead(socket, data)
+    );
   }
 
   private setupConsultationEvents(socket: AuthenticatedSocket) {
     // Join consultation room
-    socket.on('consultation:join', (data) => {
-      this.consultationHandler.handleJoinRoom(socket, data);
-    });
+    this.on(socket, 'consultation:join', (data) =>
+      this.consultationHandler.handleJoinRoom(socket, data)
+    );
 
     // Leave consultation room
-    socket.on('consultation:leave', (data) => {
-      this.consultationHandler.handleLeaveRoom(socket, data);
-    });
+    this.on(socket, 'consultation:leave', (data) =>
+      this.consultationHandler.handleLeaveRoom(socket, data)
+    );
 
     // WebRTC signaling
-    socket.on('consultation:offer', (data) => {
-      this.consultationHandler.handleOffer(socket, data);
-    });
+    this.on(socket, 'consultation:offer', (data) =>
+      this.consultationHandler.handleOffer(socket, data)
+    );
 
-    socket.on('consultation:answer', (data) => {
-      this.consultationHandler.handleAnswer(socket, data);
-    });
+    this.on(socket, 'consultation:answer', (data) =>
+      this.consultationHandler.handleAnswer(socket, data)
+    );
 
-    socket.on('consultation:ice-candidate', (data) => {
-      this.consultationHandler.handleIceCandidate(socket, data);
-    });
+    this.on(socket, 'consultation:ice-candidate', (data) =>
+      this.consultationHandler.handleIceCandidate(socket, data)
+    );
 
     // Session control
-    socket.on('consultation:start', (data) => {
-      this.consultationHandler.handleStartSession(socket, data);
-    });
+    this.on(socket, 'consultation:start', (data) =>
+      this.consultationHandler.handleStartSession(socket, data)
+    );
+
+    this.on(socket, 'consultation:end', (data) =>
+      this.consultationHandler.handleEndSession(socket, data)
+    );
+
+    // Recording consent and control
+    this.on(socket, 'consultation:recording:request', (data) =>
+      this.consultationHandler.handleRecordingRequest(socket, data)
+    );
+
+    this.on(socket, 'consultation:recording:consent', (data) =>
+      this.consultationHandler.handleRecordingConsent(socket, data)
+    );
+
+    this.on(socket, 'consultation:recording:stop', (data) =>
+      this.consultationHandler.handleRecordingStop(socket, data)
+    );
+
+    // Media mode changes on weak connections
+    this.on(socket, 'consultation:media_mode', (data) =>
+      this.consultationHandler.handleMediaMode(socket, data)
+    );
+  }
 
-    socket.on('consultation:end', (data) => {
-      this.consultationHandler.handleEndSession(socket, data);
-    });
+  private setupWaitingRoomEvents(socket: AuthenticatedSocket) {
+    // Patients wait here until the physician admits them to the room
+    this.on(socket, 'waiting_room:check_in', (data) =>
+      this.waitingRoomHandler.handleCheckIn(socket, data)
+    );
+
+    this.on(socket, 'waiting_room:leave', (data) =>
+      this.waitingRoomHandler.handleLeave(socket, data)
+    );
+
+    this.on(socket, 'waiting_room:admit', (data) =>
+      this.waitingRoomHandler.handleAdmit(socket, data)
+    );
+
+    this.on(socket, 'waiting_room:queue', () =>
+      this.waitingRoomHandler.handleQueue(socket)
+    );
   }
 
   private setupNotificationEvents(socket: AuthenticatedSocket) {
     // Subscribe to notification channels
-    socket.on('notifications:subscribe', (data) => {
-      this.notificationHandler.handleSubscribe(socket, data);
-    });
+    this.on(socket, 'notifications:subscribe', (data) =>
+      this.notificationHandler.handleSubscribe(socket, data)
+    );
 
     // Mark notification as read
-    socket.on('notifications:mark_read', (data) => {
-      this.notificationHandler.handleMarkAsRead(socket, data);
+    this.on(socket, 'notifications:mark_read', (data) =>
+      this.notificationHandler.handleMarkAsRead(socket, data)
+    );
+  }
+
+  // Every client event is rate limited per user, and events with a schema
+  // are validated before the handler sees the payload
+  private guardEvents(socket: AuthenticatedSocket) {
+    socket.use((packet, next) => {
+      const [event, ...args] = packet;
+      const ack = typeof args[args.length - 1] === 'function' ? args.pop() as AckCallback : undefined;
+
+      const limit = this.rateLimiter.take(socket.userId!, event);
+      if (!limit.allowed) {
+        this.reject(socket, event, new SocketEventError(
+          'RATE_LIMITED',
+          'Too many requests, please slow down',
+          undefined,
+          limit.retryAfterMs
+        ), ack);
+        return;
+      }
+
+      const validation = validateSocketEvent(event, args[0]);
+      if (!validation.isValid) {
+        this.reject(socket, event, new SocketEventError('VALIDATION_ERROR', 'Validation failed', validation.errors), ack);
+        return;
+      }
+
+      packet.splice(1, packet.length - 1, validation.value, ...(ack ? [ack] : []));
+      next();
+    });
+  }
+
+  // Registers a client event and acknowledges its result or failure;
+  // the payload has already been validated against the event's schema
+  private on<E extends ClientEventName>(
+    socket: AuthenticatedSocket,
+    event: E,
+    handler: (data: ClientEventPayload<E>) => unknown
+  ) {
+    socket.on(event as string, async (data: ClientEventPayload<E>, ack?: AckCallback) => {
+      try {
+        const result = await handler(data);
+        ack?.({ success: true, ...(result !== undefined ? { data: result } : {}) });
+      } catch (error) {
+        this.reject(socket, event, toSocketError(error, `Failed to handle ${event}`), ack);
+      }
     });
   }
 
+  // Clients that did not pass an acknowledgement callback get an error event
+  private reject(socket: AuthenticatedSocket, event: string, error: SocketEventError, ack?: AckCallback) {
+    if (ack) {
+      ack({ success: false, error: error.toPayload() });
+    } else {
+      socket.emit('error', { event, ...error.toPayload() });
+    }
+  }
+
+  // Graceful shutdown: ask this instance's clients to reconnect elsewhere, give
+  // them time to move, disconnect whoever is left and release the adapter
+  public async drain(timeoutMs = SOCKET_CONFIG.drainTimeoutMs) {
+    if (this.draining) {
+      return;
+    }
+    this.draining = true;
+
+    const sockets = this.io.of('/').sockets;
+    this.io.local.emit('server:draining', { timeoutMs });
+
+    const deadline = Date.now() + timeoutMs;
+    while (sockets.size > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+
+    if (sockets.size > 0) {
+      console.log(`Disconnecting ${sockets.size} sockets that did not move`);
+      this.io.local.disconnectSockets(true);
+    }
+
+    await Promise.allSettled([...this.pendingDisconnects]);
+    this.rateLimiter.close();
+    await this.adapter.close();
+  }
+
+  public getPresence(userId: string) {
+    return this.presenceHandler.getPresence(userId);
+  }
+
   // Public methods for sending events from other parts of the application
-  public sendNotification(userId: string, notification: NotificationPayload) {
-    this.io.to(`user:${userId}`).emit('notification:new', notification);
+  public sendNotification(userId: string, notification: NotificationInput) {
+    return this.notificationHandler.sendNotification(userId, notification);
   }
 
   public sendChatMessage(conversationId: string, message: ChatMessagePayload) {
-    this.io.to(`conversation:${conversationId}`).emit('chat:message:new', message);
+    this.io.to(`conversation:${conversationId}`).emit('chat:message:new', {
+      ...message,
+      cursor: encodeMessageCursor(message.message)
+    });
   }
 
   public broadcastConsultationUpdate(sessionId: string, update: ConsultationUpdatePayload) {
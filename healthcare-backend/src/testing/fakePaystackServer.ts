@@ -0,0 +1,444 @@
+import express, { type Response } from 'express';
+import crypto from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { WebhookPayload } from '../services/webhookEventService.js';
+
+interface StoredTransaction {
+  id: number;
+  reference: string;
+  email: string;
+  amount: number; // Amount in kobo
+  currency: string;
+  metadata: Record<string, unknown>;
+  plan: string | null;
+  status: 'abandoned' | 'success' | 'failed';
+  refunded: number; // Amount in kobo
+  paidAt: string | null;
+}
+
+interface StoredTransfer {
+  id: number;
+  transferCode: string;
+  reference: string;
+  recipient: string;
+  amount: number; // Amount in kobo
+  reason: string | null;
+  status: 'pending' | 'success' | 'failed' | 'reversed';
+}
+
+interface StoredRecipient {
+  recipientCode: string;
+  name: string;
+  accountNumber: string;
+  bankCode: string;
+}
+
+export interface FakePaystackOptions {
+  // Secret used to sign webhooks; must match PAYSTACK_WEBHOOK_SECRET in the app
+  webhookSecret: string;
+  // Where webhooks are delivered, e.g. http://localhost:3000/api/payments/webhook
+  webhookUrl?: string | undefined;
+}
+
+export interface DeliveredWebhook {
+  payload: WebhookPayload;
+  signature: string;
+  // HTTP status returned by the app; null when no webhook URL is configured
+  status: number | null;
+}
+
+const BANKS = [
+  { name: 'Access Bank', code: '044' },
+  { name: 'Guaranty Trust Bank', code: '058' },
+  { name: 'First Bank of Nigeria', code: '011' },
+  { name: 'United Bank For Africa', code: '033' },
+  { name: 'Zenith Bank', code: '057' }
+];
+
+// In-process stand-in for the parts of the Paystack API the backend uses.
+// Point PAYSTACK_BASE_URL at `start()`'s URL, drive the money flows, then
+// settle them with completeCharge/completeTransfer/processRefund, which send
+// correctly signed webhooks back to the app just like Paystack would.
+export class FakePaystackServer {
+  private server: Server | null = null;
+  private sequence = 0;
+  private transactions = new Map<string, StoredTransaction>();
+  private transfers = new Map<string, StoredTransfer>();
+  private recipients = new Map<string, StoredRecipient>();
+  private plans = new Map<string, Record<string, unknown>>();
+  private disabledSubscriptions = new Set<string>();
+
+  // Requests received, newest last, so callers can assert on what was sent
+  readonly requests: Array<{ method: string; path: string; body: unknown }> = [];
+
+  constructor(private options: FakePaystackOptions) {}
+
+  async start(port = 0): Promise<string> {
+    const app = express();
+    app.use(express.json());
+
+    // Control routes stand in for the customer and the bank when the server
+    // runs on its own (see runFakePaystack.ts)
+    app.post('/_control/charges/:reference', (req, res) => {
+      this.control(res, () => this.completeCharge(req.params.reference));
+    });
+
+    app.post('/_control/transfers/:reference', (req, res) => {
+      this.control(res, () => this.completeTransfer(req.params.reference, req.body.outcome, req.body.reason));
+    });
+
+    app.post('/_control/refunds/:reference', (req, res) => {
+      this.control(res, () => this.processRefund(req.params.reference, req.body.amount));
+    });
+
+    app.use((req, res, next) => {
+      this.requests.push({ method: req.method, path: req.path, body: req.body });
+
+      if (!req.headers.authorization?.startsWith('Bearer ')) {
+        return res.status(401).json({ status: false, message: 'Invalid key' });
+      }
+
+      next();
+    });
+
+    app.post('/transaction/initialize', (req, res) => {
+      const { email, amount, reference, currency, metadata, plan } = req.body;
+
+      if (!email || !Number.isInteger(amount) || amount <= 0) {
+        return this.fail(res, 'Invalid email or amount');
+      }
+
+      const ref = reference || `FAKE_${this.nextId()}`;
+      if (this.transactions.has(ref)) {
+        return this.fail(res, 'Duplicate Transaction Reference');
+      }
+
+      this.transactions.set(ref, {
+        id: this.nextId(),
+        reference: ref,
+        email,
+        amount,
+        currency: currency || 'NGN',
+        metadata: metadata ?? {},
+        plan: plan ?? null,
+        status: 'abandoned',
+        refunded: 0,
+        paidAt: null
+      });
+
+      this.ok(res, 'Authorization URL created', {
+        authorization_url: `${this.url}/checkout/${ref}`,
+        access_code: `ac_${ref}`,
+        reference: ref
+      });
+    });
+
+    app.get('/transaction/verify/:reference', (req, res) => {
+      const transaction = this.transactions.get(req.params.reference);
+
+      if (!transaction) {
+        return this.fail(res, 'Transaction reference not found', 404);
+      }
+
+      this.ok(res, 'Verification successful', this.chargeData(transaction));
+    });
+
+    app.post('/refund', (req, res) => {
+      const transaction = this.transactions.get(req.body.transaction);
+
+      if (!transaction || transaction.status !== 'success') {
+        return this.fail(res, 'Transaction has not been paid');
+      }
+
+      const amount = req.body.amount ?? transaction.amount - transaction.refunded;
+      if (transaction.refunded + amount > transaction.amount) {
+        return this.fail(res, 'Refund amount exceeds the transaction amount');
+      }
+
+      transaction.refunded += amount;
+      this.ok(res, 'Refund has been queued for processing', {
+        transaction: { reference: transaction.reference },
+        amount,
+        status: 'pending'
+      });
+    });
+
+    app.post('/transferrecipient', (req, res) => {
+      const { name, account_number: accountNumber, bank_code: bankCode } = req.body;
+
+      if (!name || !accountNumber || !bankCode) {
+        return this.fail(res, 'Invalid recipient details');
+      }
+
+      const recipientCode = `RCP_${this.nextId()}`;
+      this.recipients.set(recipientCode, { recipientCode, name, accountNumber, bankCode });
+      this.ok(res, 'Transfer recipient created successfully', { recipient_code: recipientCode });
+    });
+
+    app.post('/transfer', (req, res) => {
+      const { amount, recipient, reason, reference } = req.body;
+
+      if (!this.recipients.has(recipient)) {
+        return this.fail(res, 'Recipient specified is invalid');
+      }
+
+      const transfer: StoredTransfer = {
+        id: this.nextId(),
+        transferCode: `TRF_${this.nextId()}`,
+        reference: reference || `TRF_REF_${this.nextId()}`,
+        recipient,
+        amount,
+        reason: reason ?? null,
+        status: 'pending'
+      };
+      this.transfers.set(transfer.reference, transfer);
+
+      this.ok(res, 'Transfer has been queued', {
+        transfer_code: transfer.transferCode,
+        reference: transfer.reference,
+        status: 'pending'
+      });
+    });
+
+    // Flutterwave's one-time virtual accounts, which back the bank_transfer
+    // provider; point FLUTTERWAVE_BASE_URL here too. Settle the transfer with
+    // flutterwaveTransferWebhook.
+    app.post('/virtual-account-numbers', (req, res) => {
+      const { email, tx_ref: reference, amount } = req.body;
+
+      if (!email || !reference || !(amount > 0)) {
+        res.status(400).json({ status: 'error', message: 'Invalid virtual account request' });
+        return;
+      }
+
+      res.json({
+        status: 'success',
+        message: 'Virtual account created',
+        data: {
+          account_number: String(this.nextId()).padStart(10, '0'),
+          bank_name: 'WEMA BANK',
+          note: `Please make a bank transfer to ${email}`,
+          expiry_date: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          amount: String(amount)
+        }
+      });
+    });
+
+    app.get('/bank', (_req, res) => {
+      this.ok(res, 'Banks retrieved', BANKS.map(bank => ({
+        ...bank,
+        longcode: '',
+        gateway: 'emandate',
+        pay_with_bank: false,
+        active: true,
+        country: 'Nigeria',
+        currency: 'NGN',
+        type: 'nuban'
+      })));
+    });
+
+    app.get('/bank/resolve', (req, res) => {
+      const accountNumber = String(req.query.account_number ?? '');
+
+      if (!/^\d{10}$/.test(accountNumber) || !BANKS.some(bank => bank.code === req.query.bank_code)) {
+        return this.fail(res, 'Could not resolve account name. Check parameters or try again.', 422);
+      }
+
+      this.ok(res, 'Account number resolved', {
+        account_number: accountNumber,
+        account_name: `TEST ACCOUNT ${accountNumber.slice(-4)}`
+      });
+    });
+
+    app.post('/plan', (req, res) => {
+      const planCode = `PLN_${this.nextId()}`;
+      this.plans.set(planCode, req.body);
+      this.ok(res, 'Plan created', { plan_code: planCode });
+    });
+
+    app.post('/subscription/disable', (req, res) => {
+      this.disabledSubscriptions.add(req.body.code);
+      this.ok(res, 'Subscription disabled successfully', null);
+    });
+
+    app.use((req, res) => this.fail(res, `No fake handler for ${req.method} ${req.path}`, 404));
+
+    await new Promise<void>((resolve) => {
+      this.server = app.listen(port, () => resolve());
+    });
+
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+
+    if (server) {
+      await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+    }
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Fake Paystack server is not running');
+    }
+
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  // Mark an initialized transaction as paid and send charge.success
+  async completeCharge(reference: string): Promise<DeliveredWebhook> {
+    const transaction = this.getTransaction(reference);
+    transaction.status = 'success';
+    transaction.paidAt = new Date().toISOString();
+
+    return this.deliverWebhook({ event: 'charge.success', data: this.chargeData(transaction) });
+  }
+
+  // Settle (or fail) a queued transfer and send the matching transfer event
+  async completeTransfer(
+    reference: string,
+    outcome: 'success' | 'failed' | 'reversed' = 'success',
+    reason?: string
+  ): Promise<DeliveredWebhook> {
+    const transfer = this.transfers.get(reference);
+
+    if (!transfer) {
+      throw new Error(`Unknown fake transfer ${reference}`);
+    }
+
+    transfer.status = outcome;
+
+    return this.deliverWebhook({
+      event: `transfer.${outcome}`,
+      data: {
+        id: transfer.id,
+        reference: transfer.reference,
+        transfer_code: transfer.transferCode,
+        amount: transfer.amount,
+        status: outcome,
+        ...(reason ? { reason } : {})
+      }
+    });
+  }
+
+  // Send refund.processed for a refund requested through POST /refund
+  async processRefund(reference: string, amount?: number): Promise<DeliveredWebhook> {
+    const transaction = this.getTransaction(reference);
+
+    return this.deliverWebhook({
+      event: 'refund.processed',
+      data: {
+        id: this.nextId(),
+        transaction_reference: reference,
+        amount: amount ?? transaction.refunded,
+        status: 'processed'
+      }
+    });
+  }
+
+  // The charge.completed event Flutterwave sends when a transfer into a
+  // virtual account arrives. Like the real one it carries none of the
+  // metadata given when the account was created.
+  flutterwaveTransferWebhook(reference: string, amount: number): Record<string, unknown> {
+    return {
+      event: 'charge.completed',
+      data: {
+        id: this.nextId(),
+        tx_ref: reference,
+        amount: amount / 100,
+        currency: 'NGN',
+        status: 'successful',
+        payment_type: 'bank_transfer',
+        customer: { email: 'transfer@test.heala' }
+      }
+    };
+  }
+
+  // Deliver any payload with a valid (or deliberately wrong) signature
+  async deliverWebhook(payload: WebhookPayload, signature = this.sign(payload)): Promise<DeliveredWebhook> {
+    if (!this.options.webhookUrl) {
+      return { payload, signature, status: null };
+    }
+
+    const response = await fetch(this.options.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-paystack-signature': signature
+      },
+      body: JSON.stringify(payload)
+    });
+
+    return { payload, signature, status: response.status };
+  }
+
+  // Paystack signs the JSON body with HMAC-SHA512 of the secret key
+  sign(payload: unknown): string {
+    return crypto
+      .createHmac('sha512', this.options.webhookSecret)
+      .update(JSON.stringify(payload))
+      .digest('hex');
+  }
+
+  getTransfer(reference: string): StoredTransfer | undefined {
+    return this.transfers.get(reference);
+  }
+
+  isSubscriptionDisabled(code: string): boolean {
+    return this.disabledSubscriptions.has(code);
+  }
+
+  reset(): void {
+    this.transactions.clear();
+    this.transfers.clear();
+    this.recipients.clear();
+    this.plans.clear();
+    this.disabledSubscriptions.clear();
+    this.requests.length = 0;
+  }
+
+  private chargeData(transaction: StoredTransaction): WebhookPayload['data'] {
+    return {
+      id: transaction.id,
+      reference: transaction.reference,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      status: transaction.status,
+      paid_at: transaction.paidAt,
+      customer: { email: transaction.email },
+      metadata: transaction.metadata,
+      ...(transaction.plan ? { plan: { plan_code: transaction.plan } } : {})
+    };
+  }
+
+  private getTransaction(reference: string): StoredTransaction {
+    const transaction = this.transactions.get(reference);
+
+    if (!transaction) {
+      throw new Error(`Unknown fake transaction ${reference}`);
+    }
+
+    return transaction;
+  }
+
+  private control(res: Response, action: () => Promise<DeliveredWebhook>) {
+    action()
+      .then(delivered => this.ok(res, 'Webhook sent', delivered))
+      .catch((error: Error) => this.fail(res, error.message, 404));
+  }
+
+  private nextId(): number {
+    return ++this.sequence;
+  }
+
+  private ok(res: Response, message: string, data: unknown) {
+    res.json({ status: true, message, data });
+  }
+
+  private fail(res: Response, message: string, statusCode = 400) {
+    res.status(statusCode).json({ status: false, message });
+  }
+}
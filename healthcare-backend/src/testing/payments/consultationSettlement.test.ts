@@ -0,0 +1,80 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import { startPaymentTestEnv, type PaymentTestEnv } from '../paymentTestEnv.js';
+
+describe('consultation settlement', () => {
+  let env: PaymentTestEnv;
+
+  before(async () => {
+    env = await startPaymentTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  const platformFees = async () => {
+    const account = await env.prisma.ledgerAccount.findUnique({ where: { code: 'SYS_PLATFORM_FEES' } });
+    return account ? env.ledgerService.getAccountBalance(account.id) : null;
+  };
+
+  it('splits the fee between the physician and the platform', async () => {
+    const patient = await env.createUser();
+    const physician = await env.createUser('PHYSICIAN');
+    await env.fundWallet(patient.userId, patient.email, 2000000);
+    const session = await env.createConsultationSession(patient.userId, physician);
+    const feesBefore = await platformFees();
+
+    await env.paymentService.processConsultationPayment({
+      sessionId: session.id,
+      patientId: patient.userId,
+      physicianId: physician.userId,
+      amount: 1000000
+    });
+
+    // 15% default platform fee, no hospital
+    assert.equal(await env.walletBalance(patient.walletId), '10000.00');
+    assert.equal(await env.walletBalance(physician.walletId), '8500.00');
+    assert.equal((await platformFees())!.minus(feesBefore ?? 0).toFixed(2), '1500.00');
+
+    const updated = await env.prisma.consultationSession.findUniqueOrThrow({ where: { id: session.id } });
+    assert.equal(updated.paymentStatus, 'paid');
+
+    const entry = await env.prisma.journalEntry.findUniqueOrThrow({
+      where: { reference: `CONSULT_${session.id}` },
+      include: { entries: true }
+    });
+    const total = (side: string) => entry.entries
+      .filter(line => line.transactionType === side)
+      .reduce((sum, line) => sum.plus(line.amount), new Prisma.Decimal(0));
+    assert.equal(total('debit').toFixed(2), total('credit').toFixed(2));
+  });
+
+  it('settles a session only once', async () => {
+    const patient = await env.createUser();
+    const physician = await env.createUser('PHYSICIAN');
+    await env.fundWallet(patient.userId, patient.email, 2000000);
+    const session = await env.createConsultationSession(patient.userId, physician);
+    const payment = {
+      sessionId: session.id,
+      patientId: patient.userId,
+      physicianId: physician.userId,
+      amount: 1000000
+    };
+
+    await env.paymentService.processConsultationPayment(payment);
+    await assert.rejects(env.paymentService.processConsultationPayment(payment), /already been posted/);
+
+    assert.equal(await env.walletBalance(patient.walletId), '10000.00');
+    assert.equal(await env.walletBalance(physician.walletId), '8500.00');
+  });
+
+  it('keeps stored wallet balances in line with the ledger', async () => {
+    const report = await env.ledgerService.getReconciliationReport();
+
+    assert.deepEqual(report.discrepancies, []);
+    assert.deepEqual(report.unbalancedEntries, []);
+    assert.equal(report.totals.balanced, true);
+  });
+});
@@ -0,0 +1,80 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RefundService } from '../../services/refundService.js';
+import { startPaymentTestEnv, type PaymentTestEnv } from '../paymentTestEnv.js';
+
+describe('refunds', () => {
+  let env: PaymentTestEnv;
+  let refundService: RefundService;
+
+  before(async () => {
+    env = await startPaymentTestEnv();
+    // Loaded after the environment points at the test database
+    refundService = new (await import('../../services/refundService.js')).RefundService();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  it('debits the wallet when the provider reports a card refund', async () => {
+    const patient = await env.createUser();
+    const reference = await env.fundWallet(patient.userId, patient.email, 500000);
+
+    await env.paymentService.refundPayment(reference, 200000);
+    // Nothing moves until the provider confirms
+    assert.equal(await env.walletBalance(patient.walletId), '5000.00');
+
+    const result = await env.deliver(await env.paystack.processRefund(reference, 200000));
+
+    assert.equal(result.status, 'processed');
+    assert.equal(await env.walletBalance(patient.walletId), '3000.00');
+
+    const refund = await env.prisma.refund.findFirstOrThrow({ where: { patientId: patient.userId } });
+    assert.equal(refund.trigger, 'card_refund');
+    assert.equal(refund.amount.toFixed(2), '2000.00');
+    assert.equal(refund.percent.toFixed(2), '40.00');
+  });
+
+  it('refuses a refund larger than the charge at the provider', async () => {
+    const patient = await env.createUser();
+    const reference = await env.fundWallet(patient.userId, patient.email, 500000);
+
+    await assert.rejects(env.paymentService.refundPayment(reference, 600000), /Refund processing failed/);
+    assert.equal(await env.walletBalance(patient.walletId), '5000.00');
+  });
+
+  it('returns a share of a consultation payment from every leg of the split', async () => {
+    const patient = await env.createUser();
+    const physician = await env.createUser('PHYSICIAN');
+    await env.fundWallet(patient.userId, patient.email, 1000000);
+    const session = await env.createConsultationSession(patient.userId, physician);
+
+    await env.paymentService.processConsultationPayment({
+      sessionId: session.id,
+      patientId: patient.userId,
+      physicianId: physician.userId,
+      amount: 1000000
+    });
+
+    const refund = await refundService.refundConsultation(session.id, {
+      trigger: 'manual',
+      percent: 50,
+      processedBy: 'system'
+    });
+
+    assert.equal(refund.status, 'completed');
+    assert.equal(refund.amount.toFixed(2), '5000.00');
+    assert.equal(await env.walletBalance(patient.walletId), '5000.00');
+    assert.equal(await env.walletBalance(physician.walletId), '4250.00');
+
+    const updated = await env.prisma.consultationSession.findUniqueOrThrow({ where: { id: session.id } });
+    assert.equal(updated.paymentStatus, 'partially_refunded');
+
+    // A partly refunded payment cannot be refunded through this path again
+    await assert.rejects(
+      refundService.refundConsultation(session.id, { trigger: 'manual', percent: 50, processedBy: 'system' }),
+      /cannot be refunded/
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FLUTTERWAVE_WEBHOOK_HASH, startPaymentTestEnv, type PaymentTestEnv } from '../paymentTestEnv.js';
+
+describe('wallet funding', () => {
+  let env: PaymentTestEnv;
+
+  before(async () => {
+    env = await startPaymentTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  it('credits the wallet once the charge.success webhook arrives', async () => {
+    const patient = await env.createUser();
+
+    const { reference, authorizationUrl } = await env.paymentService.fundWallet({
+      userId: patient.userId,
+      email: patient.email,
+      amount: 500000
+    });
+
+    assert.ok(authorizationUrl?.includes(reference));
+    assert.equal(await env.walletBalance(patient.walletId), '0.00');
+
+    const result = await env.deliver(await env.paystack.completeCharge(reference));
+
+    assert.equal(result.status, 'processed');
+    assert.equal(await env.walletBalance(patient.walletId), '5000.00');
+
+    // The pending transaction becomes the wallet's ledger leg
+    const transaction = await env.prisma.walletTransaction.findFirstOrThrow({
+      where: { walletId: patient.walletId, referenceId: reference }
+    });
+    assert.equal(transaction.status, 'completed');
+    assert.notEqual(transaction.journalEntryId, null);
+  });
+
+  it('applies a redelivered webhook only once', async () => {
+    const patient = await env.createUser();
+    const { reference } = await env.paymentService.fundWallet({
+      userId: patient.userId,
+      email: patient.email,
+      amount: 250000
+    });
+
+    const delivered = await env.paystack.completeCharge(reference);
+    await env.deliver(delivered);
+    const retry = await env.deliver(delivered);
+
+    assert.equal(retry.status, 'processed');
+    assert.equal(await env.walletBalance(patient.walletId), '2500.00');
+    assert.equal(await env.prisma.paymentWebhookEvent.count({ where: { reference } }), 1);
+  });
+
+  it('credits a bank transfer whose webhook carries no metadata', async () => {
+    const patient = await env.createUser();
+
+    const { reference, bankAccount } = await env.paymentService.fundWallet({
+      userId: patient.userId,
+      email: patient.email,
+      amount: 300000,
+      provider: 'bank_transfer'
+    });
+
+    assert.ok(bankAccount?.accountNumber);
+
+    const result = await env.paymentService.processWebhook(
+      env.paystack.flutterwaveTransferWebhook(reference, 300000),
+      { 'verif-hash': FLUTTERWAVE_WEBHOOK_HASH },
+      'bank_transfer'
+    );
+
+    assert.equal(result.status, 'processed');
+    assert.equal(await env.walletBalance(patient.walletId), '3000.00');
+  });
+
+  it('refuses amounts outside the funding limits', async () => {
+    const patient = await env.createUser();
+
+    await assert.rejects(
+      env.paymentService.fundWallet({ userId: patient.userId, email: patient.email, amount: 5000 }),
+      /Minimum funding amount/
+    );
+    assert.equal(await env.prisma.walletTransaction.count({ where: { walletId: patient.walletId } }), 0);
+  });
+});
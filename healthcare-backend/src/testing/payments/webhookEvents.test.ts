@@ -0,0 +1,70 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startPaymentTestEnv, type PaymentTestEnv } from '../paymentTestEnv.js';
+
+describe('webhook event processing', () => {
+  let env: PaymentTestEnv;
+
+  before(async () => {
+    env = await startPaymentTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  // A charge whose event was claimed by a worker that never finished
+  const stuckCharge = async (claimedAt: Date) => {
+    const patient = await env.createUser();
+    const { reference } = await env.paymentService.fundWallet({
+      userId: patient.userId,
+      email: patient.email,
+      amount: 100000
+    });
+    const delivered = await env.paystack.completeCharge(reference);
+
+    const event = await env.prisma.paymentWebhookEvent.create({
+      data: {
+        provider: 'paystack',
+        eventKey: `paystack:charge.success:${delivered.payload.data.id}`,
+        event: 'charge.success',
+        reference,
+        payload: JSON.parse(JSON.stringify(delivered.payload)),
+        status: 'processing',
+        attempts: 1,
+        updatedAt: claimedAt
+      }
+    });
+
+    return { patient, delivered, event };
+  };
+
+  it('leaves an event another worker is applying alone', async () => {
+    const { patient, delivered, event } = await stuckCharge(new Date());
+
+    const result = await env.deliver(delivered);
+
+    assert.equal(result.status, 'processing');
+    await assert.rejects(env.paymentService.replayWebhookEvent(event.id), /already processing/);
+    assert.equal(await env.walletBalance(patient.walletId), '0.00');
+  });
+
+  it('takes over an event left processing past the timeout on redelivery', async () => {
+    const { patient, delivered } = await stuckCharge(new Date(Date.now() - 60 * 60 * 1000));
+
+    const result = await env.deliver(delivered);
+
+    assert.equal(result.status, 'processed');
+    assert.equal(await env.walletBalance(patient.walletId), '1000.00');
+  });
+
+  it('lets an admin replay an event left processing past the timeout', async () => {
+    const { patient, event } = await stuckCharge(new Date(Date.now() - 60 * 60 * 1000));
+
+    const result = await env.paymentService.replayWebhookEvent(event.id);
+
+    assert.equal(result.status, 'processed');
+    assert.equal(await env.walletBalance(patient.walletId), '1000.00');
+    assert.equal((await env.prisma.paymentWebhookEvent.findUniqueOrThrow({ where: { id: event.id } })).attempts, 2);
+  });
+});
@@ -0,0 +1,61 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startPaymentTestEnv, type PaymentTestEnv } from '../paymentTestEnv.js';
+
+describe('webhook signatures', () => {
+  let env: PaymentTestEnv;
+
+  before(async () => {
+    env = await startPaymentTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  it('refuses a payload altered after signing', async () => {
+    const patient = await env.createUser();
+    const { reference } = await env.paymentService.fundWallet({
+      userId: patient.userId,
+      email: patient.email,
+      amount: 100000
+    });
+
+    const delivered = await env.paystack.completeCharge(reference);
+    const tampered = {
+      ...delivered,
+      payload: { ...delivered.payload, data: { ...delivered.payload.data, amount: 10000000 } }
+    };
+
+    await assert.rejects(env.deliver(tampered), /Invalid webhook signature/);
+    assert.equal(await env.prisma.paymentWebhookEvent.count({ where: { reference } }), 0);
+    assert.equal(await env.walletBalance(patient.walletId), '0.00');
+  });
+
+  it('refuses a payload signed with another secret', async () => {
+    const patient = await env.createUser();
+    const { reference } = await env.paymentService.fundWallet({
+      userId: patient.userId,
+      email: patient.email,
+      amount: 100000
+    });
+
+    const delivered = await env.paystack.completeCharge(reference);
+
+    await assert.rejects(env.deliver({ ...delivered, signature: 'f'.repeat(128) }), /Invalid webhook signature/);
+    await assert.rejects(
+      env.paymentService.processWebhook(delivered.payload, {}),
+      /Invalid webhook signature/
+    );
+    assert.equal(await env.walletBalance(patient.walletId), '0.00');
+  });
+
+  it('refuses providers that are not enabled', async () => {
+    const delivered = await env.paystack.deliverWebhook({ event: 'charge.success', data: { id: 1, reference: 'UNUSED' } });
+
+    await assert.rejects(
+      env.paymentService.processWebhook(delivered.payload, { 'x-paystack-signature': delivered.signature }, 'fake'),
+      /Payment provider fake is not enabled/
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startPaymentTestEnv, type PaymentTestEnv } from '../paymentTestEnv.js';
+
+describe('withdrawal transfers', () => {
+  let env: PaymentTestEnv;
+
+  before(async () => {
+    env = await startPaymentTestEnv();
+  });
+
+  after(async () => {
+    await env.stop();
+  });
+
+  // A physician with ₦10,000 and an auto-approved ₦2,000 withdrawal in flight
+  const startWithdrawal = async () => {
+    const physician = await env.createUser('PHYSICIAN');
+    await env.fundWallet(physician.userId, physician.email, 1000000);
+
+    const withdrawal = await env.withdrawalService.requestWithdrawal({
+      userId: physician.userId,
+      amount: 2000,
+      bankCode: '058',
+      accountNumber: '0123456789'
+    });
+
+    return { physician, withdrawal };
+  };
+
+  it('holds the funds and starts the transfer', async () => {
+    const { physician, withdrawal } = await startWithdrawal();
+
+    assert.equal(withdrawal.status, 'processing');
+    assert.equal(withdrawal.accountName, 'TEST ACCOUNT 6789');
+    assert.notEqual(withdrawal.transferCode, null);
+    assert.equal(await env.walletBalance(physician.walletId), '8000.00');
+
+    const transfer = env.paystack.getTransfer(withdrawal.transferReference);
+    assert.equal(transfer?.amount, 200000);
+    assert.equal(transfer?.status, 'pending');
+  });
+
+  it('completes the withdrawal when the transfer succeeds', async () => {
+    const { physician, withdrawal } = await startWithdrawal();
+
+    const delivered = await env.paystack.completeTransfer(withdrawal.transferReference);
+    await env.deliver(delivered);
+    // Redelivery changes nothing
+    await env.deliver(delivered);
+
+    const settled = await env.prisma.withdrawalRequest.findUniqueOrThrow({ where: { id: withdrawal.id } });
+    assert.equal(settled.status, 'completed');
+    assert.equal(await env.walletBalance(physician.walletId), '8000.00');
+    assert.notEqual(
+      await env.prisma.journalEntry.findUnique({ where: { reference: `${withdrawal.transferReference}_SETTLE` } }),
+      null
+    );
+  });
+
+  it('returns the funds when the transfer fails', async () => {
+    const { physician, withdrawal } = await startWithdrawal();
+
+    await env.deliver(await env.paystack.completeTransfer(withdrawal.transferReference, 'failed', 'Account closed'));
+
+    const failed = await env.prisma.withdrawalRequest.findUniqueOrThrow({ where: { id: withdrawal.id } });
+    assert.equal(failed.status, 'failed');
+    assert.equal(failed.failureReason, 'Account closed');
+    assert.equal(await env.walletBalance(physician.walletId), '10000.00');
+  });
+
+  it('credits the wallet back when a paid transfer is reversed', async () => {
+    const { physician, withdrawal } = await startWithdrawal();
+
+    await env.deliver(await env.paystack.completeTransfer(withdrawal.transferReference));
+    await env.deliver(await env.paystack.completeTransfer(withdrawal.transferReference, 'reversed'));
+
+    const reversed = await env.prisma.withdrawalRequest.findUniqueOrThrow({ where: { id: withdrawal.id } });
+    assert.equal(reversed.status, 'reversed');
+    assert.equal(await env.walletBalance(physician.walletId), '10000.00');
+  });
+
+  it('refuses a withdrawal larger than the balance', async () => {
+    const physician = await env.createUser('PHYSICIAN');
+    await env.fundWallet(physician.userId, physician.email, 100000);
+
+    await assert.rejects(
+      env.withdrawalService.requestWithdrawal({
+        userId: physician.userId,
+        amount: 2000,
+        bankCode: '058',
+        accountNumber: '0123456789'
+      }),
+      /Insufficient balance/
+    );
+    assert.equal(await env.walletBalance(physician.walletId), '1000.00');
+  });
+});
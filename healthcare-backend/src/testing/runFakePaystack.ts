@@ -0,0 +1,19 @@
+import 'dotenv/config';
+import { FakePaystackServer } from './fakePaystackServer.js';
+
+// Stand-alone fake Paystack for local development. Start the backend with
+// PAYSTACK_BASE_URL=http://127.0.0.1:<port>, then settle payments with
+// POST /_control/charges/:reference and friends.
+const port = Number(process.env.FAKE_PAYSTACK_PORT || 4010);
+const server = new FakePaystackServer({
+  webhookSecret: process.env.PAYSTACK_WEBHOOK_SECRET || 'fake-paystack-secret',
+  webhookUrl: process.env.FAKE_PAYSTACK_WEBHOOK_URL || `http://localhost:${process.env.PORT || 3000}/api/payments/webhook`
+});
+
+server.start(port).then((url) => {
+  console.log(`Fake Paystack listening on ${url}`);
+});
+
+process.on('SIGINT', () => {
+  server.stop().finally(() => process.exit(0));
+});
@@ -0,0 +1,9 @@
+import type { Appointment } from '@prisma/client';
+
+// appointmentDate holds the day and appointmentTime the "HH:mm" start
+export function getAppointmentStart(appointment: Pick<Appointment, 'appointmentDate' | 'appointmentTime'>): Date {
+  const start = new Date(appointment.appointmentDate);
+  const [hours, minutes] = appointment.appointmentTime.split(':').map(Number);
+  start.setHours(hours ?? 0, minutes ?? 0, 0, 0);
+  return start;
+}
@@ -4,3 +4,7 @@
 export async function sendVerificationEmail(email: string, token: string) {
     console.log(`Sending verification email to ${email} with token ${token}`);
 }
+
+export async function sendNotificationEmail(email: string, subject: string, body: string) {
+    console.log(`Sending notification email to ${email}: ${subject}\n${body}`);
+}
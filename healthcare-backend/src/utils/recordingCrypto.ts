@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { RECORDING_CONFIG } from '../config/recordingConfig.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+export interface EncryptedChunk {
+  ciphertext: Buffer;
+  iv: string;
+  authTag: string;
+}
+
+export function isRecordingEncryptionConfigured(): boolean {
+  return Boolean(RECORDING_CONFIG.masterKeys[RECORDING_CONFIG.activeKeyId]);
+}
+
+function getMasterKey(keyId: string): Buffer {
+  const encoded = RECORDING_CONFIG.masterKeys[keyId];
+  if (!encoded) {
+    throw new Error(`Recording master key ${keyId} is not configured`);
+  }
+
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`Recording master key ${keyId} must be 32 bytes`);
+  }
+  return key;
+}
+
+// A fresh key for one recording, returned with its encrypted form for storage
+export function generateDataKey(): { dataKey: Buffer; encryptedDataKey: string; keyId: string } {
+  const keyId = RECORDING_CONFIG.activeKeyId;
+  const dataKey = crypto.randomBytes(32);
+  const wrapped = encryptChunk(getMasterKey(keyId), dataKey);
+
+  return {
+    dataKey,
+    // iv.authTag.ciphertext, all base64
+    encryptedDataKey: [wrapped.iv, wrapped.authTag, wrapped.ciphertext.toString('base64')].join('.'),
+    keyId
+  };
+}
+
+export function decryptDataKey(encryptedDataKey: string, keyId: string): Buffer {
+  const [iv, authTag, ciphertext] = encryptedDataKey.split('.');
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Malformed recording data key');
+  }
+
+  return decryptChunk(getMasterKey(keyId), { iv, authTag, ciphertext: Buffer.from(ciphertext, 'base64') });
+}
+
+export function encryptChunk(key: Buffer, plaintext: Buffer): EncryptedChunk {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    ciphertext,
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64')
+  };
+}
+
+// Throws if the chunk was altered or the key is wrong
+export function decryptChunk(key: Buffer, chunk: EncryptedChunk): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(chunk.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(chunk.authTag, 'base64'));
+  return Buffer.concat([decipher.update(chunk.ciphertext), decipher.final()]);
+}
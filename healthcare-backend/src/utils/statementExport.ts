@@ -0,0 +1,162 @@
+import type { Prisma } from '@prisma/client';
+import type { EarningsSummary, WalletStatement } from '../services/statementService.js';
+
+// CSV and PDF renderings of wallet statements and earnings summaries.
+// The PDF is a plain monospaced text document so no PDF library is needed.
+
+const LINES_PER_PAGE = 60;
+
+const money = (value: Prisma.Decimal) => value.toFixed(2);
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Array<Array<string | number>>): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+export function statementToCsv(statement: WalletStatement): string {
+  return toCsv([
+    ['Account holder', statement.accountHolder],
+    ['Period', `${day(statement.from)} to ${day(statement.to)}`],
+    ['Currency', statement.currency],
+    [],
+    ['Date', 'Description', 'Reference', 'Debit', 'Credit', 'Balance'],
+    [day(statement.from), 'Opening balance', '', '', '', money(statement.openingBalance)],
+    ...statement.entries.map(entry => [
+      day(entry.date),
+      entry.description,
+      entry.reference ?? '',
+      entry.debit.isZero() ? '' : money(entry.debit),
+      entry.credit.isZero() ? '' : money(entry.credit),
+      money(entry.balance)
+    ]),
+    [day(statement.to), 'Closing balance', '', money(statement.totalDebits), money(statement.totalCredits), money(statement.closingBalance)]
+  ]);
+}
+
+export function earningsToCsv(summary: EarningsSummary): string {
+  return toCsv([
+    ['Account holder', summary.accountHolder],
+    ['Year', summary.year],
+    ['Currency', summary.currency],
+    [],
+    ['Month', 'Consultations', 'Gross earnings', 'Refunds', 'Net earnings', 'Withdrawals'],
+    ...[...summary.months, { month: 'Total', ...summary.totals }].map(month => [
+      month.month,
+      month.consultations,
+      money(month.grossEarnings),
+      money(month.refunds),
+      money(month.netEarnings),
+      money(month.withdrawals)
+    ])
+  ]);
+}
+
+export function statementToPdf(statement: WalletStatement): Buffer {
+  const row = (date: string, description: string, debit: string, credit: string, balance: string) =>
+    `${date.padEnd(11)}${description.slice(0, 38).padEnd(39)}${debit.padStart(13)}${credit.padStart(13)}${balance.padStart(14)}`;
+
+  return buildPdf([
+    'Heala Wallet Statement',
+    '',
+    `Account holder: ${statement.accountHolder}`,
+    `Period: ${day(statement.from)} to ${day(statement.to)}`,
+    `Currency: ${statement.currency}`,
+    '',
+    row('Date', 'Description', 'Debit', 'Credit', 'Balance'),
+    '-'.repeat(90),
+    row(day(statement.from), 'Opening balance', '', '', money(statement.openingBalance)),
+    ...statement.entries.map(entry => row(
+      day(entry.date),
+      entry.description,
+      entry.debit.isZero() ? '' : money(entry.debit),
+      entry.credit.isZero() ? '' : money(entry.credit),
+      money(entry.balance)
+    )),
+    '-'.repeat(90),
+    row(day(statement.to), 'Closing balance', money(statement.totalDebits), money(statement.totalCredits), money(statement.closingBalance)),
+    '',
+    `Generated ${statement.generatedAt.toISOString()}`
+  ]);
+}
+
+export function earningsToPdf(summary: EarningsSummary): Buffer {
+  const row = (month: string, consultations: string, gross: string, refunds: string, net: string, withdrawals: string) =>
+    `${month.padEnd(10)}${consultations.padStart(14)}${gross.padStart(16)}${refunds.padStart(14)}${net.padStart(16)}${withdrawals.padStart(16)}`;
+
+  return buildPdf([
+    `Heala Annual Earnings Summary ${summary.year}`,
+    '',
+    `Physician: ${summary.accountHolder}`,
+    `Currency: ${summary.currency}`,
+    '',
+    row('Month', 'Consultations', 'Gross', 'Refunds', 'Net', 'Withdrawals'),
+    '-'.repeat(86),
+    ...[...summary.months, { month: 'Total', ...summary.totals }].map(month => row(
+      month.month,
+      String(month.consultations),
+      money(month.grossEarnings),
+      money(month.refunds),
+      money(month.netEarnings),
+      money(month.withdrawals)
+    )),
+    '',
+    `Generated ${summary.generatedAt.toISOString()}`
+  ]);
+}
+
+// Minimal PDF 1.4 writer: one Courier text stream per page
+function buildPdf(lines: string[]): Buffer {
+  const escape = (text: string) => text
+    .replace(/[^\x20-\x7E]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3 font, then a page and a content stream per page
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>'
+  ];
+
+  pages.forEach((pageLines, index) => {
+    const stream = [
+      'BT',
+      '/F1 8 Tf',
+      '11 TL',
+      '36 806 Td',
+      ...pageLines.map(line => `(${escape(line)}) '`),
+      'ET'
+    ].join('\n');
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index]! + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(stream)} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(body));
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(body);
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+}
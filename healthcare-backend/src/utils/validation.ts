@@ -1,5 +1,12 @@
 import Joi, { type ValidationErrorItem } from 'joi';
 import { PAYSTACK_CONFIG } from '../config/paystackConfig.js';
+import { PAYMENT_PROVIDERS } from '../config/paymentProviderConfig.js';
+import { CHAT_CONFIG } from '../config/chatConfig.js';
+import { SOCKET_CONFIG } from '../config/socketConfig.js';
+import { NOTIFICATION_CATEGORIES, NOTIFICATION_CHANNELS } from '../config/notificationConfig.js';
+import { RECORDING_CONFIG } from '../config/recordingConfig.js';
+import { CONSULTATION_CONFIG } from '../config/consultationConfig.js';
+import { WAITING_ROOM_CONFIG } from '../config/waitingRoomConfig.js';
 
 const registerSchema = Joi.object({
   email: Joi.string().email().required(),
@@ -44,9 +51,274 @@ const paymentSchema = Joi.object({
   paymentType: Joi.string()
     .valid('wallet_funding', 'consultation', 'appointment')
     .required(),
+  provider: Joi.string()
+    .valid(...PAYMENT_PROVIDERS)
+    .optional(),
   metadata: Joi.object().optional()
 });
 
+const withdrawalSchema = Joi.object({
+  amount: Joi.number()
+    .min(PAYSTACK_CONFIG.limits.withdrawalMin / 100)
+    .max(PAYSTACK_CONFIG.limits.withdrawalMax / 100)
+    .required(),
+  bankCode: Joi.string().required(),
+  accountNumber: Joi.string().pattern(/^\d{10}$/).required()
+});
+
+const commissionRuleSchema = Joi.object({
+  name: Joi.string().required(),
+  hospitalId: Joi.string().allow(null).optional(),
+  specialization: Joi.string().allow(null).optional(),
+  consultationType: Joi.string().valid('in_person', 'virtual').allow(null).optional(),
+  platformFeePercent: Joi.number().min(0).max(100).required(),
+  hospitalSharePercent: Joi.number().min(0).max(100).optional(),
+  priority: Joi.number().integer().optional(),
+  isActive: Joi.boolean().optional()
+}).custom((value, helpers) => {
+  if (value.platformFeePercent + (value.hospitalSharePercent || 0) > 100) {
+    return helpers.message({ custom: 'Platform fee and hospital share cannot exceed 100%' });
+  }
+  return value;
+});
+
+const planEntitlementsSchema = Joi.object({
+  monthlyBookings: Joi.number().integer().min(-1).required(),
+  monthlyVirtualConsultations: Joi.number().integer().min(-1).required(),
+  aiAssistant: Joi.boolean().required()
+});
+
+const subscriptionPlanSchema = Joi.object({
+  code: Joi.string().pattern(/^[a-z0-9_]+$/).required(),
+  name: Joi.string().required(),
+  description: Joi.string().allow(null, '').optional(),
+  amount: Joi.number().positive().required(), // Amount in NGN
+  interval: Joi.string().valid('daily', 'weekly', 'monthly', 'quarterly', 'biannually', 'annually').optional(),
+  features: Joi.array().items(Joi.string()).optional(),
+  entitlements: planEntitlementsSchema.required(),
+  isActive: Joi.boolean().optional(),
+  sortOrder: Joi.number().integer().optional()
+});
+
+// Price, interval and code are fixed once the Paystack plan exists
+const subscriptionPlanUpdateSchema = subscriptionPlanSchema
+  .fork(['code', 'name', 'amount', 'entitlements'], (schema) => schema.optional())
+  .fork(['code', 'amount', 'interval'], (schema) => schema.forbidden());
+
+const statementQuerySchema = Joi.object({
+  month: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/),
+  from: Joi.date().iso(),
+  to: Joi.date().iso().min(Joi.ref('from')),
+  format: Joi.string().valid('json', 'csv', 'pdf').optional()
+}).xor('month', 'from').and('from', 'to');
+
+const earningsQuerySchema = Joi.object({
+  year: Joi.number().integer().min(2000).max(2100).required(),
+  format: Joi.string().valid('json', 'csv', 'pdf').optional()
+});
+
+const messageHistorySchema = Joi.object({
+  before: Joi.string().optional(),
+  after: Joi.string().optional(),
+  limit: Joi.number().integer().min(1).max(CHAT_CONFIG.maxHistoryPageSize).optional()
+}).oxor('before', 'after');
+
+const attachmentUploadSchema = Joi.object({
+  fileName: Joi.string().max(255).required(),
+  mimeType: Joi.string().valid(...CHAT_CONFIG.attachments.allowedMimeTypes).required(),
+  fileSize: Joi.number().integer().min(1).max(CHAT_CONFIG.attachments.maxFileSize).required()
+});
+
+const timeOfDay = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+// true/false for every channel, or single channels plus digest
+const categoryPreferenceSchema = Joi.alternatives().try(
+  Joi.boolean(),
+  Joi.object({
+    ...Object.fromEntries(NOTIFICATION_CHANNELS.map(channel => [channel, Joi.boolean()])),
+    digest: Joi.boolean()
+  }).min(1)
+);
+
+const notificationPreferencesSchema = Joi.object({
+  categories: Joi.object(
+    Object.fromEntries(NOTIFICATION_CATEGORIES.map(category => [category, categoryPreferenceSchema]))
+  ),
+  quietHours: Joi.object({
+    start: timeOfDay.required(),
+    end: timeOfDay.required()
+  }).allow(null),
+  timezone: Joi.string().max(64).custom((value: string, helpers) => {
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone: value });
+      return value;
+    } catch {
+      return helpers.error('any.invalid');
+    }
+  })
+}).min(1);
+
+const pushSubscriptionSchema = Joi.object({
+  endpoint: Joi.string().uri({ scheme: ['https'] }).max(2048).required(),
+  keys: Joi.object({
+    p256dh: Joi.string().max(256).required(),
+    auth: Joi.string().max(256).required()
+  }).required()
+});
+
+const recordingChunkSchema = Joi.object({
+  sequence: Joi.number().integer().min(0).max(RECORDING_CONFIG.maxChunks - 1).required()
+});
+
+const recordingCompleteSchema = Joi.object({
+  chunkCount: Joi.number().integer().min(1).max(RECORDING_CONFIG.maxChunks).required()
+});
+
+const legalHoldSchema = Joi.object({
+  legalHold: Joi.boolean().required()
+});
+
+const consultationInvitationSchema = Joi.object({
+  role: Joi.string().valid(...CONSULTATION_CONFIG.guestRoles).required(),
+  email: Joi.string().email().optional(),
+  expiresInHours: Joi.number().integer().min(1).max(CONSULTATION_CONFIG.maxInvitationTtlHours).optional()
+});
+
+const invitationAcceptSchema = Joi.object({
+  token: Joi.string().max(200).required()
+});
+
+const rescheduleRequestSchema = Joi.object({
+  appointmentDate: Joi.date().iso().required(),
+  appointmentTime: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).required()
+    .messages({ 'string.pattern.base': 'appointmentTime must be HH:mm' })
+});
+
+// Socket event payloads, keyed by event name
+const socketId = Joi.string().max(64);
+const conversationEvent = Joi.object({ conversationId: socketId.required() });
+const consultationEvent = Joi.object({ sessionId: socketId.required() });
+const sessionDescription = (type: 'offer' | 'answer') => Joi.object({
+  type: Joi.string().valid(type).required(),
+  sdp: Joi.string().max(100000).required()
+});
+
+const socketEventSchemas: Record<string, Joi.ObjectSchema> = {
+  'chat:join': conversationEvent.keys({
+    after: Joi.string().max(200).optional()
+  }),
+  'chat:history': messageHistorySchema.keys({
+    conversationId: socketId.required()
+  }),
+  'chat:leave': conversationEvent,
+  'chat:message': conversationEvent.keys({
+    content: Joi.string().allow('').max(5000).default(''),
+    messageType: Joi.string().valid('text', 'image', 'file').optional(),
+    attachmentIds: Joi.array().items(socketId).max(CHAT_CONFIG.attachments.maxPerMessage).unique().default([])
+  }),
+  'chat:typing:start': conversationEvent,
+  'chat:typing:stop': conversationEvent,
+  'chat:delivered': conversationEvent.keys({
+    messageIds: Joi.array().items(socketId).min(1).max(CHAT_CONFIG.maxHistoryPageSize).required()
+  }),
+  'chat:mark_read': conversationEvent.keys({
+    messageId: socketId.optional()
+  }),
+  'consultation:join': consultationEvent,
+  'consultation:leave': consultationEvent,
+  'consultation:start': consultationEvent,
+  'consultation:end': consultationEvent,
+  'consultation:offer': consultationEvent.keys({
+    targetUserId: socketId.required(),
+    offer: sessionDescription('offer').required()
+  }),
+  'consultation:answer': consultationEvent.keys({
+    targetUserId: socketId.required(),
+    answer: sessionDescription('answer').required()
+  }),
+  'consultation:ice-candidate': consultationEvent.keys({
+    targetUserId: socketId.required(),
+    candidate: Joi.object({
+      candidate: Joi.string().allow('').max(2000).required(),
+      sdpMid: Joi.string().allow(null).max(64).optional(),
+      sdpMLineIndex: Joi.number().integer().min(0).allow(null).optional(),
+      usernameFragment: Joi.string().allow(null).max(256).optional()
+    }).required()
+  }),
+  'consultation:recording:request': consultationEvent,
+  'consultation:recording:consent': consultationEvent.keys({
+    recordingId: socketId.required(),
+    granted: Joi.boolean().required()
+  }),
+  'consultation:recording:stop': consultationEvent.keys({
+    recordingId: socketId.required()
+  }),
+  'waiting_room:check_in': consultationEvent.keys({
+    deviceCheck: Joi.object({
+      camera: Joi.boolean().required(),
+      microphone: Joi.boolean().required(),
+      connection: Joi.boolean().required()
+    }).required(),
+    intake: Joi.object().pattern(
+      Joi.string().valid(...WAITING_ROOM_CONFIG.intakeQuestions.map(question => question.id)),
+      Joi.alternatives().try(
+        Joi.string().allow('').max(WAITING_ROOM_CONFIG.maxAnswerLength),
+        Joi.number().min(0).max(10)
+      )
+    ).required()
+  }),
+  'waiting_room:leave': consultationEvent,
+  'waiting_room:admit': consultationEvent,
+  'waiting_room:queue': Joi.object({}),
+  'consultation:media_mode': consultationEvent.keys({
+    mode: Joi.string().valid(...CONSULTATION_CONFIG.mediaModes).required(),
+    reason: Joi.string().valid(...CONSULTATION_CONFIG.mediaModeReasons).required(),
+    stats: Joi.object({
+      latency: Joi.number().min(0).max(60000).required(),
+      packetLoss: Joi.number().min(0).max(100).required(),
+      bitrate: Joi.number().min(0).max(1000000).required()
+    }).optional()
+  }),
+  'presence:status': Joi.object({
+    status: Joi.string().valid('online', 'away', 'busy').required()
+  }),
+  'presence:visibility': Joi.object({
+    hidden: Joi.boolean().required()
+  }),
+  'presence:query': Joi.object({
+    userIds: Joi.array().items(socketId).max(SOCKET_CONFIG.presenceQueryLimit).required()
+  }),
+  // Topics are notification categories; user and role rooms are joined by
+  // the server, never named by the client
+  'notifications:subscribe': Joi.object({
+    channels: Joi.array().items(Joi.string().valid(...NOTIFICATION_CATEGORIES)).unique().default([])
+  }),
+  'notifications:mark_read': Joi.object({
+    notificationId: socketId.optional(),
+    markAllAsRead: Joi.boolean().optional()
+  }).or('notificationId', 'markAllAsRead')
+};
+
+const disputeSchema = Joi.object({
+  transactionId: Joi.string().required(),
+  disputeType: Joi.string()
+    .valid('payment_failed', 'double_charge', 'unauthorized_charge', 'refund_request')
+    .required(),
+  description: Joi.string().min(10).max(2000).required(),
+  amount: Joi.number().positive().optional()
+});
+
+const disputeEvidenceSchema = Joi.object({
+  note: Joi.string().max(2000).optional(),
+  documentId: Joi.string().optional()
+}).or('note', 'documentId');
+
+const disputeResolutionSchema = Joi.object({
+  resolutionType: Joi.string().valid('refund', 'adjustment').required(),
+  amount: Joi.number().positive().required(),
+  notes: Joi.string().min(3).max(2000).required()
+});
+
 export function validateRegisterInput(data: Record<string, unknown>) {
   const { error } = registerSchema.validate(data, { abortEarly: false });
   
@@ -111,6 +383,223 @@ export function validatePaymentData(data: Record<string, unknown>) {
   return { isValid: true, errors: [] };
 }
 
+export function validateWithdrawalRequest(data: Record<string, unknown>) {
+  const { error } = withdrawalSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateCommissionRule(data: Record<string, unknown>) {
+  const { error } = commissionRuleSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateSubscriptionPlan(data: Record<string, unknown>, isUpdate = false) {
+  const schema = isUpdate ? subscriptionPlanUpdateSchema : subscriptionPlanSchema;
+  const { error } = schema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateDispute(data: Record<string, unknown>) {
+  const { error } = disputeSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateDisputeEvidence(data: Record<string, unknown>) {
+  const { error } = disputeEvidenceSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateDisputeResolution(data: Record<string, unknown>) {
+  const { error } = disputeResolutionSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateMessageHistoryQuery(data: Record<string, unknown>) {
+  const { error } = messageHistorySchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateAttachmentUpload(data: Record<string, unknown>) {
+  const { error } = attachmentUploadSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateNotificationPreferences(data: Record<string, unknown>) {
+  const { error } = notificationPreferencesSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validatePushSubscription(data: Record<string, unknown>) {
+  const { error } = pushSubscriptionSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+// Unlike the HTTP validators this also returns the cleaned payload, with
+// defaults applied and unknown keys removed, for the handler to use
+export function validateSocketEvent(event: string, data: unknown) {
+  const schema = socketEventSchemas[event];
+  if (!schema) {
+    return { isValid: true, errors: [], value: data };
+  }
+
+  const { error, value } = schema.validate(data ?? {}, { abortEarly: false, stripUnknown: true });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      })),
+      value: undefined
+    };
+  }
+
+  return { isValid: true, errors: [], value };
+}
+
+export function validateStatementQuery(data: Record<string, unknown>) {
+  const { error } = statementQuerySchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateEarningsQuery(data: Record<string, unknown>) {
+  const { error } = earningsQuerySchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
 // Export other utility functions from fileValidation.ts if needed later
 export function isValidFileType(mimeType: string, allowedTypes: string[]): boolean {
   return allowedTypes.includes(mimeType);
@@ -146,3 +635,99 @@ export function isOfficeDocument(mimeType: string): boolean {
   ];
   return officeTypes.includes(mimeType);
 }
+
+export function validateRecordingChunk(data: Record<string, unknown>) {
+  const { error } = recordingChunkSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateRecordingComplete(data: Record<string, unknown>) {
+  const { error } = recordingCompleteSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateLegalHold(data: Record<string, unknown>) {
+  const { error } = legalHoldSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateConsultationInvitation(data: Record<string, unknown>) {
+  const { error } = consultationInvitationSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateInvitationAccept(data: Record<string, unknown>) {
+  const { error } = invitationAcceptSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
+export function validateRescheduleRequest(data: Record<string, unknown>) {
+  const { error } = rescheduleRequestSchema.validate(data, { abortEarly: false });
+  
+  if (error) {
+    return {
+      isValid: false,
+      errors: error.details.map((detail: ValidationErrorItem) => ({
+        field: detail.path.join('.'),
+        message: detail.message
+      }))
+    };
+  }
+
+  return { isValid: true, errors: [] };
+}
@@ -6,18 +6,30 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { DollarSign, AlertTriangle, CheckCircle, Clock, Search } from 'lucide-react';
+import { DollarSign, AlertTriangle, CheckCircle, Clock, Search, Lock, Paperclip } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 
+interface DisputeEvidence {
+  id: string;
+  party_role: string;
+  note: string | null;
+  file_url: string | null;
+  created_at: string;
+}
+
 interface FinancialDispute {
   id: string;
   user_id: string;
   transaction_id: string | null;
+  counterparty_id: string | null;
   dispute_type: string;
   description: string;
   amount: number | null;
   status: string;
+  frozen_amount: number;
+  resolution_type: string | null;
+  resolution_amount: number | null;
   resolution_notes: string | null;
   resolved_by: string | null;
   resolved_at: string | null;
@@ -32,8 +44,17 @@ interface FinancialDispute {
     last_name: string | null;
     email: string;
   } | null;
+  transaction: {
+    amount: number;
+    description: string | null;
+    transaction_type: string;
+    created_at: string | null;
+  } | null;
+  evidence: DisputeEvidence[];
 }
 
+type Resolution = 'refund' | 'adjustment' | 'rejected';
+
 export const FinancialDisputes: React.FC = () => {
   const { toast } = useToast();
   const [disputes, setDisputes] = useState<FinancialDispute[]>([]);
@@ -42,6 +63,9 @@ export const FinancialDisputes: React.FC = () => {
   const [statusFilter, setStatusFilter] = useState('all');
   const [resolvingDispute, setResolvingDispute] = useState<string | null>(null);
   const [resolutionNotes, setResolutionNotes] = useState('');
+  const [resolutionType, setResolutionType] = useState<'refund' | 'adjustment'>('refund');
+  const [resolutionAmount, setResolutionAmount] = useState('');
+  const [evidenceNote, setEvidenceNote] = useState('');
 
   useEffect(() => {
     fetchDisputes();
@@ -76,10 +100,29 @@ export const FinancialDisputes: React.FC = () => {
             resolver = resolverProfile;
           }
 
+          let transaction = null;
+          if (dispute.transaction_id) {
+            const { data: transactionData } = await supabase
+              .from('wallet_transactions')
+              .select('amount, description, transaction_type, created_at')
+              .eq('id', dispute.transaction_id)
+              .maybeSingle();
+            transaction = transactionData;
+          }
+
+          const { data: evidence } = await supabase
+            .from('dispute_evidence')
+            .select('id, party_role, note, file_url, created_at')
+            .eq('dispute_id', dispute.id)
+            .order('created_at', { ascending: true });
+
           return {
             ...dispute,
+            status: dispute.status || 'pending',
             user: userProfile,
-            resolver
+            resolver,
+            transaction,
+            evidence: evidence || []
           };
         })
       );
@@ -97,51 +140,87 @@ export const FinancialDisputes: React.FC = () => {
     }
   };
 
-  const resolveDispute = async (disputeId: string, status: 'resolved' | 'rejected') => {
+  const resetResolution = () => {
+    setResolvingDispute(null);
+    setResolutionNotes('');
+    setResolutionAmount('');
+    setResolutionType('refund');
+    setEvidenceNote('');
+  };
+
+  // Resolutions post the reversing wallet transactions and the audit trail server-side
+  const resolveDispute = async (dispute: FinancialDispute, resolution: Resolution) => {
     try {
-      const { error } = await supabase
-        .from('financial_disputes')
-        .update({
-          status,
-          resolution_notes: resolutionNotes,
-          resolved_by: (await supabase.auth.getUser()).data.user?.id,
-          resolved_at: new Date().toISOString()
-        })
-        .eq('id', disputeId);
+      const { data, error } = await supabase.rpc('resolve_financial_dispute', {
+        dispute_uuid: dispute.id,
+        resolution,
+        credit_amount: resolution === 'rejected' ? undefined : parseFloat(resolutionAmount) || dispute.amount || undefined,
+        notes: resolutionNotes || undefined
+      });
 
       if (error) throw error;
 
-      // Log admin action
-      await supabase.rpc('log_admin_action', {
-        action_type_param: 'financial_dispute_resolution',
-        target_resource_type_param: 'financial_dispute',
-        target_resource_id_param: disputeId,
-        action_details_param: { resolution: status, notes: resolutionNotes }
+      const result = data as { status: string; amount: number; released: number };
+
+      resetResolution();
+      await fetchDisputes();
+
+      toast({
+        title: result.status === 'rejected' ? "Dispute Rejected" : "Dispute Resolved",
+        description: result.status === 'rejected'
+          ? `Dispute has been rejected${result.released > 0 ? ` and ₦${result.released.toLocaleString()} released` : ''}.`
+          : `₦${result.amount.toLocaleString()} has been credited to the patient's wallet.`,
+      });
+    } catch (error) {
+      console.error('Error resolving dispute:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resolve dispute.",
+        variant: "destructive"
       });
+    }
+  };
+
+  const freezeFunds = async (disputeId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('freeze_dispute_funds', { dispute_uuid: disputeId });
 
-      setDisputes(prev => prev.map(dispute => 
-        dispute.id === disputeId 
-          ? { 
-              ...dispute, 
-              status, 
-              resolution_notes: resolutionNotes,
-              resolved_at: new Date().toISOString()
-            }
-          : dispute
-      ));
+      if (error) throw error;
 
-      setResolvingDispute(null);
-      setResolutionNotes('');
+      await fetchDisputes();
 
       toast({
-        title: "Dispute Resolved",
-        description: `Dispute has been ${status}.`,
+        title: "Funds Frozen",
+        description: `₦${(data as { frozen_amount: number }).frozen_amount.toLocaleString()} is held until the dispute is closed.`,
       });
     } catch (error) {
-      console.error('Error resolving dispute:', error);
+      console.error('Error freezing dispute funds:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to freeze funds.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const addEvidence = async (disputeId: string) => {
+    if (!evidenceNote.trim()) return;
+
+    try {
+      const { error } = await supabase.rpc('add_dispute_evidence', {
+        dispute_uuid: disputeId,
+        note: evidenceNote.trim()
+      });
+
+      if (error) throw error;
+
+      setEvidenceNote('');
+      await fetchDisputes();
+    } catch (error) {
+      console.error('Error adding dispute evidence:', error);
       toast({
         title: "Error",
-        description: "Failed to resolve dispute.",
+        description: "Failed to add evidence.",
         variant: "destructive"
       });
     }
@@ -248,7 +327,15 @@ export const FinancialDisputes: React.FC = () => {
                   </p>
                   {dispute.transaction_id && (
                     <p className="text-sm">
-                      <strong>Transaction ID:</strong> {dispute.transaction_id}
+                      <strong>Transaction:</strong> {dispute.transaction
+                        ? `${dispute.transaction.description || dispute.transaction.transaction_type} — ₦${dispute.transaction.amount.toLocaleString()} (${dispute.transaction.transaction_type})`
+                        : dispute.transaction_id}
+                    </p>
+                  )}
+                  {dispute.frozen_amount > 0 && (
+                    <p className="text-sm flex items-center gap-1 text-orange-700">
+                      <Lock className="w-3 h-3" />
+                      ₦{dispute.frozen_amount.toLocaleString()} frozen in the counterparty's wallet
                     </p>
                   )}
                   <p className="text-sm">
@@ -256,8 +343,35 @@ export const FinancialDisputes: React.FC = () => {
                   </p>
                 </div>
 
+                {dispute.evidence.length > 0 && (
+                  <div className="space-y-1 mb-3">
+                    <p className="text-sm font-medium flex items-center gap-1">
+                      <Paperclip className="w-3 h-3" />
+                      Evidence
+                    </p>
+                    {dispute.evidence.map((item) => (
+                      <div key={item.id} className="text-sm bg-gray-50 p-2 rounded">
+                        <span className="text-xs text-gray-500 mr-2">
+                          {item.party_role} · {new Date(item.created_at).toLocaleString()}
+                        </span>
+                        {item.note}
+                        {item.file_url && (
+                          <a href={item.file_url} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-600 underline">
+                            View file
+                          </a>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {dispute.resolution_notes && (
                   <div className="bg-gray-50 p-3 rounded mb-3">
+                    {dispute.resolution_type && dispute.resolution_amount !== null && (
+                      <p className="text-sm">
+                        <strong>Outcome:</strong> {dispute.resolution_type} of ₦{dispute.resolution_amount.toLocaleString()}
+                      </p>
+                    )}
                     <p className="text-sm"><strong>Resolution Notes:</strong> {dispute.resolution_notes}</p>
                     {dispute.resolver && (
                       <p className="text-xs text-gray-500 mt-1">
@@ -267,10 +381,41 @@ export const FinancialDisputes: React.FC = () => {
                   </div>
                 )}
 
-                {dispute.status === 'pending' && (
+                {(dispute.status === 'pending' || dispute.status === 'investigating') && (
                   <div className="space-y-3">
                     {resolvingDispute === dispute.id ? (
                       <div className="space-y-3">
+                        <div className="flex gap-2">
+                          <Input
+                            placeholder="Add an evidence note..."
+                            value={evidenceNote}
+                            onChange={(e) => setEvidenceNote(e.target.value)}
+                          />
+                          <Button size="sm" variant="outline" onClick={() => addEvidence(dispute.id)}>
+                            Add Note
+                          </Button>
+                        </div>
+                        <div className="flex gap-2">
+                          <Select
+                            value={resolutionType}
+                            onValueChange={(value) => setResolutionType(value as 'refund' | 'adjustment')}
+                          >
+                            <SelectTrigger className="w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="refund" disabled={!dispute.counterparty_id}>Refund from counterparty</SelectItem>
+                              <SelectItem value="adjustment">Platform adjustment</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            placeholder={`Amount (max ₦${(dispute.amount || 0).toLocaleString()})`}
+                            value={resolutionAmount}
+                            onChange={(e) => setResolutionAmount(e.target.value)}
+                            className="w-56"
+                          />
+                        </div>
                         <Textarea
                           placeholder="Resolution notes..."
                           value={resolutionNotes}
@@ -280,7 +425,7 @@ export const FinancialDisputes: React.FC = () => {
                         <div className="flex gap-2">
                           <Button
                             size="sm"
-                            onClick={() => resolveDispute(dispute.id, 'resolved')}
+                            onClick={() => resolveDispute(dispute, resolutionType)}
                             className="bg-green-600 hover:bg-green-700"
                           >
                             <CheckCircle className="w-4 h-4 mr-1" />
@@ -289,7 +434,7 @@ export const FinancialDisputes: React.FC = () => {
                           <Button
                             size="sm"
                             variant="destructive"
-                            onClick={() => resolveDispute(dispute.id, 'rejected')}
+                            onClick={() => resolveDispute(dispute, 'rejected')}
                           >
                             <AlertTriangle className="w-4 h-4 mr-1" />
                             Reject
@@ -297,23 +442,32 @@ export const FinancialDisputes: React.FC = () => {
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => {
-                              setResolvingDispute(null);
-                              setResolutionNotes('');
-                            }}
+                            onClick={resetResolution}
                           >
                             Cancel
                           </Button>
                         </div>
                       </div>
                     ) : (
-                      <Button
-                        size="sm"
-                        onClick={() => setResolvingDispute(dispute.id)}
-                        className="bg-blue-600 hover:bg-blue-700"
-                      >
-                        Review & Resolve
-                      </Button>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => setResolvingDispute(dispute.id)}
+                          className="bg-blue-600 hover:bg-blue-700"
+                        >
+                          Review & Resolve
+                        </Button>
+                        {dispute.counterparty_id && dispute.frozen_amount === 0 && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => freezeFunds(dispute.id)}
+                          >
+                            <Lock className="w-4 h-4 mr-1" />
+                            Freeze Funds
+                          </Button>
+                        )}
+                      </div>
                     )}
                   </div>
                 )}
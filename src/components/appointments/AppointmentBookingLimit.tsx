@@ -8,6 +8,14 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
+interface BookingEntitlement {
+  allowed: boolean;
+  plan_code: string;
+  limit: number; // -1 for unlimited
+  used: number;
+  remaining: number;
+}
+
 interface AppointmentBookingLimitProps {
   onProceed: () => void;
   disabled?: boolean;
@@ -17,9 +25,9 @@ export const AppointmentBookingLimit: React.FC<AppointmentBookingLimitProps> = (
   onProceed, 
   disabled = false 
 }) => {
-  const { user, profile } = useAuth();
+  const { user } = useAuth();
   const { toast } = useToast();
-  const [monthlyBookings, setMonthlyBookings] = useState(0);
+  const [entitlement, setEntitlement] = useState<BookingEntitlement | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -30,11 +38,12 @@ export const AppointmentBookingLimit: React.FC<AppointmentBookingLimitProps> = (
 
   const checkMonthlyBookings = async () => {
     try {
+      // Limits come from the user's plan, shared with consultations and the AI assistant
       const { data, error } = await supabase
-        .rpc('check_monthly_booking_limit', { patient_uuid: user?.id });
+        .rpc('check_entitlement', { user_uuid: user!.id, feature: 'booking' });
 
       if (error) throw error;
-      setMonthlyBookings(data || 0);
+      setEntitlement(data as unknown as BookingEntitlement);
     } catch (error) {
       console.error('Error checking monthly bookings:', error);
     } finally {
@@ -42,17 +51,10 @@ export const AppointmentBookingLimit: React.FC<AppointmentBookingLimitProps> = (
     }
   };
 
-  const getBookingLimit = () => {
-    switch (profile?.subscription_plan) {
-      case 'premium': return 10;
-      case 'enterprise': return -1; // Unlimited
-      default: return 3; // Basic plan
-    }
-  };
-
-  const bookingLimit = getBookingLimit();
-  const canBook = bookingLimit === -1 || monthlyBookings < bookingLimit;
-  const remainingBookings = bookingLimit === -1 ? 'Unlimited' : bookingLimit - monthlyBookings;
+  const monthlyBookings = entitlement?.used ?? 0;
+  const bookingLimit = entitlement?.limit ?? 0;
+  const canBook = entitlement?.allowed ?? false;
+  const remainingBookings = bookingLimit === -1 ? 'Unlimited' : entitlement?.remaining ?? 0;
 
   if (loading) {
     return (
@@ -97,7 +99,7 @@ export const AppointmentBookingLimit: React.FC<AppointmentBookingLimitProps> = (
           </Alert>
         )}
 
-        {profile?.subscription_plan === 'basic' && canBook && (
+        {entitlement?.plan_code === 'basic' && canBook && (
           <Alert>
             <Crown className="h-4 w-4" />
             <AlertDescription>
@@ -38,20 +38,25 @@ export const AppointmentCancellation: React.FC<AppointmentCancellationProps> = (
     if (!user) return;
 
     try {
-      const { error } = await supabase
-        .from('appointments')
-        .update({
-          status: 'cancelled',
-          cancelled_at: new Date().toISOString(),
-          cancellation_reason: cancellationReason || 'No reason provided'
-        })
-        .eq('id', appointmentId);
+      // Cancels and applies the refund policy in one transaction
+      const { data, error } = await supabase.rpc('cancel_appointment_with_refund', {
+        appointment_uuid: appointmentId,
+        reason: cancellationReason || 'No reason provided'
+      });
 
       if (error) throw error;
 
+      const result = data as { refund_amount: number; refund_status: string | null } | null;
+      let description = "Your appointment has been successfully cancelled.";
+      if (result?.refund_status === 'completed') {
+        description = `Your appointment has been cancelled and ₦${Number(result.refund_amount).toLocaleString()} was refunded to your wallet.`;
+      } else if (result?.refund_status === 'failed') {
+        description = "Your appointment has been cancelled. Our support team will complete your refund.";
+      }
+
       toast({
         title: "Appointment Cancelled",
-        description: "Your appointment has been successfully cancelled.",
+        description,
       });
 
       setCancellingId(null);
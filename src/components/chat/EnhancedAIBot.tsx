@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Bot, Send, User } from 'lucide-react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
@@ -64,6 +65,18 @@ export const EnhancedAIBot: React.FC = () => {
 
     } catch (error) {
       console.error('Error sending message:', error);
+
+      // The AI assistant is only available on plans that include it
+      if (error instanceof FunctionsHttpError && error.context.status === 403) {
+        setMessages(prev => [...prev, {
+          id: (Date.now() + 1).toString(),
+          content: "The AI assistant isn't included in your current plan. Upgrade your subscription to keep chatting.",
+          sender: 'ai',
+          timestamp: new Date()
+        }]);
+        return;
+      }
+
       toast({
         title: "Error",
         description: "Failed to get AI response. Please try again.",
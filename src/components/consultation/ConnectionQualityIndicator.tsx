@@ -1,13 +1,7 @@
 
 import React from 'react';
-import { Wifi, WifiOff, Signal } from 'lucide-react';
-
-interface ConnectionQuality {
-  level: 'excellent' | 'good' | 'fair' | 'poor' | 'disconnected';
-  latency: number;
-  packetLoss: number;
-  bitrate: number;
-}
+import { WifiOff, Signal } from 'lucide-react';
+import type { ConnectionQuality } from './hooks/useConnectionMonitor';
 
 interface ConnectionQualityIndicatorProps {
   quality: ConnectionQuality;
@@ -90,7 +84,7 @@ export const ConnectionQualityIndicator: React.FC<ConnectionQualityIndicatorProp
         {quality.bitrate > 0 && (
           <div className="flex justify-between">
             <span>Rate:</span>
-            <span>{quality.bitrate}KB/s</span>
+            <span>{quality.bitrate}kbps</span>
           </div>
         )}
       </div>
@@ -3,6 +3,10 @@ import React, { useState, useEffect, useRef } from 'react';
 import { X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { VideoStreams } from './VideoStreams';
+import { ParticipantGrid } from './ParticipantGrid';
+import { MediaModeNotice } from './MediaModeNotice';
+import { ConnectionQualityIndicator } from './ConnectionQualityIndicator';
+import { VideoCallChat } from './VideoCallChat';
 import { VideoCallControls } from './VideoCallControls';
 import { useWebRTCVideoCall } from './hooks/useWebRTCVideoCall';
 import { useConsultationPayment } from './hooks/useConsultationPayment';
@@ -29,6 +33,7 @@ export const EnhancedVideoInterface: React.FC<EnhancedVideoInterfaceProps> = ({
   const [sessionData, setSessionData] = useState<ConsultationSession | null>(null);
   const [paymentCompleted, setPaymentCompleted] = useState(false);
   const [showChat, setShowChat] = useState(false);
+  const [continueInChat, setContinueInChat] = useState(false);
   
   const {
     localStream,
@@ -39,9 +44,11 @@ export const EnhancedVideoInterface: React.FC<EnhancedVideoInterfaceProps> = ({
     audioEnabled,
     isConnecting,
     error,
+    remoteParticipants,
+    connectionQuality,
+    mediaMode,
     localVideoRef,
     remoteVideoRef,
-    peerConnectionRef,
     startCall,
     endCall,
     toggleVideo,
@@ -139,6 +146,20 @@ export const EnhancedVideoInterface: React.FC<EnhancedVideoInterfaceProps> = ({
         connectionState={connectionState}
       />
 
+      {/* Grid once guests have joined the call */}
+      {remoteParticipants.length > 1 && (
+        <ParticipantGrid localStream={localStream} remoteParticipants={remoteParticipants} />
+      )}
+
+      {/* Steps taken on weak connections */}
+      <MediaModeNotice
+        mediaMode={mediaMode}
+        remoteParticipants={remoteParticipants}
+        onContinueInChat={() => setContinueInChat(true)}
+      />
+
+      <ConnectionQualityIndicator quality={connectionQuality} className="absolute bottom-20 right-4 z-10" />
+
       {/* Payment Section */}
       {!isPhysician && sessionData && !paymentCompleted && (
         <div className="absolute top-4 left-4 bg-white text-gray-800 rounded-md shadow-md p-4 z-10">
@@ -161,8 +182,16 @@ export const EnhancedVideoInterface: React.FC<EnhancedVideoInterfaceProps> = ({
         {showChat ? 'Hide Chat' : 'Show Chat'}
       </Button>
 
-      {/* Chat Component */}
-      {showChat && (
+      {/* Chat Component; continuing by chat uses the saved session chat */}
+      {continueInChat ? (
+        <div className="absolute top-4 right-4 w-96 h-[calc(100%-8rem)] z-10">
+          <VideoCallChat
+            sessionId={sessionId}
+            currentUserId={currentUserId}
+            onClose={() => setContinueInChat(false)}
+          />
+        </div>
+      ) : showChat && (
         <div className="absolute top-4 right-4 w-96 h-[calc(100%-8rem)] z-10">
           <VideoCallChatSimple
             sessionId={sessionId}
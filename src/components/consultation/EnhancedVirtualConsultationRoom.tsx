@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,11 +9,14 @@ import { useToast } from '@/hooks/use-toast';
 import { VideoStreams } from './VideoStreams';
 import { VideoCallControls } from './VideoCallControls';
 import { useWebRTCVideoCall } from './hooks/useWebRTCVideoCall';
+import { useConsultationRecording } from './hooks/useConsultationRecording';
+import { RecordingControls } from './RecordingControls';
+import { WaitingRoom } from './WaitingRoom';
 import { ConsultationSession, EnhancedVirtualConsultationRoomProps } from './types';
 import { supabase } from '@/integrations/supabase/client';
 import { useConsultationPayment } from './hooks/useConsultationPayment';
 
-export const EnhancedVirtualConsultationRoom: React.FC<EnhancedVirtualConsultationRoomProps> = ({
+const ConsultationCallView: React.FC<EnhancedVirtualConsultationRoomProps> = ({
   sessionId,
   onSessionEnd
 }) => {
@@ -36,7 +39,6 @@ export const EnhancedVirtualConsultationRoom: React.FC<EnhancedVirtualConsultati
     error,
     localVideoRef,
     remoteVideoRef,
-    peerConnectionRef,
     startCall,
     endCall,
     toggleVideo,
@@ -46,6 +48,8 @@ export const EnhancedVirtualConsultationRoom: React.FC<EnhancedVirtualConsultati
     stopScreenShare,
   } = useWebRTCVideoCall(sessionId || '', user?.id || '');
 
+  const recordingControls = useConsultationRecording(sessionId || '', user?.id || '', { localStream, remoteStream });
+
   useEffect(() => {
     const fetchSessionData = async () => {
       setIsLoading(true);
@@ -164,6 +168,9 @@ export const EnhancedVirtualConsultationRoom: React.FC<EnhancedVirtualConsultati
         connectionState={connectionState}
       />
 
+      {/* Recording consent and status */}
+      {isCallActive && <RecordingControls {...recordingControls} />}
+
       {/* Call Controls */}
       <VideoCallControls
         isCallActive={isCallActive}
@@ -189,3 +196,17 @@ export const EnhancedVirtualConsultationRoom: React.FC<EnhancedVirtualConsultati
     </div>
   );
 };
+
+// Patients go through the waiting room first; the physician admits them
+// into the call
+export const EnhancedVirtualConsultationRoom: React.FC<EnhancedVirtualConsultationRoomProps> = (props) => {
+  const { profile } = useAuth();
+  const [admitted, setAdmitted] = useState(false);
+  const handleAdmitted = useCallback(() => setAdmitted(true), []);
+
+  if (profile?.role === 'patient' && props.sessionId && !admitted) {
+    return <WaitingRoom sessionId={props.sessionId} onAdmitted={handleAdmitted} />;
+  }
+
+  return <ConsultationCallView {...props} />;
+};
@@ -0,0 +1,63 @@
+
+import React from 'react';
+import { MessageCircle, Mic, VideoOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { MediaMode } from '@/lib/realtimeClient';
+import type { RemoteParticipant } from './hooks/useWebRTCVideoCall';
+
+interface MediaModeNoticeProps {
+  mediaMode: MediaMode;
+  remoteParticipants: RemoteParticipant[];
+  onContinueInChat: () => void;
+}
+
+const isAudioOnly = (mode: MediaMode) => mode === 'audio_only' || mode === 'chat';
+
+// Tells the user when the call stepped down for a weak connection, theirs or
+// someone else's, and offers to continue by chat when even audio struggles
+export const MediaModeNotice: React.FC<MediaModeNoticeProps> = ({
+  mediaMode,
+  remoteParticipants,
+  onContinueInChat
+}) => {
+  const weakRemotes = remoteParticipants.filter(participant => isAudioOnly(participant.mediaMode));
+
+  if (mediaMode === 'full' && weakRemotes.length === 0) return null;
+
+  return (
+    <div className="absolute top-16 left-1/2 -translate-x-1/2 z-10 flex flex-col items-center gap-2 max-w-md">
+      {mediaMode === 'reduced' && (
+        <div className="bg-black/75 text-white text-sm rounded-lg px-3 py-2 flex items-center gap-2">
+          <VideoOff className="w-4 h-4" />
+          Your connection is slow, so video quality was lowered
+        </div>
+      )}
+
+      {mediaMode === 'audio_only' && (
+        <div className="bg-black/75 text-white text-sm rounded-lg px-3 py-2 flex items-center gap-2">
+          <Mic className="w-4 h-4" />
+          Your connection is weak, so the call continues with audio only
+        </div>
+      )}
+
+      {mediaMode === 'chat' && (
+        <div className="bg-white text-gray-800 rounded-lg shadow-md px-4 py-3 text-sm">
+          <p className="mb-2">
+            Your connection is too weak for a reliable call. You can continue the consultation by chat.
+          </p>
+          <Button size="sm" onClick={onContinueInChat}>
+            <MessageCircle className="w-4 h-4 mr-1" />
+            Continue in chat
+          </Button>
+        </div>
+      )}
+
+      {weakRemotes.map(participant => (
+        <div key={participant.userId} className="bg-black/75 text-white text-sm rounded-lg px-3 py-2 flex items-center gap-2">
+          <Mic className="w-4 h-4" />
+          {participant.name ?? 'The other participant'} has a weak connection and is on audio only
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+
+import React, { useEffect, useRef } from 'react';
+import { Badge } from '@/components/ui/badge';
+import type { RemoteParticipant } from './hooks/useWebRTCVideoCall';
+
+interface ParticipantGridProps {
+  localStream: MediaStream | null;
+  remoteParticipants: RemoteParticipant[];
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  patient: 'Patient',
+  physician: 'Physician',
+  caregiver: 'Caregiver',
+  interpreter: 'Interpreter',
+  consulting_physician: 'Consulting physician',
+};
+
+const VideoTile: React.FC<{
+  stream: MediaStream | null;
+  label: string;
+  role: string | null;
+  muted?: boolean;
+  connectionState?: RTCPeerConnectionState;
+  audioOnly?: boolean;
+}> = ({ stream, label, role, muted = false, connectionState, audioOnly = false }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <div className="relative bg-gray-800 rounded-lg overflow-hidden min-h-0">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={muted}
+        className="w-full h-full object-cover"
+      />
+
+      {audioOnly && connectionState === 'connected' && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-800 text-white">
+          <div className="text-center">
+            <div className="text-4xl mb-2">🎙️</div>
+            <p className="text-sm">Audio only: weak connection</p>
+          </div>
+        </div>
+      )}
+
+      {(!stream || (connectionState && connectionState !== 'connected')) && (
+        <div className="absolute inset-0 flex items-center justify-center text-white">
+          <div className="text-center">
+            <div className="text-4xl mb-2">👤</div>
+            <p className="text-sm">
+              {connectionState === 'disconnected' || connectionState === 'failed' ? 'Reconnecting...' : 'Connecting...'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="absolute bottom-2 left-2 flex items-center gap-2">
+        <span className="text-white text-sm bg-black/50 rounded px-2 py-0.5">{label}</span>
+        {role && <Badge variant="secondary">{ROLE_LABELS[role] ?? role}</Badge>}
+      </div>
+    </div>
+  );
+};
+
+// Layout for calls with more than one other participant
+export const ParticipantGrid: React.FC<ParticipantGridProps> = ({ localStream, remoteParticipants }) => {
+  const tiles = remoteParticipants.length + 1;
+  // Rooms hold at most six people, so two rows always fit everyone
+  const columns = tiles <= 4 ? 'grid-cols-2' : 'grid-cols-3';
+  const rows = tiles <= 2 ? 'grid-rows-1' : 'grid-rows-2';
+
+  return (
+    <div className={`absolute inset-0 z-[1] grid ${columns} ${rows} gap-2 p-2 bg-gray-900`}>
+      {remoteParticipants.map(participant => (
+        <VideoTile
+          key={participant.userId}
+          stream={participant.stream}
+          label={participant.name ?? 'Participant'}
+          role={participant.role}
+          connectionState={participant.connectionState}
+          audioOnly={participant.mediaMode === 'audio_only' || participant.mediaMode === 'chat'}
+        />
+      ))}
+      <VideoTile stream={localStream} label="You" role={null} muted />
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Circle, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useConsultationRecording } from './hooks/useConsultationRecording';
+
+type RecordingControlsProps = ReturnType<typeof useConsultationRecording>;
+
+const CONSENT_TERMS =
+  'The recording is encrypted and kept with your medical record. Recording only starts once both ' +
+  'of you agree, and either of you can stop it at any time.';
+
+export const RecordingControls: React.FC<RecordingControlsProps> = ({
+  recording,
+  available,
+  isRecording,
+  isRecorder,
+  consentRequested,
+  uploading,
+  requestRecording,
+  respondToRequest,
+  stopRecording,
+}) => {
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  if (!available) return null;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2">
+      {isRecording ? (
+        <>
+          <Badge variant="destructive" className="flex items-center gap-1">
+            <Circle className="w-2 h-2 fill-current animate-pulse" />
+            REC
+          </Badge>
+          <Button size="sm" variant="secondary" onClick={stopRecording}>
+            <Square className="w-3 h-3 mr-1" />
+            Stop recording
+          </Button>
+        </>
+      ) : recording && isRecorder ? (
+        <>
+          <Badge variant="secondary">Waiting for consent…</Badge>
+          <Button size="sm" variant="ghost" className="text-white" onClick={stopRecording}>
+            Cancel
+          </Button>
+        </>
+      ) : !recording ? (
+        <Button size="sm" variant="secondary" disabled={uploading} onClick={() => setConfirmOpen(true)}>
+          <Circle className="w-3 h-3 mr-1 text-red-500 fill-current" />
+          {uploading ? 'Saving recording…' : 'Record'}
+        </Button>
+      ) : null}
+
+      {/* The requester's own consent */}
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Record this consultation?</AlertDialogTitle>
+            <AlertDialogDescription>{CONSENT_TERMS}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={requestRecording}>I consent, ask to record</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* The other participant's request */}
+      <AlertDialog open={consentRequested}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Allow this consultation to be recorded?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The other participant has asked to record this consultation. {CONSENT_TERMS}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => respondToRequest(false)}>Decline</AlertDialogCancel>
+            <AlertDialogAction onClick={() => respondToRequest(true)}>I consent</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -46,7 +46,6 @@ export const VideoInterface: React.FC<VideoInterfaceProps> = ({
     isConnecting,
     localVideoRef,
     remoteVideoRef,
-    peerConnectionRef,
     startCall,
     endCall,
     toggleVideo,
@@ -0,0 +1,292 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle, Clock, Mic, Video, Wifi, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { useDeviceCheck } from './hooks/useDeviceCheck';
+import { useWaitingRoom, type IntakeQuestion } from './hooks/useWaitingRoom';
+
+interface WaitingRoomProps {
+  sessionId: string;
+  onAdmitted: () => void;
+}
+
+type Answers = Record<string, string | number>;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatSlot = (iso: string) =>
+  new Date(iso).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const CheckRow: React.FC<{ icon: React.ReactNode; label: string; passed: boolean | undefined; optional?: boolean }> = ({
+  icon,
+  label,
+  passed,
+  optional = false
+}) => (
+  <div className="flex items-center justify-between py-2">
+    <div className="flex items-center gap-2">
+      {icon}
+      <span>{label}</span>
+      {optional && <span className="text-xs text-gray-500">(optional)</span>}
+    </div>
+    {passed === undefined ? (
+      <span className="text-sm text-gray-500">Checking...</span>
+    ) : passed ? (
+      <CheckCircle className="w-5 h-5 text-green-600" />
+    ) : (
+      <XCircle className={`w-5 h-5 ${optional ? 'text-yellow-500' : 'text-red-600'}`} />
+    )}
+  </div>
+);
+
+const IntakeField: React.FC<{ question: IntakeQuestion; value: string | number | undefined; onChange: (value: string | number) => void }> = ({
+  question,
+  value,
+  onChange
+}) => (
+  <div className="space-y-2">
+    <Label htmlFor={`intake-${question.id}`}>
+      {question.label}
+      {question.required && <span className="text-red-600"> *</span>}
+    </Label>
+    {question.type === 'scale' ? (
+      <div className="flex items-center gap-4">
+        <Slider
+          id={`intake-${question.id}`}
+          min={0}
+          max={10}
+          step={1}
+          value={[typeof value === 'number' ? value : 0]}
+          onValueChange={([level]) => onChange(level ?? 0)}
+        />
+        <span className="w-6 text-right">{typeof value === 'number' ? value : 0}</span>
+      </div>
+    ) : (
+      <Textarea
+        id={`intake-${question.id}`}
+        value={typeof value === 'string' ? value : ''}
+        onChange={(event) => onChange(event.target.value)}
+        rows={2}
+      />
+    )}
+  </div>
+);
+
+// Where a patient waits before a consultation: a device check, the intake
+// questions, then their place in the queue until the physician admits them.
+// If the physician runs late the patient can pick another time instead.
+export const WaitingRoom: React.FC<WaitingRoomProps> = ({ sessionId, onAdmitted }) => {
+  const { info, status, admitted, loading, error, checkIn, leave, rescheduleSlots, reschedule } = useWaitingRoom(sessionId);
+  const { step, result, previewStream, audioLevel, runCheck, stopPreview } = useDeviceCheck(sessionId);
+  const [answers, setAnswers] = useState<Answers>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [chosenSlot, setChosenSlot] = useState('');
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.srcObject = previewStream;
+    }
+  }, [previewStream]);
+
+  useEffect(() => {
+    if (admitted) {
+      stopPreview();
+      onAdmitted();
+    }
+  }, [admitted, onAdmitted, stopPreview]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">Loading waiting room...</CardContent>
+      </Card>
+    );
+  }
+
+  if (!info) {
+    return (
+      <Card>
+        <CardContent className="p-6">{error ?? 'Consultation session not found.'}</CardContent>
+      </Card>
+    );
+  }
+
+  const devicesReady = !!result && result.microphone && result.connection;
+  const missingAnswers = info.intakeQuestions.some(
+    question => question.required && String(answers[question.id] ?? '').trim() === ''
+  );
+
+  const handleCheckIn = async () => {
+    if (!result) return;
+
+    setSubmitting(true);
+    await checkIn(result, answers);
+    setSubmitting(false);
+    // The queue no longer needs the camera and microphone
+    stopPreview();
+  };
+
+  const handleReschedule = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const slot = rescheduleSlots.find(candidate => candidate.startsAt === chosenSlot);
+    if (!slot) return;
+
+    setSubmitting(true);
+    await reschedule(slot.appointmentDate, slot.appointmentTime);
+    setSubmitting(false);
+  };
+
+  if (status?.status === 'rescheduled') {
+    return (
+      <Card>
+        <CardContent className="p-6 space-y-2">
+          <p className="font-medium">Your appointment has been moved.</p>
+          <p className="text-sm text-gray-600">Your physician will confirm the new time, and you will be notified.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (status?.status === 'waiting') {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Waiting room
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p>You are checked in. Your physician will admit you when they are ready.</p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="rounded-lg bg-gray-50 p-4 text-center">
+              <p className="text-sm text-gray-600">Your position</p>
+              <p className="text-3xl font-semibold">{status.position ?? '-'}</p>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4 text-center">
+              <p className="text-sm text-gray-600">Estimated wait</p>
+              <p className="text-3xl font-semibold">
+                {status.estimatedWaitMinutes === null ? '-' : `${status.estimatedWaitMinutes} min`}
+              </p>
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-600">Appointment time: {formatTime(info.scheduledAt)}</p>
+
+          {status.physicianLate && (
+            <Alert>
+              <AlertDescription className="space-y-3">
+                <p>Your physician is running late. You can keep waiting or choose another time.</p>
+                <form onSubmit={handleReschedule} className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="reschedule-slot">New time</Label>
+                    <Select value={chosenSlot} onValueChange={setChosenSlot}>
+                      <SelectTrigger id="reschedule-slot" className="w-64">
+                        <SelectValue placeholder={rescheduleSlots.length ? 'Choose a time' : 'No free times in the next week'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {rescheduleSlots.map(slot => (
+                          <SelectItem key={slot.startsAt} value={slot.startsAt}>{formatSlot(slot.startsAt)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button type="submit" variant="outline" disabled={!chosenSlot || submitting}>
+                    Choose this time
+                  </Button>
+                </form>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button variant="ghost" onClick={leave}>Leave waiting room</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const checkInOpen = Date.parse(info.checkInOpensAt) <= Date.now();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Before your consultation</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!checkInOpen && (
+          <Alert>
+            <AlertDescription>
+              Check-in opens at {formatTime(info.checkInOpensAt)}. You can test your devices now.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <section className="space-y-3">
+          <h3 className="font-medium">1. Check your devices</h3>
+          <video ref={previewRef} autoPlay playsInline muted className="w-full max-w-sm rounded-lg bg-gray-900 aspect-video" />
+          {step !== 'idle' && (
+            <div>
+              <CheckRow icon={<Video className="w-4 h-4" />} label="Camera" passed={result?.camera} optional />
+              <CheckRow icon={<Mic className="w-4 h-4" />} label="Microphone" passed={result?.microphone} />
+              {result?.microphone && (
+                <div className="pl-6 pb-2">
+                  <Progress value={audioLevel} className="h-2" />
+                  <p className="text-xs text-gray-500 mt-1">Say something; the bar should move.</p>
+                </div>
+              )}
+              <CheckRow icon={<Wifi className="w-4 h-4" />} label="Connection" passed={result?.connection} />
+            </div>
+          )}
+          {result && !result.camera && result.microphone && (
+            <p className="text-sm text-gray-600">Without a camera the consultation continues with audio only.</p>
+          )}
+          <Button variant="outline" onClick={runCheck} disabled={step === 'checking'}>
+            {step === 'idle' ? 'Start device check' : 'Check again'}
+          </Button>
+        </section>
+
+        <section className="space-y-4">
+          <h3 className="font-medium">2. Tell your physician about your visit</h3>
+          {info.intakeQuestions.map(question => (
+            <IntakeField
+              key={question.id}
+              question={question}
+              value={answers[question.id]}
+              onChange={(value) => setAnswers(current => ({ ...current, [question.id]: value }))}
+            />
+          ))}
+        </section>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleCheckIn} disabled={!checkInOpen || !devicesReady || missingAnswers || submitting}>
+            {submitting ? 'Checking in...' : 'Check in'}
+          </Button>
+          {status?.status === 'left' && <Badge variant="secondary">You left the waiting room</Badge>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
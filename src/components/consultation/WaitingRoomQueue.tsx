@@ -0,0 +1,98 @@
+
+import React from 'react';
+import { Mic, Users, Video, Wifi } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { usePhysicianWaitingQueue } from './hooks/usePhysicianWaitingQueue';
+
+interface WaitingRoomQueueProps {
+  onAdmitted: (sessionId: string) => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Intake answers are keyed by question id, e.g. "symptoms_since"
+const formatQuestion = (id: string) => {
+  const words = id.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const DeviceBadge: React.FC<{ icon: React.ReactNode; label: string; passed: boolean }> = ({ icon, label, passed }) => (
+  <Badge variant={passed ? 'secondary' : 'destructive'} className="flex items-center gap-1">
+    {icon}
+    {label}
+  </Badge>
+);
+
+// Patients who checked in for this physician, with their device check and
+// intake answers; admitting one opens the consultation room for both
+export const WaitingRoomQueue: React.FC<WaitingRoomQueueProps> = ({ onAdmitted }) => {
+  const { toast } = useToast();
+  const { entries, admitting, admit } = usePhysicianWaitingQueue();
+
+  if (entries.length === 0) return null;
+
+  const handleAdmit = async (sessionId: string) => {
+    if (await admit(sessionId)) {
+      onAdmitted(sessionId);
+    } else {
+      toast({
+        title: 'Could not admit patient',
+        description: 'The patient may have left the waiting room.',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Waiting Room
+          <Badge variant="secondary">{entries.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.map(entry => (
+          <div key={entry.sessionId} className="border rounded-lg p-4 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="font-medium">
+                  {entry.position}. {entry.patientName ?? 'Patient'}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Due {formatTime(entry.scheduledAt)} · checked in {formatTime(entry.checkedInAt)}
+                </p>
+              </div>
+              <Button
+                onClick={() => handleAdmit(entry.sessionId)}
+                disabled={admitting === entry.sessionId}
+              >
+                {admitting === entry.sessionId ? 'Admitting...' : 'Admit'}
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <DeviceBadge icon={<Video className="w-3 h-3" />} label="Camera" passed={entry.deviceCheck.camera} />
+              <DeviceBadge icon={<Mic className="w-3 h-3" />} label="Microphone" passed={entry.deviceCheck.microphone} />
+              <DeviceBadge icon={<Wifi className="w-3 h-3" />} label="Connection" passed={entry.deviceCheck.connection} />
+            </div>
+
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              {Object.entries(entry.intake).map(([question, answer]) => (
+                <div key={question}>
+                  <dt className="text-muted-foreground">{formatQuestion(question)}</dt>
+                  <dd>{answer}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,116 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSocket } from '@/components/realtime/useSocket';
+import type { MediaMode, MediaModePayload } from '@/lib/realtimeClient';
+import type { ConnectionQuality } from './useConnectionMonitor';
+
+// Best first; the call moves one step at a time
+export const MEDIA_MODES: MediaMode[] = ['full', 'reduced', 'audio_only', 'chat'];
+
+// Stats that move the call down into each mode; crossing any one counts.
+// Bandwidth only counts while video is sent, as audio alone keeps the
+// browser's estimate low.
+const STEP_DOWN_THRESHOLDS = [
+  { mode: 'reduced', latency: 250, packetLoss: 3, bitrate: 500 },
+  { mode: 'audio_only', latency: 400, packetLoss: 8, bitrate: 150 },
+  { mode: 'chat', latency: 1000, packetLoss: 20, bitrate: 30 },
+] as const;
+
+// Samples arrive every 2 seconds: down after 6 seconds of bad stats, up after
+// 20 seconds of good ones
+const STEP_DOWN_AFTER_SAMPLES = 3;
+const STEP_UP_AFTER_SAMPLES = 10;
+
+// A step up that fails this soon doubles the wait before the next one
+const FAILED_STEP_UP_WINDOW_MS = 60000;
+const MAX_STEP_UP_AFTER_SAMPLES = 80;
+
+const rank = (mode: MediaMode) => MEDIA_MODES.indexOf(mode);
+
+const modeFor = (quality: ConnectionQuality, countBitrate: boolean): MediaMode =>
+  STEP_DOWN_THRESHOLDS.reduce<MediaMode>((target, threshold) => {
+    const crossed = quality.latency > threshold.latency ||
+      quality.packetLoss > threshold.packetLoss ||
+      (countBitrate && quality.bitrate > 0 && quality.bitrate < threshold.bitrate);
+    return crossed ? threshold.mode : target;
+  }, 'full');
+
+interface AdaptiveMediaModeProps {
+  sessionId: string;
+  quality: ConnectionQuality;
+  isCallActive: boolean;
+  onModeChange: (mode: MediaMode) => void;
+}
+
+// Steps the call down as the connection worsens (lower resolution and frame
+// rate, then audio only, then an offer to continue by chat) and back up as it
+// recovers. Each change is recorded on the session.
+export const useAdaptiveMediaMode = ({ sessionId, quality, isCallActive, onModeChange }: AdaptiveMediaModeProps) => {
+  const { client } = useSocket();
+  const [mode, setMode] = useState<MediaMode>('full');
+
+  const modeRef = useRef<MediaMode>('full');
+  const downSamplesRef = useRef(0);
+  const upSamplesRef = useRef(0);
+  const stepUpAfterRef = useRef(STEP_UP_AFTER_SAMPLES);
+  const lastStepUpRef = useRef(0);
+  const onModeChangeRef = useRef(onModeChange);
+  onModeChangeRef.current = onModeChange;
+
+  const changeMode = useCallback((next: MediaMode, reason: MediaModePayload['reason'], stats?: MediaModePayload['stats']) => {
+    if (next === modeRef.current) return;
+
+    console.log(`📶 [AdaptiveMedia] ${modeRef.current} → ${next} (${reason})`);
+    modeRef.current = next;
+    downSamplesRef.current = 0;
+    upSamplesRef.current = 0;
+    setMode(next);
+    onModeChangeRef.current(next);
+
+    client?.request('consultation:media_mode', { sessionId, mode: next, reason, ...(stats && { stats }) })
+      .catch((error) => console.error('Error recording media mode:', error));
+  }, [client, sessionId]);
+
+  // Rejoining the room resumes at the mode last recorded for this user
+  const resume = useCallback((recorded: MediaMode) => {
+    modeRef.current = recorded;
+    setMode(recorded);
+    onModeChangeRef.current(recorded);
+  }, []);
+
+  useEffect(() => {
+    if (!isCallActive || quality.level === 'disconnected') return;
+
+    const current = modeRef.current;
+    const sendingVideo = current === 'full' || current === 'reduced';
+    const stats = { latency: quality.latency, packetLoss: quality.packetLoss, bitrate: quality.bitrate };
+
+    if (rank(modeFor(quality, sendingVideo)) > rank(current)) {
+      upSamplesRef.current = 0;
+      if (++downSamplesRef.current < STEP_DOWN_AFTER_SAMPLES) return;
+
+      if (Date.now() - lastStepUpRef.current < FAILED_STEP_UP_WINDOW_MS) {
+        stepUpAfterRef.current = Math.min(stepUpAfterRef.current * 2, MAX_STEP_UP_AFTER_SAMPLES);
+      }
+      changeMode(MEDIA_MODES[rank(current) + 1]!, 'degraded', stats);
+
+    } else if (rank(modeFor(quality, false)) < rank(current)) {
+      downSamplesRef.current = 0;
+      if (++upSamplesRef.current < stepUpAfterRef.current) return;
+
+      lastStepUpRef.current = Date.now();
+      changeMode(MEDIA_MODES[rank(current) - 1]!, 'recovered', stats);
+
+    } else {
+      downSamplesRef.current = 0;
+      upSamplesRef.current = 0;
+      if (Date.now() - lastStepUpRef.current >= FAILED_STEP_UP_WINDOW_MS) {
+        stepUpAfterRef.current = STEP_UP_AFTER_SAMPLES;
+      }
+    }
+  }, [quality, isCallActive, changeMode]);
+
+  return {
+    mode,
+    resume,
+  };
+};
@@ -7,6 +7,8 @@ interface AutoJoinManagerProps {
   userId: string;
   profile: any;
   isPatient: boolean;
+  // Patients join once the physician admits them from the waiting room
+  admitted: boolean;
   initiateCall: (callerName: string) => void;
   sendPatientJoined: (sessionId: string, patientId: string) => Promise<void>;
 }
@@ -16,6 +18,7 @@ export const useAutoJoinManager = ({
   userId,
   profile,
   isPatient,
+  admitted,
   initiateCall,
   sendPatientJoined
 }: AutoJoinManagerProps) => {
@@ -35,6 +38,11 @@ export const useAutoJoinManager = ({
       return;
     }
 
+    if (!admitted) {
+      console.log('⏳ [AutoJoinManager] Waiting for the physician to admit the patient, skipping auto-join');
+      return;
+    }
+
     try {
       console.log('🚀 [AutoJoinManager] Starting auto-join process for session:', sessionId);
       setAutoJoinAttempted(true);
@@ -72,6 +80,14 @@ export const useAutoJoinManager = ({
   };
 
   const triggerManualJoin = async () => {
+    if (!admitted) {
+      toast({
+        title: "Please wait",
+        description: "Your physician will admit you from the waiting room shortly.",
+      });
+      return;
+    }
+
     try {
       console.log('👤 [AutoJoinManager] Manual join triggered for session:', sessionId);
       
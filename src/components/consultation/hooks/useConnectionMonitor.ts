@@ -1,150 +1,146 @@
-
 import { useState, useEffect, useRef, useCallback } from 'react';
 
-interface ConnectionQuality {
+export interface ConnectionQuality {
   level: 'excellent' | 'good' | 'fair' | 'poor' | 'disconnected';
-  latency: number;
-  packetLoss: number;
-  bitrate: number;
+  latency: number; // Round trip in ms
+  packetLoss: number; // Percent over the last interval
+  bitrate: number; // Estimated bandwidth in kbps; 0 until known
 }
 
 interface ConnectionMonitorProps {
-  peerConnection: RTCPeerConnection | null;
+  getPeerConnections: () => RTCPeerConnection[];
   isCallActive: boolean;
-  onConnectionQualityChange: (quality: ConnectionQuality) => void;
-  onReconnectionNeeded: () => void;
+  onConnectionQualityChange?: (quality: ConnectionQuality) => void;
+}
+
+// Packet counters from the previous sample, to measure loss per interval
+interface Counters {
+  lost: number;
+  received: number;
+  bytes: number;
+  timestamp: number;
 }
 
+const QUALITY_CHECK_INTERVAL_MS = 2000;
+
+const DISCONNECTED: ConnectionQuality = {
+  level: 'disconnected',
+  latency: 0,
+  packetLoss: 0,
+  bitrate: 0
+};
+
+const toLevel = (latency: number, packetLoss: number): ConnectionQuality['level'] => {
+  if (latency > 300 || packetLoss > 5) return 'poor';
+  if (latency > 200 || packetLoss > 3) return 'fair';
+  if (latency > 100 || packetLoss > 1) return 'good';
+  return 'excellent';
+};
+
+// Samples getStats() on every connection of the call. With several
+// participants the worst link decides, since that is the one that suffers.
 export const useConnectionMonitor = ({
-  peerConnection,
+  getPeerConnections,
   isCallActive,
-  onConnectionQualityChange,
-  onReconnectionNeeded
+  onConnectionQualityChange
 }: ConnectionMonitorProps) => {
-  const [connectionQuality, setConnectionQuality] = useState<ConnectionQuality>({
-    level: 'disconnected',
-    latency: 0,
-    packetLoss: 0,
-    bitrate: 0
-  });
-
-  const [reconnectionAttempts, setReconnectionAttempts] = useState(0);
-  const maxReconnectionAttempts = 3;
-  const qualityCheckInterval = useRef<NodeJS.Timeout>();
-  const reconnectionTimeout = useRef<NodeJS.Timeout>();
+  const [connectionQuality, setConnectionQuality] = useState<ConnectionQuality>(DISCONNECTED);
+
+  const countersRef = useRef(new WeakMap<RTCPeerConnection, Counters>());
+  const onChangeRef = useRef(onConnectionQualityChange);
+  onChangeRef.current = onConnectionQualityChange;
+
+  const measure = useCallback(async (pc: RTCPeerConnection) => {
+    const stats = await pc.getStats();
+    let latency = 0;
+    let availableBitrate = 0;
+    let remoteLoss = 0;
+    const counters: Counters = { lost: 0, received: 0, bytes: 0, timestamp: performance.now() };
+
+    stats.forEach((report) => {
+      if (report.type === 'candidate-pair' && report.nominated && report.state === 'succeeded') {
+        latency = (report.currentRoundTripTime || 0) * 1000;
+        availableBitrate = (report.availableOutgoingBitrate || 0) / 1000;
+      }
+
+      // What this side receives
+      if (report.type === 'inbound-rtp') {
+        counters.lost += Math.max(0, report.packetsLost || 0);
+        counters.received += report.packetsReceived || 0;
+        counters.bytes += report.bytesReceived || 0;
+      }
+
+      // What the other side reports receiving from us
+      if (report.type === 'remote-inbound-rtp') {
+        remoteLoss = Math.max(remoteLoss, (report.fractionLost || 0) * 100);
+      }
+    });
+
+    const previous = countersRef.current.get(pc);
+    countersRef.current.set(pc, counters);
+
+    let inboundLoss = 0;
+    let receivedBitrate = 0;
+    if (previous) {
+      const lost = counters.lost - previous.lost;
+      const total = lost + counters.received - previous.received;
+      inboundLoss = total > 0 ? (lost / total) * 100 : 0;
+
+      const seconds = (counters.timestamp - previous.timestamp) / 1000;
+      receivedBitrate = seconds > 0 ? ((counters.bytes - previous.bytes) * 8) / 1000 / seconds : 0;
+    }
+
+    return {
+      latency,
+      packetLoss: Math.max(inboundLoss, remoteLoss),
+      // The sender's bandwidth estimate where the browser reports one
+      bitrate: availableBitrate || receivedBitrate
+    };
+  }, []);
 
   const calculateConnectionQuality = useCallback(async () => {
-    if (!peerConnection || !isCallActive) return;
+    const connections = getPeerConnections().filter(pc => pc.connectionState === 'connected');
+    if (connections.length === 0) return;
 
     try {
-      const stats = await peerConnection.getStats();
-      let latency = 0;
-      let packetLoss = 0;
-      let bitrate = 0;
-
-      stats.forEach((report) => {
-        if (report.type === 'candidate-pair' && report.state === 'succeeded') {
-          latency = report.currentRoundTripTime * 1000 || 0;
-        }
-        
-        if (report.type === 'inbound-rtp' && report.kind === 'video') {
-          const packetsLost = report.packetsLost || 0;
-          const packetsReceived = report.packetsReceived || 1;
-          packetLoss = (packetsLost / (packetsLost + packetsReceived)) * 100;
-          bitrate = report.bytesReceived || 0;
-        }
-      });
-
-      // Determine quality level
-      let level: ConnectionQuality['level'] = 'excellent';
-      
-      if (latency > 300 || packetLoss > 5) {
-        level = 'poor';
-      } else if (latency > 200 || packetLoss > 3) {
-        level = 'fair';
-      } else if (latency > 100 || packetLoss > 1) {
-        level = 'good';
-      }
+      const samples = await Promise.all(connections.map(measure));
+      const latency = Math.max(...samples.map(sample => sample.latency));
+      const packetLoss = Math.max(...samples.map(sample => sample.packetLoss));
+      const known = samples.map(sample => sample.bitrate).filter(bitrate => bitrate > 0);
 
       const quality: ConnectionQuality = {
-        level,
+        level: toLevel(latency, packetLoss),
         latency: Math.round(latency),
         packetLoss: Math.round(packetLoss * 100) / 100,
-        bitrate: Math.round(bitrate / 1024) // Convert to KB
+        bitrate: known.length > 0 ? Math.round(Math.min(...known)) : 0
       };
 
       setConnectionQuality(quality);
-      onConnectionQualityChange(quality);
-
-      // Trigger reconnection if quality is poor
-      if (level === 'poor' && reconnectionAttempts < maxReconnectionAttempts) {
-        console.log('🔄 [ConnectionMonitor] Poor connection detected, triggering reconnection');
-        triggerReconnection();
-      }
+      onChangeRef.current?.(quality);
 
     } catch (error) {
       console.error('❌ [ConnectionMonitor] Error calculating connection quality:', error);
     }
-  }, [peerConnection, isCallActive, reconnectionAttempts, onConnectionQualityChange]);
+  }, [getPeerConnections, measure]);
 
-  const triggerReconnection = useCallback(() => {
-    if (reconnectionTimeout.current) return; // Prevent multiple reconnection attempts
-
-    setReconnectionAttempts(prev => prev + 1);
-    
-    reconnectionTimeout.current = setTimeout(() => {
-      console.log(`🔄 [ConnectionMonitor] Attempting reconnection ${reconnectionAttempts + 1}/${maxReconnectionAttempts}`);
-      onReconnectionNeeded();
-      reconnectionTimeout.current = undefined;
-    }, 2000); // Wait 2 seconds before reconnecting
-
-  }, [reconnectionAttempts, onReconnectionNeeded]);
-
-  // Start monitoring when call becomes active
+  // Monitor while the call is active
   useEffect(() => {
-    if (isCallActive && peerConnection) {
-      console.log('📊 [ConnectionMonitor] Starting connection quality monitoring');
-      
-      qualityCheckInterval.current = setInterval(calculateConnectionQuality, 2000);
-      
-      // Initial quality check
-      calculateConnectionQuality();
-    } else {
-      console.log('📊 [ConnectionMonitor] Stopping connection quality monitoring');
-      
-      if (qualityCheckInterval.current) {
-        clearInterval(qualityCheckInterval.current);
-        qualityCheckInterval.current = undefined;
-      }
-      
-      setConnectionQuality({
-        level: 'disconnected',
-        latency: 0,
-        packetLoss: 0,
-        bitrate: 0
-      });
+    if (!isCallActive) {
+      setConnectionQuality(DISCONNECTED);
+      return;
     }
 
+    console.log('📊 [ConnectionMonitor] Starting connection quality monitoring');
+    const interval = setInterval(calculateConnectionQuality, QUALITY_CHECK_INTERVAL_MS);
+    calculateConnectionQuality();
+
     return () => {
-      if (qualityCheckInterval.current) {
-        clearInterval(qualityCheckInterval.current);
-      }
-      if (reconnectionTimeout.current) {
-        clearTimeout(reconnectionTimeout.current);
-      }
+      console.log('📊 [ConnectionMonitor] Stopping connection quality monitoring');
+      clearInterval(interval);
     };
-  }, [isCallActive, peerConnection, calculateConnectionQuality]);
-
-  // Reset reconnection attempts when connection is restored
-  useEffect(() => {
-    if (connectionQuality.level === 'excellent' || connectionQuality.level === 'good') {
-      setReconnectionAttempts(0);
-    }
-  }, [connectionQuality.level]);
+  }, [isCallActive, calculateConnectionQuality]);
 
   return {
-    connectionQuality,
-    reconnectionAttempts,
-    maxReconnectionAttempts
+    connectionQuality
   };
 };
@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useSocket, useSocketEvent } from '@/components/realtime/useSocket';
+import type { RecordingState } from '@/lib/realtimeClient';
+
+// The recorder hands over a chunk this often; each is uploaded straight away
+const CHUNK_INTERVAL_MS = 5000;
+const UPLOAD_ATTEMPTS = 3;
+const MIME_TYPES = ['video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+interface RecordingStreams {
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+}
+
+// The other participant's video with both participants' audio mixed in
+const composeStream = ({ localStream, remoteStream }: RecordingStreams) => {
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+
+  [localStream, remoteStream].forEach((stream) => {
+    if (stream && stream.getAudioTracks().length > 0) {
+      audioContext.createMediaStreamSource(stream).connect(destination);
+    }
+  });
+
+  const videoTrack = remoteStream?.getVideoTracks()[0] ?? localStream?.getVideoTracks()[0];
+  const stream = new MediaStream([
+    ...(videoTrack ? [videoTrack] : []),
+    ...destination.stream.getAudioTracks()
+  ]);
+
+  return { stream, close: () => audioContext.close() };
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export const useConsultationRecording = (sessionId: string, userId: string, streams: RecordingStreams) => {
+  const { toast } = useToast();
+  const { client, connectionState } = useSocket();
+  const [recording, setRecording] = useState<RecordingState | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const closeStreamRef = useRef<(() => Promise<void>) | null>(null);
+  const sequenceRef = useRef(0);
+  const uploadsRef = useRef<Promise<void>>(Promise.resolve());
+  const uploadErrorRef = useRef<unknown>(null);
+  // The request this page made and saw answered
+  const requestedIdRef = useRef<string | null>(null);
+  const streamsRef = useRef(streams);
+  streamsRef.current = streams;
+
+  // Room events arrive once the call hook has joined the consultation room
+  useSocketEvent('consultation:room_state', ({ recording: active }) => {
+    setRecording(active);
+  });
+
+  useSocketEvent('consultation:recording:state', ({ sessionId: updatedSessionId, recording: updated }) => {
+    if (updatedSessionId === sessionId) {
+      setRecording(updated);
+    }
+  });
+
+  const uploadChunk = useCallback(async (recordingId: string, sequence: number, chunk: Blob) => {
+    if (!client) return;
+
+    for (let attempt = 1; attempt <= UPLOAD_ATTEMPTS; attempt++) {
+      try {
+        const body = new FormData();
+        body.append('sequence', String(sequence));
+        body.append('chunk', chunk, `chunk-${sequence}`);
+
+        const response = await client.apiFetch(`/api/recordings/${recordingId}/chunks`, { method: 'POST', body });
+        if (response.ok) return;
+
+        // Rejections other than rate limiting will not succeed on retry
+        if (response.status !== 429 && response.status < 500) {
+          const { message } = await response.json().catch(() => ({ message: null }));
+          throw new Error(message || 'Recording upload was rejected');
+        }
+      } catch (error) {
+        if (attempt === UPLOAD_ATTEMPTS) throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+    }
+  }, [client]);
+
+  // Once the recorder has flushed its last chunk and every upload finished
+  const completeRecording = useCallback(async (recordingId: string) => {
+    if (!client) return;
+
+    try {
+      await uploadsRef.current;
+      if (uploadErrorRef.current) throw uploadErrorRef.current;
+
+      const chunkCount = sequenceRef.current;
+      if (chunkCount === 0) return;
+
+      const response = await client.apiFetch(`/api/recordings/${recordingId}/complete`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chunkCount })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save recording');
+      }
+
+      setRecording(result.data);
+      toast({
+        title: 'Recording saved',
+        description: 'The consultation recording has been stored securely.'
+      });
+    } catch (error) {
+      console.error('Error completing recording:', error);
+      toast({
+        title: 'Recording incomplete',
+        description: errorMessage(error, 'Failed to save recording'),
+        variant: 'destructive'
+      });
+    } finally {
+      setUploading(false);
+    }
+  }, [client, toast]);
+
+  const startRecorder = useCallback((recordingId: string) => {
+    const { stream, close } = composeStream(streamsRef.current);
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+    sequenceRef.current = 0;
+    uploadsRef.current = Promise.resolve();
+    uploadErrorRef.current = null;
+    closeStreamRef.current = close;
+
+    // Chunks are uploaded one at a time so they arrive in order; after a
+    // failed chunk the recording cannot be completed, so the rest are dropped
+    recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+
+      const sequence = sequenceRef.current++;
+      uploadsRef.current = uploadsRef.current
+        .then(() => (uploadErrorRef.current ? undefined : uploadChunk(recordingId, sequence, event.data)))
+        .catch((error) => {
+          console.error(`Error uploading recording chunk ${sequence}:`, error);
+          uploadErrorRef.current = error;
+        });
+    };
+
+    recorder.onstop = () => {
+      closeStreamRef.current?.();
+      closeStreamRef.current = null;
+      completeRecording(recordingId);
+    };
+
+    recorder.start(CHUNK_INTERVAL_MS);
+    recorderRef.current = recorder;
+    setUploading(true);
+  }, [uploadChunk, completeRecording]);
+
+  const stopRecorder = useCallback(() => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  }, []);
+
+  // Only the requester's browser records; it follows the state the server broadcasts
+  useEffect(() => {
+    if (!recording || recording.requestedBy !== userId) return;
+
+    if (recording.status === 'awaiting_consent') {
+      requestedIdRef.current = recording.id;
+    } else if (recording.status === 'recording' && requestedIdRef.current !== recording.id) {
+      // Left running by an earlier page load; starting over would overwrite its chunks
+      client?.request('consultation:recording:stop', { sessionId, recordingId: recording.id }).catch(() => undefined);
+    } else if (recording.status === 'recording' && !recorderRef.current) {
+      try {
+        startRecorder(recording.id);
+      } catch (error) {
+        console.error('Error starting recorder:', error);
+        toast({
+          title: 'Recording failed',
+          description: 'This browser could not start recording.',
+          variant: 'destructive'
+        });
+        client?.request('consultation:recording:stop', { sessionId, recordingId: recording.id }).catch(() => undefined);
+      }
+    } else if (recording.status !== 'recording' && recorderRef.current) {
+      stopRecorder();
+    }
+  }, [recording, userId, sessionId, client, startRecorder, stopRecorder, toast]);
+
+  // Leaving the call stops the recorder; chunks already uploaded are kept
+  useEffect(() => stopRecorder, [stopRecorder]);
+
+  const send = useCallback(async (action: () => Promise<RecordingState>, failure: string) => {
+    try {
+      setRecording(await action());
+    } catch (error) {
+      toast({
+        title: failure,
+        description: errorMessage(error, 'Please try again.'),
+        variant: 'destructive'
+      });
+    }
+  }, [toast]);
+
+  const requestRecording = useCallback(() => {
+    if (!client) return;
+    return send(() => client.request('consultation:recording:request', { sessionId }), 'Could not request recording');
+  }, [client, sessionId, send]);
+
+  const respondToRequest = useCallback((granted: boolean) => {
+    if (!client || !recording) return;
+    return send(
+      () => client.request('consultation:recording:consent', { sessionId, recordingId: recording.id, granted }),
+      'Could not send your answer'
+    );
+  }, [client, recording, sessionId, send]);
+
+  const stopRecording = useCallback(() => {
+    if (!client || !recording) return;
+    return send(
+      () => client.request('consultation:recording:stop', { sessionId, recordingId: recording.id }),
+      'Could not stop recording'
+    );
+  }, [client, recording, sessionId, send]);
+
+  const isActive = recording?.status === 'awaiting_consent' || recording?.status === 'recording';
+
+  return {
+    recording: isActive ? recording : null,
+    available: Boolean(client) && connectionState === 'connected',
+    isRecording: recording?.status === 'recording',
+    isRecorder: recording?.requestedBy === userId,
+    consentRequested: recording?.status === 'awaiting_consent' && recording.requestedBy !== userId,
+    uploading,
+    requestRecording,
+    respondToRequest,
+    stopRecording,
+  };
+};
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSocket } from '@/components/realtime/useSocket';
+import { getIceServers } from '@/lib/iceServers';
+import type { DeviceCheckResult } from '@/lib/realtimeClient';
+
+// How long to wait for a reachable ICE candidate before the connection fails
+const ICE_GATHER_TIMEOUT_MS = 5000;
+
+export type DeviceCheckStep = 'idle' | 'checking' | 'done';
+
+// Gathers candidates with the session's ICE servers; a server reflexive or
+// relay candidate means media can get out of this network
+const canReachIceServers = (iceServers: RTCIceServer[]) =>
+  new Promise<boolean>((resolve) => {
+    const pc = new RTCPeerConnection({ iceServers });
+    const finish = (reachable: boolean) => {
+      clearTimeout(timeout);
+      pc.close();
+      resolve(reachable);
+    };
+    const timeout = setTimeout(() => finish(false), ICE_GATHER_TIMEOUT_MS);
+
+    pc.onicecandidate = ({ candidate }) => {
+      if (!candidate) {
+        finish(false);
+      } else if (candidate.type === 'srflx' || candidate.type === 'relay') {
+        finish(true);
+      }
+    };
+
+    pc.createDataChannel('device-check');
+    pc.createOffer()
+      .then(offer => pc.setLocalDescription(offer))
+      .catch(() => finish(false));
+  });
+
+// Tests the camera, microphone and connection before a patient checks in,
+// keeping the preview stream and a live microphone level for the page to show
+export const useDeviceCheck = (sessionId: string) => {
+  const { client, connectionState } = useSocket();
+  const [step, setStep] = useState<DeviceCheckStep>('idle');
+  const [result, setResult] = useState<DeviceCheckResult | null>(null);
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+  const [audioLevel, setAudioLevel] = useState(0);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number>();
+
+  const stopPreview = useCallback(() => {
+    if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setPreviewStream(null);
+    setAudioLevel(0);
+  }, []);
+
+  const watchAudioLevel = useCallback((stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 256;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Uint8Array(analyser.frequencyBinCount);
+    const tick = () => {
+      analyser.getByteFrequencyData(samples);
+      const average = samples.reduce((total, sample) => total + sample, 0) / samples.length;
+      setAudioLevel(Math.min(100, Math.round((average / 128) * 100)));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  }, []);
+
+  // Asks for each device on its own so a missing camera does not hide a working microphone
+  const getTrack = async (kind: 'audio' | 'video') => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ [kind]: true });
+      return stream.getTracks()[0] ?? null;
+    } catch (error) {
+      console.warn(`Device check could not open ${kind}:`, error);
+      return null;
+    }
+  };
+
+  const runCheck = useCallback(async () => {
+    stopPreview();
+    setStep('checking');
+    setResult(null);
+
+    const [videoTrack, audioTrack] = await Promise.all([getTrack('video'), getTrack('audio')]);
+    const stream = new MediaStream([videoTrack, audioTrack].filter((track): track is MediaStreamTrack => !!track));
+    streamRef.current = stream;
+    setPreviewStream(stream);
+    if (audioTrack) watchAudioLevel(stream);
+
+    const reachable = connectionState === 'connected' &&
+      await canReachIceServers(await getIceServers(client, sessionId));
+
+    setResult({
+      camera: videoTrack?.readyState === 'live',
+      microphone: audioTrack?.readyState === 'live',
+      connection: reachable,
+    });
+    setStep('done');
+  }, [client, connectionState, sessionId, stopPreview, watchAudioLevel]);
+
+  useEffect(() => stopPreview, [stopPreview]);
+
+  return {
+    step,
+    result,
+    previewStream,
+    audioLevel,
+    runCheck,
+    stopPreview,
+  };
+};
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSocket, useSocketEvent } from '@/components/realtime/useSocket';
+import type { WaitingRoomEntry } from '@/lib/realtimeClient';
+
+// The physician's waiting room: patients who checked in, in the order they
+// are due, kept current as they arrive, leave or are admitted
+export const usePhysicianWaitingQueue = () => {
+  const { client, connectionState } = useSocket();
+  const [entries, setEntries] = useState<WaitingRoomEntry[]>([]);
+  const [admitting, setAdmitting] = useState<string | null>(null);
+
+  // Reload on every reconnect; updates sent while offline are lost
+  useEffect(() => {
+    if (!client || connectionState !== 'connected') return;
+
+    client.request('waiting_room:queue', {})
+      .then(setEntries)
+      .catch((error) => console.error('Error loading waiting room:', error));
+  }, [client, connectionState]);
+
+  useSocketEvent('waiting_room:queue', ({ entries: updated }) => {
+    setEntries(updated);
+  });
+
+  const admit = useCallback(async (sessionId: string) => {
+    if (!client) return false;
+
+    setAdmitting(sessionId);
+    try {
+      await client.request('waiting_room:admit', { sessionId });
+      return true;
+    } catch (error) {
+      console.error('Error admitting patient:', error);
+      return false;
+    } finally {
+      setAdmitting(null);
+    }
+  }, [client]);
+
+  return {
+    entries,
+    admitting,
+    admit,
+  };
+};
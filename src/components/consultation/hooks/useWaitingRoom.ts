@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSocket, useSocketEvent } from '@/components/realtime/useSocket';
+import type { DeviceCheckResult, RescheduleSlot, WaitingRoomStatus } from '@/lib/realtimeClient';
+
+export interface IntakeQuestion {
+  id: string;
+  label: string;
+  type: 'text' | 'scale';
+  required: boolean;
+}
+
+export interface WaitingRoomInfo {
+  scheduledAt: string;
+  checkInOpensAt: string;
+  intakeQuestions: IntakeQuestion[];
+  status: WaitingRoomStatus | null;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// The patient's side of the waiting room: check in with the device check and
+// intake answers, follow the queue, and learn when the physician admits them
+export const useWaitingRoom = (sessionId: string) => {
+  const { client } = useSocket();
+  const [info, setInfo] = useState<WaitingRoomInfo | null>(null);
+  const [status, setStatus] = useState<WaitingRoomStatus | null>(null);
+  const [rescheduleSlots, setRescheduleSlots] = useState<RescheduleSlot[]>([]);
+  const [admitted, setAdmitted] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!client || !sessionId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const response = await client.apiFetch(`/api/consultations/sessions/${sessionId}/waiting-room`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to load the waiting room');
+        }
+        if (cancelled) return;
+
+        setInfo(result.data);
+        setStatus(result.data.status);
+        setAdmitted(result.data.status?.status === 'admitted');
+      } catch (loadError) {
+        if (!cancelled) setError(errorMessage(loadError, 'Failed to load the waiting room'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [client, sessionId]);
+
+  // The physician's free times, only offered once they are running late
+  const physicianLate = status?.status === 'waiting' && status.physicianLate;
+  useEffect(() => {
+    if (!client || !physicianLate) return;
+    let cancelled = false;
+
+    client.apiFetch(`/api/consultations/sessions/${sessionId}/waiting-room/reschedule-slots`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to load the available times');
+        }
+        if (!cancelled) setRescheduleSlots(result.data);
+      })
+      .catch((slotsError) => {
+        if (!cancelled) setError(errorMessage(slotsError, 'Failed to load the available times'));
+      });
+
+    return () => { cancelled = true; };
+  }, [client, sessionId, physicianLate]);
+
+  useSocketEvent('waiting_room:status', (update) => {
+    if (update.sessionId === sessionId) {
+      setStatus(update);
+    }
+  });
+
+  useSocketEvent('waiting_room:admitted', ({ sessionId: admittedSessionId }) => {
+    if (admittedSessionId === sessionId) {
+      setAdmitted(true);
+    }
+  });
+
+  const checkIn = useCallback(async (deviceCheck: DeviceCheckResult, intake: Record<string, string | number>) => {
+    if (!client) return;
+
+    setError(null);
+    try {
+      const result = await client.request('waiting_room:check_in', { sessionId, deviceCheck, intake });
+      setStatus(result);
+      setAdmitted(result.status === 'admitted');
+    } catch (checkInError) {
+      setError(errorMessage(checkInError, 'Failed to check in'));
+    }
+  }, [client, sessionId]);
+
+  const leave = useCallback(async () => {
+    if (!client) return;
+
+    try {
+      await client.request('waiting_room:leave', { sessionId });
+      setStatus(null);
+    } catch (leaveError) {
+      console.error('Error leaving waiting room:', leaveError);
+    }
+  }, [client, sessionId]);
+
+  // Takes one of the offered slots
+  const reschedule = useCallback(async (appointmentDate: string, appointmentTime: string) => {
+    if (!client) return false;
+
+    setError(null);
+    try {
+      const response = await client.apiFetch(`/api/consultations/sessions/${sessionId}/waiting-room/reschedule`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ appointmentDate, appointmentTime })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to choose a new time');
+      }
+
+      setStatus(result.data);
+      return true;
+    } catch (rescheduleError) {
+      setError(errorMessage(rescheduleError, 'Failed to choose a new time'));
+      return false;
+    }
+  }, [client, sessionId]);
+
+  return {
+    info,
+    status,
+    admitted,
+    loading,
+    error,
+    checkIn,
+    leave,
+    rescheduleSlots,
+    reschedule,
+  };
+};
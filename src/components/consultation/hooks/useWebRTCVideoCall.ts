@@ -1,7 +1,15 @@
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { useSocket, useSocketEvent } from '@/components/realtime/useSocket';
+import type { ConsultationParticipant, MediaMode, ParticipantRole, SessionDescription } from '@/lib/realtimeClient';
+import { getIceServers, restartIce } from '@/lib/iceServers';
+import { useConnectionMonitor } from './useConnectionMonitor';
+import { MEDIA_MODES, useAdaptiveMediaMode } from './useAdaptiveMediaMode';
+
+// Automatic ICE restarts before a connection to a participant is given up
+const MAX_ICE_RESTARTS = 3;
 
 export interface WebRTCConnection {
   localStream: MediaStream | null;
@@ -14,59 +22,368 @@ export interface WebRTCConnection {
   error: string | null;
 }
 
+export interface RemoteParticipant {
+  userId: string;
+  role: ParticipantRole | null;
+  name: string | null;
+  stream: MediaStream | null;
+  connectionState: RTCPeerConnectionState;
+  mediaMode: MediaMode; // What this participant's own connection allows
+}
+
+// One connection per other participant (a mesh); each pair negotiates on its own
+interface Peer {
+  pc: RTCPeerConnection;
+  polite: boolean; // Gives way when both sides send an offer at once
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  iceRestarts: number;
+}
+
+interface RemoteState {
+  stream: MediaStream | null;
+  connectionState: RTCPeerConnectionState;
+}
+
+type LocalState = Pick<WebRTCConnection, 'localStream' | 'videoEnabled' | 'audioEnabled' | 'isConnecting' | 'error'> & {
+  ended: boolean;
+};
+
+const INITIAL_STATE: LocalState = {
+  localStream: null,
+  videoEnabled: true,
+  audioEnabled: true,
+  isConnecting: false,
+  error: null,
+  ended: false,
+};
+
+const toDescription = (description: RTCSessionDescription | null) => ({
+  type: description?.type,
+  sdp: description?.sdp ?? '',
+}) as SessionDescription;
+
+// Video encoding for each mode; below reduced no video is sent
+const VIDEO_ENCODINGS: Record<MediaMode, Partial<RTCRtpEncodingParameters>> = {
+  full: { active: true, scaleResolutionDownBy: 1, maxFramerate: 30 },
+  reduced: { active: true, scaleResolutionDownBy: 2, maxFramerate: 15, maxBitrate: 300000 },
+  audio_only: { active: false },
+  chat: { active: false },
+};
+
+const worseMode = (a: MediaMode, b: MediaMode) =>
+  MEDIA_MODES.indexOf(a) > MEDIA_MODES.indexOf(b) ? a : b;
+
+// The call counts as connected while any participant is
+const summarizeStates = (states: RTCPeerConnectionState[]): RTCPeerConnectionState =>
+  (['connected', 'connecting', 'disconnected', 'failed'] as const).find(state => states.includes(state)) ?? 'new';
+
 export const useWebRTCVideoCall = (sessionId: string, userId: string) => {
   const { toast } = useToast();
-  const [connection, setConnection] = useState<WebRTCConnection>({
-    localStream: null,
-    remoteStream: null,
-    isCallActive: false,
-    connectionState: 'new',
-    videoEnabled: true,
-    audioEnabled: true,
-    isConnecting: false,
-    error: null,
-  });
-  
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+  const { client, connectionState: socketState } = useSocket();
+  const [connection, setConnection] = useState<LocalState>(INITIAL_STATE);
+  const [remotes, setRemotes] = useState<Record<string, RemoteState>>({});
+  const [participants, setParticipants] = useState<ConsultationParticipant[]>([]);
+  const [remoteModes, setRemoteModes] = useState<Record<string, MediaMode>>({});
+
   const localVideoRef = useRef<HTMLVideoElement>(null!);
   const remoteVideoRef = useRef<HTMLVideoElement>(null!);
   const localStreamRef = useRef<MediaStream | null>(null);
+  const screenTrackRef = useRef<MediaStreamTrack | null>(null);
+  const peersRef = useRef(new Map<string, Peer>());
+  const callStartedRef = useRef(false);
+  const localModeRef = useRef<MediaMode>('full');
+  const remoteModesRef = useRef(remoteModes);
+  remoteModesRef.current = remoteModes;
+  const participantsRef = useRef(participants);
+  participantsRef.current = participants;
+  const clientRef = useRef(client);
+  clientRef.current = client;
+
+  const remoteParticipants = useMemo<RemoteParticipant[]>(() =>
+    Object.entries(remotes).map(([remoteUserId, remote]) => {
+      const participant = participants.find(p => p.userId === remoteUserId);
+      return {
+        userId: remoteUserId,
+        role: participant?.role ?? null,
+        name: participant?.name ?? null,
+        mediaMode: remoteModes[remoteUserId] ?? 'full',
+        ...remote,
+      };
+    }), [remotes, participants, remoteModes]);
+
+  // Single-view layouts show the first participant who is sending media
+  const remoteStream = remoteParticipants.find(participant => participant.stream)?.stream ?? null;
+
+  useEffect(() => {
+    if (remoteVideoRef.current && remoteVideoRef.current.srcObject !== remoteStream) {
+      remoteVideoRef.current.srcObject = remoteStream;
+    }
+  }, [remoteStream]);
+
+  const states = remoteParticipants.map(participant => participant.connectionState);
+  const connectionState: RTCPeerConnectionState = connection.ended ? 'closed' : summarizeStates(states);
+  const allFailed = states.length > 0 && states.every(state => state === 'failed');
 
-  const createPeerConnection = useCallback(() => {
-    const config: RTCConfiguration = {
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        { urls: 'stun:stun1.l.google.com:19302' },
-      ],
+  // Guests waiting for the physician to admit the session are turned away
+  // until then, so admission is another chance to join
+  const [admissions, setAdmissions] = useState(0);
+  useSocketEvent('waiting_room:admitted', ({ sessionId: admittedSessionId }) => {
+    if (admittedSessionId === sessionId) setAdmissions(count => count + 1);
+  });
+
+  // Signaling runs over the consultation room on the realtime server
+  useEffect(() => {
+    if (!client || socketState !== 'connected' || !sessionId) return;
+
+    client.request('consultation:join', { sessionId })
+      .catch((error) => console.error('Error joining consultation room:', error));
+
+    return () => {
+      client.request('consultation:leave', { sessionId }).catch(() => undefined);
     };
-    
-    const pc = new RTCPeerConnection(config);
-    
+  }, [client, socketState, sessionId, admissions]);
+
+  const updateRemote = useCallback((remoteUserId: string, update: Partial<RemoteState>) => {
+    setRemotes(prev => ({
+      ...prev,
+      [remoteUserId]: { ...(prev[remoteUserId] ?? { stream: null, connectionState: 'new' }), ...update },
+    }));
+  }, []);
+
+  const closePeer = useCallback((remoteUserId: string) => {
+    peersRef.current.get(remoteUserId)?.pc.close();
+    peersRef.current.delete(remoteUserId);
+    setRemotes(prev => {
+      const { [remoteUserId]: _closed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  // Sends what both ends can take: this side's mode and the mode the other
+  // participant asked for, whichever is lower
+  const applyMediaMode = useCallback((remoteUserId: string) => {
+    const pc = peersRef.current.get(remoteUserId)?.pc;
+    const sender = pc?.getSenders().find(s => s.track?.kind === 'video');
+    if (!sender) return;
+
+    const params = sender.getParameters();
+    // Encodings are only available once the connection is negotiated
+    if (!params.encodings?.length) return;
+
+    const mode = worseMode(localModeRef.current, remoteModesRef.current[remoteUserId] ?? 'full');
+    const { maxBitrate: _previous, ...encoding } = params.encodings[0]!;
+    params.encodings[0] = { ...encoding, ...VIDEO_ENCODINGS[mode] };
+
+    sender.setParameters(params)
+      .catch((error) => console.error('Error applying media mode:', error));
+  }, []);
+
+  const setLocalMediaMode = useCallback((mode: MediaMode) => {
+    localModeRef.current = mode;
+    peersRef.current.forEach((_peer, remoteUserId) => applyMediaMode(remoteUserId));
+  }, [applyMediaMode]);
+
+  const getPeerConnections = useCallback(() => [...peersRef.current.values()].map(peer => peer.pc), []);
+  const isCallActive = connectionState === 'connected';
+
+  const { connectionQuality } = useConnectionMonitor({ getPeerConnections, isCallActive });
+  const { mode: mediaMode, resume: resumeMediaMode } = useAdaptiveMediaMode({
+    sessionId,
+    quality: connectionQuality,
+    isCallActive,
+    onModeChange: setLocalMediaMode,
+  });
+
+  const sendOffer = useCallback((remoteUserId: string, pc: RTCPeerConnection) => {
+    clientRef.current?.emit('consultation:offer', {
+      sessionId,
+      targetUserId: remoteUserId,
+      offer: toDescription(pc.localDescription),
+    });
+  }, [sessionId]);
+
+  const negotiate = useCallback(async (remoteUserId: string) => {
+    const peer = peersRef.current.get(remoteUserId);
+    if (!peer || !clientRef.current || peer.pc.signalingState !== 'stable') return;
+
+    try {
+      peer.makingOffer = true;
+      await peer.pc.setLocalDescription();
+      sendOffer(remoteUserId, peer.pc);
+    } catch (error) {
+      console.error('Error creating offer:', error);
+    } finally {
+      peer.makingOffer = false;
+    }
+  }, [sendOffer]);
+
+  const createPeer = useCallback(async (remoteUserId: string): Promise<Peer | null> => {
+    const iceServers = await getIceServers(clientRef.current, sessionId);
+    const stream = localStreamRef.current;
+
+    // The call may have ended, or an offer created the peer, while fetching
+    if (!callStartedRef.current || !stream) return null;
+    const existing = peersRef.current.get(remoteUserId);
+    if (existing) return existing;
+
+    const pc = new RTCPeerConnection({ iceServers });
+    const peer: Peer = { pc, polite: userId > remoteUserId, makingOffer: false, ignoreOffer: false, iceRestarts: 0 };
+    peersRef.current.set(remoteUserId, peer);
+    updateRemote(remoteUserId, { connectionState: pc.connectionState });
+
     pc.onconnectionstatechange = () => {
-      console.log('Connection state changed:', pc.connectionState);
-      setConnection(prev => ({
-        ...prev,
-        connectionState: pc.connectionState,
-        isCallActive: pc.connectionState === 'connected',
-        isConnecting: pc.connectionState === 'connecting',
-      }));
+      console.log(`Connection to ${remoteUserId} changed:`, pc.connectionState);
+
+      if (pc.connectionState === 'connected') {
+        peer.iceRestarts = 0;
+        applyMediaMode(remoteUserId);
+      }
+
+      // A new network path is negotiated without dropping the call
+      const restarting = pc.connectionState === 'failed' && peer.iceRestarts < MAX_ICE_RESTARTS;
+      if (restarting) {
+        peer.iceRestarts++;
+        restartIce(pc, clientRef.current, sessionId)
+          .catch((error) => console.error('Error restarting ICE:', error));
+      }
+
+      updateRemote(remoteUserId, { connectionState: restarting ? 'connecting' : pc.connectionState });
+    };
+
+    pc.onnegotiationneeded = () => {
+      negotiate(remoteUserId);
+    };
+
+    pc.onicecandidate = ({ candidate }) => {
+      if (!candidate || !clientRef.current) return;
+
+      clientRef.current.emit('consultation:ice-candidate', {
+        sessionId,
+        targetUserId: remoteUserId,
+        candidate: {
+          candidate: candidate.candidate,
+          sdpMid: candidate.sdpMid,
+          sdpMLineIndex: candidate.sdpMLineIndex,
+          usernameFragment: candidate.usernameFragment,
+        },
+      });
     };
-    
+
     pc.ontrack = (event) => {
-      console.log('Remote track received');
-      const remoteStream = event.streams[0];
-      setConnection(prev => ({
-        ...prev,
-        remoteStream,
-      }));
-      
-      if (remoteVideoRef.current) {
-        remoteVideoRef.current.srcObject = remoteStream;
-      }
+      console.log(`Remote track received from ${remoteUserId}`);
+      updateRemote(remoteUserId, { stream: event.streams[0] ?? null });
     };
-    
-    return pc;
-  }, []);
+
+    stream.getTracks().forEach(track => {
+      const sender = pc.addTrack(track, stream);
+      // Someone joining during a screen share sees the screen
+      if (track.kind === 'video' && screenTrackRef.current) {
+        sender.replaceTrack(screenTrackRef.current).catch(() => undefined);
+      }
+    });
+
+    return peer;
+  }, [sessionId, userId, updateRemote, negotiate, applyMediaMode]);
+
+  const handleRemoteDescription = useCallback(async (description: SessionDescription, fromUserId: string) => {
+    // Offers that arrive before this side starts its call are dropped; starting
+    // the call offers to everyone already in the room
+    if (!callStartedRef.current || !clientRef.current) return;
+
+    const peer = peersRef.current.get(fromUserId) ?? await createPeer(fromUserId);
+    if (!peer) return;
+
+    const { pc } = peer;
+    const collision = description.type === 'offer' && (peer.makingOffer || pc.signalingState !== 'stable');
+    peer.ignoreOffer = !peer.polite && collision;
+
+    if (peer.ignoreOffer) {
+      // Our pending offer may have been dropped by a side not yet in the call
+      if (pc.localDescription?.type === 'offer') {
+        sendOffer(fromUserId, pc);
+      }
+      return;
+    }
+
+    try {
+      await pc.setRemoteDescription(description);
+      if (description.type === 'offer') {
+        await pc.setLocalDescription();
+        clientRef.current?.emit('consultation:answer', {
+          sessionId,
+          targetUserId: fromUserId,
+          answer: toDescription(pc.localDescription),
+        });
+      }
+    } catch (error) {
+      console.error('Error applying remote description:', error);
+    }
+  }, [sessionId, createPeer, sendOffer]);
+
+  useSocketEvent('consultation:room_state', ({ session, participants: current, mediaModes }) => {
+    if ((session as { id?: string }).id !== sessionId) return;
+
+    setParticipants(current);
+    const { [userId]: ownMode, ...others } = mediaModes;
+    setRemoteModes(others);
+    if (ownMode) {
+      resumeMediaMode(ownMode);
+    }
+  });
+
+  // Others stepped down; send them less
+  useSocketEvent('consultation:media_mode', ({ sessionId: modeSessionId, userId: modeUserId, mode }) => {
+    if (modeSessionId !== sessionId) return;
+
+    remoteModesRef.current = { ...remoteModesRef.current, [modeUserId]: mode };
+    setRemoteModes(remoteModesRef.current);
+    applyMediaMode(modeUserId);
+  });
+
+  // Guests who were removed are disconnected from
+  useSocketEvent('consultation:participants', ({ sessionId: updatedSessionId, participants: current }) => {
+    if (updatedSessionId !== sessionId) return;
+
+    setParticipants(current);
+    peersRef.current.forEach((_peer, remoteUserId) => {
+      if (!current.some(participant => participant.userId === remoteUserId)) {
+        closePeer(remoteUserId);
+      }
+    });
+  });
+
+  useSocketEvent('consultation:user_left', ({ sessionId: leftSessionId, userId: leftUserId }) => {
+    if (leftSessionId === sessionId) {
+      closePeer(leftUserId);
+    }
+  });
+
+  useSocketEvent('consultation:offer', ({ sessionId: offerSessionId, offer, fromUserId }) => {
+    if (offerSessionId === sessionId) {
+      handleRemoteDescription(offer, fromUserId);
+    }
+  });
+
+  useSocketEvent('consultation:answer', ({ sessionId: answerSessionId, answer, fromUserId }) => {
+    if (answerSessionId === sessionId) {
+      handleRemoteDescription(answer, fromUserId);
+    }
+  });
+
+  useSocketEvent('consultation:ice-candidate', async ({ sessionId: candidateSessionId, candidate, fromUserId }) => {
+    const peer = peersRef.current.get(fromUserId);
+    if (candidateSessionId !== sessionId || !peer) return;
+
+    try {
+      await peer.pc.addIceCandidate(candidate);
+    } catch (error) {
+      // Candidates for an offer this side ignored are expected to fail
+      if (!peer.ignoreOffer) {
+        console.error('Error adding ICE candidate:', error);
+      }
+    }
+  });
 
   const initializeMedia = useCallback(async () => {
     try {
@@ -74,18 +391,18 @@ export const useWebRTCVideoCall = (sessionId: string, userId: string) => {
         video: { width: 1280, height: 720 },
         audio: true,
       });
-      
+
       localStreamRef.current = stream;
       setConnection(prev => ({
         ...prev,
         localStream: stream,
         error: null,
       }));
-      
+
       if (localVideoRef.current) {
         localVideoRef.current.srcObject = stream;
       }
-      
+
       return stream;
     } catch (error) {
       console.error('Failed to get user media:', error);
@@ -97,27 +414,33 @@ export const useWebRTCVideoCall = (sessionId: string, userId: string) => {
     }
   }, []);
 
+  // Connects to everyone already in the room; later arrivals offer to us
+  const connectToParticipants = useCallback(async () => {
+    const others = participantsRef.current.filter(
+      participant => participant.joined && participant.userId !== userId && !peersRef.current.has(participant.userId)
+    );
+    await Promise.all(others.map(participant => createPeer(participant.userId)));
+  }, [userId, createPeer]);
+
   const startCall = useCallback(async () => {
     try {
-      setConnection(prev => ({ ...prev, isConnecting: true }));
-      
-      const stream = await initializeMedia();
-      const pc = createPeerConnection();
-      peerConnectionRef.current = pc;
-      
-      stream.getTracks().forEach(track => {
-        pc.addTrack(track, stream);
-      });
-      
+      setConnection(prev => ({ ...prev, isConnecting: true, ended: false }));
+
+      await initializeMedia();
+      callStartedRef.current = true;
+      await connectToParticipants();
+
       // Update room status
       await supabase
         .from('consultation_rooms')
-        .update({ 
+        .update({
           patient_joined: true,
-          room_status: 'active' 
+          room_status: 'active'
         })
         .eq('session_id', sessionId);
-        
+
+      setConnection(prev => ({ ...prev, isConnecting: false }));
+
     } catch (error) {
       console.error('Failed to start call:', error);
       setConnection(prev => ({
@@ -126,29 +449,36 @@ export const useWebRTCVideoCall = (sessionId: string, userId: string) => {
         isConnecting: false,
       }));
     }
-  }, [sessionId, initializeMedia, createPeerConnection]);
+  }, [sessionId, initializeMedia, connectToParticipants]);
 
   const endCall = useCallback(() => {
+    callStartedRef.current = false;
+
     if (localStreamRef.current) {
       localStreamRef.current.getTracks().forEach(track => track.stop());
+      localStreamRef.current = null;
     }
-    
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.close();
-    }
-    
-    setConnection({
-      localStream: null,
-      remoteStream: null,
-      isCallActive: false,
-      connectionState: 'closed',
-      videoEnabled: true,
-      audioEnabled: true,
-      isConnecting: false,
-      error: null,
-    });
+    screenTrackRef.current?.stop();
+    screenTrackRef.current = null;
+
+    peersRef.current.forEach(peer => peer.pc.close());
+    peersRef.current.clear();
+
+    setRemotes({});
+    setConnection({ ...INITIAL_STATE, ended: true });
   }, []);
 
+  useSocketEvent('consultation:removed', ({ sessionId: removedSessionId }) => {
+    if (removedSessionId !== sessionId) return;
+
+    endCall();
+    toast({
+      title: 'Removed from consultation',
+      description: 'You are no longer a participant in this consultation.',
+      variant: 'destructive',
+    });
+  });
+
   const toggleVideo = useCallback(() => {
     if (localStreamRef.current) {
       const videoTrack = localStreamRef.current.getVideoTracks()[0];
@@ -175,12 +505,29 @@ export const useWebRTCVideoCall = (sessionId: string, userId: string) => {
     }
   }, []);
 
+  // Restarts ICE on existing connections and connects to anyone missing; a
+  // new call is only set up when there is none
   const reconnect = useCallback(() => {
-    endCall();
-    setTimeout(() => {
+    if (!callStartedRef.current) {
       startCall();
-    }, 1000);
-  }, [endCall, startCall]);
+      return;
+    }
+
+    peersRef.current.forEach(peer => {
+      if (peer.pc.connectionState === 'closed') return;
+      peer.iceRestarts = 0;
+      restartIce(peer.pc, clientRef.current, sessionId)
+        .catch((error) => console.error('Error restarting ICE:', error));
+    });
+    connectToParticipants();
+  }, [sessionId, startCall, connectToParticipants]);
+
+  const replaceVideoTrack = useCallback(async (track: MediaStreamTrack) => {
+    await Promise.all([...peersRef.current.values()].map(({ pc }) => {
+      const sender = pc.getSenders().find(s => s.track?.kind === 'video');
+      return sender?.replaceTrack(track);
+    }));
+  }, []);
 
   const startScreenShare = useCallback(async () => {
     try {
@@ -188,18 +535,13 @@ export const useWebRTCVideoCall = (sessionId: string, userId: string) => {
         video: true,
         audio: true,
       });
-      
-      if (peerConnectionRef.current && localStreamRef.current) {
-        const videoTrack = screenStream.getVideoTracks()[0];
-        const sender = peerConnectionRef.current.getSenders().find(
-          s => s.track?.kind === 'video'
-        );
-        
-        if (sender) {
-          await sender.replaceTrack(videoTrack);
-        }
+
+      const videoTrack = screenStream.getVideoTracks()[0];
+      if (videoTrack && localStreamRef.current) {
+        screenTrackRef.current = videoTrack;
+        await replaceVideoTrack(videoTrack);
       }
-      
+
       toast({
         title: "Screen sharing started",
         description: "You are now sharing your screen",
@@ -212,21 +554,17 @@ export const useWebRTCVideoCall = (sessionId: string, userId: string) => {
         variant: "destructive",
       });
     }
-  }, [toast]);
+  }, [toast, replaceVideoTrack]);
 
   const stopScreenShare = useCallback(async () => {
     try {
-      if (peerConnectionRef.current && localStreamRef.current) {
-        const videoTrack = localStreamRef.current.getVideoTracks()[0];
-        const sender = peerConnectionRef.current.getSenders().find(
-          s => s.track?.kind === 'video'
-        );
-        
-        if (sender && videoTrack) {
-          await sender.replaceTrack(videoTrack);
-        }
+      const videoTrack = localStreamRef.current?.getVideoTracks()[0];
+      if (videoTrack) {
+        await replaceVideoTrack(videoTrack);
       }
-      
+      screenTrackRef.current?.stop();
+      screenTrackRef.current = null;
+
       toast({
         title: "Screen sharing stopped",
         description: "You are no longer sharing your screen",
@@ -234,7 +572,7 @@ export const useWebRTCVideoCall = (sessionId: string, userId: string) => {
     } catch (error) {
       console.error('Failed to stop screen share:', error);
     }
-  }, [toast]);
+  }, [toast, replaceVideoTrack]);
 
   useEffect(() => {
     return () => {
@@ -242,11 +580,21 @@ export const useWebRTCVideoCall = (sessionId: string, userId: string) => {
     };
   }, [endCall]);
 
+  const { ended: _ended, ...local } = connection;
+
   return {
-    ...connection,
+    ...local,
+    remoteStream,
+    isCallActive,
+    connectionState,
+    isConnecting: connection.isConnecting || connectionState === 'connecting',
+    error: connection.error ?? (allFailed ? 'Connection failed' : null),
+    participants,
+    remoteParticipants,
+    connectionQuality,
+    mediaMode,
     localVideoRef,
     remoteVideoRef,
-    peerConnectionRef,
     startCall,
     endCall,
     toggleVideo,
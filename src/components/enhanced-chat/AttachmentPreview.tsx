@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { useSocket } from '@/components/realtime/useSocket';
+import { ChatAttachment } from './types';
+import { getAttachmentUrls } from './services/messageService';
+
+interface AttachmentPreviewProps {
+  attachment: ChatAttachment;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachment }) => {
+  const { client } = useSocket();
+  const [urls, setUrls] = useState<{ url: string; thumbnailUrl: string | null } | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!client) return;
+    let cancelled = false;
+
+    getAttachmentUrls(client, attachment)
+      .then(result => {
+        if (!cancelled) setUrls(result);
+      })
+      .catch(error => {
+        console.error('Error loading attachment:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, attachment]);
+
+  if (failed) {
+    return <p className="text-xs opacity-70">{attachment.fileName} is unavailable</p>;
+  }
+
+  if (!urls) {
+    return (
+      <div className="flex items-center gap-2 text-xs opacity-70">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        {attachment.fileName}
+      </div>
+    );
+  }
+
+  if (attachment.mimeType.startsWith('image/')) {
+    return (
+      <a href={urls.url} target="_blank" rel="noopener noreferrer">
+        <img
+          src={urls.thumbnailUrl ?? urls.url}
+          alt={attachment.fileName}
+          className="max-h-48 rounded-md object-cover"
+        />
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={urls.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-2 rounded-md bg-black/10 p-2 text-sm hover:bg-black/20"
+    >
+      <FileText className="w-4 h-4 shrink-0" />
+      <span className="truncate">{attachment.fileName}</span>
+      <span className="text-xs opacity-70 shrink-0">{formatSize(attachment.fileSize)}</span>
+    </a>
+  );
+};
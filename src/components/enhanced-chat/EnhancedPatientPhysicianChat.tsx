@@ -18,15 +18,21 @@ export const EnhancedPatientPhysicianChat: React.FC<EnhancedChatProps> = ({
   const {
     messages,
     loading,
+    loadingOlder,
+    hasMore,
     sending,
     typingUsers,
     handleTyping,
-    sendMessage
+    sendMessage,
+    loadOlderMessages
   } = useEnhancedChat(conversationId);
 
+  // Only follow new messages; loading earlier ones must not jump to the bottom
+  const lastMessageId = messages[messages.length - 1]?.id;
+
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [lastMessageId]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -63,6 +69,9 @@ export const EnhancedPatientPhysicianChat: React.FC<EnhancedChatProps> = ({
           messages={messages}
           currentUserId={user?.id}
           typingUsers={typingUsers}
+          hasMore={hasMore}
+          loadingOlder={loadingOlder}
+          onLoadOlder={loadOlderMessages}
         />
         <div ref={messagesEndRef} />
 
@@ -1,17 +1,26 @@
 
 import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Message } from './types';
+import { AttachmentPreview } from './AttachmentPreview';
 
 interface MessageDisplayProps {
   messages: Message[];
   currentUserId?: string;
   typingUsers: any[];
+  hasMore?: boolean;
+  loadingOlder?: boolean;
+  onLoadOlder?: () => void;
 }
 
 export const MessageDisplay: React.FC<MessageDisplayProps> = ({
   messages,
   currentUserId,
-  typingUsers
+  typingUsers,
+  hasMore = false,
+  loadingOlder = false,
+  onLoadOlder
 }) => {
   const formatTime = (timestamp: string) => {
     return new Date(timestamp).toLocaleTimeString([], { 
@@ -22,6 +31,15 @@ export const MessageDisplay: React.FC<MessageDisplayProps> = ({
 
   return (
     <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
+      {hasMore && onLoadOlder && (
+        <div className="flex justify-center">
+          <Button variant="ghost" size="sm" onClick={onLoadOlder} disabled={loadingOlder}>
+            {loadingOlder && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            Load earlier messages
+          </Button>
+        </div>
+      )}
+
       {messages.map((message) => (
         <div
           key={message.id}
@@ -36,7 +54,14 @@ export const MessageDisplay: React.FC<MessageDisplayProps> = ({
                 : 'bg-gray-100 text-gray-900'
             }`}
           >
-            <p className="whitespace-pre-wrap">{message.content}</p>
+            {message.message_attachments?.attachments?.map((attachment) => (
+              <div key={attachment.id} className="mb-2">
+                <AttachmentPreview attachment={attachment} />
+              </div>
+            ))}
+            {message.content && (
+              <p className="whitespace-pre-wrap">{message.content}</p>
+            )}
             <div className="flex items-center justify-between mt-1">
               <span className="text-xs opacity-70">
                 {formatTime(message.created_at)}
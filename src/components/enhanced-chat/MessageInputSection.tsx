@@ -1,11 +1,12 @@
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Paperclip, Send, Camera, Mic } from 'lucide-react';
+import { Paperclip, Send, Camera, Mic, X } from 'lucide-react';
+import { ALLOWED_ATTACHMENT_TYPES } from './services/messageService';
 
 interface MessageInputSectionProps {
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, files: File[]) => void;
   onTyping: () => void;
   disabled: boolean;
 }
@@ -16,14 +17,25 @@ export const MessageInputSection: React.FC<MessageInputSectionProps> = ({
   disabled
 }) => {
   const [newMessage, setNewMessage] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canSend = Boolean(newMessage.trim()) || files.length > 0;
 
   const handleSend = () => {
-    if (newMessage.trim()) {
-      onSendMessage(newMessage);
+    if (canSend) {
+      onSendMessage(newMessage, files);
       setNewMessage('');
+      setFiles([]);
     }
   };
 
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    setFiles(current => [...current, ...selected]);
+    e.target.value = '';
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSend();
@@ -32,8 +44,40 @@ export const MessageInputSection: React.FC<MessageInputSectionProps> = ({
 
   return (
     <div className="border-t p-4">
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {files.map((file, index) => (
+            <span
+              key={`${file.name}-${index}`}
+              className="flex items-center gap-1 rounded-md bg-gray-100 px-2 py-1 text-xs"
+            >
+              <span className="max-w-[160px] truncate">{file.name}</span>
+              <button
+                type="button"
+                aria-label={`Remove ${file.name}`}
+                onClick={() => setFiles(current => current.filter((_, i) => i !== index))}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
       <div className="flex items-center gap-2">
-        <Button variant="ghost" size="sm">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+          className="hidden"
+          onChange={handleFilesSelected}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+        >
           <Paperclip className="w-4 h-4" />
         </Button>
         <Button variant="ghost" size="sm">
@@ -55,7 +99,7 @@ export const MessageInputSection: React.FC<MessageInputSectionProps> = ({
         </Button>
         <Button 
           onClick={handleSend} 
-          disabled={!newMessage.trim() || disabled}
+          disabled={!canSend || disabled}
           size="sm"
         >
           <Send className="w-4 h-4" />
@@ -1,24 +1,49 @@
-
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useSocket } from '@/components/realtime/useSocket';
 import { Message, TypingIndicator } from '../types';
-import { fetchMessages, sendMessage as sendMessageService } from '../services/messageService';
+import {
+  fetchMessagePage,
+  fetchMessagesSince,
+  sendMessage as sendMessageService,
+  sendMessageWithAttachments,
+  uploadAttachment
+} from '../services/messageService';
 import { subscribeToMessages } from '../services/realtimeService';
 import { useTypingIndicator } from '../services/typingService';
 
+// Add messages not already present, keeping (created_at, id) order
+const mergeMessages = (current: Message[], incoming: Message[]) => {
+  const known = new Set(current.map(msg => msg.id));
+  const added = incoming.filter(msg => !known.has(msg.id));
+  if (added.length === 0) return current;
+
+  return [...current, ...added].sort((a, b) =>
+    a.created_at === b.created_at
+      ? a.id.localeCompare(b.id)
+      : new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+};
+
 export const useEnhancedChat = (conversationId: string) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { client } = useSocket();
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [sending, setSending] = useState(false);
   const [typingUsers, setTypingUsers] = useState<TypingIndicator[]>([]);
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = messages;
   
   const { handleTyping, cleanup } = useTypingIndicator();
 
   useEffect(() => {
     if (conversationId && user) {
+      setMessages([]);
       loadMessages();
       const unsubscribe = setupRealtimeSubscription();
       
@@ -31,8 +56,9 @@ export const useEnhancedChat = (conversationId: string) => {
 
   const loadMessages = async () => {
     try {
-      const fetchedMessages = await fetchMessages(conversationId);
-      setMessages(fetchedMessages);
+      const page = await fetchMessagePage(conversationId);
+      setMessages(page.messages);
+      setHasMore(page.hasMore);
     } catch (error) {
       console.error('Error fetching messages:', error);
       toast({
@@ -45,9 +71,46 @@ export const useEnhancedChat = (conversationId: string) => {
     }
   };
 
+  const loadOlderMessages = async () => {
+    const oldest = messagesRef.current[0];
+    if (!oldest || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(conversationId, oldest);
+      setMessages(current => mergeMessages(current, page.messages));
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load earlier messages",
+        variant: "destructive"
+      });
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  // Fetch whatever arrived while the realtime channel was down
+  const catchUp = async () => {
+    const newest = messagesRef.current[messagesRef.current.length - 1];
+    if (!newest) {
+      await loadMessages();
+      return;
+    }
+
+    try {
+      const missed = await fetchMessagesSince(conversationId, newest);
+      setMessages(current => mergeMessages(current, missed));
+    } catch (error) {
+      console.error('Error syncing missed messages:', error);
+    }
+  };
+
   const setupRealtimeSubscription = () => {
     const handleMessageInsert = (message: Message) => {
-      setMessages(current => [...current, message]);
+      setMessages(current => mergeMessages(current, [message]));
     };
 
     const handleMessageUpdate = (message: Message) => {
@@ -61,21 +124,32 @@ export const useEnhancedChat = (conversationId: string) => {
     return subscribeToMessages(
       conversationId,
       handleMessageInsert,
-      handleMessageUpdate
+      handleMessageUpdate,
+      catchUp
     );
   };
 
-  const sendMessage = async (content: string) => {
-    if (!content.trim() || sending) return;
+  const sendMessage = async (content: string, files: File[] = []) => {
+    if ((!content.trim() && files.length === 0) || sending || !user) return;
 
     setSending(true);
     try {
-      await sendMessageService(conversationId, content, user?.id);
+      if (files.length === 0) {
+        await sendMessageService(conversationId, content.trim(), user.id);
+      } else {
+        if (!client) {
+          throw new Error('Attachments cannot be sent while offline');
+        }
+        const attachments = await Promise.all(
+          files.map(file => uploadAttachment(client, conversationId, file))
+        );
+        await sendMessageWithAttachments(client, conversationId, content.trim(), attachments);
+      }
     } catch (error) {
       console.error('Error sending message:', error);
       toast({
         title: "Error",
-        description: "Failed to send message",
+        description: error instanceof Error ? error.message : "Failed to send message",
         variant: "destructive"
       });
     } finally {
@@ -86,9 +160,12 @@ export const useEnhancedChat = (conversationId: string) => {
   return {
     messages,
     loading,
+    loadingOlder,
+    hasMore,
     sending,
     typingUsers,
     handleTyping,
-    sendMessage
+    sendMessage,
+    loadOlderMessages
   };
 };
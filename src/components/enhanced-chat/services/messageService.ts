@@ -1,26 +1,172 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { Message } from '../types';
+import type { RealtimeClient } from '@/lib/realtimeClient';
+import { ChatAttachment, Message } from '../types';
 
-export const fetchMessages = async (conversationId: string): Promise<Message[]> => {
+export const MESSAGE_PAGE_SIZE = 30;
+
+// Must match the backend's chat attachment limits
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain'
+];
+
+export interface MessagePage {
+  messages: Message[]; // Oldest first
+  hasMore: boolean; // Older messages exist before this page
+}
+
+const transformMessage = (msg: any): Message => ({
+  id: msg.id,
+  content: msg.content,
+  sender_type: msg.sender_type,
+  sender_id: msg.sender_id,
+  is_read: false,
+  read_at: undefined,
+  message_attachments: msg.metadata,
+  created_at: msg.created_at
+});
+
+// Messages are ordered by (created_at, id) so pages stay stable while new
+// messages arrive. Without `before` this is the latest page.
+export const fetchMessagePage = async (
+  conversationId: string,
+  before?: Pick<Message, 'id' | 'created_at'>,
+  limit = MESSAGE_PAGE_SIZE
+): Promise<MessagePage> => {
+  let query = supabase
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (before) {
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+    );
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  const rows = data || [];
+  return {
+    messages: rows.slice(0, limit).reverse().map(transformMessage),
+    hasMore: rows.length > limit
+  };
+};
+
+// Everything after the newest message the client has, to catch up after
+// the realtime connection drops
+export const fetchMessagesSince = async (
+  conversationId: string,
+  after: Pick<Message, 'id' | 'created_at'>
+): Promise<Message[]> => {
   const { data, error } = await supabase
     .from('messages')
     .select('*')
     .eq('conversation_id', conversationId)
-    .order('created_at', { ascending: true });
+    .or(`created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
 
   if (error) throw error;
-  
-  return (data || []).map((msg: any) => ({
-    id: msg.id,
-    content: msg.content,
-    sender_type: msg.sender_type,
-    sender_id: msg.sender_id,
-    is_read: false,
-    read_at: undefined,
-    message_attachments: msg.metadata,
-    created_at: msg.created_at
-  }));
+
+  return (data || []).map(transformMessage);
+};
+
+// Throws the backend's message for anything other than a success
+const readData = async <T>(response: Response, fallback: string): Promise<T> => {
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.message || fallback);
+  }
+
+  return result.data;
+};
+
+// Files go to S3 through a presigned URL from the backend, which then checks
+// and virus scans them; only attachments that pass can be sent
+export const uploadAttachment = async (
+  client: RealtimeClient,
+  conversationId: string,
+  file: File
+): Promise<ChatAttachment> => {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    throw new Error(`${file.name} is not a supported file type`);
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB`);
+  }
+
+  const upload = await readData<{ attachmentId: string; uploadUrl: string; fields: Record<string, string> }>(
+    await client.apiFetch(`/api/chat/conversations/${conversationId}/attachments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName: file.name, mimeType: file.type, fileSize: file.size })
+    }),
+    `Failed to upload ${file.name}`
+  );
+
+  const stored = await fetch(upload.uploadUrl, {
+    method: 'PUT',
+    headers: upload.fields,
+    body: file
+  });
+  if (!stored.ok) {
+    throw new Error(`Failed to upload ${file.name}`);
+  }
+
+  const attachment = await readData<ChatAttachment>(
+    await client.apiFetch(`/api/chat/attachments/${upload.attachmentId}/complete`, { method: 'POST' }),
+    `Failed to upload ${file.name}`
+  );
+
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    fileSize: attachment.fileSize
+  };
+};
+
+// Short-lived links, for conversation participants only; images also get a thumbnail
+export const getAttachmentUrls = async (
+  client: RealtimeClient,
+  attachment: ChatAttachment
+): Promise<{ url: string; thumbnailUrl: string | null }> => {
+  const download = await readData<{ url: string; thumbnailUrl: string | null }>(
+    await client.apiFetch(`/api/chat/attachments/${attachment.id}`),
+    `${attachment.fileName} is unavailable`
+  );
+
+  return { url: download.url, thumbnailUrl: download.thumbnailUrl };
+};
+
+// The backend attaches the uploaded files to the message, which makes them
+// visible to the other participant
+export const sendMessageWithAttachments = async (
+  client: RealtimeClient,
+  conversationId: string,
+  content: string,
+  attachments: ChatAttachment[]
+): Promise<void> => {
+  await client.request('chat:message', {
+    conversationId,
+    content,
+    attachmentIds: attachments.map(attachment => attachment.id)
+  });
 };
 
 export const sendMessage = async (
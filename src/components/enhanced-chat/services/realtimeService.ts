@@ -5,8 +5,11 @@ import { Message } from '../types';
 export const subscribeToMessages = (
   conversationId: string,
   onMessageInsert: (message: Message) => void,
-  onMessageUpdate: (message: Message) => void
+  onMessageUpdate: (message: Message) => void,
+  onResubscribe?: () => void
 ) => {
+  let disconnected = false;
+
   const transformMessage = (msg: any): Message => ({
     id: msg.id,
     content: msg.content,
@@ -46,7 +49,15 @@ export const subscribeToMessages = (
         onMessageUpdate(transformedMessage);
       }
     )
-    .subscribe();
+    .subscribe((status) => {
+      // Inserts made while the channel was down are not replayed
+      if (status === 'SUBSCRIBED' && disconnected) {
+        disconnected = false;
+        onResubscribe?.();
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        disconnected = true;
+      }
+    });
 
   return () => {
     supabase.removeChannel(channel);
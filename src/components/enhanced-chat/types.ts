@@ -6,10 +6,18 @@ export interface Message {
   sender_id: string;
   is_read: boolean;
   read_at?: string;
-  message_attachments?: any;
+  message_attachments?: { attachments?: ChatAttachment[] } | null;
   created_at: string;
 }
 
+// A scanned file uploaded through the backend, listed on the message's metadata
+export interface ChatAttachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+}
+
 export interface TypingIndicator {
   user_id: string;
   is_typing: boolean;
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { DollarSign, TrendingUp, FileText, AlertTriangle } from 'lucide-react';
+import { DollarSign, TrendingUp, FileText, AlertTriangle, Stethoscope } from 'lucide-react';
 import { useHospitalFinancialData } from './financial/useHospitalFinancialData';
 import { FinancialDashboardCard } from './financial/FinancialDashboardCard';
 
@@ -19,6 +19,7 @@ export const HospitalFinancialManagement: React.FC = () => {
   const getCategoryIcon = (category: string) => {
     switch (category) {
       case 'appointments': return <FileText className="w-4 h-4" />;
+      case 'consultations': return <Stethoscope className="w-4 h-4" />;
       case 'emergency': return <AlertTriangle className="w-4 h-4" />;
       case 'equipment': return <DollarSign className="w-4 h-4" />;
       default: return <TrendingUp className="w-4 h-4" />;
@@ -73,6 +74,11 @@ export const HospitalFinancialManagement: React.FC = () => {
                           <p className="text-sm text-gray-600 capitalize">
                             {transaction.transaction_type} • {transaction.category}
                           </p>
+                          {transaction.metadata?.grossAmount && (
+                            <p className="text-xs text-gray-500">
+                              {formatCurrency(Number(transaction.metadata.grossAmount))} consultation • {transaction.metadata.hospitalSharePercent}% hospital share
+                            </p>
+                          )}
                           <p className="text-xs text-gray-500">
                             {new Date(transaction.transaction_date).toLocaleDateString()}
                           </p>
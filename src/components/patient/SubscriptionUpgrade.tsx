@@ -10,72 +10,36 @@ import { useToast } from '@/hooks/use-toast';
 
 interface SubscriptionPlan {
   id: string;
+  code: string;
   name: string;
-  price: number;
+  amount: number;
   currency: string;
+  paystack_plan_code: string | null;
   features: string[];
-  icon: React.ReactNode;
-  popular?: boolean;
 }
 
 interface UserSubscription {
   id: string;
   plan_name: string;
   status: string;
-  next_payment_date?: string;
-  amount: number;
+  next_payment_date?: string | null;
+  grace_until?: string | null;
+  amount: number | null;
 }
 
-const plans: SubscriptionPlan[] = [
-  {
-    id: 'basic',
-    name: 'Basic',
-    price: 2000,
-    currency: 'NGN',
-    icon: <Star className="w-6 h-6" />,
-    features: [
-      'Basic health consultations',
-      'Appointment booking',
-      'Emergency contacts',
-      'Basic transport booking'
-    ]
-  },
-  {
-    id: 'premium',
-    name: 'Premium',
-    price: 5000,
-    currency: 'NGN',
-    icon: <Crown className="w-6 h-6" />,
-    popular: true,
-    features: [
-      'All Basic features',
-      'Priority consultations',
-      'Advanced health monitoring',
-      'Premium transport options',
-      'Specialist referrals',
-      '24/7 support'
-    ]
-  },
-  {
-    id: 'enterprise',
-    name: 'Enterprise',
-    price: 10000,
-    currency: 'NGN',
-    icon: <Zap className="w-6 h-6" />,
-    features: [
-      'All Premium features',
-      'Family health management',
-      'Corporate health plans',
-      'Custom health reports',
-      'Dedicated account manager',
-      'API access'
-    ]
-  }
-];
+const planIcons: Record<string, React.ReactNode> = {
+  basic: <Star className="w-6 h-6" />,
+  premium: <Crown className="w-6 h-6" />,
+  enterprise: <Zap className="w-6 h-6" />
+};
+
+// Shown as "Most Popular"
+const POPULAR_PLAN = 'premium';
 
 export const SubscriptionUpgrade: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
   const [currentSubscription, setCurrentSubscription] = useState<UserSubscription | null>(null);
   const [loading, setLoading] = useState(true);
   const [processingPlan, setProcessingPlan] = useState<string | null>(null);
@@ -85,22 +49,41 @@ export const SubscriptionUpgrade: React.FC = () => {
 
   useEffect(() => {
     if (user) {
+      fetchPlans();
       fetchCurrentSubscription();
     }
   }, [user]);
 
+  const fetchPlans = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('subscription_plans')
+        .select('*')
+        .eq('is_active', true)
+        .order('sort_order');
+
+      if (error) throw error;
+      setPlans((data || []).map(plan => ({ ...plan, features: plan.features as string[] })));
+    } catch (error) {
+      console.error('Error fetching subscription plans:', error);
+    }
+  };
+
   const fetchCurrentSubscription = async () => {
     if (!user) return;
 
     try {
+      // past_due subscriptions keep working during the grace period
       const { data, error } = await supabase
         .from('subscriptions')
         .select('*')
         .eq('user_id', user.id)
-        .eq('status', 'active')
-        .single();
+        .in('status', ['active', 'past_due', 'non_renewing'])
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
-      if (error && error.code !== 'PGRST116') throw error;
+      if (error) throw error;
       setCurrentSubscription(data);
     } catch (error) {
       console.error('Error fetching subscription:', error);
@@ -112,40 +95,50 @@ export const SubscriptionUpgrade: React.FC = () => {
   const handlePaystackPayment = (plan: SubscriptionPlan) => {
     if (!user) return;
 
+    if (!plan.paystack_plan_code) {
+      toast({
+        title: "Plan unavailable",
+        description: "This plan is not available for purchase yet.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setProcessingPlan(plan.id);
 
-    // Initialize Paystack payment
+    // Paystack creates the recurring subscription from the plan code; renewals
+    // and failed payments reach us through the paystack-webhook function
     const handler = (window as any).PaystackPop.setup({
       key: PAYSTACK_PUBLIC_KEY,
       email: user.email,
-      amount: plan.price * 100, // Paystack expects amount in kobo
+      amount: plan.amount * 100, // Paystack expects amount in kobo
       currency: plan.currency,
-      plan: plan.id, // If you have plan codes in Paystack
+      plan: plan.paystack_plan_code,
+      metadata: { purpose: 'subscription', plan_id: plan.id },
       callback: async (response: any) => {
         console.log('Payment successful:', response);
         
         try {
-          // Save subscription to database
+          // Activated by the subscription.create webhook
           const { error } = await supabase
             .from('subscriptions')
             .insert({
               user_id: user.id,
+              plan_id: plan.id,
               plan_name: plan.name,
-              amount: plan.price,
+              amount: plan.amount,
               currency: plan.currency,
-              status: 'active',
-              paystack_subscription_code: response.reference,
-              next_payment_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString() // 30 days from now
+              status: 'pending'
             });
 
           if (error) throw error;
 
           toast({
-            title: "Subscription Successful!",
-            description: `You have successfully subscribed to the ${plan.name} plan.`,
+            title: "Payment received",
+            description: `Your ${plan.name} subscription will be active in a moment.`,
           });
 
-          fetchCurrentSubscription();
+          setTimeout(fetchCurrentSubscription, 5000);
         } catch (error) {
           console.error('Error saving subscription:', error);
           toast({
@@ -196,14 +189,21 @@ export const SubscriptionUpgrade: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="font-semibold text-green-800">{currentSubscription.plan_name}</h3>
-                <p className="text-green-600">₦{currentSubscription.amount.toLocaleString()}/month</p>
-                {currentSubscription.next_payment_date && (
+                <p className="text-green-600">₦{(currentSubscription.amount ?? 0).toLocaleString()}/month</p>
+                {currentSubscription.status === 'past_due' && currentSubscription.grace_until && (
+                  <p className="text-sm text-red-600">
+                    Renewal failed. Update your card before {new Date(currentSubscription.grace_until).toLocaleDateString()} to keep your plan.
+                  </p>
+                )}
+                {currentSubscription.status === 'active' && currentSubscription.next_payment_date && (
                   <p className="text-sm text-green-600">
                     Next payment: {new Date(currentSubscription.next_payment_date).toLocaleDateString()}
                   </p>
                 )}
               </div>
-              <Badge className="bg-green-100 text-green-800">Active</Badge>
+              <Badge className="bg-green-100 text-green-800">
+                {currentSubscription.status === 'past_due' ? 'Payment due' : currentSubscription.status === 'non_renewing' ? 'Ends at period end' : 'Active'}
+              </Badge>
             </div>
           </CardContent>
         </Card>
@@ -212,8 +212,8 @@ export const SubscriptionUpgrade: React.FC = () => {
       {/* Subscription Plans */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {plans.map((plan) => (
-          <Card key={plan.id} className={`relative ${plan.popular ? 'border-blue-500 shadow-lg' : ''}`}>
-            {plan.popular && (
+          <Card key={plan.id} className={`relative ${plan.code === POPULAR_PLAN ? 'border-blue-500 shadow-lg' : ''}`}>
+            {plan.code === POPULAR_PLAN && (
               <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
                 <Badge className="bg-blue-500 text-white">Most Popular</Badge>
               </div>
@@ -221,11 +221,11 @@ export const SubscriptionUpgrade: React.FC = () => {
             
             <CardHeader className="text-center">
               <div className="flex justify-center mb-2">
-                {plan.icon}
+                {planIcons[plan.code] ?? <Star className="w-6 h-6" />}
               </div>
               <CardTitle>{plan.name}</CardTitle>
               <div className="text-3xl font-bold">
-                ₦{plan.price.toLocaleString()}
+                ₦{Number(plan.amount).toLocaleString()}
                 <span className="text-sm font-normal text-gray-600">/month</span>
               </div>
             </CardHeader>
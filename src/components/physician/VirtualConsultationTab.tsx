@@ -18,6 +18,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { ConsultationSession } from '@/components/consultation/types';
 import { SkeletonLoader } from '@/components/shared/SkeletonLoader';
 import { EnhancedVirtualConsultationRoom } from '@/components/consultation/EnhancedVirtualConsultationRoom';
+import { WaitingRoomQueue } from '@/components/consultation/WaitingRoomQueue';
 import { useRealTimeConsultationUpdates } from '@/components/consultation/hooks/useRealTimeConsultationUpdates';
 import { useScheduledSessionManager } from '@/components/consultation/hooks/useScheduledSessionManager';
 import { usePresenceTracking } from '@/components/consultation/hooks/usePresenceTracking';
@@ -253,6 +254,9 @@ export const PhysicianVirtualConsultationTab: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Patients waiting to be admitted */}
+      <WaitingRoomQueue onAdmitted={setSelectedSession} />
+
       {/* Active Sessions */}
       {activeSessionsToday.length > 0 && (
         <Card>
@@ -0,0 +1,46 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createRealtimeClient, type ConnectionState, type RealtimeClient } from '@/lib/realtimeClient';
+import { SocketContext } from './useSocket';
+
+interface SocketProviderProps {
+  url: string;
+  getAccessToken: () => string | null | Promise<string | null>;
+  refreshAccessToken?: () => Promise<string | null>;
+  children: React.ReactNode;
+}
+
+export const SocketProvider: React.FC<SocketProviderProps> = ({
+  url,
+  getAccessToken,
+  refreshAccessToken,
+  children
+}) => {
+  const [client, setClient] = useState<RealtimeClient | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const tokenRef = useRef({ getAccessToken, refreshAccessToken });
+  tokenRef.current = { getAccessToken, refreshAccessToken };
+
+  useEffect(() => {
+    const realtimeClient = createRealtimeClient({
+      url,
+      getAccessToken: () => tokenRef.current.getAccessToken(),
+      refreshAccessToken: () => tokenRef.current.refreshAccessToken?.() ?? Promise.resolve(null)
+    });
+    const unsubscribe = realtimeClient.onStateChange(setConnectionState);
+
+    setClient(realtimeClient);
+    realtimeClient.connect();
+
+    return () => {
+      unsubscribe();
+      realtimeClient.disconnect();
+      setClient(null);
+    };
+  }, [url]);
+
+  return (
+    <SocketContext.Provider value={{ client, connectionState }}>
+      {children}
+    </SocketContext.Provider>
+  );
+};
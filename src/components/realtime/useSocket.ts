@@ -0,0 +1,36 @@
+import { createContext, useContext, useEffect, useRef } from 'react';
+import type {
+  ConnectionState,
+  RealtimeClient,
+  ServerEventName,
+  ServerToClientEvents
+} from '@/lib/realtimeClient';
+
+interface SocketContextType {
+  client: RealtimeClient | null;
+  connectionState: ConnectionState;
+}
+
+// Provided by SocketProvider
+export const SocketContext = createContext<SocketContextType>({
+  client: null,
+  connectionState: 'disconnected'
+});
+
+export const useSocket = () => useContext(SocketContext);
+
+// Subscribes to a server event for the lifetime of the component; the
+// latest listener is always called, so it need not be memoised
+export const useSocketEvent = <E extends ServerEventName>(event: E, listener: ServerToClientEvents[E]) => {
+  const { client } = useSocket();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    if (!client) return;
+
+    const handler = ((...args: Parameters<ServerToClientEvents[E]>) =>
+      (listenerRef.current as (...params: unknown[]) => void)(...args)) as ServerToClientEvents[E];
+    return client.on(event, handler);
+  }, [client, event]);
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+interface DisputedTransaction {
+  id: string;
+  amount: number;
+  description: string;
+}
+
+interface DisputeTransactionDialogProps {
+  transaction: DisputedTransaction | null;
+  onClose: () => void;
+  onDisputeOpened: () => void;
+}
+
+const DISPUTE_TYPES = [
+  { value: 'double_charge', label: 'I was charged twice' },
+  { value: 'unauthorized_charge', label: "I didn't authorise this" },
+  { value: 'payment_failed', label: 'Paid but the service failed' },
+  { value: 'refund_request', label: 'I want a refund' }
+];
+
+export const DisputeTransactionDialog: React.FC<DisputeTransactionDialogProps> = ({
+  transaction,
+  onClose,
+  onDisputeOpened
+}) => {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [disputeType, setDisputeType] = useState('refund_request');
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [evidence, setEvidence] = useState('');
+
+  const resetForm = () => {
+    setDisputeType('refund_request');
+    setDescription('');
+    setAmount('');
+    setEvidence('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transaction) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.rpc('open_financial_dispute', {
+        transaction_uuid: transaction.id,
+        dispute_type: disputeType,
+        description,
+        disputed_amount: amount ? parseFloat(amount) : undefined,
+        evidence_note: evidence || undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Dispute Submitted",
+        description: "Our team will review your dispute and get back to you.",
+      });
+
+      resetForm();
+      onDisputeOpened();
+      onClose();
+    } catch (error) {
+      console.error('Error opening dispute:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit dispute.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Dispute Transaction</DialogTitle>
+        </DialogHeader>
+        {transaction && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {transaction.description} — ₦{transaction.amount.toLocaleString()}
+            </p>
+
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={disputeType} onValueChange={setDisputeType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISPUTE_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dispute-amount">Amount disputed (optional)</Label>
+              <Input
+                id="dispute-amount"
+                type="number"
+                min="1"
+                max={transaction.amount}
+                placeholder={`Up to ₦${transaction.amount.toLocaleString()}`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dispute-description">What happened?</Label>
+              <Textarea
+                id="dispute-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dispute-evidence">Supporting details (optional)</Label>
+              <Textarea
+                id="dispute-evidence"
+                placeholder="Receipts, reference numbers, times..."
+                value={evidence}
+                onChange={(e) => setEvidence(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading || !description.trim()}>
+                {loading ? 'Submitting...' : 'Submit Dispute'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -9,6 +9,8 @@ import { Wallet, Plus, ArrowUpRight, ArrowDownLeft, Loader2, RefreshCw, AlertCir
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { DisputeTransactionDialog } from './DisputeTransactionDialog';
+import { WalletStatements } from './WalletStatements';
 
 interface WalletData {
   id: string;
@@ -37,6 +39,7 @@ export const FixedDigitalWallet: React.FC = () => {
   const [funding, setFunding] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const [disputedTransaction, setDisputedTransaction] = useState<Transaction | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -475,6 +478,16 @@ export const FixedDigitalWallet: React.FC = () => {
                       <span className="text-xs text-muted-foreground">
                         Bal: {formatCurrency(transaction.balance_after)}
                       </span>
+                      {transaction.status === 'completed' && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => setDisputedTransaction(transaction)}
+                        >
+                          Dispute
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -483,6 +496,14 @@ export const FixedDigitalWallet: React.FC = () => {
           )}
         </CardContent>
       </Card>
+
+      {wallet && <WalletStatements />}
+
+      <DisputeTransactionDialog
+        transaction={disputedTransaction}
+        onClose={() => setDisputedTransaction(null)}
+        onDisputeOpened={fetchTransactions}
+      />
     </div>
   );
 };
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Download, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getEarningsSummary, getWalletStatement } from '@/services/walletService';
+import {
+  downloadEarningsCsv,
+  downloadStatementCsv,
+  printEarningsPdf,
+  printStatementPdf
+} from '@/lib/statementExport';
+
+type ExportFormat = 'csv' | 'pdf';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const monthRange = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year!, monthIndex!, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
+
+export const WalletStatements: React.FC = () => {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const currentYear = new Date().getFullYear();
+  const [month, setMonth] = useState(today().slice(0, 7));
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [year, setYear] = useState(String(currentYear - 1));
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const exportStatement = async (from: string, to: string, format: ExportFormat, key: string) => {
+    setBusy(key);
+    try {
+      const statement = await getWalletStatement(from, to);
+      if (format === 'csv') {
+        downloadStatementCsv(statement);
+      } else {
+        printStatementPdf(statement);
+      }
+    } catch (error) {
+      console.error('Error generating statement:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate statement.",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const exportEarnings = async (format: ExportFormat) => {
+    setBusy(`earnings-${format}`);
+    try {
+      const summary = await getEarningsSummary(Number(year));
+      if (format === 'csv') {
+        downloadEarningsCsv(summary);
+      } else {
+        printEarningsPdf(summary);
+      }
+    } catch (error) {
+      console.error('Error generating earnings summary:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate earnings summary.",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const ExportButtons = ({ prefix, onExport, disabled = false }: {
+    prefix: string;
+    onExport: (format: ExportFormat) => void;
+    disabled?: boolean;
+  }) => (
+    <div className="flex gap-2">
+      {(['pdf', 'csv'] as ExportFormat[]).map((format) => (
+        <Button
+          key={format}
+          variant="outline"
+          size="sm"
+          disabled={disabled || busy !== null}
+          onClick={() => onExport(format)}
+        >
+          {busy === `${prefix}-${format}` ? (
+            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-1" />
+          )}
+          {format.toUpperCase()}
+        </Button>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5" />
+          Statements
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="statement-month">Monthly statement</Label>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              id="statement-month"
+              type="month"
+              value={month}
+              max={today().slice(0, 7)}
+              onChange={(e) => setMonth(e.target.value)}
+              className="w-44"
+            />
+            <ExportButtons
+              prefix="month"
+              disabled={!month}
+              onExport={(format) => {
+                const { from, to } = monthRange(month);
+                exportStatement(from, to, format, `month-${format}`);
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Custom date range</Label>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="date"
+              value={customFrom}
+              max={customTo || today()}
+              onChange={(e) => setCustomFrom(e.target.value)}
+              className="w-40"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={customTo}
+              min={customFrom}
+              max={today()}
+              onChange={(e) => setCustomTo(e.target.value)}
+              className="w-40"
+            />
+            <ExportButtons
+              prefix="range"
+              disabled={!customFrom || !customTo}
+              onExport={(format) => exportStatement(customFrom, customTo, format, `range-${format}`)}
+            />
+          </div>
+        </div>
+
+        {profile?.role === 'physician' && (
+          <div className="space-y-2">
+            <Label>Annual earnings summary</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={year} onValueChange={setYear}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 5 }, (_, index) => String(currentYear - index)).map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ExportButtons prefix="earnings" onExport={exportEarnings} />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
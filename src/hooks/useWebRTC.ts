@@ -2,6 +2,8 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { useRetry } from './useRetry';
+import { useSocket } from '@/components/realtime/useSocket';
+import { getIceServers, restartIce } from '@/lib/iceServers';
 
 export interface WebRTCConnection {
   localStream: MediaStream | null;
@@ -14,6 +16,7 @@ export interface WebRTCConnection {
 
 export const useWebRTC = (roomId: string, isInitiator: boolean = false) => {
   const { toast } = useToast();
+  const { client } = useSocket();
   const [connection, setConnection] = useState<WebRTCConnection>({
     localStream: null,
     remoteStream: null,
@@ -33,15 +36,9 @@ export const useWebRTC = (roomId: string, isInitiator: boolean = false) => {
     { maxRetries: 3, initialDelay: 1000, backoffFactor: 2 }
   );
   
-  const createPeerConnection = useCallback(() => {
-    const config: RTCConfiguration = {
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        { urls: 'stun:stun1.l.google.com:19302' },
-      ],
-    };
-    
-    const pc = new RTCPeerConnection(config);
+  const createPeerConnection = useCallback(async () => {
+    const iceServers = await getIceServers(client, roomId);
+    const pc = new RTCPeerConnection({ iceServers });
     
     pc.onicecandidate = (event) => {
       if (event.candidate) {
@@ -74,8 +71,10 @@ export const useWebRTC = (roomId: string, isInitiator: boolean = false) => {
     };
     
     return pc;
-  }, []);
+  }, [client, roomId]);
   
+  // Restarts ICE with fresh TURN credentials, keeping the local media; the
+  // connection is only rebuilt when the restart itself fails
   const handleReconnect = useCallback(() => {
     console.log('Attempting to reconnect...');
     
@@ -85,7 +84,12 @@ export const useWebRTC = (roomId: string, isInitiator: boolean = false) => {
     
     reconnectTimeoutRef.current = setTimeout(() => {
       executeWithRetry(async () => {
-        await initializeConnection();
+        const pc = peerConnectionRef.current;
+        if (pc && pc.connectionState !== 'closed') {
+          await restartIce(pc, client, roomId);
+        } else {
+          await initializeConnection();
+        }
       }).catch((error) => {
         console.error('Reconnection failed:', error);
         toast({
@@ -95,7 +99,7 @@ export const useWebRTC = (roomId: string, isInitiator: boolean = false) => {
         });
       });
     }, 2000);
-  }, [executeWithRetry, toast]);
+  }, [client, roomId, executeWithRetry, toast]);
   
   const checkConnectionQuality = useCallback(() => {
     if (!peerConnectionRef.current) return;
@@ -148,7 +152,7 @@ export const useWebRTC = (roomId: string, isInitiator: boolean = false) => {
       }));
       
       // Create peer connection
-      const pc = createPeerConnection();
+      const pc = await createPeerConnection();
       peerConnectionRef.current = pc;
       
       // Add local stream to peer connection
@@ -231,6 +231,8 @@ export type Database = {
           appointment_date: string
           appointment_time: string
           appointment_type: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
           consultation_type: string
           created_at: string | null
           hospital_id: string | null
@@ -247,6 +249,8 @@ export type Database = {
           appointment_date: string
           appointment_time: string
           appointment_type?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           consultation_type?: string
           created_at?: string | null
           hospital_id?: string | null
@@ -263,6 +267,8 @@ export type Database = {
           appointment_date?: string
           appointment_time?: string
           appointment_type?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           consultation_type?: string
           created_at?: string | null
           hospital_id?: string | null
@@ -547,6 +553,44 @@ export type Database = {
         }
         Relationships: []
       }
+      dispute_evidence: {
+        Row: {
+          created_at: string
+          dispute_id: string
+          file_url: string | null
+          id: string
+          note: string | null
+          party_role: string
+          submitted_by: string
+        }
+        Insert: {
+          created_at?: string
+          dispute_id: string
+          file_url?: string | null
+          id?: string
+          note?: string | null
+          party_role: string
+          submitted_by: string
+        }
+        Update: {
+          created_at?: string
+          dispute_id?: string
+          file_url?: string | null
+          id?: string
+          note?: string | null
+          party_role?: string
+          submitted_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispute_evidence_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "financial_disputes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           document_name: string
@@ -802,41 +846,65 @@ export type Database = {
       financial_disputes: {
         Row: {
           amount: number | null
+          counterparty_id: string | null
+          counterparty_wallet_id: string | null
           created_at: string
           description: string
           dispute_type: string
+          frozen_amount: number
+          frozen_at: string | null
           id: string
+          resolution_amount: number | null
           resolution_notes: string | null
+          resolution_transaction_id: string | null
+          resolution_type: string | null
           resolved_at: string | null
           resolved_by: string | null
           status: string | null
           transaction_id: string | null
+          updated_at: string
           user_id: string
         }
         Insert: {
           amount?: number | null
+          counterparty_id?: string | null
+          counterparty_wallet_id?: string | null
           created_at?: string
           description: string
           dispute_type: string
+          frozen_amount?: number
+          frozen_at?: string | null
           id?: string
+          resolution_amount?: number | null
           resolution_notes?: string | null
+          resolution_transaction_id?: string | null
+          resolution_type?: string | null
           resolved_at?: string | null
           resolved_by?: string | null
           status?: string | null
           transaction_id?: string | null
+          updated_at?: string
           user_id: string
         }
         Update: {
           amount?: number | null
+          counterparty_id?: string | null
+          counterparty_wallet_id?: string | null
           created_at?: string
           description?: string
           dispute_type?: string
+          frozen_amount?: number
+          frozen_at?: string | null
           id?: string
+          resolution_amount?: number | null
           resolution_notes?: string | null
+          resolution_transaction_id?: string | null
+          resolution_type?: string | null
           resolved_at?: string | null
           resolved_by?: string | null
           status?: string | null
           transaction_id?: string | null
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
@@ -1791,14 +1859,72 @@ export type Database = {
           },
         ]
       }
+      subscription_plans: {
+        Row: {
+          amount: number
+          code: string
+          created_at: string
+          currency: string
+          description: string | null
+          entitlements: Json
+          features: Json
+          id: string
+          interval: string
+          is_active: boolean
+          name: string
+          paystack_plan_code: string | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          code: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          entitlements?: Json
+          features?: Json
+          id?: string
+          interval?: string
+          is_active?: boolean
+          name: string
+          paystack_plan_code?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          code?: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          entitlements?: Json
+          features?: Json
+          id?: string
+          interval?: string
+          is_active?: boolean
+          name?: string
+          paystack_plan_code?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       subscriptions: {
         Row: {
           amount: number | null
+          cancelled_at: string | null
           created_at: string | null
           currency: string | null
+          current_period_end: string | null
+          failed_payment_count: number
+          grace_until: string | null
           id: string
           next_payment_date: string | null
+          paystack_customer_code: string | null
+          paystack_email_token: string | null
           paystack_subscription_code: string | null
+          plan_id: string | null
           plan_name: string
           status: string | null
           updated_at: string | null
@@ -1806,11 +1932,18 @@ export type Database = {
         }
         Insert: {
           amount?: number | null
+          cancelled_at?: string | null
           created_at?: string | null
           currency?: string | null
+          current_period_end?: string | null
+          failed_payment_count?: number
+          grace_until?: string | null
           id?: string
           next_payment_date?: string | null
+          paystack_customer_code?: string | null
+          paystack_email_token?: string | null
           paystack_subscription_code?: string | null
+          plan_id?: string | null
           plan_name: string
           status?: string | null
           updated_at?: string | null
@@ -1818,11 +1951,18 @@ export type Database = {
         }
         Update: {
           amount?: number | null
+          cancelled_at?: string | null
           created_at?: string | null
           currency?: string | null
+          current_period_end?: string | null
+          failed_payment_count?: number
+          grace_until?: string | null
           id?: string
           next_payment_date?: string | null
+          paystack_customer_code?: string | null
+          paystack_email_token?: string | null
           paystack_subscription_code?: string | null
+          plan_id?: string | null
           plan_name?: string
           status?: string | null
           updated_at?: string | null
@@ -2327,10 +2467,26 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_dispute_evidence: {
+        Args: { dispute_uuid: string; note?: string; file_url?: string }
+        Returns: string
+      }
+      apply_subscription_event: {
+        Args: { event_name: string; payload: Json }
+        Returns: undefined
+      }
       calculate_hospital_compliance_score: {
         Args: { hospital_uuid: string }
         Returns: number
       }
+      cancel_appointment_with_refund: {
+        Args: { appointment_uuid: string; reason?: string }
+        Returns: Json
+      }
+      check_entitlement: {
+        Args: { user_uuid: string; feature: string }
+        Returns: Json
+      }
       check_inperson_booking_limit: {
         Args: { patient_uuid: string }
         Returns: {
@@ -2380,6 +2536,10 @@ export type Database = {
         Args: { session_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      freeze_dispute_funds: {
+        Args: { dispute_uuid: string }
+        Returns: Json
+      }
       generate_hospital_analytics: {
         Args: { hospital_uuid: string }
         Returns: undefined
@@ -2422,6 +2582,10 @@ export type Database = {
         Args: { physician_uuid: string }
         Returns: Json
       }
+      get_physician_earnings_summary: {
+        Args: { summary_year: number }
+        Returns: Json
+      }
       get_physician_patients: {
         Args: { physician_uuid: string }
         Returns: {
@@ -2449,6 +2613,10 @@ export type Database = {
         Args: Record<PropertyKey, never> | { user_id: number }
         Returns: string
       }
+      get_wallet_statement: {
+        Args: { start_date: string; end_date: string }
+        Returns: Json
+      }
       is_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
@@ -2457,6 +2625,10 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      is_conversation_participant: {
+        Args: { conversation_id_param: string }
+        Returns: boolean
+      }
       is_hospital_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
@@ -2483,6 +2655,16 @@ export type Database = {
             }
         Returns: string
       }
+      log_dispute_event: {
+        Args: {
+          dispute_uuid: string
+          action: string
+          old_data?: Json
+          new_data?: Json
+          impact?: number
+        }
+        Returns: undefined
+      }
       log_enhanced_audit: {
         Args: {
           user_id_param: string
@@ -2517,6 +2699,16 @@ export type Database = {
         }
         Returns: string
       }
+      open_financial_dispute: {
+        Args: {
+          transaction_uuid: string
+          dispute_type: string
+          description: string
+          disputed_amount?: number
+          evidence_note?: string
+        }
+        Returns: Json
+      }
       process_consultation_payment: {
         Args: {
           session_uuid: string
@@ -2526,6 +2718,15 @@ export type Database = {
         }
         Returns: boolean
       }
+      resolve_financial_dispute: {
+        Args: {
+          dispute_uuid: string
+          resolution: string
+          credit_amount?: number
+          notes?: string
+        }
+        Returns: Json
+      }
       start_consultation_session_secure: {
         Args: { session_uuid: string; user_uuid: string }
         Returns: boolean
@@ -0,0 +1,64 @@
+import type { RealtimeClient } from '@/lib/realtimeClient';
+
+// Used without a backend connection; enough for calls that do not need a relay
+export const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'] },
+];
+
+// Fetch fresh credentials this long before the cached ones expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+interface IceConfiguration {
+  iceServers: RTCIceServer[];
+  expiresAt: string | null;
+  ttlSeconds: number;
+}
+
+const cache = new Map<string, { iceServers: RTCIceServer[]; expiresAt: number }>();
+
+// STUN and short-lived TURN credentials for a consultation session, issued by
+// the backend and cached until shortly before they expire
+export const getIceServers = async (
+  client: RealtimeClient | null,
+  sessionId: string,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<RTCIceServer[]> => {
+  const cached = cache.get(sessionId);
+  if (!refresh && cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cached.iceServers;
+  }
+
+  if (!client || !sessionId) return FALLBACK_ICE_SERVERS;
+
+  try {
+    const response = await client.apiFetch(
+      `/api/consultations/sessions/${encodeURIComponent(sessionId)}/ice-servers`
+    );
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.message || 'Failed to get ICE servers');
+    }
+
+    const { iceServers, expiresAt, ttlSeconds }: IceConfiguration = result.data;
+    cache.set(sessionId, {
+      iceServers,
+      expiresAt: expiresAt ? Date.parse(expiresAt) : Date.now() + ttlSeconds * 1000,
+    });
+    return iceServers;
+  } catch (error) {
+    console.error('Error fetching ICE servers:', error);
+    return FALLBACK_ICE_SERVERS;
+  }
+};
+
+// Restarts ICE on a failed connection with fresh TURN credentials, keeping the
+// media flowing once a new path is found. The negotiationneeded event that
+// follows is where the new offer is sent.
+export const restartIce = async (pc: RTCPeerConnection, client: RealtimeClient | null, sessionId: string) => {
+  const iceServers = await getIceServers(client, sessionId, { refresh: true });
+  if (pc.connectionState === 'closed') return;
+
+  pc.setConfiguration({ ...pc.getConfiguration(), iceServers });
+  pc.restartIce();
+};
@@ -0,0 +1,268 @@
+import { io, type Socket } from 'socket.io-client';
+import type {
+  ClientEventName,
+  ClientEventPayload,
+  ClientToServerEvents,
+  ServerEventName,
+  ServerToClientEvents,
+  SocketAck,
+  SocketErrorPayload
+} from '@realtime-contract';
+
+export type * from '@realtime-contract';
+
+// Events the server acknowledges; the rest are fire-and-forget
+export type RequestEventName = {
+  [E in ClientEventName]: Parameters<ClientToServerEvents[E]> extends [unknown] ? never : E;
+}[ClientEventName];
+
+export type RequestResult<E extends RequestEventName> =
+  NonNullable<Parameters<ClientToServerEvents[E]>[1]> extends (response: SocketAck<infer T>) => void ? T : never;
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'unauthorized';
+
+export interface RealtimeClientOptions {
+  url: string;
+  // Read on every connection attempt, so reconnects use the current token
+  getAccessToken: () => string | null | Promise<string | null>;
+  // Called when the server rejects the token; resolves to null to give up
+  refreshAccessToken?: () => Promise<string | null>;
+  ackTimeoutMs?: number;
+}
+
+const DEFAULT_ACK_TIMEOUT_MS = 10000;
+const RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Handshake rejections that a fresh access token can fix
+const AUTH_ERRORS = ['Authentication token required', 'Invalid authentication token'];
+
+export class RealtimeRequestError extends Error {
+  constructor(
+    public code: SocketErrorPayload['code'] | 'TIMEOUT' | 'DISCONNECTED',
+    message: string,
+    public details?: unknown,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'RealtimeRequestError';
+  }
+}
+
+// Typed client for the Express/Socket.IO backend. Handles authentication,
+// token refresh, reconnecting when an instance drains, and rejoining chat
+// conversations with the cursor of the last message seen.
+export class RealtimeClient {
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents>;
+  private state: ConnectionState = 'disconnected';
+  private stateListeners = new Set<(state: ConnectionState) => void>();
+  // Joined conversations and the cursor of the newest message received
+  private conversations = new Map<string, string | null>();
+  private refreshedToken = false;
+  private retryDelay = RETRY_DELAY_MS;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private options: RealtimeClientOptions) {
+    this.socket = io(options.url, {
+      autoConnect: false,
+      transports: ['websocket'],
+      auth: (callback) => {
+        Promise.resolve(options.getAccessToken())
+          .then((token) => callback({ token }))
+          .catch(() => callback({}));
+      }
+    });
+
+    this.socket.on('connect', () => {
+      this.refreshedToken = false;
+      this.retryDelay = RETRY_DELAY_MS;
+      this.setState('connected');
+      this.rejoinConversations();
+    });
+
+    this.socket.on('disconnect', (reason) => {
+      // Socket.IO reconnects by itself unless the disconnect was deliberate
+      this.setState(reason === 'io client disconnect' ? 'disconnected' : 'connecting');
+      if (reason === 'io server disconnect') {
+        this.scheduleRetry();
+      }
+    });
+
+    this.socket.on('connect_error', (error) => this.handleConnectError(error));
+
+    // The instance is shutting down; move to another one before it drops us
+    this.socket.on('server:draining', () => {
+      this.socket.disconnect();
+      this.setState('connecting');
+      this.socket.connect();
+    });
+
+    this.socket.on('chat:messages', ({ conversationId, nextCursor }) => {
+      this.trackCursor(conversationId, nextCursor);
+    });
+    this.socket.on('chat:history', ({ conversationId, after, nextCursor }) => {
+      if (after) {
+        this.trackCursor(conversationId, nextCursor);
+      }
+    });
+    this.socket.on('chat:message:new', ({ conversationId, cursor }) => {
+      this.trackCursor(conversationId, cursor);
+    });
+  }
+
+  get connectionState() {
+    return this.state;
+  }
+
+  connect() {
+    if (this.socket.connected || this.socket.active) return;
+    this.setState('connecting');
+    this.socket.connect();
+  }
+
+  disconnect() {
+    this.clearRetry();
+    this.socket.disconnect();
+    this.setState('disconnected');
+  }
+
+  onStateChange(listener: (state: ConnectionState) => void) {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  on<E extends ServerEventName>(event: E, listener: ServerToClientEvents[E]) {
+    const socket = this.socket as unknown as Socket;
+    const handler = listener as (...args: unknown[]) => void;
+    socket.on(event as string, handler);
+    return () => {
+      socket.off(event as string, handler);
+    };
+  }
+
+  // Fire-and-forget; failures arrive as `error` events
+  emit<E extends ClientEventName>(event: E, payload: ClientEventPayload<E>) {
+    (this.socket as unknown as Socket).emit(event, payload);
+  }
+
+  // Sends an event and resolves with the server's acknowledgement
+  async request<E extends RequestEventName>(event: E, payload: ClientEventPayload<E>): Promise<RequestResult<E>> {
+    if (!this.socket.connected) {
+      throw new RealtimeRequestError('DISCONNECTED', 'Not connected to the realtime server');
+    }
+
+    let response: SocketAck<RequestResult<E>>;
+    try {
+      response = await (this.socket as unknown as Socket)
+        .timeout(this.options.ackTimeoutMs ?? DEFAULT_ACK_TIMEOUT_MS)
+        .emitWithAck(event, payload);
+    } catch {
+      throw new RealtimeRequestError('TIMEOUT', `No response to ${event}`);
+    }
+
+    if (response.success === false) {
+      const { code, message, details, retryAfterMs } = response.error;
+      throw new RealtimeRequestError(code, message, details, retryAfterMs);
+    }
+    return response.data;
+  }
+
+  // Authenticated HTTP request to the same backend, for uploads too large
+  // to send as socket events
+  async apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const token = await this.options.getAccessToken();
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(new URL(path, this.options.url), { ...init, headers });
+  }
+
+  // Joined conversations are rejoined after every reconnect, receiving
+  // only the messages sent while the client was away
+  async joinConversation(conversationId: string) {
+    const cursor = this.conversations.get(conversationId) ?? null;
+    this.conversations.set(conversationId, cursor);
+
+    if (this.socket.connected) {
+      await this.request('chat:join', { conversationId, ...(cursor ? { after: cursor } : {}) });
+    }
+  }
+
+  async leaveConversation(conversationId: string) {
+    this.conversations.delete(conversationId);
+
+    if (this.socket.connected) {
+      await this.request('chat:leave', { conversationId });
+    }
+  }
+
+  private rejoinConversations() {
+    for (const [conversationId, cursor] of this.conversations) {
+      this.request('chat:join', { conversationId, ...(cursor ? { after: cursor } : {}) })
+        .catch((error) => console.error(`Error rejoining conversation ${conversationId}:`, error));
+    }
+  }
+
+  private trackCursor(conversationId: string, cursor: string | null) {
+    if (cursor && this.conversations.has(conversationId)) {
+      this.conversations.set(conversationId, cursor);
+    }
+  }
+
+  private async handleConnectError(error: Error) {
+    // Transport failures are retried by Socket.IO; rejections by the
+    // server's middleware are not
+    if (this.socket.active) return;
+
+    if (!AUTH_ERRORS.includes(error.message)) {
+      this.scheduleRetry();
+      return;
+    }
+
+    if (this.refreshedToken || !this.options.refreshAccessToken) {
+      this.setState('unauthorized');
+      return;
+    }
+
+    this.refreshedToken = true;
+    try {
+      const token = await this.options.refreshAccessToken();
+      if (!token) {
+        this.setState('unauthorized');
+        return;
+      }
+      this.socket.connect();
+    } catch (refreshError) {
+      console.error('Error refreshing realtime access token:', refreshError);
+      this.setState('unauthorized');
+    }
+  }
+
+  private scheduleRetry() {
+    this.clearRetry();
+    this.setState('connecting');
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.socket.connect();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private setState(state: ConnectionState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+}
+
+export const createRealtimeClient = (options: RealtimeClientOptions) => new RealtimeClient(options);
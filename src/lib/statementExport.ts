@@ -0,0 +1,132 @@
+import type { EarningsSummary, WalletStatement } from '@/services/walletService';
+
+// Statement downloads. CSV is built in the browser; PDF goes through the
+// browser's print dialog ("Save as PDF") from a print-ready page.
+
+const money = (value: number) => Number(value).toFixed(2);
+const day = (value: string) => value.slice(0, 10);
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: Array<Array<string | number>>) =>
+  rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+const escapeHtml = (value: string | number) =>
+  String(value).replace(/[&<>"']/g, (char) => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;'
+  }[char]!));
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// `highlight` lists the body rows (opening/closing balances, totals) shown in bold
+const printDocument = (title: string, header: string[], table: Array<Array<string | number>>, highlight: number[]) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Allow pop-ups to download the PDF');
+  }
+
+  const [columns, ...rows] = table;
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 12px; margin: 32px; color: #111; }
+    h1 { font-size: 18px; margin-bottom: 4px; }
+    p { margin: 2px 0; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 6px; text-align: left; }
+    td.num, th.num { text-align: right; }
+    tr.summary td { font-weight: bold; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  ${header.map(line => `<p>${escapeHtml(line)}</p>`).join('')}
+  <table>
+    <thead><tr>${columns!.map((column, index) => `<th class="${index > 1 ? 'num' : ''}">${escapeHtml(column)}</th>`).join('')}</tr></thead>
+    <tbody>
+      ${rows.map((row, rowIndex) => `<tr class="${highlight.includes(rowIndex) ? 'summary' : ''}">${row
+        .map((cell, index) => `<td class="${index > 1 ? 'num' : ''}">${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}
+    </tbody>
+  </table>
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+const statementTable = (statement: WalletStatement): Array<Array<string | number>> => [
+  ['Date', 'Description', 'Debit', 'Credit', 'Balance'],
+  [day(statement.from), 'Opening balance', '', '', money(statement.opening_balance)],
+  ...statement.entries.map(entry => [
+    day(entry.date),
+    entry.description,
+    entry.debit ? money(entry.debit) : '',
+    entry.credit ? money(entry.credit) : '',
+    money(entry.balance)
+  ]),
+  [day(statement.to), 'Closing balance', money(statement.total_debits), money(statement.total_credits), money(statement.closing_balance)]
+];
+
+const earningsTable = (summary: EarningsSummary): Array<Array<string | number>> => [
+  ['Month', 'Consultations', 'Gross earnings', 'Refunds', 'Net earnings', 'Withdrawals'],
+  ...[...summary.months, { month: 'Total', ...summary.totals }].map(month => [
+    month.month,
+    month.consultations,
+    money(month.gross_earnings),
+    money(month.refunds),
+    money(month.net_earnings),
+    money(month.withdrawals)
+  ])
+];
+
+export const downloadStatementCsv = (statement: WalletStatement) => {
+  downloadFile(toCsv([
+    ['Account holder', statement.account_holder],
+    ['Period', `${day(statement.from)} to ${day(statement.to)}`],
+    ['Currency', statement.currency],
+    [],
+    ...statementTable(statement)
+  ]), `statement-${day(statement.from)}-${day(statement.to)}.csv`, 'text/csv;charset=utf-8');
+};
+
+export const printStatementPdf = (statement: WalletStatement) => {
+  printDocument('Heala Wallet Statement', [
+    `Account holder: ${statement.account_holder}`,
+    `Period: ${day(statement.from)} to ${day(statement.to)}`,
+    `Currency: ${statement.currency}`
+  ], statementTable(statement), [0, statement.entries.length + 1]);
+};
+
+export const downloadEarningsCsv = (summary: EarningsSummary) => {
+  downloadFile(toCsv([
+    ['Account holder', summary.account_holder],
+    ['Year', summary.year],
+    ['Currency', summary.currency],
+    [],
+    ...earningsTable(summary)
+  ]), `earnings-${summary.year}.csv`, 'text/csv;charset=utf-8');
+};
+
+export const printEarningsPdf = (summary: EarningsSummary) => {
+  printDocument(`Heala Annual Earnings Summary ${summary.year}`, [
+    `Physician: ${summary.account_holder}`,
+    `Currency: ${summary.currency}`
+  ], earningsTable(summary), [summary.months.length]);
+};
@@ -56,93 +56,42 @@ export const getWalletTransactions = async (walletId: string): Promise<WalletTra
   }));
 };
 
+// Balance changes go through the database functions, which lock the wallet row
+// so concurrent credits and debits cannot overwrite each other.
 export const creditWallet = async (walletId: string, amount: number, description: string, reference?: string) => {
-  // Get current wallet balance
-  const { data: wallet, error: walletError } = await supabase
-    .from('wallets')
-    .select('balance')
-    .eq('id', walletId)
-    .single();
-
-  if (walletError) throw walletError;
-
-  const newBalance = wallet.balance + amount;
-
-  // Update wallet balance
-  const { error: updateError } = await supabase
-    .from('wallets')
-    .update({ balance: newBalance })
-    .eq('id', walletId);
-
-  if (updateError) throw updateError;
-
-  // Insert transaction record
-  const { data, error } = await supabase
-    .from('wallet_transactions')
-    .insert({
-      wallet_id: walletId,
-      transaction_type: 'credit',
-      amount,
-      balance_after: newBalance,
-      description,
-      reference_id: reference,
-      status: 'completed'
-    })
-    .select()
-    .single();
+  const { data, error } = await supabase.rpc('credit_wallet', {
+    wallet_id_param: walletId,
+    amount_param: amount,
+    description_param: description,
+    reference_param: reference
+  });
 
   if (error) throw error;
   return data;
 };
 
 export const debitWallet = async (walletId: string, amount: number, description: string, reference?: string) => {
-  // Get current wallet balance
-  const { data: wallet, error: walletError } = await supabase
-    .from('wallets')
-    .select('balance')
-    .eq('id', walletId)
-    .single();
-
-  if (walletError) throw walletError;
-
-  if (wallet.balance < amount) {
-    throw new Error('Insufficient balance');
-  }
-
-  const newBalance = wallet.balance - amount;
-
-  // Update wallet balance
-  const { error: updateError } = await supabase
-    .from('wallets')
-    .update({ balance: newBalance })
-    .eq('id', walletId);
-
-  if (updateError) throw updateError;
-
-  // Insert transaction record
-  const { data, error } = await supabase
-    .from('wallet_transactions')
-    .insert({
-      wallet_id: walletId,
-      transaction_type: 'debit',
-      amount,
-      balance_after: newBalance,
-      description,
-      reference_id: reference,
-      status: 'completed'
-    })
-    .select()
-    .single();
+  const { data, error } = await supabase.rpc('debit_wallet', {
+    wallet_id_param: walletId,
+    amount_param: amount,
+    description_param: description,
+    reference_param: reference
+  });
 
   if (error) throw error;
   return data;
 };
 
 export const processConsultationPayment = async (fromWalletId: string, toWalletId: string, amount: number, sessionId: string) => {
-  // This would typically be done in a transaction, but for now we'll do it sequentially
-  await debitWallet(fromWalletId, amount, `Consultation payment - Session ${sessionId}`, sessionId);
-  await creditWallet(toWalletId, amount, `Consultation payment received - Session ${sessionId}`, sessionId);
-  
+  // Both legs are applied in a single database transaction
+  const { error } = await supabase.rpc('transfer_funds', {
+    from_wallet_id: fromWalletId,
+    to_wallet_id: toWalletId,
+    amount_param: amount,
+    description_param: `Consultation payment - Session ${sessionId}`
+  });
+
+  if (error) throw error;
   return true;
 };
 
@@ -169,6 +118,66 @@ export const initiateWithdrawal = async (walletId: string, amount: number, bankD
   }
 };
 
+export interface StatementEntry {
+  date: string;
+  description: string;
+  reference: string | null;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface WalletStatement {
+  account_holder: string;
+  currency: string;
+  from: string;
+  to: string;
+  opening_balance: number;
+  total_credits: number;
+  total_debits: number;
+  closing_balance: number;
+  entries: StatementEntry[];
+  generated_at: string;
+}
+
+export interface EarningsMonth {
+  month: string;
+  consultations: number;
+  gross_earnings: number;
+  refunds: number;
+  net_earnings: number;
+  withdrawals: number;
+}
+
+export interface EarningsSummary {
+  account_holder: string;
+  year: number;
+  currency: string;
+  months: EarningsMonth[];
+  totals: Omit<EarningsMonth, 'month'>;
+  generated_at: string;
+}
+
+// Dates are inclusive YYYY-MM-DD strings
+export const getWalletStatement = async (from: string, to: string): Promise<WalletStatement> => {
+  const { data, error } = await supabase.rpc('get_wallet_statement', {
+    start_date: from,
+    end_date: to
+  });
+
+  if (error) throw error;
+  return data as unknown as WalletStatement;
+};
+
+export const getEarningsSummary = async (year: number): Promise<EarningsSummary> => {
+  const { data, error } = await supabase.rpc('get_physician_earnings_summary', {
+    summary_year: year
+  });
+
+  if (error) throw error;
+  return data as unknown as EarningsSummary;
+};
+
 // Create a namespace object for backwards compatibility
 export const WalletService = {
   getWallet,
@@ -176,5 +185,7 @@ export const WalletService = {
   creditWallet,
   debitWallet,
   processConsultationPayment,
-  initiateWithdrawal
+  initiateWithdrawal,
+  getWalletStatement,
+  getEarningsSummary
 };
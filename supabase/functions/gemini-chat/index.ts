@@ -32,6 +32,20 @@ serve(async (req) => {
     
     if (!user) throw new Error("User not authenticated");
 
+    // The AI assistant is a plan feature
+    const { data: entitlement, error: entitlementError } = await supabaseClient.rpc("check_entitlement", {
+      user_uuid: user.id,
+      feature: "ai_assistant"
+    });
+    if (entitlementError) throw entitlementError;
+
+    if (!entitlement?.allowed) {
+      return new Response(
+        JSON.stringify({ error: "The AI assistant is not included in your plan", code: "ENTITLEMENT_EXCEEDED" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 403 }
+      );
+    }
+
     // Call Deepseek API
     const response = await fetch(
       "https://api.deepseek.com/v1/chat/completions",
@@ -1,6 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
+const MAX_ATTEMPTS = 5
+const SUBSCRIPTION_EVENTS = [
+  'subscription.create',
+  'subscription.not_renew',
+  'subscription.disable',
+  'invoice.update',
+  'invoice.payment_failed'
+]
+
 serve(async (req) => {
   try {
     const signature = req.headers.get('x-paystack-signature')
@@ -18,21 +27,77 @@ serve(async (req) => {
     }
 
     const event = JSON.parse(body)
-    
-    if (event.event === 'charge.success') {
-      const supabase = createClient(
-        Deno.env.get('SUPABASE_URL') ?? '',
-        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-      )
-
-      const { metadata } = event.data
-      if (metadata.purpose === 'wallet_funding') {
-        await supabase.rpc('credit_wallet', {
-          wallet_id_param: metadata.wallet_id,
-          amount_param: event.data.amount / 100,
-          description_param: 'Wallet funding via Paystack',
-          reference_param: event.data.reference
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Record the event first; Paystack retries deliveries
+    const identifier = event.data?.id ?? event.data?.reference ?? event.data?.invoice_code ?? event.data?.subscription_code
+    const eventKey = `paystack:${event.event}:${identifier}`
+    await supabase
+      .from('paystack_webhook_events')
+      .upsert({
+        event_key: eventKey,
+        event: event.event,
+        reference: event.data?.reference,
+        payload: event
+      }, { onConflict: 'event_key', ignoreDuplicates: true })
+
+    const { data: stored } = await supabase
+      .from('paystack_webhook_events')
+      .select('id, status, attempts')
+      .eq('event_key', eventKey)
+      .single()
+
+    // Claim the event so it is only applied once
+    const { data: claimed } = await supabase
+      .from('paystack_webhook_events')
+      .update({ status: 'processing', attempts: (stored?.attempts ?? 0) + 1, updated_at: new Date().toISOString() })
+      .eq('id', stored?.id)
+      .in('status', ['received', 'failed'])
+      .select('id, attempts')
+
+    if (!claimed || claimed.length === 0) {
+      return new Response('Already processed', { status: 200 })
+    }
+
+    try {
+      if (event.event === 'charge.success') {
+        const { metadata } = event.data
+        if (metadata?.purpose === 'wallet_funding') {
+          const { error } = await supabase.rpc('credit_wallet', {
+            wallet_id_param: metadata.wallet_id,
+            amount_param: event.data.amount / 100,
+            description_param: 'Wallet funding via Paystack',
+            reference_param: event.data.reference
+          })
+          if (error) throw error
+        }
+      } else if (SUBSCRIPTION_EVENTS.includes(event.event)) {
+        const { error } = await supabase.rpc('apply_subscription_event', {
+          event_name: event.event,
+          payload: event.data
+        })
+        if (error) throw error
+      }
+
+      await supabase
+        .from('paystack_webhook_events')
+        .update({ status: 'processed', processed_at: new Date().toISOString(), last_error: null })
+        .eq('id', stored?.id)
+    } catch (applyError) {
+      const deadLetter = claimed[0].attempts >= MAX_ATTEMPTS
+      await supabase
+        .from('paystack_webhook_events')
+        .update({
+          status: deadLetter ? 'dead_letter' : 'failed',
+          last_error: applyError instanceof Error ? applyError.message : String(applyError)
         })
+        .eq('id', stored?.id)
+
+      if (!deadLetter) {
+        return new Response('Error', { status: 500 })
       }
     }
 
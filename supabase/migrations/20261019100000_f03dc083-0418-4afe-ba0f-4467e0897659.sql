@@ -0,0 +1,24 @@
+-- Paystack webhook event log so retried deliveries are applied exactly once
+CREATE TABLE IF NOT EXISTS public.paystack_webhook_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_key text NOT NULL UNIQUE,
+  event text NOT NULL,
+  reference text,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'received',
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  processed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_paystack_webhook_events_status ON public.paystack_webhook_events(status);
+
+-- Only the service role (edge functions) writes here; admins can inspect
+ALTER TABLE public.paystack_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view paystack webhook events" ON public.paystack_webhook_events
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
@@ -0,0 +1,174 @@
+-- Refund policy engine: cancellation windows per appointment type and a
+-- refund history for patients and admins
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS cancellation_reason text;
+
+-- Partial refunds need their own payment status
+ALTER TABLE public.consultation_sessions DROP CONSTRAINT IF EXISTS consultation_sessions_payment_status_check;
+ALTER TABLE public.consultation_sessions ADD CONSTRAINT consultation_sessions_payment_status_check
+  CHECK (payment_status IN ('pending', 'paid', 'failed', 'refunded', 'partially_refunded'));
+
+CREATE TABLE IF NOT EXISTS public.refund_policies (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_type text NOT NULL UNIQUE,
+  full_refund_hours_before integer NOT NULL DEFAULT 24,
+  partial_refund_hours_before integer NOT NULL DEFAULT 2,
+  partial_refund_percent numeric(5,2) NOT NULL DEFAULT 50,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.refunds (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  appointment_id uuid REFERENCES public.appointments(id) ON DELETE SET NULL,
+  session_id uuid REFERENCES public.consultation_sessions(id) ON DELETE SET NULL,
+  amount numeric(10,2) NOT NULL,
+  percent numeric(5,2) NOT NULL,
+  trigger text NOT NULL, -- 'cancellation' | 'physician_no_show' | 'zero_duration' | 'manual' | 'card_refund'
+  reason text,
+  status text NOT NULL DEFAULT 'completed', -- 'completed' | 'failed'
+  failure_reason text,
+  processed_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_patient_id ON public.refunds(patient_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_session_id ON public.refunds(session_id);
+
+ALTER TABLE public.refund_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active refund policies" ON public.refund_policies
+FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Admins can manage refund policies" ON public.refund_policies
+FOR ALL USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Patients can view their own refunds" ON public.refunds
+FOR SELECT USING (patient_id = auth.uid());
+
+CREATE POLICY "Admins can view all refunds" ON public.refunds
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Cancel an appointment and return the refundable share of a paid
+-- consultation from the physician's wallet to the patient's wallet
+CREATE OR REPLACE FUNCTION public.cancel_appointment_with_refund(
+  appointment_uuid uuid,
+  reason text DEFAULT NULL
+)
+RETURNS json AS $$
+DECLARE
+  apt RECORD;
+  policy RECORD;
+  session RECORD;
+  hours_before numeric;
+  refund_percent numeric := 0;
+  amount_paid numeric := 0;
+  refund_amount numeric := 0;
+  patient_wallet_id uuid;
+  physician_wallet_id uuid;
+  physician_balance numeric;
+  refund_status text := NULL;
+BEGIN
+  SELECT * INTO apt FROM public.appointments WHERE id = appointment_uuid FOR UPDATE;
+
+  IF apt IS NULL THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM apt.patient_id AND auth.uid() IS DISTINCT FROM apt.physician_id THEN
+    RAISE EXCEPTION 'Not allowed to cancel this appointment';
+  END IF;
+
+  IF apt.status IN ('cancelled', 'completed') THEN
+    RAISE EXCEPTION 'Appointment is already %', apt.status;
+  END IF;
+
+  -- Physician cancellations are always refunded in full
+  IF auth.uid() = apt.physician_id THEN
+    refund_percent := 100;
+  ELSE
+    SELECT * INTO policy FROM public.refund_policies
+    WHERE appointment_type = COALESCE(apt.appointment_type, 'consultation') AND is_active = true;
+
+    hours_before := EXTRACT(EPOCH FROM ((apt.appointment_date::date + apt.appointment_time::time) - now())) / 3600;
+
+    IF hours_before >= COALESCE(policy.full_refund_hours_before, 24) THEN
+      refund_percent := 100;
+    ELSIF hours_before >= COALESCE(policy.partial_refund_hours_before, 2) THEN
+      refund_percent := COALESCE(policy.partial_refund_percent, 50);
+    END IF;
+  END IF;
+
+  UPDATE public.appointments
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = COALESCE(reason, 'No reason provided'),
+      updated_at = now()
+  WHERE id = appointment_uuid;
+
+  SELECT * INTO session FROM public.consultation_sessions
+  WHERE appointment_id = appointment_uuid FOR UPDATE;
+
+  IF session IS NOT NULL THEN
+    UPDATE public.consultation_sessions SET status = 'cancelled', updated_at = now() WHERE id = session.id;
+  END IF;
+
+  IF session IS NOT NULL AND session.payment_status = 'paid' AND refund_percent > 0 THEN
+    SELECT id INTO patient_wallet_id FROM public.wallets WHERE user_id = session.patient_id;
+    SELECT id INTO physician_wallet_id FROM public.wallets WHERE user_id = session.physician_id;
+
+    SELECT COALESCE(SUM(amount), 0) INTO amount_paid FROM public.wallet_transactions
+    WHERE wallet_id = patient_wallet_id AND transaction_type = 'debit' AND reference_id = session.id::text;
+
+    refund_amount := ROUND(amount_paid * refund_percent / 100, 2);
+
+    IF refund_amount > 0 THEN
+      -- Lock both wallets in a stable order
+      PERFORM 1 FROM public.wallets WHERE id IN (patient_wallet_id, physician_wallet_id) ORDER BY id FOR UPDATE;
+      SELECT balance INTO physician_balance FROM public.wallets WHERE id = physician_wallet_id;
+
+      IF physician_balance >= refund_amount THEN
+        UPDATE public.wallets SET balance = balance - refund_amount, updated_at = now() WHERE id = physician_wallet_id;
+        UPDATE public.wallets SET balance = balance + refund_amount, updated_at = now() WHERE id = patient_wallet_id;
+
+        INSERT INTO public.wallet_transactions (wallet_id, transaction_type, amount, balance_after, description, reference_id)
+        VALUES
+          (physician_wallet_id, 'debit', refund_amount, (SELECT balance FROM public.wallets WHERE id = physician_wallet_id), 'Consultation refund', session.id::text),
+          (patient_wallet_id, 'credit', refund_amount, (SELECT balance FROM public.wallets WHERE id = patient_wallet_id), 'Consultation refund', session.id::text);
+
+        UPDATE public.consultation_sessions
+        SET payment_status = CASE WHEN refund_percent = 100 THEN 'refunded' ELSE 'partially_refunded' END,
+            updated_at = now()
+        WHERE id = session.id;
+
+        refund_status := 'completed';
+      ELSE
+        -- Physician has already withdrawn the earnings; support settles it manually
+        refund_status := 'failed';
+      END IF;
+
+      INSERT INTO public.refunds (patient_id, appointment_id, session_id, amount, percent, trigger, reason, status, failure_reason, processed_by)
+      VALUES (
+        session.patient_id, appointment_uuid, session.id, refund_amount, refund_percent, 'cancellation', reason,
+        refund_status, CASE WHEN refund_status = 'failed' THEN 'Insufficient physician balance' END, auth.uid()
+      );
+    END IF;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'refund_percent', refund_percent,
+    'refund_amount', refund_amount,
+    'refund_status', refund_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,201 @@
+-- Subscription plan catalogue, Paystack-driven renewals with a grace period,
+-- and a single entitlement check shared by bookings, virtual consultations
+-- and the AI assistant
+
+CREATE TABLE IF NOT EXISTS public.subscription_plans (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code text NOT NULL UNIQUE,
+  name text NOT NULL,
+  description text,
+  amount numeric(10,2) NOT NULL,
+  currency text NOT NULL DEFAULT 'NGN',
+  interval text NOT NULL DEFAULT 'monthly',
+  paystack_plan_code text UNIQUE,
+  features jsonb NOT NULL DEFAULT '[]',
+  -- -1 means unlimited
+  entitlements jsonb NOT NULL DEFAULT '{"monthlyBookings": 3, "monthlyVirtualConsultations": 1, "aiAssistant": false}',
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.subscription_plans (code, name, amount, features, entitlements, sort_order) VALUES
+  ('basic', 'Basic', 2000,
+   '["Basic health consultations", "Appointment booking", "Emergency contacts", "Basic transport booking"]',
+   '{"monthlyBookings": 3, "monthlyVirtualConsultations": 3, "aiAssistant": true}', 1),
+  ('premium', 'Premium', 5000,
+   '["All Basic features", "Priority consultations", "Advanced health monitoring", "Premium transport options", "Specialist referrals", "24/7 support"]',
+   '{"monthlyBookings": 10, "monthlyVirtualConsultations": 10, "aiAssistant": true}', 2),
+  ('enterprise', 'Enterprise', 10000,
+   '["All Premium features", "Family health management", "Corporate health plans", "Custom health reports", "Dedicated account manager", "API access"]',
+   '{"monthlyBookings": -1, "monthlyVirtualConsultations": -1, "aiAssistant": true}', 3)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS plan_id uuid REFERENCES public.subscription_plans(id),
+  ADD COLUMN IF NOT EXISTS paystack_email_token text,
+  ADD COLUMN IF NOT EXISTS paystack_customer_code text,
+  ADD COLUMN IF NOT EXISTS current_period_end timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS grace_until timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS failed_payment_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamp with time zone;
+
+UPDATE public.subscriptions s
+SET plan_id = p.id
+FROM public.subscription_plans p
+WHERE s.plan_id IS NULL AND lower(s.plan_name) = p.code;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user_status ON public.subscriptions(user_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_paystack_code
+  ON public.subscriptions(paystack_subscription_code) WHERE paystack_subscription_code IS NOT NULL;
+
+ALTER TABLE public.subscription_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active subscription plans" ON public.subscription_plans
+FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Admins can manage subscription plans" ON public.subscription_plans
+FOR ALL USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- The one place that decides what a user's plan allows. A past_due
+-- subscription keeps its plan until grace_until; a non_renewing one until
+-- current_period_end. Everyone else gets the free tier.
+CREATE OR REPLACE FUNCTION public.check_entitlement(user_uuid uuid, feature text)
+RETURNS json AS $$
+DECLARE
+  plan_code text := 'basic';
+  ents jsonb := '{"monthlyBookings": 3, "monthlyVirtualConsultations": 1, "aiAssistant": false}';
+  usage_limit integer;
+  used integer;
+  month_start timestamp with time zone := date_trunc('month', now());
+BEGIN
+  SELECT p.code, ents || p.entitlements INTO plan_code, ents
+  FROM public.subscriptions s
+  JOIN public.subscription_plans p ON p.id = s.plan_id
+  WHERE s.user_id = user_uuid
+    AND (
+      s.status = 'active'
+      OR (s.status = 'past_due' AND s.grace_until > now())
+      OR (s.status = 'non_renewing' AND s.current_period_end > now())
+    )
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF plan_code IS NULL THEN
+    plan_code := 'basic';
+    ents := '{"monthlyBookings": 3, "monthlyVirtualConsultations": 1, "aiAssistant": false}';
+  END IF;
+
+  IF feature = 'ai_assistant' THEN
+    RETURN json_build_object(
+      'feature', feature,
+      'allowed', COALESCE((ents->>'aiAssistant')::boolean, false),
+      'plan_code', plan_code
+    );
+  END IF;
+
+  IF feature = 'booking' THEN
+    usage_limit := (ents->>'monthlyBookings')::integer;
+    SELECT COUNT(*) INTO used FROM public.appointments
+    WHERE patient_id = user_uuid AND created_at >= month_start AND COALESCE(status, '') <> 'cancelled';
+  ELSIF feature = 'virtual_consultation' THEN
+    usage_limit := (ents->>'monthlyVirtualConsultations')::integer;
+    SELECT COUNT(*) INTO used FROM public.consultation_sessions
+    WHERE patient_id = user_uuid AND started_at >= month_start;
+  ELSE
+    RAISE EXCEPTION 'Unknown feature %', feature;
+  END IF;
+
+  RETURN json_build_object(
+    'feature', feature,
+    'allowed', usage_limit = -1 OR used < usage_limit,
+    'plan_code', plan_code,
+    'limit', usage_limit,
+    'used', used,
+    'remaining', CASE WHEN usage_limit = -1 THEN -1 ELSE GREATEST(usage_limit - used, 0) END
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Applies Paystack subscription and invoice webhooks; called by the
+-- paystack-webhook edge function after the event has been claimed
+CREATE OR REPLACE FUNCTION public.apply_subscription_event(event_name text, payload jsonb)
+RETURNS void AS $$
+DECLARE
+  sub_code text := COALESCE(payload->>'subscription_code', payload->'subscription'->>'subscription_code');
+  matched_plan RECORD;
+  matched_user uuid;
+  pending_id uuid;
+BEGIN
+  IF event_name = 'subscription.create' THEN
+    SELECT * INTO matched_plan FROM public.subscription_plans
+    WHERE paystack_plan_code = payload->'plan'->>'plan_code';
+    SELECT id INTO matched_user FROM public.profiles
+    WHERE lower(email) = lower(payload->'customer'->>'email');
+
+    IF matched_plan IS NULL OR matched_user IS NULL THEN
+      RAISE EXCEPTION 'Cannot match Paystack subscription %', sub_code;
+    END IF;
+
+    -- A plan change replaces whatever the user had before
+    UPDATE public.subscriptions
+    SET status = 'cancelled', cancelled_at = now(), updated_at = now()
+    WHERE user_id = matched_user AND status IN ('active', 'past_due', 'non_renewing');
+
+    SELECT id INTO pending_id FROM public.subscriptions
+    WHERE user_id = matched_user AND plan_id = matched_plan.id AND status = 'pending'
+    ORDER BY created_at DESC LIMIT 1;
+
+    IF pending_id IS NULL THEN
+      INSERT INTO public.subscriptions (user_id, plan_id, plan_name, amount, currency, status)
+      VALUES (matched_user, matched_plan.id, matched_plan.name, matched_plan.amount, matched_plan.currency, 'pending')
+      RETURNING id INTO pending_id;
+    END IF;
+
+    UPDATE public.subscriptions
+    SET status = 'active',
+        paystack_subscription_code = sub_code,
+        paystack_email_token = payload->>'email_token',
+        paystack_customer_code = payload->'customer'->>'customer_code',
+        current_period_end = (payload->>'next_payment_date')::timestamptz,
+        next_payment_date = (payload->>'next_payment_date')::timestamptz,
+        updated_at = now()
+    WHERE id = pending_id;
+
+    UPDATE public.profiles SET subscription_plan = matched_plan.code::subscription_plan WHERE id = matched_user;
+
+  ELSIF event_name = 'invoice.update' THEN
+    IF COALESCE((payload->>'paid')::boolean, false) THEN
+      UPDATE public.subscriptions
+      SET status = CASE WHEN status = 'non_renewing' THEN status ELSE 'active' END,
+          current_period_end = COALESCE((payload->'subscription'->>'next_payment_date')::timestamptz, current_period_end),
+          next_payment_date = COALESCE((payload->'subscription'->>'next_payment_date')::timestamptz, next_payment_date),
+          grace_until = NULL,
+          failed_payment_count = 0,
+          updated_at = now()
+      WHERE paystack_subscription_code = sub_code;
+    END IF;
+
+  ELSIF event_name = 'invoice.payment_failed' THEN
+    UPDATE public.subscriptions
+    SET status = 'past_due',
+        grace_until = COALESCE(grace_until, now() + interval '7 days'),
+        failed_payment_count = failed_payment_count + 1,
+        updated_at = now()
+    WHERE paystack_subscription_code = sub_code;
+
+  ELSIF event_name = 'subscription.not_renew' THEN
+    UPDATE public.subscriptions
+    SET status = 'non_renewing', cancelled_at = COALESCE(cancelled_at, now()), updated_at = now()
+    WHERE paystack_subscription_code = sub_code AND status NOT IN ('cancelled', 'expired');
+
+  ELSIF event_name = 'subscription.disable' THEN
+    UPDATE public.subscriptions
+    SET status = 'cancelled', cancelled_at = COALESCE(cancelled_at, now()), updated_at = now()
+    WHERE paystack_subscription_code = sub_code AND status NOT IN ('cancelled', 'expired');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
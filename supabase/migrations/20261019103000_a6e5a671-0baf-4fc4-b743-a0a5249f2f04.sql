@@ -0,0 +1,399 @@
+-- Financial dispute lifecycle: disputes are raised against a specific wallet
+-- transaction, the counterparty's funds can be frozen while both parties
+-- submit evidence, and resolutions post real wallet transactions. Every step
+-- is written to enhanced_audit_logs.
+
+ALTER TABLE public.financial_disputes
+  ADD COLUMN IF NOT EXISTS counterparty_id uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS counterparty_wallet_id uuid REFERENCES public.wallets(id),
+  ADD COLUMN IF NOT EXISTS frozen_amount numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS frozen_at timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS resolution_type text CHECK (resolution_type IN ('refund', 'adjustment')),
+  ADD COLUMN IF NOT EXISTS resolution_amount numeric(10,2),
+  ADD COLUMN IF NOT EXISTS resolution_transaction_id uuid REFERENCES public.wallet_transactions(id),
+  ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone NOT NULL DEFAULT now();
+
+-- Older free-text disputes may not point at a real transaction
+ALTER TABLE public.financial_disputes
+  ADD CONSTRAINT fk_financial_disputes_transaction
+  FOREIGN KEY (transaction_id) REFERENCES public.wallet_transactions(id) ON DELETE SET NULL NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_financial_disputes_transaction_id ON public.financial_disputes(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_financial_disputes_counterparty_id ON public.financial_disputes(counterparty_id);
+
+CREATE TABLE IF NOT EXISTS public.dispute_evidence (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  dispute_id uuid NOT NULL REFERENCES public.financial_disputes(id) ON DELETE CASCADE,
+  submitted_by uuid NOT NULL REFERENCES auth.users(id),
+  party_role text NOT NULL, -- 'patient' | 'counterparty' | 'admin'
+  note text,
+  file_url text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_evidence_dispute_id ON public.dispute_evidence(dispute_id);
+
+ALTER TABLE public.dispute_evidence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Counterparties can view disputes against them" ON public.financial_disputes
+FOR SELECT USING (counterparty_id = auth.uid());
+
+CREATE POLICY "Dispute parties can view evidence" ON public.dispute_evidence
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.financial_disputes d
+    WHERE d.id = dispute_id AND (d.user_id = auth.uid() OR d.counterparty_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Admins can view all dispute evidence" ON public.dispute_evidence
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Shared audit trail entry for every dispute step
+CREATE OR REPLACE FUNCTION public.log_dispute_event(
+  dispute_uuid uuid,
+  action text,
+  old_data jsonb DEFAULT '{}',
+  new_data jsonb DEFAULT '{}',
+  impact numeric DEFAULT 0
+)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO public.enhanced_audit_logs (
+    user_id, action_category, action_type, resource_type, resource_id,
+    old_values, new_values, impact_level, compliance_relevant, financial_impact
+  )
+  VALUES (
+    auth.uid(), 'financial', action, 'financial_dispute', dispute_uuid,
+    old_data, new_data, CASE WHEN impact > 0 THEN 'high' ELSE 'medium' END, true, impact
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Patient opens a dispute against one of their own completed transactions
+CREATE OR REPLACE FUNCTION public.open_financial_dispute(
+  transaction_uuid uuid,
+  dispute_type text,
+  description text,
+  disputed_amount numeric DEFAULT NULL,
+  evidence_note text DEFAULT NULL
+)
+RETURNS json AS $$
+DECLARE
+  txn RECORD;
+  counterparty RECORD;
+  dispute_amount numeric;
+  new_dispute_id uuid;
+BEGIN
+  SELECT t.*, w.user_id AS owner_id INTO txn
+  FROM public.wallet_transactions t
+  JOIN public.wallets w ON w.id = t.wallet_id
+  WHERE t.id = transaction_uuid;
+
+  IF txn IS NULL OR txn.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF txn.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed transactions can be disputed';
+  END IF;
+
+  IF dispute_type NOT IN ('payment_failed', 'double_charge', 'unauthorized_charge', 'refund_request') THEN
+    RAISE EXCEPTION 'Invalid dispute type %', dispute_type;
+  END IF;
+
+  dispute_amount := COALESCE(disputed_amount, txn.amount);
+  IF dispute_amount <= 0 OR dispute_amount > txn.amount THEN
+    RAISE EXCEPTION 'Disputed amount must be between 0 and the transaction amount';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.financial_disputes
+    WHERE transaction_id = transaction_uuid AND status IN ('pending', 'investigating')
+  ) THEN
+    RAISE EXCEPTION 'This transaction already has an open dispute';
+  END IF;
+
+  -- The counterparty took the other side of the same payment
+  SELECT t.wallet_id, w.user_id INTO counterparty
+  FROM public.wallet_transactions t
+  JOIN public.wallets w ON w.id = t.wallet_id
+  WHERE t.reference_id = txn.reference_id
+    AND t.wallet_id <> txn.wallet_id
+    AND t.transaction_type <> txn.transaction_type
+    AND txn.reference_id IS NOT NULL
+  ORDER BY t.amount DESC
+  LIMIT 1;
+
+  INSERT INTO public.financial_disputes (
+    user_id, transaction_id, dispute_type, description, amount, status,
+    counterparty_id, counterparty_wallet_id
+  )
+  VALUES (
+    auth.uid(), transaction_uuid, dispute_type, description, dispute_amount, 'pending',
+    counterparty.user_id, counterparty.wallet_id
+  )
+  RETURNING id INTO new_dispute_id;
+
+  IF evidence_note IS NOT NULL AND length(trim(evidence_note)) > 0 THEN
+    INSERT INTO public.dispute_evidence (dispute_id, submitted_by, party_role, note)
+    VALUES (new_dispute_id, auth.uid(), 'patient', evidence_note);
+  END IF;
+
+  PERFORM public.log_dispute_event(new_dispute_id, 'dispute_opened', '{}'::jsonb,
+    jsonb_build_object('transaction_id', transaction_uuid, 'dispute_type', dispute_type, 'amount', dispute_amount));
+
+  RETURN json_build_object('success', true, 'dispute_id', new_dispute_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Either party, or an admin, attaches evidence while the dispute is open
+CREATE OR REPLACE FUNCTION public.add_dispute_evidence(
+  dispute_uuid uuid,
+  note text DEFAULT NULL,
+  file_url text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  dispute RECORD;
+  role_name text;
+  evidence_id uuid;
+BEGIN
+  SELECT * INTO dispute FROM public.financial_disputes WHERE id = dispute_uuid;
+
+  IF dispute IS NULL THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF auth.uid() = dispute.user_id THEN
+    role_name := 'patient';
+  ELSIF auth.uid() = dispute.counterparty_id THEN
+    role_name := 'counterparty';
+  ELSIF EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    role_name := 'admin';
+  ELSE
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF dispute.status NOT IN ('pending', 'investigating') THEN
+    RAISE EXCEPTION 'Dispute is already %', dispute.status;
+  END IF;
+
+  IF note IS NULL AND file_url IS NULL THEN
+    RAISE EXCEPTION 'Evidence needs a note or a file';
+  END IF;
+
+  INSERT INTO public.dispute_evidence (dispute_id, submitted_by, party_role, note, file_url)
+  VALUES (dispute_uuid, auth.uid(), role_name, note, file_url)
+  RETURNING id INTO evidence_id;
+
+  PERFORM public.log_dispute_event(dispute_uuid, 'dispute_evidence_added', '{}'::jsonb,
+    jsonb_build_object('evidence_id', evidence_id, 'party_role', role_name));
+
+  RETURN evidence_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admin freezes the disputed amount in the counterparty's wallet
+CREATE OR REPLACE FUNCTION public.freeze_dispute_funds(dispute_uuid uuid)
+RETURNS json AS $$
+DECLARE
+  dispute RECORD;
+  received numeric;
+  hold_amount numeric;
+  counterparty_balance numeric;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can freeze dispute funds';
+  END IF;
+
+  SELECT * INTO dispute FROM public.financial_disputes WHERE id = dispute_uuid FOR UPDATE;
+
+  IF dispute IS NULL OR dispute.status NOT IN ('pending', 'investigating') THEN
+    RAISE EXCEPTION 'Dispute is not open';
+  END IF;
+
+  IF dispute.frozen_amount > 0 THEN
+    RAISE EXCEPTION 'Funds are already frozen for this dispute';
+  END IF;
+
+  IF dispute.counterparty_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'This transaction has no counterparty wallet to freeze';
+  END IF;
+
+  SELECT COALESCE(SUM(c.amount), 0) INTO received
+  FROM public.wallet_transactions t
+  JOIN public.wallet_transactions c ON c.reference_id = t.reference_id AND c.wallet_id = dispute.counterparty_wallet_id
+  WHERE t.id = dispute.transaction_id AND c.transaction_type <> t.transaction_type;
+
+  hold_amount := LEAST(dispute.amount, received);
+
+  SELECT balance INTO counterparty_balance FROM public.wallets
+  WHERE id = dispute.counterparty_wallet_id FOR UPDATE;
+
+  IF hold_amount <= 0 OR counterparty_balance < hold_amount THEN
+    RAISE EXCEPTION 'Insufficient counterparty balance to freeze';
+  END IF;
+
+  UPDATE public.wallets SET balance = balance - hold_amount, updated_at = now()
+  WHERE id = dispute.counterparty_wallet_id;
+
+  INSERT INTO public.wallet_transactions (wallet_id, transaction_type, amount, balance_after, description, reference_id, metadata)
+  VALUES (
+    dispute.counterparty_wallet_id, 'debit', hold_amount, counterparty_balance - hold_amount,
+    'Funds frozen pending dispute', dispute_uuid::text, jsonb_build_object('dispute_id', dispute_uuid, 'kind', 'dispute_hold')
+  );
+
+  UPDATE public.financial_disputes
+  SET frozen_amount = hold_amount, frozen_at = now(), status = 'investigating', updated_at = now()
+  WHERE id = dispute_uuid;
+
+  PERFORM public.log_dispute_event(dispute_uuid, 'dispute_funds_frozen',
+    jsonb_build_object('status', dispute.status),
+    jsonb_build_object('status', 'investigating', 'frozen_amount', hold_amount),
+    hold_amount);
+
+  RETURN json_build_object('success', true, 'frozen_amount', hold_amount);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admin closes a dispute. 'refund' moves the amount back from the
+-- counterparty (frozen funds first), 'adjustment' is a platform-funded credit
+-- and 'rejected' just releases any frozen funds.
+CREATE OR REPLACE FUNCTION public.resolve_financial_dispute(
+  dispute_uuid uuid,
+  resolution text,
+  credit_amount numeric DEFAULT NULL,
+  notes text DEFAULT NULL
+)
+RETURNS json AS $$
+DECLARE
+  dispute RECORD;
+  patient_wallet_id uuid;
+  amount_to_credit numeric := 0;
+  from_frozen numeric := 0;
+  from_balance numeric := 0;
+  released numeric := 0;
+  counterparty_balance numeric;
+  credit_id uuid := NULL;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resolve disputes';
+  END IF;
+
+  IF resolution NOT IN ('refund', 'adjustment', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid resolution %', resolution;
+  END IF;
+
+  SELECT * INTO dispute FROM public.financial_disputes WHERE id = dispute_uuid FOR UPDATE;
+
+  IF dispute IS NULL OR dispute.status NOT IN ('pending', 'investigating') THEN
+    RAISE EXCEPTION 'Dispute is not open';
+  END IF;
+
+  IF resolution <> 'rejected' THEN
+    amount_to_credit := ROUND(COALESCE(credit_amount, dispute.amount), 2);
+    IF amount_to_credit <= 0 OR amount_to_credit > dispute.amount THEN
+      RAISE EXCEPTION 'Resolution amount must be between 0 and the disputed amount';
+    END IF;
+  END IF;
+
+  IF resolution = 'refund' AND dispute.counterparty_wallet_id IS NULL THEN
+    RAISE EXCEPTION 'This transaction has no counterparty to refund from; use an adjustment instead';
+  END IF;
+
+  SELECT id INTO patient_wallet_id FROM public.wallets WHERE user_id = dispute.user_id;
+
+  -- Lock both wallets in a stable order
+  PERFORM 1 FROM public.wallets
+  WHERE id IN (patient_wallet_id, dispute.counterparty_wallet_id) ORDER BY id FOR UPDATE;
+
+  IF resolution = 'refund' THEN
+    from_frozen := LEAST(dispute.frozen_amount, amount_to_credit);
+    from_balance := amount_to_credit - from_frozen;
+
+    IF from_balance > 0 THEN
+      SELECT balance INTO counterparty_balance FROM public.wallets WHERE id = dispute.counterparty_wallet_id;
+      IF counterparty_balance < from_balance THEN
+        RAISE EXCEPTION 'Insufficient counterparty balance; freeze the funds or use an adjustment';
+      END IF;
+
+      UPDATE public.wallets SET balance = balance - from_balance, updated_at = now()
+      WHERE id = dispute.counterparty_wallet_id;
+
+      INSERT INTO public.wallet_transactions (wallet_id, transaction_type, amount, balance_after, description, reference_id, metadata)
+      VALUES (
+        dispute.counterparty_wallet_id, 'debit', from_balance,
+        (SELECT balance FROM public.wallets WHERE id = dispute.counterparty_wallet_id),
+        'Dispute refund', dispute_uuid::text, jsonb_build_object('dispute_id', dispute_uuid, 'kind', 'dispute_refund')
+      );
+    END IF;
+  END IF;
+
+  -- Whatever is still frozen goes back to the counterparty
+  released := dispute.frozen_amount - from_frozen;
+  IF released > 0 THEN
+    UPDATE public.wallets SET balance = balance + released, updated_at = now()
+    WHERE id = dispute.counterparty_wallet_id;
+
+    INSERT INTO public.wallet_transactions (wallet_id, transaction_type, amount, balance_after, description, reference_id, metadata)
+    VALUES (
+      dispute.counterparty_wallet_id, 'credit', released,
+      (SELECT balance FROM public.wallets WHERE id = dispute.counterparty_wallet_id),
+      'Frozen dispute funds released', dispute_uuid::text, jsonb_build_object('dispute_id', dispute_uuid, 'kind', 'dispute_release')
+    );
+  END IF;
+
+  IF amount_to_credit > 0 THEN
+    UPDATE public.wallets SET balance = balance + amount_to_credit, updated_at = now()
+    WHERE id = patient_wallet_id;
+
+    INSERT INTO public.wallet_transactions (wallet_id, transaction_type, amount, balance_after, description, reference_id, metadata)
+    VALUES (
+      patient_wallet_id, 'credit', amount_to_credit,
+      (SELECT balance FROM public.wallets WHERE id = patient_wallet_id),
+      CASE WHEN resolution = 'refund' THEN 'Dispute refund' ELSE 'Dispute adjustment' END,
+      dispute_uuid::text, jsonb_build_object('dispute_id', dispute_uuid, 'kind', 'dispute_' || resolution)
+    )
+    RETURNING id INTO credit_id;
+  END IF;
+
+  UPDATE public.financial_disputes
+  SET status = CASE WHEN resolution = 'rejected' THEN 'rejected' ELSE 'resolved' END,
+      resolution_type = CASE WHEN resolution = 'rejected' THEN NULL ELSE resolution END,
+      resolution_amount = CASE WHEN resolution = 'rejected' THEN NULL ELSE amount_to_credit END,
+      resolution_transaction_id = credit_id,
+      resolution_notes = notes,
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      updated_at = now()
+  WHERE id = dispute_uuid;
+
+  PERFORM public.log_dispute_event(dispute_uuid,
+    CASE WHEN resolution = 'rejected' THEN 'dispute_rejected' ELSE 'dispute_resolved' END,
+    jsonb_build_object('status', dispute.status, 'frozen_amount', dispute.frozen_amount),
+    jsonb_build_object('resolution', resolution, 'amount', amount_to_credit, 'released', released,
+      'transaction_id', credit_id, 'notes', notes),
+    amount_to_credit);
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    dispute.user_id,
+    CASE WHEN resolution = 'rejected' THEN 'Dispute closed' ELSE 'Dispute resolved' END,
+    CASE WHEN resolution = 'rejected'
+      THEN 'Your dispute was not upheld' || COALESCE(': ' || notes, '')
+      ELSE 'Your dispute has been resolved and ₦' || amount_to_credit || ' has been credited to your wallet'
+    END,
+    'payment'
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'status', CASE WHEN resolution = 'rejected' THEN 'rejected' ELSE 'resolved' END,
+    'amount', amount_to_credit,
+    'released', released
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,168 @@
+-- Wallet statements for a date range and annual physician earnings summaries.
+-- The client renders both as CSV or PDF.
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_wallet_created
+  ON public.wallet_transactions(wallet_id, created_at);
+
+-- Opening balance, every completed entry in the range with a running
+-- balance, and the closing balance for the caller's wallet
+CREATE OR REPLACE FUNCTION public.get_wallet_statement(
+  start_date date,
+  end_date date
+)
+RETURNS json AS $$
+DECLARE
+  wallet RECORD;
+  opening numeric := 0;
+  result json;
+BEGIN
+  IF end_date < start_date THEN
+    RAISE EXCEPTION 'End date must be on or after the start date';
+  END IF;
+
+  SELECT w.*, COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), p.email) AS account_holder
+  INTO wallet
+  FROM public.wallets w
+  LEFT JOIN public.profiles p ON p.id = w.user_id
+  WHERE w.user_id = auth.uid();
+
+  IF wallet IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  SELECT COALESCE(SUM(CASE WHEN transaction_type = 'credit' THEN amount ELSE -amount END), 0)
+  INTO opening
+  FROM public.wallet_transactions
+  WHERE wallet_id = wallet.id AND status = 'completed' AND created_at < start_date;
+
+  WITH entries AS (
+    SELECT
+      created_at,
+      COALESCE(description, transaction_type) AS description,
+      reference_id,
+      CASE WHEN transaction_type = 'credit' THEN 0 ELSE amount END AS debit,
+      CASE WHEN transaction_type = 'credit' THEN amount ELSE 0 END AS credit,
+      opening + SUM(CASE WHEN transaction_type = 'credit' THEN amount ELSE -amount END)
+        OVER (ORDER BY created_at, id) AS balance
+    FROM public.wallet_transactions
+    WHERE wallet_id = wallet.id
+      AND status = 'completed'
+      AND created_at >= start_date
+      AND created_at < end_date + 1
+  )
+  SELECT json_build_object(
+    'account_holder', wallet.account_holder,
+    'currency', wallet.currency,
+    'from', start_date,
+    'to', end_date,
+    'opening_balance', opening,
+    'total_credits', COALESCE(SUM(credit), 0),
+    'total_debits', COALESCE(SUM(debit), 0),
+    'closing_balance', opening + COALESCE(SUM(credit - debit), 0),
+    'entries', COALESCE(json_agg(json_build_object(
+      'date', created_at,
+      'description', description,
+      'reference', reference_id,
+      'debit', debit,
+      'credit', credit,
+      'balance', balance
+    ) ORDER BY created_at), '[]'::json),
+    'generated_at', now()
+  )
+  INTO result
+  FROM entries;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Month-by-month consultation earnings, refunds and withdrawals for the
+-- calling physician
+CREATE OR REPLACE FUNCTION public.get_physician_earnings_summary(summary_year integer)
+RETURNS json AS $$
+DECLARE
+  wallet RECORD;
+  year_start date := make_date(summary_year, 1, 1);
+  result json;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'physician') THEN
+    RAISE EXCEPTION 'Earnings summaries are only available to physicians';
+  END IF;
+
+  SELECT w.*, COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), p.email) AS account_holder
+  INTO wallet
+  FROM public.wallets w
+  LEFT JOIN public.profiles p ON p.id = w.user_id
+  WHERE w.user_id = auth.uid();
+
+  IF wallet IS NULL THEN
+    RAISE EXCEPTION 'Wallet not found';
+  END IF;
+
+  WITH months AS (
+    SELECT generate_series(year_start, make_date(summary_year, 12, 1), interval '1 month')::date AS month_start
+  ),
+  consultation_entries AS (
+    -- Payments and refunds both reference the consultation session
+    SELECT date_trunc('month', t.created_at)::date AS month_start, t.transaction_type, t.amount
+    FROM public.wallet_transactions t
+    JOIN public.consultation_sessions s ON s.id::text = t.reference_id AND s.physician_id = auth.uid()
+    WHERE t.wallet_id = wallet.id
+      AND t.status = 'completed'
+      AND t.created_at >= year_start
+      AND t.created_at < make_date(summary_year + 1, 1, 1)
+  ),
+  dispute_refunds AS (
+    SELECT date_trunc('month', t.created_at)::date AS month_start, t.amount
+    FROM public.wallet_transactions t
+    WHERE t.wallet_id = wallet.id
+      AND t.status = 'completed'
+      AND t.metadata->>'kind' = 'dispute_refund'
+      AND t.created_at >= year_start
+      AND t.created_at < make_date(summary_year + 1, 1, 1)
+  ),
+  withdrawals AS (
+    SELECT date_trunc('month', COALESCE(w.processed_at, w.created_at))::date AS month_start, w.amount
+    FROM public.withdrawal_requests w
+    WHERE w.user_id = auth.uid()
+      AND w.status NOT IN ('pending', 'rejected')
+      AND COALESCE(w.processed_at, w.created_at) >= year_start
+      AND COALESCE(w.processed_at, w.created_at) < make_date(summary_year + 1, 1, 1)
+  ),
+  summary AS (
+    SELECT
+      to_char(m.month_start, 'YYYY-MM') AS month,
+      (SELECT COUNT(*) FROM consultation_entries c WHERE c.month_start = m.month_start AND c.transaction_type = 'credit') AS consultations,
+      (SELECT COALESCE(SUM(amount), 0) FROM consultation_entries c WHERE c.month_start = m.month_start AND c.transaction_type = 'credit') AS gross_earnings,
+      (SELECT COALESCE(SUM(amount), 0) FROM consultation_entries c WHERE c.month_start = m.month_start AND c.transaction_type = 'debit')
+        + (SELECT COALESCE(SUM(amount), 0) FROM dispute_refunds d WHERE d.month_start = m.month_start) AS refunds,
+      (SELECT COALESCE(SUM(amount), 0) FROM withdrawals w WHERE w.month_start = m.month_start) AS withdrawals
+    FROM months m
+  )
+  SELECT json_build_object(
+    'account_holder', wallet.account_holder,
+    'year', summary_year,
+    'currency', wallet.currency,
+    'months', json_agg(json_build_object(
+      'month', month,
+      'consultations', consultations,
+      'gross_earnings', gross_earnings,
+      'refunds', refunds,
+      'net_earnings', gross_earnings - refunds,
+      'withdrawals', withdrawals
+    ) ORDER BY month),
+    'totals', json_build_object(
+      'consultations', SUM(consultations),
+      'gross_earnings', SUM(gross_earnings),
+      'refunds', SUM(refunds),
+      'net_earnings', SUM(gross_earnings - refunds),
+      'withdrawals', SUM(withdrawals)
+    ),
+    'generated_at', now()
+  )
+  INTO result
+  FROM summary;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,5 @@
+-- Chat history is paged newest-first on (created_at, id), and clients
+-- catch up after a dropped connection from their newest message.
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+  ON public.messages(conversation_id, created_at, id);
@@ -0,0 +1,50 @@
+-- Private bucket for files shared in patient-physician chat. Objects live
+-- under <conversation_id>/<user_id>/ and only the conversation's
+-- participants can read them; clients fetch short-lived signed URLs.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  26214400,
+  ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(conversation_id_param text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id::text = conversation_id_param
+      AND (patient_id = auth.uid() OR physician_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Participants can view chat attachments"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'chat-attachments'
+  AND public.is_conversation_participant((storage.foldername(name))[1])
+);
+
+-- Uploads go into the uploader's own folder within the conversation
+CREATE POLICY "Participants can upload chat attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND public.is_conversation_participant((storage.foldername(name))[1])
+  AND (storage.foldername(name))[2] = auth.uid()::text
+);
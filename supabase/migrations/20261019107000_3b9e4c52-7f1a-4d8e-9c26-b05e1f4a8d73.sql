@@ -0,0 +1,72 @@
+-- Subscription functions are SECURITY DEFINER, so they must not be open to
+-- every API caller. Webhook events are only applied by the paystack-webhook
+-- edge function with the service role, and users may only check their own
+-- entitlements.
+
+REVOKE EXECUTE ON FUNCTION public.apply_subscription_event(text, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_subscription_event(text, jsonb) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.check_entitlement(user_uuid uuid, feature text)
+RETURNS json AS $$
+DECLARE
+  plan_code text := 'basic';
+  ents jsonb := '{"monthlyBookings": 3, "monthlyVirtualConsultations": 1, "aiAssistant": false}';
+  usage_limit integer;
+  used integer;
+  month_start timestamp with time zone := date_trunc('month', now());
+BEGIN
+  -- Edge functions check on a user's behalf with the service role
+  IF auth.role() <> 'service_role' AND user_uuid IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to check entitlements for another user';
+  END IF;
+
+  SELECT p.code, ents || p.entitlements INTO plan_code, ents
+  FROM public.subscriptions s
+  JOIN public.subscription_plans p ON p.id = s.plan_id
+  WHERE s.user_id = user_uuid
+    AND (
+      s.status = 'active'
+      OR (s.status = 'past_due' AND s.grace_until > now())
+      OR (s.status = 'non_renewing' AND s.current_period_end > now())
+    )
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF plan_code IS NULL THEN
+    plan_code := 'basic';
+    ents := '{"monthlyBookings": 3, "monthlyVirtualConsultations": 1, "aiAssistant": false}';
+  END IF;
+
+  IF feature = 'ai_assistant' THEN
+    RETURN json_build_object(
+      'feature', feature,
+      'allowed', COALESCE((ents->>'aiAssistant')::boolean, false),
+      'plan_code', plan_code
+    );
+  END IF;
+
+  IF feature = 'booking' THEN
+    usage_limit := (ents->>'monthlyBookings')::integer;
+    SELECT COUNT(*) INTO used FROM public.appointments
+    WHERE patient_id = user_uuid AND created_at >= month_start AND COALESCE(status, '') <> 'cancelled';
+  ELSIF feature = 'virtual_consultation' THEN
+    usage_limit := (ents->>'monthlyVirtualConsultations')::integer;
+    SELECT COUNT(*) INTO used FROM public.consultation_sessions
+    WHERE patient_id = user_uuid AND started_at >= month_start;
+  ELSE
+    RAISE EXCEPTION 'Unknown feature %', feature;
+  END IF;
+
+  RETURN json_build_object(
+    'feature', feature,
+    'allowed', usage_limit = -1 OR used < usage_limit,
+    'plan_code', plan_code,
+    'limit', usage_limit,
+    'used', used,
+    'remaining', CASE WHEN usage_limit = -1 THEN -1 ELSE GREATEST(usage_limit - used, 0) END
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_entitlement(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.check_entitlement(uuid, text) TO authenticated, service_role;
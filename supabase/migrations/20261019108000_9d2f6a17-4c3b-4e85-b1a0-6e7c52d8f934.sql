@@ -0,0 +1,5 @@
+-- Chat attachments are uploaded through the backend, which virus scans them
+-- before they can be sent. Clients can no longer write to the bucket
+-- directly; files already shared there stay readable to participants.
+
+DROP POLICY IF EXISTS "Participants can upload chat attachments" ON storage.objects;
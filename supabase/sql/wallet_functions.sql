@@ -11,10 +11,11 @@ DECLARE
   new_balance NUMERIC(10,2);
   transaction_id UUID;
 BEGIN
-  -- Get current balance
+  -- Get current balance, locking the row until the transaction ends
   SELECT balance INTO current_balance 
   FROM wallets 
-  WHERE id = wallet_id_param;
+  WHERE id = wallet_id_param
+  FOR UPDATE;
   
   IF current_balance IS NULL THEN
     RAISE EXCEPTION 'Wallet not found';
@@ -58,10 +59,11 @@ DECLARE
   new_balance NUMERIC(10,2);
   transaction_id UUID;
 BEGIN
-  -- Get current balance
+  -- Get current balance, locking the row until the transaction ends
   SELECT balance INTO current_balance 
   FROM wallets 
-  WHERE id = wallet_id_param;
+  WHERE id = wallet_id_param
+  FOR UPDATE;
   
   IF current_balance IS NULL THEN
     RAISE EXCEPTION 'Wallet not found';
@@ -112,7 +114,8 @@ DECLARE
   from_transaction_id UUID;
   to_transaction_id UUID;
 BEGIN
-  -- Get current balances
+  -- Get current balances, locking both rows in a stable order
+  PERFORM 1 FROM wallets WHERE id IN (from_wallet_id, to_wallet_id) ORDER BY id FOR UPDATE;
   SELECT balance INTO from_balance FROM wallets WHERE id = from_wallet_id;
   SELECT balance INTO to_balance FROM wallets WHERE id = to_wallet_id;
   
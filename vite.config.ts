@@ -17,6 +17,7 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@realtime-contract": path.resolve(__dirname, "./healthcare-backend/src/socket/events.ts"),
     },
   },
 }));